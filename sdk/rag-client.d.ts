@@ -29,35 +29,161 @@ export interface RagClientConfig {
     baseUrl?: string;
     timeout?: number;
 }
+export type RetrievalMode = 'dense' | 'sparse' | 'hybrid';
 export interface QueryOptions {
     topK?: number;
     mode?: 'answer' | 'retrieval';
     cacheMode?: 'on' | 'off';
+    /** dense (vector), sparse (BM25) or hybrid; defaults to the server's RETRIEVAL_MODE */
+    retrievalMode?: RetrievalMode;
+    /** false skips the server's reranker; true requires one to be configured */
+    rerank?: boolean;
+    /**
+     * Metadata filter, e.g. `{ docType: 'policy', publishedAt: { $gte: '2024-01-01' } }`.
+     * Operators: $eq $ne $in $nin $gt $gte $lt $lte $exists; combinators: $and $or
+     */
+    filter?: Record<string, unknown>;
+    /**
+     * Conversation session (see createSession): follow-ups are rewritten using
+     * the earlier turns, and the question and answer are added to the session
+     */
+    sessionId?: string;
+    /**
+     * What to do when a sentence of the answer is not supported by its
+     * citations: refuse, regenerate once (then refuse), or off; defaults to the
+     * server's GROUNDING_STRICT
+     */
+    strictGrounding?: 'off' | 'refuse' | 'regenerate';
+    /**
+     * Answer prompt template, `name` (latest version) or `name@version`;
+     * defaults to the tenant's template
+     */
+    promptTemplate?: string;
+}
+/**
+ * How documents are split into chunks (default: the tenant's strategy, else
+ * recursive, 500 characters, 100 overlap)
+ */
+export interface ChunkingOptions {
+    /**
+     * recursive | markdown (split on headings, tables and code blocks kept whole) |
+     * tokens (sizes in tokens) | sentences (whole sentences) | semantic (breaks at topic shifts, no overlap)
+     */
+    strategy?: string;
+    chunkSize?: number;
+    chunkOverlap?: number;
 }
 export interface Citation {
     index: number;
     text: string;
     score: number;
     metadata: Record<string, unknown>;
+    /** First-stage retrieval score, present when the server reranked */
+    vectorScore?: number;
+    rerankScore?: number;
+    /** Pages the passage spans, for PDF sources */
+    pageStart?: number;
+    pageEnd?: number;
+}
+/** Support of each answer sentence by the passages it cites */
+export interface GroundingReport {
+    verifier: 'lexical' | 'llm';
+    /** Mean sentence score, 0-1 */
+    score: number;
+    /** False when any sentence is unsupported */
+    supported: boolean;
+    unsupportedClaims: number;
+    claims: {
+        text: string;
+        citations: number[];
+        score: number;
+        supported: boolean;
+    }[];
+    /** Set when strict grounding replaced the answer */
+    action?: 'regenerated' | 'refused';
+}
+/** How well the retrieved passages (and, for answers, the citations) back a response */
+export interface ConfidenceReport {
+    /** 0-1 */
+    score: number;
+    signals: {
+        topRelevance: number;
+        meanRelevance: number;
+        /** Present when the server reranked */
+        rerank?: number;
+        /** Answers only: share of sentences backed by a citation */
+        citationCoverage?: number;
+    };
+    /** Retrieval confidence below which the server abstains (0: never) */
+    threshold: number;
+    abstained: boolean;
 }
 export interface QueryResult {
     query: string;
     answer: string;
     citations: Citation[];
     cached?: boolean;
+    /** Session queries: the session and the query used for retrieval */
+    sessionId?: string;
+    standaloneQuery?: string;
+    /** Absent when the server's GROUNDING_VERIFIER is off */
+    grounding?: GroundingReport;
+    confidence: ConfidenceReport;
+    /** Prompt template the answer was generated with (absent when abstained) */
+    promptTemplate?: {
+        name: string;
+        version: number;
+    };
+    /** True when the evidence was too weak and the LLM was not asked; the answer says so */
+    abstained?: boolean;
+}
+/** Token counts reported with a streamed answer */
+export interface QueryUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
 }
+/**
+ * Events of a streamed query, in order: retrieval (absent for cached
+ * answers), token deltas, then done. `restart` means the server switched to
+ * a fallback LLM mid-answer or strict grounding replaced the answer: discard
+ * the deltas received so far.
+ */
+export type QueryStreamEvent = {
+    type: 'retrieval';
+    results: RetrievalResult['results'];
+} | {
+    type: 'token';
+    delta: string;
+} | {
+    type: 'restart';
+} | {
+    type: 'done';
+    result: QueryResult & {
+        requestId: string;
+        usage?: QueryUsage;
+    };
+};
 export interface RetrievalResult {
     query: string;
     results: {
         text: string;
         score: number;
         metadata: Record<string, unknown>;
+        vectorScore?: number;
+        rerankScore?: number;
     }[];
+    confidence: ConfidenceReport;
 }
 export interface IngestResult {
     success: boolean;
     source: string;
     chunksProcessed: number;
+    /** skipped: unchanged since the last ingestion; duplicate: new source identical to `duplicateOf`, not stored */
+    status?: 'ingested' | 'replaced' | 'skipped' | 'duplicate';
+    duplicateOf?: string;
+    /** Chunks of the previous version that were removed */
+    chunksDeleted?: number;
 }
 export interface BatchIngestResult {
     success: boolean;
@@ -66,6 +192,78 @@ export interface BatchIngestResult {
     failed: number;
     results: IngestResult[];
 }
+export interface FileIngestResult {
+    success: boolean;
+    total: number;
+    successful: number;
+    failed: number;
+    /** One entry per file; filePath is the uploaded file name */
+    results: {
+        filePath: string;
+        chunksProcessed: number;
+        success: boolean;
+        error?: string;
+        status?: 'ingested' | 'replaced' | 'skipped' | 'duplicate';
+        duplicateOf?: string;
+    }[];
+}
+export interface IngestJob {
+    id: string;
+    status: 'queued' | 'running' | 'completed' | 'failed';
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    total: number;
+    processed: number;
+    succeeded: number;
+    /** Documents unchanged since their last ingestion */
+    skipped: number;
+    /** Documents identical to another source, not stored again */
+    duplicates: number;
+    failed: number;
+    results: {
+        source: string;
+        status: 'pending' | 'succeeded' | 'skipped' | 'duplicate' | 'failed';
+        chunksProcessed?: number;
+        duplicateOf?: string;
+        error?: string;
+    }[];
+}
+export interface DocumentSummary {
+    source: string;
+    chunkCount: number;
+    /** When the current version was stored */
+    ingestedAt?: string;
+    /** Metadata supplied at ingestion (flattened) */
+    metadata: Record<string, string | number | boolean | string[]>;
+}
+export interface StoredDocument extends DocumentSummary {
+    chunks: {
+        id: string;
+        chunkIndex: number;
+        text: string;
+    }[];
+}
+export interface SessionTurn {
+    role: 'user' | 'assistant';
+    content: string;
+    createdAt: string;
+    /** User turns: the question as rewritten for retrieval, when it differs */
+    standaloneQuery?: string;
+    /** Assistant turns: sources of the cited passages */
+    sources?: string[];
+}
+export interface Session {
+    id: string;
+    tenantId: string;
+    namespace: string;
+    createdAt: string;
+    updatedAt: string;
+    /** The session is removed after this time unless another turn is added */
+    expiresAt: string;
+    /** Oldest first */
+    turns: SessionTurn[];
+}
 export interface UsageStats {
     minute: {
         count: number;
@@ -96,24 +294,105 @@ export declare class RagClient {
      * Query the RAG system for an answer
      */
     query(question: string, options?: QueryOptions): Promise<QueryResult>;
+    /**
+     * Query with the answer streamed as it is generated (Server-Sent Events)
+     *
+     * ```typescript
+     * for await (const event of rag.queryStream('What is the notice period?')) {
+     *   if (event.type === 'token') process.stdout.write(event.delta);
+     * }
+     * ```
+     */
+    queryStream(question: string, options?: Omit<QueryOptions, 'mode'>): AsyncGenerator<QueryStreamEvent>;
     /**
      * Retrieve relevant passages without generating an answer
      */
-    retrieve(question: string, options?: {
-        topK?: number;
-    }): Promise<RetrievalResult>;
+    retrieve(question: string, options?: Pick<QueryOptions, 'topK' | 'retrievalMode' | 'rerank' | 'filter'>): Promise<RetrievalResult>;
     /**
      * Ingest text content into the knowledge base
+     *
+     * `metadata` is stored with every chunk and returned in results and
+     * citations; nested objects come back flattened (`{ author: { name } }` → `author.name`)
      */
-    ingest(text: string, source: string, metadata?: Record<string, unknown>): Promise<IngestResult>;
+    ingest(text: string, source: string, metadata?: Record<string, unknown>, chunking?: ChunkingOptions): Promise<IngestResult>;
     /**
-     * Batch ingest multiple documents
+     * Batch ingest multiple documents, waiting for all of them in one request
+     * @deprecated Large batches can time out; use createIngestJob and getIngestJob
      */
     ingestBatch(documents: Array<{
         text: string;
         source: string;
         metadata?: Record<string, unknown>;
-    }>): Promise<BatchIngestResult>;
+    }>, chunking?: ChunkingOptions): Promise<BatchIngestResult>;
+    /**
+     * Queue documents for background ingestion; poll with getIngestJob
+     */
+    createIngestJob(documents: Array<{
+        text: string;
+        source: string;
+        metadata?: Record<string, unknown>;
+    }>, chunking?: ChunkingOptions): Promise<{
+        jobId: string;
+        status: IngestJob['status'];
+        total: number;
+        statusUrl: string;
+    }>;
+    /**
+     * Progress and per-document results of an ingestion job
+     */
+    getIngestJob(jobId: string): Promise<IngestJob>;
+    /**
+     * Upload files (up to 10, 10MB each) and ingest them: PDF, Markdown, TXT,
+     * HTML, DOCX, CSV, JSON and JSONL
+     *
+     * `data` is a Blob or File (Node 18+ and browsers); `metadata` is stored
+     * with every chunk of every file; `fields` limits JSON/JSONL records to
+     * the given dotted paths and `chunking` selects how text is split
+     */
+    ingestFiles(files: Array<{
+        name: string;
+        data: Blob;
+    }>, metadata?: Record<string, unknown>, options?: {
+        fields?: string[];
+        chunking?: ChunkingOptions;
+    }): Promise<FileIngestResult>;
+    /**
+     * List ingested documents, optionally only sources starting with `prefix`
+     */
+    listDocuments(prefix?: string): Promise<DocumentSummary[]>;
+    /**
+     * A document's metadata and chunks; null when the source is not stored
+     */
+    getDocument(source: string): Promise<StoredDocument | null>;
+    /**
+     * Replace a document (or create it) from new text; unchanged content is skipped
+     * @throws RagClientError with status 409 when a new document duplicates another source
+     */
+    replaceDocument(source: string, text: string, metadata?: Record<string, unknown>, chunking?: ChunkingOptions): Promise<IngestResult>;
+    /**
+     * Delete a single document
+     * @returns Number of chunks deleted, or 0 when the source was not stored
+     */
+    deleteDocument(source: string): Promise<number>;
+    /**
+     * Start a conversation; pass its id as `sessionId` to query()
+     *
+     * ```typescript
+     * const { id } = await rag.createSession();
+     * await rag.query("What are the tenant's repair obligations?", { sessionId: id });
+     * await rag.query("What about the landlord's?", { sessionId: id });
+     * ```
+     */
+    createSession(): Promise<Session>;
+    /**
+     * A session with its turns; null when it does not exist or expired
+     */
+    getSession(sessionId: string): Promise<Session | null>;
+    /**
+     * End a conversation
+     * @returns False when the session did not exist
+     */
+    deleteSession(sessionId: string): Promise<boolean>;
     /**
      * Delete all documents (re-index)
      */
@@ -60,14 +60,16 @@ export class RagClient {
         }
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        // Multipart bodies set their own Content-Type (with the boundary)
+        const isForm = typeof FormData !== 'undefined' && body instanceof FormData;
         try {
             const response = await fetch(url.toString(), {
                 method,
                 headers: {
-                    'Content-Type': 'application/json',
+                    ...(!isForm && { 'Content-Type': 'application/json' }),
                     'Authorization': `Bearer ${this.apiKey}`,
                 },
-                body: body ? JSON.stringify(body) : undefined,
+                body: isForm ? body : body ? JSON.stringify(body) : undefined,
                 signal: controller.signal,
             });
             clearTimeout(timeoutId);
@@ -92,7 +94,16 @@ export class RagClient {
      * Query the RAG system for an answer
      */
     async query(question, options = {}) {
-        const response = await this.request('POST', '/query', { query: question, topK: options.topK || 5 }, {
+        const response = await this.request('POST', '/query', {
+            query: question,
+            topK: options.topK || 5,
+            retrievalMode: options.retrievalMode,
+            rerank: options.rerank,
+            filter: options.filter,
+            sessionId: options.sessionId,
+            strictGrounding: options.strictGrounding,
+            promptTemplate: options.promptTemplate,
+        }, {
             mode: options.mode || 'answer',
             cacheMode: options.cacheMode || 'on',
         });
@@ -101,27 +112,251 @@ export class RagClient {
             cached: response._cached,
         };
     }
+    /**
+     * Query with the answer streamed as it is generated (Server-Sent Events)
+     *
+     * ```typescript
+     * for await (const event of rag.queryStream('What is the notice period?')) {
+     *   if (event.type === 'token') process.stdout.write(event.delta);
+     * }
+     * ```
+     */
+    async *queryStream(question, options = {}) {
+        const url = new URL('/query', this.baseUrl);
+        url.searchParams.set('stream', 'true');
+        url.searchParams.set('cacheMode', options.cacheMode || 'on');
+        // The timeout covers the wait for the response to start, not the whole stream
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+        let response;
+        try {
+            response = await fetch(url.toString(), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${this.apiKey}`,
+                },
+                body: JSON.stringify({
+                    query: question,
+                    topK: options.topK || 5,
+                    retrievalMode: options.retrievalMode,
+                    rerank: options.rerank,
+                    filter: options.filter,
+                    sessionId: options.sessionId,
+                    strictGrounding: options.strictGrounding,
+                    promptTemplate: options.promptTemplate,
+                }),
+                signal: controller.signal,
+            });
+        }
+        catch (error) {
+            if (error.name === 'AbortError') {
+                throw new RagClientError('Request timeout', 408, 'TIMEOUT');
+            }
+            throw new RagClientError(error.message || 'Network error', 0, 'NETWORK_ERROR');
+        }
+        finally {
+            clearTimeout(timeoutId);
+        }
+        if (!response.ok || !response.body) {
+            const data = await response.json().catch(() => ({}));
+            throw new RagClientError(data.error?.message || 'Request failed', response.status, data.error?.code);
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done });
+            let boundary;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+                const raw = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+                let event = 'message';
+                let data = '';
+                for (const line of raw.split('\n')) {
+                    if (line.startsWith('event: '))
+                        event = line.slice(7);
+                    else if (line.startsWith('data: '))
+                        data += line.slice(6);
+                }
+                if (!data)
+                    continue; // keep-alive comment
+                const payload = JSON.parse(data);
+                if (event === 'error') {
+                    throw new RagClientError(payload.error?.message || 'Stream failed', payload.status || 500, payload.error?.code);
+                }
+                if (event === 'retrieval')
+                    yield { type: 'retrieval', results: payload.results };
+                else if (event === 'token')
+                    yield { type: 'token', delta: payload.delta };
+                else if (event === 'restart')
+                    yield { type: 'restart' };
+                else if (event === 'done') {
+                    const { _cached, _semantic_cached, ...result } = payload;
+                    yield { type: 'done', result: { ...result, cached: Boolean(_cached || _semantic_cached) } };
+                }
+            }
+            if (done)
+                return;
+        }
+    }
     /**
      * Retrieve relevant passages without generating an answer
      */
     async retrieve(question, options = {}) {
-        const response = await this.request('POST', '/query', { query: question, topK: options.topK || 5 }, { mode: 'retrieval' });
+        const response = await this.request('POST', '/query', {
+            query: question,
+            topK: options.topK || 5,
+            retrievalMode: options.retrievalMode,
+            rerank: options.rerank,
+            filter: options.filter,
+        }, { mode: 'retrieval' });
         return response.data;
     }
     /**
      * Ingest text content into the knowledge base
+     *
+     * `metadata` is stored with every chunk and returned in results and
+     * citations; nested objects come back flattened (`{ author: { name } }` → `author.name`)
+     */
+    async ingest(text, source, metadata, chunking) {
+        const response = await this.request('POST', '/ingest/text', { text, source, metadata, chunking });
+        return response.data;
+    }
+    /**
+     * Batch ingest multiple documents, waiting for all of them in one request
+     * @deprecated Large batches can time out; use createIngestJob and getIngestJob
      */
-    async ingest(text, source, metadata) {
-        const response = await this.request('POST', '/ingest/text', { text, source, metadata });
+    async ingestBatch(documents, chunking) {
+        const response = await this.request('POST', '/ingest/batch', { documents, chunking });
         return response.data;
     }
     /**
-     * Batch ingest multiple documents
+     * Queue documents for background ingestion; poll with getIngestJob
      */
-    async ingestBatch(documents) {
-        const response = await this.request('POST', '/ingest/batch', { documents });
+    async createIngestJob(documents, chunking) {
+        const response = await this.request('POST', '/ingest/jobs', { documents, chunking });
         return response.data;
     }
+    /**
+     * Progress and per-document results of an ingestion job
+     */
+    async getIngestJob(jobId) {
+        const response = await this.request('GET', `/ingest/jobs/${encodeURIComponent(jobId)}`);
+        return response.data;
+    }
+    /**
+     * Upload files (up to 10, 10MB each) and ingest them: PDF, Markdown, TXT,
+     * HTML, DOCX, CSV, JSON and JSONL
+     *
+     * `data` is a Blob or File (Node 18+ and browsers); `metadata` is stored
+     * with every chunk of every file; `fields` limits JSON/JSONL records to
+     * the given dotted paths and `chunking` selects how text is split
+     */
+    async ingestFiles(files, metadata, options = {}) {
+        const form = new FormData();
+        for (const file of files) {
+            form.append('files', file.data, file.name);
+        }
+        if (metadata) {
+            form.append('metadata', JSON.stringify(metadata));
+        }
+        if (options.fields?.length) {
+            form.append('fields', options.fields.join(','));
+        }
+        if (options.chunking) {
+            form.append('chunking', JSON.stringify(options.chunking));
+        }
+        const response = await this.request('POST', '/ingest/file', form);
+        return response.data;
+    }
+    /**
+     * List ingested documents, optionally only sources starting with `prefix`
+     */
+    async listDocuments(prefix) {
+        const response = await this.request('GET', '/documents', undefined, prefix ? { prefix } : undefined);
+        return response.data.documents;
+    }
+    /**
+     * A document's metadata and chunks; null when the source is not stored
+     */
+    async getDocument(source) {
+        try {
+            const response = await this.request('GET', `/documents/${encodeURIComponent(source)}`);
+            return response.data;
+        }
+        catch (error) {
+            if (error instanceof RagClientError && error.status === 404)
+                return null;
+            throw error;
+        }
+    }
+    /**
+     * Replace a document (or create it) from new text; unchanged content is skipped
+     * @throws RagClientError with status 409 when a new document duplicates another source
+     */
+    async replaceDocument(source, text, metadata, chunking) {
+        const response = await this.request('PUT', `/documents/${encodeURIComponent(source)}`, { text, metadata, chunking });
+        return response.data;
+    }
+    /**
+     * Delete a single document
+     * @returns Number of chunks deleted, or 0 when the source was not stored
+     */
+    async deleteDocument(source) {
+        try {
+            const response = await this.request('DELETE', `/documents/${encodeURIComponent(source)}`);
+            return response.data.chunksDeleted;
+        }
+        catch (error) {
+            if (error instanceof RagClientError && error.status === 404)
+                return 0;
+            throw error;
+        }
+    }
+    /**
+     * Start a conversation; pass its id as `sessionId` to query()
+     *
+     * ```typescript
+     * const { id } = await rag.createSession();
+     * await rag.query("What are the tenant's repair obligations?", { sessionId: id });
+     * await rag.query("What about the landlord's?", { sessionId: id });
+     * ```
+     */
+    async createSession() {
+        const response = await this.request('POST', '/sessions');
+        return response.data;
+    }
+    /**
+     * A session with its turns; null when it does not exist or expired
+     */
+    async getSession(sessionId) {
+        try {
+            const response = await this.request('GET', `/sessions/${encodeURIComponent(sessionId)}`);
+            return response.data;
+        }
+        catch (error) {
+            if (error instanceof RagClientError && error.status === 404)
+                return null;
+            throw error;
+        }
+    }
+    /**
+     * End a conversation
+     * @returns False when the session did not exist
+     */
+    async deleteSession(sessionId) {
+        try {
+            await this.request('DELETE', `/sessions/${encodeURIComponent(sessionId)}`);
+            return true;
+        }
+        catch (error) {
+            if (error instanceof RagClientError && error.status === 404)
+                return false;
+            throw error;
+        }
+    }
     /**
      * Delete all documents (re-index)
      */
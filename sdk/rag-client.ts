@@ -31,10 +31,51 @@ export interface RagClientConfig {
   timeout?: number;
 }
 
+export type RetrievalMode = 'dense' | 'sparse' | 'hybrid';
+
 export interface QueryOptions {
   topK?: number;
   mode?: 'answer' | 'retrieval';
   cacheMode?: 'on' | 'off';
+  /** dense (vector), sparse (BM25) or hybrid; defaults to the server's RETRIEVAL_MODE */
+  retrievalMode?: RetrievalMode;
+  /** false skips the server's reranker; true requires one to be configured */
+  rerank?: boolean;
+  /**
+   * Metadata filter, e.g. `{ docType: 'policy', publishedAt: { $gte: '2024-01-01' } }`.
+   * Operators: $eq $ne $in $nin $gt $gte $lt $lte $exists; combinators: $and $or
+   */
+  filter?: Record<string, unknown>;
+  /**
+   * Conversation session (see createSession): follow-ups are rewritten using
+   * the earlier turns, and the question and answer are added to the session
+   */
+  sessionId?: string;
+  /**
+   * What to do when a sentence of the answer is not supported by its
+   * citations: refuse, regenerate once (then refuse), or off; defaults to the
+   * server's GROUNDING_STRICT
+   */
+  strictGrounding?: 'off' | 'refuse' | 'regenerate';
+  /**
+   * Answer prompt template, `name` (latest version) or `name@version`;
+   * defaults to the tenant's template
+   */
+  promptTemplate?: string;
+}
+
+/**
+ * How documents are split into chunks (default: the tenant's strategy, else
+ * recursive, 500 characters, 100 overlap)
+ */
+export interface ChunkingOptions {
+  /**
+   * recursive | markdown (split on headings, tables and code blocks kept whole) |
+   * tokens (sizes in tokens) | sentences (whole sentences) | semantic (breaks at topic shifts, no overlap)
+   */
+  strategy?: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
 }
 
 export interface Citation {
@@ -42,6 +83,42 @@ export interface Citation {
   text: string;
   score: number;
   metadata: Record<string, unknown>;
+  /** First-stage retrieval score, present when the server reranked */
+  vectorScore?: number;
+  rerankScore?: number;
+  /** Pages the passage spans, for PDF sources */
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+/** Support of each answer sentence by the passages it cites */
+export interface GroundingReport {
+  verifier: 'lexical' | 'llm';
+  /** Mean sentence score, 0-1 */
+  score: number;
+  /** False when any sentence is unsupported */
+  supported: boolean;
+  unsupportedClaims: number;
+  claims: { text: string; citations: number[]; score: number; supported: boolean }[];
+  /** Set when strict grounding replaced the answer */
+  action?: 'regenerated' | 'refused';
+}
+
+/** How well the retrieved passages (and, for answers, the citations) back a response */
+export interface ConfidenceReport {
+  /** 0-1 */
+  score: number;
+  signals: {
+    topRelevance: number;
+    meanRelevance: number;
+    /** Present when the server reranked */
+    rerank?: number;
+    /** Answers only: share of sentences backed by a citation */
+    citationCoverage?: number;
+  };
+  /** Retrieval confidence below which the server abstains (0: never) */
+  threshold: number;
+  abstained: boolean;
 }
 
 export interface QueryResult {
@@ -49,21 +126,58 @@ export interface QueryResult {
   answer: string;
   citations: Citation[];
   cached?: boolean;
+  /** Session queries: the session and the query used for retrieval */
+  sessionId?: string;
+  standaloneQuery?: string;
+  /** Absent when the server's GROUNDING_VERIFIER is off */
+  grounding?: GroundingReport;
+  confidence: ConfidenceReport;
+  /** Prompt template the answer was generated with (absent when abstained) */
+  promptTemplate?: { name: string; version: number };
+  /** True when the evidence was too weak and the LLM was not asked; the answer says so */
+  abstained?: boolean;
+}
+
+/** Token counts reported with a streamed answer */
+export interface QueryUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
+/**
+ * Events of a streamed query, in order: retrieval (absent for cached
+ * answers), token deltas, then done. `restart` means the server switched to
+ * a fallback LLM mid-answer or strict grounding replaced the answer: discard
+ * the deltas received so far.
+ */
+export type QueryStreamEvent =
+  | { type: 'retrieval'; results: RetrievalResult['results'] }
+  | { type: 'token'; delta: string }
+  | { type: 'restart' }
+  | { type: 'done'; result: QueryResult & { requestId: string; usage?: QueryUsage } };
+
 export interface RetrievalResult {
   query: string;
   results: {
     text: string;
     score: number;
     metadata: Record<string, unknown>;
+    vectorScore?: number;
+    rerankScore?: number;
   }[];
+  confidence: ConfidenceReport;
 }
 
 export interface IngestResult {
   success: boolean;
   source: string;
   chunksProcessed: number;
+  /** skipped: unchanged since the last ingestion; duplicate: new source identical to `duplicateOf`, not stored */
+  status?: 'ingested' | 'replaced' | 'skipped' | 'duplicate';
+  duplicateOf?: string;
+  /** Chunks of the previous version that were removed */
+  chunksDeleted?: number;
 }
 
 export interface BatchIngestResult {
@@ -74,6 +188,80 @@ export interface BatchIngestResult {
   results: IngestResult[];
 }
 
+export interface FileIngestResult {
+  success: boolean;
+  total: number;
+  successful: number;
+  failed: number;
+  /** One entry per file; filePath is the uploaded file name */
+  results: {
+    filePath: string;
+    chunksProcessed: number;
+    success: boolean;
+    error?: string;
+    status?: 'ingested' | 'replaced' | 'skipped' | 'duplicate';
+    duplicateOf?: string;
+  }[];
+}
+
+export interface IngestJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  total: number;
+  processed: number;
+  succeeded: number;
+  /** Documents unchanged since their last ingestion */
+  skipped: number;
+  /** Documents identical to another source, not stored again */
+  duplicates: number;
+  failed: number;
+  results: {
+    source: string;
+    status: 'pending' | 'succeeded' | 'skipped' | 'duplicate' | 'failed';
+    chunksProcessed?: number;
+    duplicateOf?: string;
+    error?: string;
+  }[];
+}
+
+export interface DocumentSummary {
+  source: string;
+  chunkCount: number;
+  /** When the current version was stored */
+  ingestedAt?: string;
+  /** Metadata supplied at ingestion (flattened) */
+  metadata: Record<string, string | number | boolean | string[]>;
+}
+
+export interface StoredDocument extends DocumentSummary {
+  chunks: { id: string; chunkIndex: number; text: string }[];
+}
+
+export interface SessionTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  /** User turns: the question as rewritten for retrieval, when it differs */
+  standaloneQuery?: string;
+  /** Assistant turns: sources of the cited passages */
+  sources?: string[];
+}
+
+export interface Session {
+  id: string;
+  tenantId: string;
+  namespace: string;
+  createdAt: string;
+  updatedAt: string;
+  /** The session is removed after this time unless another turn is added */
+  expiresAt: string;
+  /** Oldest first */
+  turns: SessionTurn[];
+}
+
 export interface UsageStats {
   minute: { count: number; limit: number; remaining: number };
   day: { count: number; limit: number; remaining: number };
@@ -127,14 +315,17 @@ export class RagClient {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
     
+    // Multipart bodies set their own Content-Type (with the boundary)
+    const isForm = typeof FormData !== 'undefined' && body instanceof FormData;
+    
     try {
       const response = await fetch(url.toString(), {
         method,
         headers: {
-          'Content-Type': 'application/json',
+          ...(!isForm && { 'Content-Type': 'application/json' }),
           'Authorization': `Bearer ${this.apiKey}`,
         },
-        body: body ? JSON.stringify(body) : undefined,
+        body: isForm ? body : body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
       
@@ -177,7 +368,16 @@ export class RagClient {
     const response = await this.request<{ data: QueryResult; _cached?: boolean }>(
       'POST',
       '/query',
-      { query: question, topK: options.topK || 5 },
+      {
+        query: question,
+        topK: options.topK || 5,
+        retrievalMode: options.retrievalMode,
+        rerank: options.rerank,
+        filter: options.filter,
+        sessionId: options.sessionId,
+        strictGrounding: options.strictGrounding,
+        promptTemplate: options.promptTemplate,
+      },
       {
         mode: options.mode || 'answer',
         cacheMode: options.cacheMode || 'on',
@@ -190,14 +390,114 @@ export class RagClient {
     };
   }
   
+  /**
+   * Query with the answer streamed as it is generated (Server-Sent Events)
+   *
+   * ```typescript
+   * for await (const event of rag.queryStream('What is the notice period?')) {
+   *   if (event.type === 'token') process.stdout.write(event.delta);
+   * }
+   * ```
+   */
+  async *queryStream(
+    question: string,
+    options: Omit<QueryOptions, 'mode'> = {}
+  ): AsyncGenerator<QueryStreamEvent> {
+    const url = new URL('/query', this.baseUrl);
+    url.searchParams.set('stream', 'true');
+    url.searchParams.set('cacheMode', options.cacheMode || 'on');
+
+    // The timeout covers the wait for the response to start, not the whole stream
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          query: question,
+          topK: options.topK || 5,
+          retrievalMode: options.retrievalMode,
+          rerank: options.rerank,
+          filter: options.filter,
+          sessionId: options.sessionId,
+          strictGrounding: options.strictGrounding,
+          promptTemplate: options.promptTemplate,
+        }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw new RagClientError('Request timeout', 408, 'TIMEOUT');
+      }
+      throw new RagClientError((error as Error).message || 'Network error', 0, 'NETWORK_ERROR');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new RagClientError(data.error?.message || 'Request failed', response.status, data.error?.code);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        let data = '';
+        for (const line of raw.split('\n')) {
+          if (line.startsWith('event: ')) event = line.slice(7);
+          else if (line.startsWith('data: ')) data += line.slice(6);
+        }
+        if (!data) continue; // keep-alive comment
+
+        const payload = JSON.parse(data);
+        if (event === 'error') {
+          throw new RagClientError(payload.error?.message || 'Stream failed', payload.status || 500, payload.error?.code);
+        }
+        if (event === 'retrieval') yield { type: 'retrieval', results: payload.results };
+        else if (event === 'token') yield { type: 'token', delta: payload.delta };
+        else if (event === 'restart') yield { type: 'restart' };
+        else if (event === 'done') {
+          const { _cached, _semantic_cached, ...result } = payload;
+          yield { type: 'done', result: { ...result, cached: Boolean(_cached || _semantic_cached) } };
+        }
+      }
+
+      if (done) return;
+    }
+  }
+
   /**
    * Retrieve relevant passages without generating an answer
    */
-  async retrieve(question: string, options: { topK?: number } = {}): Promise<RetrievalResult> {
+  async retrieve(
+    question: string,
+    options: Pick<QueryOptions, 'topK' | 'retrievalMode' | 'rerank' | 'filter'> = {}
+  ): Promise<RetrievalResult> {
     const response = await this.request<{ data: RetrievalResult }>(
       'POST',
       '/query',
-      { query: question, topK: options.topK || 5 },
+      {
+        query: question,
+        topK: options.topK || 5,
+        retrievalMode: options.retrievalMode,
+        rerank: options.rerank,
+        filter: options.filter,
+      },
       { mode: 'retrieval' }
     );
     
@@ -206,36 +506,197 @@ export class RagClient {
   
   /**
    * Ingest text content into the knowledge base
+   *
+   * `metadata` is stored with every chunk and returned in results and
+   * citations; nested objects come back flattened (`{ author: { name } }` → `author.name`)
    */
   async ingest(
     text: string,
     source: string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    chunking?: ChunkingOptions
   ): Promise<IngestResult> {
     const response = await this.request<{ data: IngestResult }>(
       'POST',
       '/ingest/text',
-      { text, source, metadata }
+      { text, source, metadata, chunking }
     );
     
     return response.data;
   }
   
   /**
-   * Batch ingest multiple documents
+   * Batch ingest multiple documents, waiting for all of them in one request
+   * @deprecated Large batches can time out; use createIngestJob and getIngestJob
    */
   async ingestBatch(
-    documents: Array<{ text: string; source: string; metadata?: Record<string, unknown> }>
+    documents: Array<{ text: string; source: string; metadata?: Record<string, unknown> }>,
+    chunking?: ChunkingOptions
   ): Promise<BatchIngestResult> {
     const response = await this.request<{ data: BatchIngestResult }>(
       'POST',
       '/ingest/batch',
-      { documents }
+      { documents, chunking }
     );
     
     return response.data;
   }
   
+  /**
+   * Queue documents for background ingestion; poll with getIngestJob
+   */
+  async createIngestJob(
+    documents: Array<{ text: string; source: string; metadata?: Record<string, unknown> }>,
+    chunking?: ChunkingOptions
+  ): Promise<{ jobId: string; status: IngestJob['status']; total: number; statusUrl: string }> {
+    const response = await this.request<{
+      data: { jobId: string; status: IngestJob['status']; total: number; statusUrl: string };
+    }>('POST', '/ingest/jobs', { documents, chunking });
+    
+    return response.data;
+  }
+  
+  /**
+   * Progress and per-document results of an ingestion job
+   */
+  async getIngestJob(jobId: string): Promise<IngestJob> {
+    const response = await this.request<{ data: IngestJob }>('GET', `/ingest/jobs/${encodeURIComponent(jobId)}`);
+    return response.data;
+  }
+  
+  /**
+   * Upload files (up to 10, 10MB each) and ingest them: PDF, Markdown, TXT,
+   * HTML, DOCX, CSV, JSON and JSONL
+   *
+   * `data` is a Blob or File (Node 18+ and browsers); `metadata` is stored
+   * with every chunk of every file; `fields` limits JSON/JSONL records to
+   * the given dotted paths and `chunking` selects how text is split
+   */
+  async ingestFiles(
+    files: Array<{ name: string; data: Blob }>,
+    metadata?: Record<string, unknown>,
+    options: { fields?: string[]; chunking?: ChunkingOptions } = {}
+  ): Promise<FileIngestResult> {
+    const form = new FormData();
+    for (const file of files) {
+      form.append('files', file.data, file.name);
+    }
+    if (metadata) {
+      form.append('metadata', JSON.stringify(metadata));
+    }
+    if (options.fields?.length) {
+      form.append('fields', options.fields.join(','));
+    }
+    if (options.chunking) {
+      form.append('chunking', JSON.stringify(options.chunking));
+    }
+    
+    const response = await this.request<{ data: FileIngestResult }>('POST', '/ingest/file', form);
+    return response.data;
+  }
+  
+  /**
+   * List ingested documents, optionally only sources starting with `prefix`
+   */
+  async listDocuments(prefix?: string): Promise<DocumentSummary[]> {
+    const response = await this.request<{ data: { documents: DocumentSummary[] } }>(
+      'GET',
+      '/documents',
+      undefined,
+      prefix ? { prefix } : undefined
+    );
+    return response.data.documents;
+  }
+  
+  /**
+   * A document's metadata and chunks; null when the source is not stored
+   */
+  async getDocument(source: string): Promise<StoredDocument | null> {
+    try {
+      const response = await this.request<{ data: StoredDocument }>('GET', `/documents/${encodeURIComponent(source)}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof RagClientError && error.status === 404) return null;
+      throw error;
+    }
+  }
+  
+  /**
+   * Replace a document (or create it) from new text; unchanged content is skipped
+   * @throws RagClientError with status 409 when a new document duplicates another source
+   */
+  async replaceDocument(
+    source: string,
+    text: string,
+    metadata?: Record<string, unknown>,
+    chunking?: ChunkingOptions
+  ): Promise<IngestResult> {
+    const response = await this.request<{ data: IngestResult }>(
+      'PUT',
+      `/documents/${encodeURIComponent(source)}`,
+      { text, metadata, chunking }
+    );
+    return response.data;
+  }
+  
+  /**
+   * Delete a single document
+   * @returns Number of chunks deleted, or 0 when the source was not stored
+   */
+  async deleteDocument(source: string): Promise<number> {
+    try {
+      const response = await this.request<{ data: { chunksDeleted: number } }>(
+        'DELETE',
+        `/documents/${encodeURIComponent(source)}`
+      );
+      return response.data.chunksDeleted;
+    } catch (error) {
+      if (error instanceof RagClientError && error.status === 404) return 0;
+      throw error;
+    }
+  }
+  
+  /**
+   * Start a conversation; pass its id as `sessionId` to query()
+   *
+   * ```typescript
+   * const { id } = await rag.createSession();
+   * await rag.query("What are the tenant's repair obligations?", { sessionId: id });
+   * await rag.query("What about the landlord's?", { sessionId: id });
+   * ```
+   */
+  async createSession(): Promise<Session> {
+    const response = await this.request<{ data: Session }>('POST', '/sessions');
+    return response.data;
+  }
+  
+  /**
+   * A session with its turns; null when it does not exist or expired
+   */
+  async getSession(sessionId: string): Promise<Session | null> {
+    try {
+      const response = await this.request<{ data: Session }>('GET', `/sessions/${encodeURIComponent(sessionId)}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof RagClientError && error.status === 404) return null;
+      throw error;
+    }
+  }
+  
+  /**
+   * End a conversation
+   * @returns False when the session did not exist
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    try {
+      await this.request('DELETE', `/sessions/${encodeURIComponent(sessionId)}`);
+      return true;
+    } catch (error) {
+      if (error instanceof RagClientError && error.status === 404) return false;
+      throw error;
+    }
+  }
+  
   /**
    * Delete all documents (re-index)
    */
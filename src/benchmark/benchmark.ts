@@ -282,6 +282,21 @@ function printResults(stats: ReturnType<typeof calculateStats>, options: Benchma
   }
 }
 
+/**
+ * Reports which LLM backend the target server uses (from /health).
+ * Returns undefined if the server cannot be reached or does not say.
+ */
+async function getServerLLMBackend(url: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(`${url}/health`);
+    if (!response.ok) return undefined;
+    const body = (await response.json()) as { llmBackend?: string };
+    return body.llmBackend;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Main benchmark execution
  */
@@ -295,8 +310,15 @@ async function main() {
     process.exit(0);
   }
 
+  // A server running LLM_BACKEND=mock makes no paid API calls, so real HTTP
+  // benchmarking against it needs no opt-in or OpenAI key.
+  const serverBackend = options.mode === 'real' ? await getServerLLMBackend(options.url) : undefined;
+  if (serverBackend === 'mock') {
+    console.log('ℹ️  Server uses LLM_BACKEND=mock - real HTTP requests, no API costs.');
+  }
+
   // Safety guard: require explicit env var to allow real-mode benchmarking
-  if (options.mode === 'real') {
+  if (options.mode === 'real' && serverBackend !== 'mock') {
     if (process.env.ALLOW_REAL_BENCH !== '1') {
       console.error("Refusing to run benchmark in 'real' mode. Set ALLOW_REAL_BENCH=1 to opt in.");
       process.exit(2);
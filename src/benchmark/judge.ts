@@ -7,8 +7,8 @@
  * to evaluate behavior repeatedly. It is intentionally simple and intended
  * to be extended with domain-specific scoring rules.
  */
-import fetch from 'node-fetch';
 import dotenv from 'dotenv';
+import { pathToFileURL } from 'url';
 import { logger } from '../utils/logger.js';
 
 dotenv.config();
@@ -54,7 +54,7 @@ async function run() {
       continue;
     }
 
-    const data = await res.json();
+    const data = (await res.json()) as { data?: { answer?: string } };
     const answer = data?.data?.answer || '';
     const scores = simpleScorer(answer);
 
@@ -69,7 +69,7 @@ async function run() {
   logger.info('Judge: evaluation completed');
 }
 
-if (require.main === module) {
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
   run().catch((err) => {
     logger.error('Judge: unexpected error', { error: err instanceof Error ? err.message : String(err) });
     process.exit(1);
@@ -20,15 +20,14 @@
  */
 
 import { Redis, type RedisOptions } from 'ioredis';
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { logger } from '../utils/logger.js';
-import { createVectorClient } from '../utils/factory.js';
+import { logger, type Logger } from '../utils/logger.js';
+import { createVectorClient, createEmbeddingProvider } from '../utils/factory.js';
 import { loadConfig } from '../utils/config.js';
 import { cacheHitsCounter, cacheMissesCounter, cacheRequestDuration } from '../metrics/metrics.js';
 
 // Semantic Cache Configuration
 export const SEMANTIC_CACHE_CONFIG = {
-  // Namespace for semantic cache vectors in Pinecone
+  // Namespace for semantic cache vectors in the vector store
   namespace: process.env.PINECONE_CACHE_NAMESPACE || 'semantic-cache',
   // Similarity threshold (0.0-1.0). Higher = more strict matching
   // 0.92-0.95 recommended for semantic cache
@@ -47,7 +46,7 @@ export interface Cache {
    * Get a value from cache by key
    * @returns Cached value or null if not found/expired
    */
-  get(key: string, reqLogger?: any): Promise<string | null>;
+  get(key: string, reqLogger?: Logger): Promise<string | null>;
 
   /**
    * Set a value in cache with optional TTL
@@ -55,7 +54,7 @@ export interface Cache {
    * @param value Value to cache (must be JSON-serializable)
    * @param ttlSeconds Time to live in seconds (optional)
    */
-  set(key: string, value: string, ttlSeconds?: number, reqLogger?: any): Promise<void>;
+  set(key: string, value: string, ttlSeconds?: number, reqLogger?: Logger): Promise<void>;
 
   /**
    * Close/disconnect the cache connection (cleanup)
@@ -97,7 +96,7 @@ class RedisCache implements Cache {
     });
   }
 
-  async get(key: string, reqLogger?: any): Promise<string | null> {
+  async get(key: string, reqLogger?: Logger): Promise<string | null> {
     const log = reqLogger || logger;
     try {
       const start = process.hrtime.bigint();
@@ -126,7 +125,7 @@ class RedisCache implements Cache {
     }
   }
 
-  async set(key: string, value: string, ttlSeconds?: number, reqLogger?: any): Promise<void> {
+  async set(key: string, value: string, ttlSeconds?: number, reqLogger?: Logger): Promise<void> {
     const log = reqLogger || logger;
     try {
       if (ttlSeconds && ttlSeconds > 0) {
@@ -156,7 +155,7 @@ class RedisCache implements Cache {
 class InMemoryCache implements Cache {
   private cache: Map<string, { value: string; expiresAt?: number }> = new Map();
 
-  async get(key: string, reqLogger?: any): Promise<string | null> {
+  async get(key: string, reqLogger?: Logger): Promise<string | null> {
     const log = reqLogger || logger;
     const entry = this.cache.get(key);
 
@@ -186,7 +185,7 @@ class InMemoryCache implements Cache {
     return entry.value;
   }
 
-  async set(key: string, value: string, ttlSeconds?: number, reqLogger?: any): Promise<void> {
+  async set(key: string, value: string, ttlSeconds?: number, reqLogger?: Logger): Promise<void> {
     const log = reqLogger || logger;
     const entry: { value: string; expiresAt?: number } = { value };
 
@@ -257,7 +256,7 @@ export function getCache(): Cache {
 export async function semanticGet(
   query: string,
   similarityThreshold = SEMANTIC_CACHE_CONFIG.similarityThreshold,
-  reqLogger?: any
+  reqLogger?: Logger
 ): Promise<string | null> {
   const log = reqLogger || logger;
   const { namespace, ttlSeconds, failOpen } = SEMANTIC_CACHE_CONFIG;
@@ -266,12 +265,11 @@ export async function semanticGet(
     const start = process.hrtime.bigint();
     const config = loadConfig(log);
 
-    const embeddings = new OpenAIEmbeddings({ openAIApiKey: config.openaiApiKey });
+    const embeddings = createEmbeddingProvider(config, log);
     const queryEmbedding = await embeddings.embedQuery(query);
 
     const vectorClient = createVectorClient(config, log);
-    const index = vectorClient.index(config.pineconeIndexName);
-    const targetIndex = index.namespace ? index.namespace(namespace) : index;
+    const targetIndex = vectorClient.namespace(namespace);
 
     const queryResponse = await targetIndex.query({
       vector: queryEmbedding,
@@ -330,35 +328,32 @@ export async function semanticGet(
 export async function semanticSet(
   query: string,
   responseData: string,
-  reqLogger?: any
+  reqLogger?: Logger
 ): Promise<void> {
   const log = reqLogger || logger;
   const { namespace, ttlSeconds } = SEMANTIC_CACHE_CONFIG;
   
   try {
     const config = loadConfig(log);
-    const embeddings = new OpenAIEmbeddings({ openAIApiKey: config.openaiApiKey });
+    const embeddings = createEmbeddingProvider(config, log);
     const queryEmbedding = await embeddings.embedQuery(query);
     const vectorClient = createVectorClient(config, log);
-    const index = vectorClient.index(config.pineconeIndexName);
-    const targetIndex = index.namespace ? index.namespace(namespace) : index;
+    const targetIndex = vectorClient.namespace(namespace);
 
     const id = `semantic:${Date.now()}:${Math.random().toString(36).slice(2, 9)}`;
 
     // Upsert vector with metadata containing the cached response (JSON string)
-    await targetIndex.upsert({
-      vectors: [
-        {
-          id,
-          values: queryEmbedding,
-          metadata: {
-            cachedResponse: responseData,
-            timestamp: new Date().toISOString(),
-            ttlSeconds, // Store TTL for reference
-          },
+    await targetIndex.upsert([
+      {
+        id,
+        values: queryEmbedding,
+        metadata: {
+          cachedResponse: responseData,
+          timestamp: new Date().toISOString(),
+          ttlSeconds, // Store TTL for reference
         },
-      ],
-    });
+      },
+    ]);
 
     log.info('Semantic cache upserted', { id, namespace, ttlSeconds });
   } catch (error) {
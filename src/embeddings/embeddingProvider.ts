@@ -0,0 +1,103 @@
+/**
+ * Embedding Provider Abstraction
+ *
+ * Ingestion, retrieval and the semantic cache embed text through this
+ * interface instead of constructing OpenAIEmbeddings directly. The method
+ * names match LangChain's Embeddings class so the OpenAI provider is a thin
+ * wrapper.
+ *
+ * Implementations (selected by EMBEDDING_PROVIDER, see createEmbeddingProvider):
+ * - OpenAIEmbeddingProvider: OpenAI embeddings API (default)
+ * - HttpEmbeddingProvider: any OpenAI-compatible /embeddings endpoint (Ollama, vLLM)
+ * - HashingEmbeddingProvider: deterministic local embedder, no network (CI, air-gapped demos)
+ */
+
+import { logger, type Logger } from '../utils/logger.js';
+import { embeddingTextsCounter, embeddingTokensCounter } from '../metrics/metrics.js';
+import type { VectorStore } from '../vector/vectorStore.js';
+
+export interface EmbeddingProvider {
+  /** Provider name for logs and metrics, e.g. 'openai' */
+  readonly provider: string;
+  readonly model: string;
+  /** Output dimension when known up front; undefined means "probe it" */
+  readonly dimension: number | undefined;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+/** What texts were embedded for: stored chunks, semantic chunking, or a query */
+export type EmbeddingPurpose = 'document' | 'chunking' | 'query';
+
+/**
+ * Counts embedded texts and their estimated tokens (4 characters per token,
+ * as in usage tracking) in the embedding metrics
+ */
+export function recordEmbeddingUsage(provider: EmbeddingProvider, purpose: EmbeddingPurpose, texts: string[]): void {
+  const labels = { provider: provider.provider, model: provider.model, purpose };
+  embeddingTextsCounter.inc(labels, texts.length);
+  embeddingTokensCounter.inc(
+    labels,
+    texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0)
+  );
+}
+
+/** Thrown when the embedding output size cannot be stored in the configured index */
+export class EmbeddingDimensionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingDimensionError';
+  }
+}
+
+/**
+ * Resolves the provider's output dimension, embedding a probe string when the
+ * provider cannot report it statically (e.g. an arbitrary Ollama model).
+ */
+export async function resolveEmbeddingDimension(provider: EmbeddingProvider): Promise<number> {
+  if (provider.dimension !== undefined) {
+    return provider.dimension;
+  }
+  const probe = await provider.embedQuery('dimension probe');
+  return probe.length;
+}
+
+/**
+ * Verifies that the embedding dimension matches the vector index.
+ *
+ * Indexes that do not report a dimension yet (empty memory/file stores,
+ * new Chroma collections) are accepted as-is. A mismatch throws, since every
+ * upsert or query against that index would fail or return garbage.
+ */
+export async function checkEmbeddingDimension(
+  provider: EmbeddingProvider,
+  vectorStore: VectorStore,
+  reqLogger?: Logger
+): Promise<void> {
+  const log = reqLogger || logger;
+  const stats = await vectorStore.describeIndexStats();
+
+  if (stats.dimension === undefined) {
+    log.info('Embedding dimension check skipped - index dimension unknown', {
+      backend: vectorStore.backend,
+      provider: provider.provider,
+    });
+    return;
+  }
+
+  const dimension = await resolveEmbeddingDimension(provider);
+  if (dimension !== stats.dimension) {
+    throw new EmbeddingDimensionError(
+      `Embedding dimension ${dimension} (${provider.provider}/${provider.model}) does not match ` +
+        `${vectorStore.backend} index dimension ${stats.dimension}. ` +
+        'Use a matching EMBEDDING_MODEL/EMBEDDING_DIMENSIONS or re-create the index.'
+    );
+  }
+
+  log.info('Embedding dimension matches index', {
+    backend: vectorStore.backend,
+    provider: provider.provider,
+    model: provider.model,
+    dimension,
+  });
+}
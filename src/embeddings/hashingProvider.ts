@@ -0,0 +1,85 @@
+/**
+ * Local hashing embedder (EMBEDDING_PROVIDER=local)
+ *
+ * Deterministic, dependency-free embeddings built with the hashing trick:
+ * word unigrams and bigrams are hashed into a fixed number of buckets with a
+ * signed hash, weighted by sublinear term frequency (1 + ln tf) and
+ * L2-normalised so cosine similarity behaves like TF-weighted lexical overlap.
+ *
+ * Quality is well below a neural model, but it needs no network or API key,
+ * which lets CI and air-gapped demos run the real ingest -> retrieve path.
+ */
+
+import type { EmbeddingProvider } from './embeddingProvider.js';
+
+export interface HashingEmbeddingProviderOptions {
+  dimensions: number;
+}
+
+const BIGRAM_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with',
+]);
+
+/** FNV-1a 32-bit */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function tokenizeForHashing(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter((w) => !STOPWORDS.has(w));
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: string = 'local';
+  readonly model: string = 'hashing-tf';
+  readonly dimension: number;
+
+  constructor(options: HashingEmbeddingProviderOptions) {
+    if (!Number.isInteger(options.dimensions) || options.dimensions < 2) {
+      throw new Error(`Invalid local embedding dimension: ${options.dimensions}`);
+    }
+    this.dimension = options.dimensions;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  private embed(text: string): number[] {
+    const tokens = tokenizeForHashing(text);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    tokens.forEach((token, i) => {
+      add(token, 1);
+      if (i > 0) add(`${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+    });
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, tf] of counts) {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimension;
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[bucket]! += sign * (1 + Math.log(tf));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
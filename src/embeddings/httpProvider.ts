@@ -0,0 +1,83 @@
+/**
+ * OpenAI-compatible HTTP embedding provider (EMBEDDING_PROVIDER=openai-compatible)
+ *
+ * Talks to any server implementing `POST {baseUrl}/embeddings` with the
+ * OpenAI request/response shape: Ollama (http://localhost:11434/v1),
+ * vLLM, LocalAI, text-embeddings-inference, etc.
+ */
+
+import type { EmbeddingProvider } from './embeddingProvider.js';
+
+export interface HttpEmbeddingProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string | undefined;
+  dimensions?: number | undefined;
+  /** Inputs per request (default 64) */
+  batchSize?: number;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: string = 'openai-compatible';
+  readonly model: string;
+  readonly dimension: number | undefined;
+
+  private readonly baseUrl: string;
+  private readonly apiKey: string | undefined;
+  private readonly batchSize: number;
+
+  constructor(options: HttpEmbeddingProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.dimension = options.dimensions;
+    this.batchSize = options.batchSize || 64;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...(await this.request(texts.slice(i, i + this.batchSize))));
+    }
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.request([text]);
+    return vector!;
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    if (input.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input,
+        ...(this.dimension && { dimensions: this.dimension }),
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Embedding request failed (${response.status}) at ${this.baseUrl}: ${detail.slice(0, 200)}`);
+    }
+
+    const body = (await response.json()) as EmbeddingsResponse;
+    if (!Array.isArray(body.data) || body.data.length !== input.length) {
+      throw new Error(`Embedding endpoint returned ${body.data?.length ?? 0} vectors for ${input.length} inputs`);
+    }
+
+    // The spec does not guarantee order; `index` does
+    return [...body.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * OpenAI embedding provider (EMBEDDING_PROVIDER=openai, default)
+ */
+
+import { OpenAIEmbeddings } from '@langchain/openai';
+import type { EmbeddingProvider } from './embeddingProvider.js';
+
+/** Native output sizes; text-embedding-3-* can be shortened via `dimensions` */
+const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+export interface OpenAIEmbeddingProviderOptions {
+  apiKey: string;
+  model: string;
+  dimensions?: number | undefined;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly provider: string = 'openai';
+  readonly model: string;
+  readonly dimension: number | undefined;
+
+  private readonly embeddings: OpenAIEmbeddings;
+
+  constructor(options: OpenAIEmbeddingProviderOptions) {
+    this.model = options.model;
+    this.dimension = options.dimensions ?? OPENAI_EMBEDDING_DIMENSIONS[options.model];
+    this.embeddings = new OpenAIEmbeddings({
+      openAIApiKey: options.apiKey,
+      modelName: options.model,
+      ...(options.dimensions && { dimensions: options.dimensions }),
+    });
+  }
+
+  embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.embeddings.embedDocuments(texts);
+  }
+
+  embedQuery(text: string): Promise<number[]> {
+    return this.embeddings.embedQuery(text);
+  }
+}
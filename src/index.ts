@@ -13,38 +13,134 @@ import express, { type Request, type Response, type NextFunction } from 'express
 import dotenv from 'dotenv';
 import morgan from 'morgan';
 import multer from 'multer';
+import { createHash } from 'crypto';
+import { unlink } from 'fs/promises';
+import { basename, extname } from 'path';
 import { retrieveRelevantPassages, type RetrievedPassage } from './rag/retriever.js';
 import { ingestText, ingestDocuments } from './rag/ingest.js';
-import { generateAnswer, type Context } from './llm/answer.js';
-import { renderRagPrompts } from './utils/promptLoader.js';
+import { getParser, supportedExtensions, PAGE_END_KEY, PAGE_START_KEY } from './rag/parsers.js';
+import { getLexicalStore } from './rag/lexicalIndex.js';
+import { sanitizeMetadata, MetadataValidationError } from './rag/metadata.js';
+import { resolveChunking, ChunkingValidationError } from './rag/chunking.js';
+import { getIngestQueue, INGEST_QUEUE_CONFIG } from './jobs/ingestQueue.js';
+import type { IngestJobDocument } from './jobs/jobStore.js';
+import { generateAnswer, type AnswerResult, type AnswerStreamHandlers, type Context } from './llm/answer.js';
+import { verifyGrounding, regenerationFeedback, GROUNDING_REFUSAL_ANSWER, type GroundingReport } from './llm/grounding.js';
+import { estimateLLMCostUsd } from './llm/pricing.js';
+import {
+  confidenceOptions,
+  retrievalConfidence,
+  withCitationCoverage,
+  INSUFFICIENT_EVIDENCE_ANSWER,
+  type ConfidenceReport,
+} from './rag/confidence.js';
+import {
+  renderRagPrompts,
+  getPromptRegistry,
+  DEFAULT_PROMPT_TEMPLATE,
+  PromptTemplateError,
+  type PromptTemplate,
+} from './utils/promptLoader.js';
 import { recordRetrievalTrace, recordLLMTrace } from './llm/langsmith.js';
-import { logger } from './utils/logger.js';
-import { loadConfig } from './utils/config.js';
+import { logger, type Logger } from './utils/logger.js';
+import {
+  loadConfig,
+  RETRIEVAL_MODES,
+  STRICT_GROUNDING_MODES,
+  type RAGConfig,
+  type RetrievalMode,
+  type StrictGroundingMode,
+} from './utils/config.js';
+import { createVectorClient, createEmbeddingProvider, createReranker, createLLMClient } from './utils/factory.js';
+import { rerankPassages } from './rerank/reranker.js';
+import { normalizeQueryFilter, FilterValidationError } from './vector/filter.js';
+import type { MetadataFilter } from './vector/vectorStore.js';
+import { checkEmbeddingDimension, EmbeddingDimensionError } from './embeddings/embeddingProvider.js';
 import { countTokens } from './utils/tokenCounter.js';
+import { rewriteFollowUp, selectHistory, formatHistory } from './sessions/conversation.js';
+import { getSessionStore, type Session, type SessionTurn } from './sessions/sessionStore.js';
 import { requestIdMiddleware } from './middleware/requestId.js';
 import { moderationMiddleware } from './middleware/moderation.js';
-import { apiKeyAuth, getTenantNamespace } from './middleware/apiKeyAuth.js';
+import {
+  apiKeyAuth,
+  getTenantNamespace,
+  getTenantChunkingStrategy,
+  getTenantPromptTemplate,
+} from './middleware/apiKeyAuth.js';
 import { rateLimiter } from './middleware/rateLimiter.js';
 import { errorHandler, AppError, validationError } from './middleware/errorHandler.js';
 import { metricsMiddleware, metricsHandler } from './metrics/metrics.js';
 import { getCache, generateCacheKey, semanticGet, semanticSet } from './cache/cache.js';
 import { truncateContexts } from './utils/truncation.js';
 import { trackUsage } from './services/usageTracker.js';
+import { openSseStream } from './utils/sse.js';
 import { adminRouter } from './routes/admin.js';
+import { documentsRouter } from './routes/documents.js';
+import { sessionsRouter, getTenantSession } from './routes/sessions.js';
 
 // File upload configuration
+const MAX_UPLOAD_FILES = 10;
 const upload = multer({
   dest: 'uploads/',
-  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  limits: { fileSize: 10 * 1024 * 1024, files: MAX_UPLOAD_FILES }, // 10MB limit
+  fileFilter: (_req, file, cb) => {
+    const ext = extname(file.originalname).toLowerCase();
+    if (!getParser(file.originalname)) {
+      cb(
+        new AppError(
+          `Unsupported file type "${ext || file.originalname}". Supported: ${supportedExtensions().join(', ')}`,
+          415,
+          'UNSUPPORTED_MEDIA_TYPE',
+          { file: file.originalname }
+        )
+      );
+      return;
+    }
+    cb(null, true);
+  },
 });
 
+/**
+ * Parses multipart uploads in the "files" field, turning multer's errors
+ * (size/count limits, wrong field name) into client errors
+ */
+function uploadFiles(req: Request, res: Response, next: NextFunction): void {
+  upload.array('files', MAX_UPLOAD_FILES)(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return next(new AppError('File exceeds the 10MB upload limit', 413, 'PAYLOAD_TOO_LARGE', { file: err.field }));
+      }
+      return next(validationError(`Upload rejected: ${err.message}`, { code: err.code, field: err.field }));
+    }
+    next(err);
+  });
+}
+
 // Load environment variables
 dotenv.config();
 
 // Validate configuration on startup
 try {
-  loadConfig();
+  const config = loadConfig();
   logger.info('Configuration validated successfully');
+
+  // A broken prompt template would fail every answer, so templates are validated at boot
+  getPromptRegistry();
+
+  // Open the vector store eagerly so local backends (file) load persisted data at boot
+  const vectorStore = createVectorClient(config);
+
+  // A model/index dimension mismatch breaks every ingest and query, so refuse to start.
+  // An unreachable index is only logged; requests will surface it with a proper error.
+  checkEmbeddingDimension(createEmbeddingProvider(config), vectorStore).catch((error) => {
+    if (error instanceof EmbeddingDimensionError) {
+      logger.error('Embedding dimension check failed', { error: error.message });
+      process.exit(1);
+    }
+    logger.warn('Embedding dimension check could not run', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
 } catch (error) {
   logger.error('Configuration validation failed', {
     error: error instanceof Error ? error.message : String(error),
@@ -79,7 +175,8 @@ app.use(moderationMiddleware);
 // 2. Metrics middleware - record metrics for all requests
 app.use(metricsMiddleware);
 
-// 3. Body parsing
+// 3. Body parsing (ingestion bodies carry whole documents, so they get a larger limit)
+app.use(['/ingest', '/documents'], express.json({ limit: process.env.INGEST_BODY_LIMIT || '10mb' }));
 app.use(express.json());
 
 // 4. HTTP request logging with morgan
@@ -109,6 +206,12 @@ app.use(morgan(morganFormat, {
 // Admin routes (protected by admin key)
 app.use('/admin', adminRouter);
 
+// Per-document list/get/replace/delete (tenant API key)
+app.use('/documents', documentsRouter);
+
+// Conversation sessions (tenant-scoped; questions go through POST /query)
+app.use('/sessions', sessionsRouter);
+
 /**
  * Root endpoint - API information
  * Fast, no external dependencies
@@ -122,7 +225,11 @@ app.get('/', (req: Request, res: Response) => {
       health: 'GET /health',
       query: 'POST /query',
       ingest: 'POST /ingest/text',
-      ingestBatch: 'POST /ingest/batch',
+      ingestBatch: 'POST /ingest/batch (deprecated, use /ingest/jobs)',
+      ingestFile: 'POST /ingest/file (multipart)',
+      ingestJobs: 'POST /ingest/jobs, GET /ingest/jobs/:id',
+      documents: 'GET /documents, GET|PUT|DELETE /documents/:source',
+      sessions: 'POST /sessions, GET|DELETE /sessions/:id',
       metrics: 'GET /metrics',
       admin: 'GET /admin/* (requires admin key)',
     },
@@ -140,6 +247,8 @@ app.get('/health', (req: Request, res: Response) => {
     requestId: req.requestId,
     status: 'ok',
     timestamp: new Date().toISOString(),
+    // Lets clients (benchmark, judge) tell a cost-free mock server from a real one
+    llmBackend: process.env.LLM_BACKEND || 'openai',
   });
 });
 
@@ -155,19 +264,58 @@ app.get('/metrics', metricsHandler);
  * Supports two modes:
  * - Retrieval-only: ?mode=retrieval
  * - Full RAG answer: default
+ *
+ * `retrievalMode` in the body picks dense, sparse (BM25) or hybrid search;
+ * it defaults to RETRIEVAL_MODE. When a reranker is configured (RERANKER),
+ * RERANK_CANDIDATES passages are retrieved and reranked down to topK;
+ * `rerank: false` skips that stage for a request.
+ *
+ * `filter` scopes retrieval by chunk metadata, e.g.
+ * `{ "docType": "policy", "publishedAt": { "$gte": "2024-01-01" } }`
+ * (operators: $eq $ne $in $nin $gt $gte $lt $lte $exists, combinators $and $or).
+ *
+ * `sessionId` (see POST /sessions) makes the query a turn of a conversation:
+ * a follow-up is rewritten into a standalone query before retrieval, earlier
+ * turns go into the prompt (SESSION_HISTORY_MAX_TOKENS) and the question and
+ * answer are appended to the session. Session queries bypass the caches.
+ *
+ * Answers carry a `grounding` report: every sentence is checked against the
+ * passages it cites (GROUNDING_VERIFIER). `strictGrounding` (default
+ * GROUNDING_STRICT) refuses, or regenerates once and then refuses, answers
+ * with unsupported claims.
+ *
+ * Every response carries a `confidence` score built from the retrieval
+ * scores, rerank scores and (for answers) citation coverage. When retrieval
+ * confidence is below CONFIDENCE_ABSTAIN_THRESHOLD the LLM is not called and
+ * the answer is an "insufficient evidence" response with `abstained: true`.
+ *
+ * `promptTemplate` (`name` or `name@version`, see utils/promptLoader.ts)
+ * picks the answer prompt; it defaults to the tenant's template, else the
+ * latest rag_grounded. Answers record the template version they used.
  */
 interface QueryRequest {
   query: string;
   topK?: number;
+  retrievalMode?: RetrievalMode;
+  rerank?: boolean;
+  filter?: Record<string, unknown>;
+  sessionId?: string;
+  strictGrounding?: StrictGroundingMode;
+  promptTemplate?: string;
 }
 
 interface QueryParams {
   mode?: 'retrieval' | 'answer';
+  /** 'true' streams the answer as Server-Sent Events (answer mode only) */
+  stream?: string;
 }
 
 interface RetrievalResponse {
   query: string;
   results: RetrievedPassage[];
+  /** Session queries: the query used for retrieval */
+  standaloneQuery?: string;
+  confidence: ConfidenceReport;
 }
 
 interface AnswerResponse {
@@ -178,7 +326,123 @@ interface AnswerResponse {
     text: string;
     score: number;
     metadata: Record<string, unknown>;
+    /** Present when the passages were reranked */
+    vectorScore?: number;
+    rerankScore?: number;
+    /** Page range of the passage in a paged source (PDF) */
+    pageStart?: number;
+    pageEnd?: number;
   }[];
+  /** LLM provider that produced the answer; fallback is true when the primary was not used */
+  provider?: {
+    backend: string;
+    model: string;
+    fallback: boolean;
+  };
+  /** Session queries: the session the turn was added to, and the query used for retrieval */
+  sessionId?: string;
+  standaloneQuery?: string;
+  /** Support of each answer sentence by its cited passages (absent when GROUNDING_VERIFIER=off) */
+  grounding?: GroundingReport;
+  confidence: ConfidenceReport;
+  /** Prompt template the answer was generated with (absent when abstained) */
+  promptTemplate?: { name: string; version: number };
+  /** True when the LLM was not called because the retrieved evidence was too weak */
+  abstained?: boolean;
+}
+
+/**
+ * Replays a cached answer on an SSE stream: the whole answer as one token
+ * event, then the done event. Retrieved passages are not cached, so there is
+ * no retrieval event.
+ */
+function streamCachedAnswer(req: Request, res: Response, data: AnswerResponse, marker: '_cached' | '_semantic_cached'): void {
+  const sse = openSseStream(res);
+  sse.send('token', { delta: data.answer });
+  sse.send('done', { requestId: req.requestId, ...data, [marker]: true });
+  sse.end();
+}
+
+/**
+ * Verifies an answer's grounding and applies strict mode: `regenerate` asks
+ * once more with the unsupported claims as feedback, and an answer that is
+ * still unsupported (or any unsupported answer with `refuse`) is replaced by
+ * a refusal. Streams see a restart event before the replacement.
+ */
+async function enforceGrounding(
+  answerResult: AnswerResult,
+  contexts: Context[],
+  strict: StrictGroundingMode,
+  config: RAGConfig,
+  regenerate: (feedback: string) => Promise<AnswerResult>,
+  stream: AnswerStreamHandlers | undefined,
+  log: Logger
+): Promise<{ answerResult: AnswerResult; grounding: GroundingReport }> {
+  const verifier = config.groundingVerifier || 'lexical';
+  const verify = (answer: string) =>
+    verifyGrounding(
+      answer,
+      contexts.map((ctx) => ctx.text),
+      {
+        ...(verifier !== 'off' && { verifier }),
+        ...(config.groundingThreshold !== undefined && { threshold: config.groundingThreshold }),
+        ...(verifier === 'llm' && { llm: createLLMClient(config, undefined, 0, log) }),
+      },
+      log
+    );
+
+  let grounding = await verify(answerResult.answer);
+  if (grounding.supported || strict === 'off') {
+    return { answerResult, grounding };
+  }
+
+  log.warn('Answer has unsupported claims', {
+    strict,
+    unsupportedClaims: grounding.unsupportedClaims,
+    score: grounding.score,
+  });
+
+  if (strict === 'regenerate') {
+    stream?.onRestart?.();
+    answerResult = await regenerate(regenerationFeedback(grounding));
+    grounding = { ...(await verify(answerResult.answer)), action: 'regenerated' };
+    if (grounding.supported) {
+      return { answerResult, grounding };
+    }
+  }
+
+  stream?.onRestart?.();
+  stream?.onToken(GROUNDING_REFUSAL_ANSWER);
+  return {
+    answerResult: { ...answerResult, answer: GROUNDING_REFUSAL_ANSWER, citations: [] },
+    grounding: { ...grounding, action: 'refused' },
+  };
+}
+
+/**
+ * Records a question and its answer as the next two turns of a session
+ */
+async function appendSessionTurns(
+  session: Session,
+  question: string,
+  standaloneQuery: string,
+  answer: AnswerResponse,
+  log: Logger
+): Promise<void> {
+  const createdAt = new Date().toISOString();
+  const sources = Array.from(
+    new Set(answer.citations.map((c) => c.metadata.source).filter((s): s is string => typeof s === 'string'))
+  );
+  const turns: SessionTurn[] = [
+    { role: 'user', content: question, createdAt, ...(standaloneQuery !== question && { standaloneQuery }) },
+    { role: 'assistant', content: answer.answer, createdAt, ...(sources.length > 0 && { sources }) },
+  ];
+
+  const updated = await getSessionStore().appendTurns(session.id, turns);
+  if (!updated) {
+    // Deleted or expired while the answer was generated; the answer is still returned
+    log.warn('Session ended before its turn was recorded', { sessionId: session.id });
+  }
 }
 
 // Apply API key auth and rate limiting to query endpoint
@@ -195,7 +459,7 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
     const body = req.body as QueryRequest;
     const queryParams = req.query as QueryParams;
     const mode = queryParams.mode || 'answer';
-    const cacheEnabled = req.query.cacheMode !== 'off';
+    const stream = queryParams.stream === 'true';
 
     // Validate request body using AppError
     if (!body.query || typeof body.query !== 'string') {
@@ -205,6 +469,17 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
       );
     }
 
+    if (body.sessionId !== undefined && (typeof body.sessionId !== 'string' || !body.sessionId)) {
+      throw validationError('sessionId must be a non-empty string', { sessionId: body.sessionId });
+    }
+    const session = body.sessionId ? await getTenantSession(req, body.sessionId) : undefined;
+    // Answers depend on the conversation, so session queries are never cached
+    const cacheEnabled = req.query.cacheMode !== 'off' && !session;
+
+    if (stream && mode === 'retrieval') {
+      throw validationError('stream=true is only supported in answer mode', { mode });
+    }
+
     // Validate topK if provided
     const topK = body.topK ?? 5;
     if (typeof topK !== 'number' || topK < 1 || topK > 100) {
@@ -214,9 +489,83 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
       );
     }
 
-    // Semantic cache lookup (vector-based) when enabled
+    const retrievalMode = body.retrievalMode;
+    if (retrievalMode !== undefined && !RETRIEVAL_MODES.includes(retrievalMode)) {
+      throw validationError(
+        `retrievalMode must be one of: ${RETRIEVAL_MODES.join(', ')}`,
+        { retrievalMode }
+      );
+    }
+
+    if (body.rerank !== undefined && typeof body.rerank !== 'boolean') {
+      throw validationError('rerank must be a boolean', { rerank: body.rerank });
+    }
+
+    if (body.strictGrounding !== undefined && !STRICT_GROUNDING_MODES.includes(body.strictGrounding)) {
+      throw validationError(
+        `strictGrounding must be one of: ${STRICT_GROUNDING_MODES.join(', ')}`,
+        { strictGrounding: body.strictGrounding }
+      );
+    }
+
+    let promptTemplate: PromptTemplate;
+    try {
+      if (body.promptTemplate !== undefined && (typeof body.promptTemplate !== 'string' || !body.promptTemplate)) {
+        throw new PromptTemplateError('promptTemplate must be a template name or name@version');
+      }
+      promptTemplate = getPromptRegistry().get(body.promptTemplate || getTenantPromptTemplate(req) || DEFAULT_PROMPT_TEMPLATE);
+    } catch (err) {
+      if (err instanceof PromptTemplateError) {
+        throw validationError(err.message, { promptTemplate: body.promptTemplate });
+      }
+      throw err;
+    }
+    // Answers from another template than the default get their own cache entries
+    const customPrompt = mode === 'answer' && promptTemplate.id !== getPromptRegistry().get(DEFAULT_PROMPT_TEMPLATE).id;
+
+    const config = loadConfig(log);
+    const reranker = body.rerank === false ? null : createReranker(config, log);
+    if (body.rerank === true && !reranker) {
+      throw validationError('rerank was requested but no reranker is configured (RERANKER)', {});
+    }
+
+    // Validate the metadata filter and translate date ranges for the vector store
+    let filter: MetadataFilter | undefined;
+    if (body.filter !== undefined) {
+      try {
+        filter = normalizeQueryFilter(body.filter, {
+          unsupportedOperators: createVectorClient(config, log).unsupportedFilterOperators,
+        });
+      } catch (err) {
+        if (err instanceof FilterValidationError) {
+          throw validationError(err.message, { path: err.path });
+        }
+        throw err;
+      }
+    }
+
+    // Cache entries are per retrieval mode and rerank choice; defaults keep the original key layout
+    const cacheMode = [
+      mode,
+      ...(retrievalMode ? [retrievalMode] : []),
+      ...(body.rerank !== undefined ? [`rerank=${body.rerank}`] : []),
+      ...(filter ? [`filter=${createHash('sha1').update(JSON.stringify(filter)).digest('hex').slice(0, 16)}`] : []),
+      ...(body.strictGrounding !== undefined ? [`strict=${body.strictGrounding}`] : []),
+      ...(customPrompt ? [`prompt=${promptTemplate.id}`] : []),
+    ].join(':');
+    const explicitRetrievalOptions =
+      retrievalMode !== undefined ||
+      body.rerank !== undefined ||
+      filter !== undefined ||
+      body.strictGrounding !== undefined ||
+      customPrompt;
+
+    // Semantic cache lookup (vector-based) when enabled; it is not keyed by
+    // retrieval options, so requests that set them explicitly skip it
     if (cacheEnabled) {
-      const semanticCached = await semanticGet(body.query, 0.95, log).catch((err) => null);
+      const semanticCached = explicitRetrievalOptions
+        ? null
+        : await semanticGet(body.query, 0.95, log).catch((err) => null);
       if (semanticCached) {
         cacheHit = true;
         const totalDuration = Date.now() - requestStartTime;
@@ -227,6 +576,10 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
           durationMs: totalDuration,
         });
 
+        if (stream) {
+          streamCachedAnswer(req, res, JSON.parse(semanticCached), '_semantic_cached');
+          return;
+        }
         res.json({
           requestId: req.requestId,
           data: JSON.parse(semanticCached),
@@ -236,7 +589,7 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
       }
 
       // Fallback to regular cache (redis/in-memory)
-      const cacheKey = generateCacheKey(body.query, topK, mode);
+      const cacheKey = generateCacheKey(body.query, topK, cacheMode);
       const cachedResponse = await cache.get(cacheKey, log);
 
       if (cachedResponse) {
@@ -251,6 +604,10 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
           durationMs: totalDuration,
         });
 
+        if (stream) {
+          streamCachedAnswer(req, res, JSON.parse(cachedResponse), '_cached');
+          return;
+        }
         res.json({
           requestId: req.requestId,
           data: JSON.parse(cachedResponse),
@@ -265,8 +622,10 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
       query: body.query,
       queryLength: body.query.length,
       mode,
+      retrievalMode: retrievalMode || '(default)',
       topK,
       cacheEnabled,
+      ...(session && { sessionId: session.id, sessionTurns: session.turns.length }),
     });
 
     log.info('Processing query request', {
@@ -277,19 +636,75 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
       topK,
     });
 
+    // Streaming: from here on results and errors are sent as SSE events. A
+    // client that disconnects stops receiving events, but generation runs to
+    // completion so the answer is still cached.
+    const sse = stream
+      ? openSseStream(res, () => {
+          log.info('Client disconnected from answer stream', { requestId: req.requestId });
+        })
+      : undefined;
+
+    // Step 0: Session follow-ups are rewritten into a standalone query for retrieval
+    const history = session ? await selectHistory(session.turns) : [];
+    const rewrite = session
+      ? await rewriteFollowUp(
+          body.query,
+          history,
+          {
+            mode: config.queryRewrite,
+            ...(config.queryRewrite === 'llm' && { llm: createLLMClient(config, undefined, 0, log) }),
+          },
+          log
+        )
+      : undefined;
+    const retrievalQuery = rewrite?.query ?? body.query;
+    if (rewrite && rewrite.method !== 'none') {
+      log.info('Follow-up rewritten for retrieval', {
+        requestId: req.requestId,
+        sessionId: session!.id,
+        method: rewrite.method,
+        standaloneQuery: retrievalQuery,
+      });
+    }
+
     // Step 1: Retrieve relevant passages (with tenant namespace for multi-tenancy)
     const namespace = getTenantNamespace(req);
     retrievalStartTime = Date.now();
-    const retrievedPassages = await retrieveRelevantPassages(body.query, topK, namespace, req.requestId, log);
+    const candidatePassages = await retrieveRelevantPassages(
+      retrievalQuery,
+      reranker ? Math.max(topK, config.rerankCandidates || 20) : topK,
+      namespace,
+      req.requestId,
+      log,
+      {
+        ...(retrievalMode && { mode: retrievalMode }),
+        ...(filter && { filter }),
+      }
+    );
+
+    // Step 1b: Optional rerank of the over-fetched candidates down to topK
+    const retrievedPassages = reranker
+      ? await rerankPassages(reranker, retrievalQuery, candidatePassages, topK, log)
+      : candidatePassages;
     retrievalDuration = Date.now() - retrievalStartTime;
 
     log.info('Retrieval completed', {
       requestId: req.requestId,
       query: body.query,
       passagesCount: retrievedPassages.length,
+      candidatesCount: candidatePassages.length,
+      reranker: reranker?.name || 'none',
       retrievalDurationMs: retrievalDuration,
     });
 
+    sse?.send('retrieval', {
+      requestId: req.requestId,
+      query: body.query,
+      ...(session && { standaloneQuery: retrievalQuery }),
+      results: retrievedPassages,
+    });
+
     // Observability: lightweight LangSmith trace for retrieval
     try {
       recordRetrievalTrace(req.requestId, body.query, retrievedPassages.length, 0 /* cost placeholder */);
@@ -297,6 +712,8 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
       log.warn('Failed to record retrieval trace', { requestId: req.requestId });
     }
 
+    const confidence = retrievalConfidence(retrievedPassages, confidenceOptions(config, retrievalMode, reranker));
+
     // Step 2: If retrieval-only mode, return early
     if (mode === 'retrieval') {
       const response = {
@@ -304,6 +721,8 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
         data: {
           query: body.query,
           results: retrievedPassages,
+          ...(session && { standaloneQuery: retrievalQuery }),
+          confidence,
         } as RetrievalResponse,
       };
 
@@ -318,7 +737,7 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
 
       // Cache retrieval-only responses too
       if (cacheEnabled) {
-        const cacheKey = generateCacheKey(body.query, topK, mode);
+        const cacheKey = generateCacheKey(body.query, topK, cacheMode);
         const responseToCache = JSON.stringify(response.data);
         
         await cache.set(cacheKey, responseToCache, CACHE_TTL_SECONDS, log).catch((err) => {
@@ -335,62 +754,137 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
 
     // Step 3: Generate LLM answer with citations (full RAG mode)
     answerStartTime = Date.now();
-    
-    // Convert RetrievedPassage[] to Context[] format
-    let contexts: Context[] = retrievedPassages.map((passage) => ({
-      text: passage.text,
-      score: passage.score,
-      metadata: passage.metadata,
-    }));
-
-    // Apply truncation to limit context size and control costs
-    // In production, use proper token counting (e.g., tiktoken)
-    const contextTexts = contexts.map((ctx) => ctx.text);
-    const truncatedTexts = truncateContexts(contextTexts, MAX_CONTEXT_LENGTH);
-    
-    // Update contexts with truncated texts (preserve metadata)
-    contexts = contexts.map((ctx, index) => ({
-      ...ctx,
-      text: truncatedTexts[index] || ctx.text,
-    }));
-
-    // Render production RAG prompt template (system + developer -> systemPrompt, user -> userPrompt)
-    const contextSections = contexts.map((ctx, idx) => `[p${idx}]: ${ctx.text}`);
-    const { systemPrompt, userPrompt } = await renderRagPrompts(contextSections, body.query);
-
-    const answerResult = await generateAnswer(body.query, contexts, undefined, undefined, req.requestId, log, systemPrompt, userPrompt);
-    answerDuration = Date.now() - answerStartTime;
 
-    // Observability: record LLM usage (attempt accurate token counts)
+    const streamHandlers: AnswerStreamHandlers | undefined = sse && {
+      onToken: (token) => sse.send('token', { delta: token }),
+      onRestart: () => sse.send('restart', {}),
+    };
+    let answerResult: AnswerResult;
+    let grounding: GroundingReport | undefined;
+    let template: { name: string; version: number } | undefined;
     let promptTokens = 0;
     let completionTokens = 0;
     let totalTokens = 0;
-    try {
-      const promptText = contexts.map((c) => c.text).join('\n\n') + '\n' + body.query;
-      promptTokens = await countTokens(promptText, process.env.OPENAI_MODEL);
-      completionTokens = await countTokens(answerResult.answer, process.env.OPENAI_MODEL);
-      totalTokens = promptTokens + completionTokens;
-
-      log.info('LLM token usage for query', {
+    if (confidence.abstained) {
+      // Too little evidence to answer from: respond without calling the LLM
+      log.info('Abstaining: retrieval confidence below threshold', {
         requestId: req.requestId,
-        promptTokens,
-        completionTokens,
-        totalTokens,
-        model: process.env.OPENAI_MODEL || 'unknown',
+        confidence: confidence.score,
+        threshold: confidence.threshold,
+        passagesCount: retrievedPassages.length,
+      });
+      answerResult = { answer: INSUFFICIENT_EVIDENCE_ANSWER, citations: [] };
+      streamHandlers?.onToken(answerResult.answer);
+    } else {
+      // Convert RetrievedPassage[] to Context[] format
+      let contexts: Context[] = retrievedPassages.map((passage) => ({
+        text: passage.text,
+        score: passage.score,
+        metadata: passage.metadata,
+      }));
+
+      // Apply truncation to limit context size and control costs
+      // In production, use proper token counting (e.g., tiktoken)
+      const contextTexts = contexts.map((ctx) => ctx.text);
+      const truncatedTexts = truncateContexts(contextTexts, MAX_CONTEXT_LENGTH);
+    
+      // Update contexts with truncated texts (preserve metadata)
+      contexts = contexts.map((ctx, index) => ({
+        ...ctx,
+        text: truncatedTexts[index] || ctx.text,
+      }));
+
+      // Render the selected prompt template (system + developer -> systemPrompt, user -> userPrompt)
+      const contextSections = contexts.map((ctx, idx) => `[p${idx}]: ${ctx.text}`);
+      const historyText = formatHistory(history);
+      const rendered = await renderRagPrompts(contextSections, body.query, {
+        history: historyText || undefined,
+        template: promptTemplate.id,
       });
+      const { systemPrompt, userPrompt } = rendered;
+      template = rendered.template;
+
+      answerResult = await generateAnswer(
+        body.query,
+        contexts,
+        undefined,
+        undefined,
+        req.requestId,
+        log,
+        systemPrompt,
+        userPrompt,
+        undefined,
+        streamHandlers
+      );
 
-      recordLLMTrace(req.requestId, promptTokens, completionTokens, process.env.OPENAI_MODEL || 'unknown', 0 /* cost placeholder */);
-    } catch (err) {
-      log.warn('Failed to record LLM trace', { requestId: req.requestId });
+      // Step 3b: Check the answer's sentences against the passages they cite
+      if (answerResult.backend && (config.groundingVerifier || 'lexical') !== 'off') {
+        ({ answerResult, grounding } = await enforceGrounding(
+          answerResult,
+          contexts,
+          body.strictGrounding || config.groundingStrict || 'off',
+          config,
+          (feedback) =>
+            generateAnswer(
+              body.query,
+              contexts,
+              undefined,
+              undefined,
+              req.requestId,
+              log,
+              systemPrompt,
+              `${userPrompt}\n\n${feedback}`,
+              undefined,
+              streamHandlers
+            ),
+          streamHandlers,
+          log
+        ));
+      }
+
+      // Observability: record LLM usage (attempt accurate token counts)
+      try {
+        const promptText = [historyText, ...contexts.map((c) => c.text)].filter(Boolean).join('\n\n') + '\n' + body.query;
+        const llmModel = answerResult.model || 'unknown';
+        promptTokens = await countTokens(promptText, llmModel);
+        completionTokens = await countTokens(answerResult.answer, llmModel);
+        totalTokens = promptTokens + completionTokens;
+        const costUsd = estimateLLMCostUsd(answerResult.backend || 'openai', llmModel, promptTokens, completionTokens);
+
+        log.info('LLM token usage for query', {
+          requestId: req.requestId,
+          promptTokens,
+          completionTokens,
+          totalTokens,
+          backend: answerResult.backend,
+          model: llmModel,
+          costUsd,
+        });
+
+        recordLLMTrace(req.requestId, promptTokens, completionTokens, llmModel, costUsd);
+      } catch (err) {
+        log.warn('Failed to record LLM trace', { requestId: req.requestId });
+      }
     }
+    answerDuration = Date.now() - answerStartTime;
 
     // Step 4: Build citations array from answer result
-    const citations = answerResult.citations.map((index) => ({
-      index,
-      text: retrievedPassages[index]?.text || '',
-      score: retrievedPassages[index]?.score || 0,
-      metadata: retrievedPassages[index]?.metadata || {},
-    }));
+    const citations = answerResult.citations.map((index) => {
+      const metadata = retrievedPassages[index]?.metadata || {};
+      const pageStart = metadata[PAGE_START_KEY];
+      const pageEnd = metadata[PAGE_END_KEY];
+      return {
+        index,
+        text: retrievedPassages[index]?.text || '',
+        score: retrievedPassages[index]?.score || 0,
+        metadata,
+        ...(retrievedPassages[index]?.rerankScore !== undefined && {
+          vectorScore: retrievedPassages[index]!.vectorScore,
+          rerankScore: retrievedPassages[index]!.rerankScore,
+        }),
+        ...(typeof pageStart === 'number' && typeof pageEnd === 'number' && { pageStart, pageEnd }),
+      };
+    });
 
     const response = {
       requestId: req.requestId,
@@ -398,16 +892,44 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
         query: body.query,
         answer: answerResult.answer,
         citations,
+        ...(answerResult.backend && {
+          provider: {
+            backend: answerResult.backend,
+            model: answerResult.model || 'unknown',
+            fallback: answerResult.fallback === true,
+          },
+        }),
+        ...(session && { sessionId: session.id, standaloneQuery: retrievalQuery }),
+        ...(grounding && { grounding }),
+        ...(template && { promptTemplate: template }),
+        ...(confidence.abstained
+          ? { confidence, abstained: true }
+          : {
+              confidence: withCitationCoverage(
+                confidence,
+                answerResult.answer,
+                grounding?.action === 'refused' ? undefined : grounding
+              ),
+            }),
       } as AnswerResponse,
     };
 
+    if (session) {
+      await appendSessionTurns(session, body.query, retrievalQuery, response.data, log);
+    }
+
     const totalDuration = Date.now() - requestStartTime;
     log.info('Query completed (full RAG mode)', {
       requestId: req.requestId,
       query: body.query,
       passagesRetrieved: retrievedPassages.length,
       citationsCount: citations.length,
+      confidence: response.data.confidence.score,
+      abstained: confidence.abstained,
       answerLength: answerResult.answer.length,
+      llmBackend: answerResult.backend,
+      llmFallback: answerResult.fallback,
+      promptTemplate: promptTemplate.id,
       retrievalDurationMs: retrievalDuration,
       answerGenerationDurationMs: answerDuration,
       totalDurationMs: totalDuration,
@@ -433,11 +955,13 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
 
     // Cache the response if cache is enabled
     if (cacheEnabled) {
-      const cacheKey = generateCacheKey(body.query, topK, mode);
+      const cacheKey = generateCacheKey(body.query, topK, cacheMode);
       const responseToCache = JSON.stringify(response.data);
       
       // Populate semantic cache (vector) asynchronously, don't block response
-      semanticSet(body.query, responseToCache, log).catch(() => {});
+      if (!explicitRetrievalOptions) {
+        semanticSet(body.query, responseToCache, log).catch(() => {});
+      }
 
       await cache.set(cacheKey, responseToCache, CACHE_TTL_SECONDS, log).catch((err) => {
         // Log but don't fail the request if caching fails
@@ -448,6 +972,15 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
       });
     }
 
+    if (sse) {
+      sse.send('done', {
+        requestId: req.requestId,
+        ...response.data,
+        usage: { promptTokens, completionTokens, totalTokens },
+      });
+      sse.end();
+      return;
+    }
     res.json(response);
   } catch (error) {
     // Pass error to error handler middleware
@@ -466,7 +999,10 @@ app.post('/query', apiKeyAuth({ required: false }), rateLimiter(), async (req: R
 interface IngestTextRequest {
   text: string;
   source: string;
+  /** Stored with every chunk and returned in results/citations (nested objects are flattened) */
   metadata?: Record<string, unknown>;
+  /** Chunking strategy and settings, e.g. { strategy: 'markdown', chunkSize: 1000 } */
+  chunking?: unknown;
 }
 
 app.post('/ingest/text', apiKeyAuth({ required: true }), async (req: Request, res: Response, next: NextFunction) => {
@@ -484,15 +1020,29 @@ app.post('/ingest/text', apiKeyAuth({ required: true }), async (req: Request, re
       throw validationError('Request body must contain a "source" field of type string', { body: req.body });
     }
 
+    let metadata;
+    let chunking;
+    try {
+      metadata = sanitizeMetadata(body.metadata);
+      chunking = resolveChunking(body.chunking, { defaultStrategy: getTenantChunkingStrategy(req) });
+    } catch (err) {
+      if (err instanceof MetadataValidationError || err instanceof ChunkingValidationError) {
+        throw validationError(err.message, { path: err.path });
+      }
+      throw err;
+    }
+
     log.info('Processing text ingestion request', {
       requestId: req.requestId,
       tenantId: req.tenant?.id,
       namespace,
       source: body.source,
       textLength: body.text.length,
+      metadataFields: Object.keys(metadata).length,
+      chunking: chunking.strategy,
     });
 
-    const result = await ingestText(body.text, body.source, namespace, body.metadata || {}, req.requestId, log);
+    const result = await ingestText(body.text, body.source, namespace, metadata, req.requestId, log, chunking);
 
     if (!result.success) {
       return res.status(500).json({
@@ -509,6 +1059,9 @@ app.post('/ingest/text', apiKeyAuth({ required: true }), async (req: Request, re
         source: result.filePath,
         chunksProcessed: result.chunksProcessed,
         namespace: namespace || '(default)',
+        status: result.status,
+        ...(result.duplicateOf && { duplicateOf: result.duplicateOf }),
+        ...(result.chunksDeleted && { chunksDeleted: result.chunksDeleted }),
       },
     });
   } catch (error) {
@@ -518,7 +1071,10 @@ app.post('/ingest/text', apiKeyAuth({ required: true }), async (req: Request, re
 
 /**
  * Batch ingest multiple text documents
- * Useful for ingesting app knowledge bases
+ *
+ * Deprecated in favor of POST /ingest/jobs: documents are ingested one after
+ * another inside the request, so a large batch can outlast client and proxy
+ * timeouts. Responses carry Deprecation and Link headers naming the successor.
  */
 interface BatchIngestItem {
   text: string;
@@ -528,6 +1084,8 @@ interface BatchIngestItem {
 
 interface BatchIngestRequest {
   documents: BatchIngestItem[];
+  /** Chunking strategy and settings for every document */
+  chunking?: unknown;
 }
 
 app.post('/ingest/batch', apiKeyAuth({ required: true }), async (req: Request, res: Response, next: NextFunction) => {
@@ -536,6 +1094,9 @@ app.post('/ingest/batch', apiKeyAuth({ required: true }), async (req: Request, r
     const body = req.body as BatchIngestRequest;
     const namespace = getTenantNamespace(req);
 
+    res.setHeader('Deprecation', 'true');
+    res.setHeader('Link', '</ingest/jobs>; rel="successor-version"');
+
     // Validate request
     if (!body.documents || !Array.isArray(body.documents)) {
       throw validationError('Request body must contain a "documents" array', { body: req.body });
@@ -549,6 +1110,16 @@ app.post('/ingest/batch', apiKeyAuth({ required: true }), async (req: Request, r
       throw validationError('Maximum 100 documents per batch', { count: body.documents.length });
     }
 
+    let chunking;
+    try {
+      chunking = resolveChunking(body.chunking, { defaultStrategy: getTenantChunkingStrategy(req) });
+    } catch (err) {
+      if (err instanceof ChunkingValidationError) {
+        throw validationError(err.message, { path: err.path });
+      }
+      throw err;
+    }
+
     log.info('Processing batch ingestion request', {
       requestId: req.requestId,
       tenantId: req.tenant?.id,
@@ -560,7 +1131,7 @@ app.post('/ingest/batch', apiKeyAuth({ required: true }), async (req: Request, r
     let successCount = 0;
     let errorCount = 0;
 
-    for (const doc of body.documents) {
+    for (const [i, doc] of body.documents.entries()) {
       if (!doc.text || !doc.source) {
         results.push({
           source: doc.source || 'unknown',
@@ -571,12 +1142,24 @@ app.post('/ingest/batch', apiKeyAuth({ required: true }), async (req: Request, r
         continue;
       }
 
-      const result = await ingestText(doc.text, doc.source, namespace, doc.metadata || {}, req.requestId, log);
+      let metadata;
+      try {
+        metadata = sanitizeMetadata(doc.metadata, `documents[${i}].metadata`);
+      } catch (err) {
+        if (!(err instanceof MetadataValidationError)) throw err;
+        results.push({ source: doc.source, success: false, error: err.message });
+        errorCount++;
+        continue;
+      }
+
+      const result = await ingestText(doc.text, doc.source, namespace, metadata, req.requestId, log, chunking);
       results.push({
         source: result.filePath,
         chunksProcessed: result.chunksProcessed,
         success: result.success,
         error: result.error,
+        status: result.status,
+        ...(result.duplicateOf && { duplicateOf: result.duplicateOf }),
       });
 
       if (result.success) {
@@ -584,9 +1167,6 @@ app.post('/ingest/batch', apiKeyAuth({ required: true }), async (req: Request, r
       } else {
         errorCount++;
       }
-
-      // Small delay to avoid rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 50));
     }
 
     res.json({
@@ -605,6 +1185,175 @@ app.post('/ingest/batch', apiKeyAuth({ required: true }), async (req: Request, r
   }
 });
 
+/**
+ * Upload and ingest files (any type with a registered parser, see parsers.ts)
+ * Multipart form: one or more "files" parts, plus an optional "metadata" part
+ * holding a JSON object applied to every file, an optional "chunking" JSON
+ * part and an optional "fields" part (comma-separated dotted paths)
+ * selecting what JSON/JSONL records index.
+ * Temp files are always removed.
+ */
+app.post('/ingest/file', apiKeyAuth({ required: true }), uploadFiles, async (req: Request, res: Response, next: NextFunction) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  try {
+    const log = (req as any).log || logger;
+    const namespace = getTenantNamespace(req);
+
+    if (files.length === 0) {
+      throw validationError('Request must include at least one file in the "files" field', {});
+    }
+
+    let metadata;
+    let chunking;
+    let part = 'metadata';
+    try {
+      const raw = req.body?.metadata;
+      metadata = sanitizeMetadata(typeof raw === 'string' && raw.trim() ? JSON.parse(raw) : undefined);
+      part = 'chunking';
+      const rawChunking = req.body?.chunking;
+      chunking = resolveChunking(typeof rawChunking === 'string' && rawChunking.trim() ? JSON.parse(rawChunking) : undefined, {
+        defaultStrategy: getTenantChunkingStrategy(req),
+      });
+    } catch (err) {
+      if (err instanceof SyntaxError) {
+        throw validationError(`${part} must be a JSON object`, { path: part });
+      }
+      if (err instanceof MetadataValidationError || err instanceof ChunkingValidationError) {
+        throw validationError(err.message, { path: err.path });
+      }
+      throw err;
+    }
+
+    const fields = typeof req.body?.fields === 'string'
+      ? req.body.fields.split(',').map((field: string) => field.trim()).filter(Boolean)
+      : [];
+
+    log.info('Processing file ingestion request', {
+      requestId: req.requestId,
+      tenantId: req.tenant?.id,
+      namespace,
+      files: files.map((f) => ({ name: f.originalname, size: f.size })),
+      ...(fields.length > 0 && { fields }),
+    });
+
+    const results = await ingestDocuments(
+      files.map((file) => ({
+        path: file.path,
+        source: basename(file.originalname),
+        metadata,
+        chunking,
+        ...(fields.length > 0 && { fields }),
+      })),
+      namespace,
+      req.requestId,
+      log
+    );
+    const successful = results.filter((r) => r.success).length;
+
+    res.json({
+      requestId: req.requestId,
+      success: successful === results.length,
+      data: {
+        total: results.length,
+        successful,
+        failed: results.length - successful,
+        namespace: namespace || '(default)',
+        results,
+      },
+    });
+  } catch (error) {
+    next(error);
+  } finally {
+    await Promise.all(files.map((file) => unlink(file.path).catch(() => {})));
+  }
+});
+
+/**
+ * Queue documents for asynchronous ingestion
+ * Returns 202 with a job ID immediately; poll GET /ingest/jobs/:id for progress
+ */
+const MAX_JOB_DOCUMENTS = parseInt(process.env.INGEST_JOB_MAX_DOCUMENTS || '1000', 10);
+
+app.post('/ingest/jobs', apiKeyAuth({ required: true }), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const log = (req as any).log || logger;
+    const body = req.body as BatchIngestRequest;
+    const namespace = getTenantNamespace(req);
+
+    if (!body.documents || !Array.isArray(body.documents) || body.documents.length === 0) {
+      throw validationError('Request body must contain a non-empty "documents" array', {});
+    }
+
+    if (body.documents.length > MAX_JOB_DOCUMENTS) {
+      throw validationError(`Maximum ${MAX_JOB_DOCUMENTS} documents per job`, { count: body.documents.length });
+    }
+
+    let chunking;
+    try {
+      chunking = resolveChunking(body.chunking, { defaultStrategy: getTenantChunkingStrategy(req) });
+    } catch (err) {
+      if (err instanceof ChunkingValidationError) {
+        throw validationError(err.message, { path: err.path });
+      }
+      throw err;
+    }
+
+    // Reject the whole job up front; nothing is queued if any document is invalid
+    const documents: IngestJobDocument[] = body.documents.map((doc, i) => {
+      if (!doc || typeof doc.text !== 'string' || !doc.text.trim() || typeof doc.source !== 'string' || !doc.source) {
+        throw validationError('Each document needs non-empty "text" and "source" strings', { path: `documents[${i}]` });
+      }
+      try {
+        const metadata = sanitizeMetadata(doc.metadata, `documents[${i}].metadata`);
+        return { text: doc.text, source: doc.source, ...(Object.keys(metadata).length > 0 && { metadata }), chunking };
+      } catch (err) {
+        if (err instanceof MetadataValidationError) {
+          throw validationError(err.message, { path: err.path });
+        }
+        throw err;
+      }
+    });
+
+    const job = await getIngestQueue().enqueue(documents, namespace, log);
+
+    res.status(202).json({
+      requestId: req.requestId,
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+        total: job.total,
+        namespace: namespace || '(default)',
+        statusUrl: `/ingest/jobs/${job.id}`,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Ingestion job status and per-document results (only visible to the tenant that created it)
+ */
+app.get('/ingest/jobs/:id', apiKeyAuth({ required: true }), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const namespace = getTenantNamespace(req);
+    const job = await getIngestQueue().get(String(req.params.id));
+
+    if (!job || (job.namespace || '') !== namespace) {
+      throw new AppError(`Ingestion job ${req.params.id} not found`, 404, 'NOT_FOUND');
+    }
+
+    res.json({
+      requestId: req.requestId,
+      data: job,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * Delete all documents in a namespace
  * Useful for re-indexing or cleanup
@@ -625,14 +1374,10 @@ app.delete('/ingest/namespace', apiKeyAuth({ required: true }), async (req: Requ
     });
 
     // Load config and delete namespace
-    const config = loadConfig();
-    const { Pinecone } = await import('@pinecone-database/pinecone');
-    const pinecone = new Pinecone({
-      apiKey: config.pineconeApiKey,
-    });
-
-    const index = pinecone.index(config.pineconeIndexName);
-    await index.namespace(namespace).deleteAll();
+    const config = loadConfig(log);
+    const vectorStore = createVectorClient(config, log);
+    await vectorStore.namespace(namespace).deleteAll();
+    getLexicalStore().deleteNamespace(namespace);
 
     log.info('Namespace deleted successfully', {
       requestId: req.requestId,
@@ -672,6 +1417,19 @@ app.use(errorHandler);
 // SERVER STARTUP
 // ============================================================================
 
+// Resume ingestion jobs whose process stopped (Redis job store only): at
+// startup, then once per lease period for jobs of replicas that die later
+const recoverIngestJobs = () =>
+  getIngestQueue()
+    .recover()
+    .catch((error) => {
+      logger.warn('Could not resume ingestion jobs', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+recoverIngestJobs();
+setInterval(recoverIngestJobs, INGEST_QUEUE_CONFIG.leaseMs).unref();
+
 app.listen(PORT, () => {
   logger.info('Server started', {
     port: PORT,
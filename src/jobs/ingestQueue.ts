@@ -0,0 +1,327 @@
+/**
+ * Asynchronous Ingestion Queue
+ *
+ * `POST /ingest/jobs` hands its documents to this queue and returns a job ID
+ * straight away; a pool of INGEST_CONCURRENCY workers ingests the documents
+ * (FIFO across all jobs) and records per-document results that
+ * `GET /ingest/jobs/:id` reports.
+ *
+ * Job progress is written to the JobStore after every document (the payloads
+ * are stored once, when the job is created), so with Redis unfinished work
+ * survives a restart. Each process leases the jobs it runs and renews the
+ * leases while it works; recover re-queues unfinished jobs whose lease
+ * expired (their process died), so several replicas never run the same job.
+ * Re-ingesting a document that was interrupted mid-way is safe: chunk IDs are
+ * derived from the source, so the upsert overwrites the partial write.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger, type Logger } from '../utils/logger.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { ingestJobsCounter, ingestQueueDepthGauge } from '../metrics/metrics.js';
+import { ingestText, type IngestionResult } from '../rag/ingest.js';
+import { getJobStore, type IngestJob, type IngestJobDocument, type JobStore } from './jobStore.js';
+
+export const INGEST_QUEUE_CONFIG = {
+  // Documents ingested at the same time, across all jobs
+  concurrency: Math.max(1, parseInt(process.env.INGEST_CONCURRENCY || '2', 10)),
+  // Documents allowed to wait in the queue; new jobs are refused beyond this
+  maxQueuedDocuments: parseInt(process.env.INGEST_QUEUE_MAX_DOCUMENTS || '10000', 10),
+  // Lease on a running job; renewed every third of it, taken over once expired
+  leaseMs: parseInt(process.env.INGEST_JOB_LEASE_MS || '30000', 10),
+};
+
+/** Ingests one document (ingestText by default; replaceable in tests) */
+export type DocumentProcessor = (
+  document: IngestJobDocument,
+  namespace: string | undefined,
+  reqLogger?: Logger
+) => Promise<IngestionResult>;
+
+const defaultProcessor: DocumentProcessor = (document, namespace, reqLogger) =>
+  ingestText(document.text, document.source, namespace, document.metadata || {}, undefined, reqLogger, document.chunking);
+
+export interface IngestQueueOptions {
+  concurrency?: number;
+  maxQueuedDocuments?: number;
+  leaseMs?: number;
+  processor?: DocumentProcessor;
+}
+
+export class IngestQueue {
+  private readonly concurrency: number;
+  private readonly maxQueuedDocuments: number;
+  private readonly leaseMs: number;
+  private readonly processor: DocumentProcessor;
+  /** Lease owner ID of this process */
+  private readonly owner = randomUUID();
+
+  /** Unfinished jobs owned by this process (source of truth while running) */
+  private readonly jobs = new Map<string, IngestJob>();
+  /** Payloads of those jobs */
+  private readonly documents = new Map<string, IngestJobDocument[]>();
+  private readonly pending: Array<{ jobId: string; index: number }> = [];
+  private active = 0;
+  private idleWaiters: Array<() => void> = [];
+  private leaseTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly store: JobStore,
+    options: IngestQueueOptions = {}
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? INGEST_QUEUE_CONFIG.concurrency);
+    this.maxQueuedDocuments = options.maxQueuedDocuments ?? INGEST_QUEUE_CONFIG.maxQueuedDocuments;
+    this.leaseMs = options.leaseMs ?? INGEST_QUEUE_CONFIG.leaseMs;
+    this.processor = options.processor || defaultProcessor;
+  }
+
+  /**
+   * Creates a job for the documents and queues them
+   * @returns The job as created
+   * @throws AppError 503 when the queue is full
+   */
+  async enqueue(documents: IngestJobDocument[], namespace?: string, reqLogger?: Logger): Promise<IngestJob> {
+    const log = reqLogger || logger;
+
+    if (this.pending.length + documents.length > this.maxQueuedDocuments) {
+      throw new AppError('Ingestion queue is full, retry later', 503, 'QUEUE_FULL', {
+        queued: this.pending.length,
+        limit: this.maxQueuedDocuments,
+      });
+    }
+
+    const job: IngestJob = {
+      id: randomUUID(),
+      ...(namespace && { namespace }),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      total: documents.length,
+      processed: 0,
+      succeeded: 0,
+      skipped: 0,
+      duplicates: 0,
+      failed: 0,
+      results: documents.map((doc) => ({ source: doc.source, status: 'pending' })),
+    };
+
+    await this.store.acquireLease(job.id, this.owner, this.leaseMs);
+    await this.store.create(job, documents);
+    const created = structuredClone(job);
+    this.schedule(job, documents);
+
+    log.info('Ingestion job queued', {
+      jobId: job.id,
+      documents: job.total,
+      namespace: namespace || '(default)',
+      queued: this.pending.length,
+    });
+
+    return created;
+  }
+
+  /**
+   * Current state of a job (live state for jobs running in this process)
+   */
+  async get(id: string): Promise<IngestJob | null> {
+    const live = this.jobs.get(id);
+    if (live) return structuredClone(live);
+    return this.store.get(id);
+  }
+
+  /**
+   * Re-queues unfinished jobs whose lease expired (left by a process that
+   * stopped); jobs another live process holds are left alone
+   * @returns Number of jobs resumed
+   */
+  async recover(reqLogger?: Logger): Promise<number> {
+    const log = reqLogger || logger;
+    const unfinished = await this.store.listUnfinished();
+    let resumed = 0;
+
+    for (const job of unfinished) {
+      if (this.jobs.has(job.id)) continue;
+      if (!(await this.store.acquireLease(job.id, this.owner, this.leaseMs))) continue;
+      job.skipped ??= 0; // jobs queued before skip reporting existed
+      job.duplicates ??= 0;
+      const documents = await this.store.getDocuments(job.id);
+      if (!documents || documents.length !== job.total) {
+        log.warn('Ingestion job cannot be resumed (payload missing)', { jobId: job.id });
+        job.results = job.results.map((result) =>
+          result.status === 'pending' ? { ...result, status: 'failed', error: 'Interrupted by a restart' } : result
+        );
+        job.failed = job.results.filter((result) => result.status === 'failed').length;
+        job.processed = job.succeeded + job.skipped + job.duplicates + job.failed;
+        await this.finish(job, job.failed === job.total ? 'failed' : 'completed');
+        continue;
+      }
+      this.schedule(job, documents);
+      resumed++;
+    }
+
+    if (resumed > 0) {
+      log.info('Resumed unfinished ingestion jobs', { jobs: resumed, queued: this.pending.length });
+    }
+    return resumed;
+  }
+
+  /** Documents waiting for a worker */
+  get queued(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Resolves once every queued document has been processed
+   */
+  onIdle(): Promise<void> {
+    if (this.active === 0 && this.pending.length === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private schedule(job: IngestJob, documents: IngestJobDocument[]): void {
+    this.jobs.set(job.id, job);
+    this.documents.set(job.id, documents);
+    if (!this.leaseTimer) {
+      this.leaseTimer = setInterval(() => void this.renewLeases(), Math.max(1, Math.floor(this.leaseMs / 3)));
+      this.leaseTimer.unref();
+    }
+    job.results.forEach((result, index) => {
+      if (result.status === 'pending') {
+        this.pending.push({ jobId: job.id, index });
+      }
+    });
+    ingestQueueDepthGauge.set(this.pending.length);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const task = this.pending.shift()!;
+      ingestQueueDepthGauge.set(this.pending.length);
+      this.active++;
+      this.run(task.jobId, task.index)
+        .catch((error) => {
+          logger.error('Ingestion worker failed', {
+            jobId: task.jobId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        })
+        .finally(() => {
+          this.active--;
+          this.drain();
+          if (this.active === 0 && this.pending.length === 0) {
+            this.idleWaiters.splice(0).forEach((resolve) => resolve());
+          }
+        });
+    }
+  }
+
+  private async run(jobId: string, index: number): Promise<void> {
+    const job = this.jobs.get(jobId);
+    const document = this.documents.get(jobId)?.[index];
+    if (!job || !document) return;
+
+    if (job.status === 'queued') {
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+    }
+
+    let result: IngestionResult;
+    try {
+      result = await this.processor(document, job.namespace, logger);
+    } catch (error) {
+      result = {
+        filePath: document.source,
+        chunksProcessed: 0,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    // The lease was lost while ingesting; the process that took the job over records it
+    if (this.jobs.get(jobId) !== job) return;
+
+    const status =
+      !result.success ? 'failed' : result.status === 'skipped' || result.status === 'duplicate' ? result.status : 'succeeded';
+    job.results[index] = {
+      source: document.source,
+      status,
+      chunksProcessed: result.chunksProcessed,
+      ...(result.duplicateOf && { duplicateOf: result.duplicateOf }),
+      ...(result.error && { error: result.error }),
+    };
+    job.processed++;
+    if (status === 'succeeded') job.succeeded++;
+    else if (status === 'skipped') job.skipped++;
+    else if (status === 'duplicate') job.duplicates++;
+    else job.failed++;
+
+    if (job.processed === job.total) {
+      await this.finish(job, job.failed === job.total ? 'failed' : 'completed');
+    } else {
+      await this.store.save(job);
+    }
+  }
+
+  private async finish(job: IngestJob, status: 'completed' | 'failed'): Promise<void> {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    this.forget(job.id);
+    await this.store.save(job);
+    await this.store.releaseLease(job.id, this.owner);
+    ingestJobsCounter.inc({ status });
+
+    logger.info('Ingestion job finished', {
+      jobId: job.id,
+      status,
+      total: job.total,
+      succeeded: job.succeeded,
+      failed: job.failed,
+    });
+  }
+
+  /**
+   * Renews the leases of the jobs this process runs; a job whose lease was
+   * lost (e.g. after a long stall) is dropped with its queued documents
+   */
+  private async renewLeases(): Promise<void> {
+    for (const jobId of Array.from(this.jobs.keys())) {
+      try {
+        if (await this.store.renewLease(jobId, this.owner, this.leaseMs)) continue;
+        logger.warn('Ingestion job lease lost, leaving the job to its new owner', { jobId });
+        this.forget(jobId);
+        for (let i = this.pending.length - 1; i >= 0; i--) {
+          if (this.pending[i]!.jobId === jobId) this.pending.splice(i, 1);
+        }
+        ingestQueueDepthGauge.set(this.pending.length);
+        if (this.active === 0 && this.pending.length === 0) {
+          this.idleWaiters.splice(0).forEach((resolve) => resolve());
+        }
+      } catch (error) {
+        logger.warn('Could not renew ingestion job lease', {
+          jobId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private forget(jobId: string): void {
+    this.jobs.delete(jobId);
+    this.documents.delete(jobId);
+    if (this.jobs.size === 0 && this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+  }
+}
+
+let queueInstance: IngestQueue | null = null;
+
+/**
+ * Process-wide ingestion queue backed by getJobStore()
+ */
+export function getIngestQueue(): IngestQueue {
+  if (!queueInstance) {
+    queueInstance = new IngestQueue(getJobStore());
+  }
+  return queueInstance;
+}
@@ -0,0 +1,286 @@
+/**
+ * Ingestion Job Store
+ *
+ * Persists asynchronous ingestion jobs (see ingestQueue.ts) so their status
+ * can be polled and unfinished work resumed after a restart:
+ * - RedisJobStore: jobs survive restarts; used when REDIS_URL is set
+ * - InMemoryJobStore: process-local fallback (jobs are lost on restart)
+ *
+ * Document payloads are written once, when the job is created, and kept apart
+ * from the job record: progress saves rewrite only the status, counters and
+ * per-document results. Payloads are dropped when the job finishes; finished
+ * jobs expire after INGEST_JOB_TTL_SECONDS.
+ *
+ * Unfinished jobs are leased: the process working on a job holds its lease and
+ * renews it, and other processes only take over jobs whose lease expired.
+ */
+
+import { Redis, type RedisOptions } from 'ioredis';
+import { logger } from '../utils/logger.js';
+import type { VectorMetadata } from '../vector/vectorStore.js';
+import type { ChunkingOptions } from '../rag/chunking.js';
+
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IngestJobDocument {
+  text: string;
+  source: string;
+  /** Already validated by sanitizeMetadata */
+  metadata?: VectorMetadata;
+  /** Already validated by resolveChunking */
+  chunking?: ChunkingOptions;
+}
+
+export interface IngestJobResult {
+  source: string;
+  /** skipped: unchanged since the last ingestion; duplicate: new source identical to `duplicateOf`, not stored */
+  status: 'pending' | 'succeeded' | 'skipped' | 'duplicate' | 'failed';
+  chunksProcessed?: number;
+  duplicateOf?: string;
+  error?: string;
+}
+
+export interface IngestJob {
+  id: string;
+  /** Tenant namespace; undefined for the default namespace */
+  namespace?: string;
+  status: IngestJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  total: number;
+  processed: number;
+  succeeded: number;
+  skipped: number;
+  duplicates: number;
+  failed: number;
+  /** Per-document progress, in submission order */
+  results: IngestJobResult[];
+}
+
+export interface JobStore {
+  readonly backend: string;
+
+  /** Stores a new job and its document payloads */
+  create(job: IngestJob, documents: IngestJobDocument[]): Promise<void>;
+
+  /** Stores the job's progress; finishing it drops its payloads */
+  save(job: IngestJob): Promise<void>;
+
+  get(id: string): Promise<IngestJob | null>;
+
+  /** Payloads of an unfinished job (null once it finished) */
+  getDocuments(id: string): Promise<IngestJobDocument[] | null>;
+
+  /** Jobs that were queued or running (for recovery after a restart) */
+  listUnfinished(): Promise<IngestJob[]>;
+
+  /** Takes the job's lease for `owner`; false while another owner's lease is unexpired */
+  acquireLease(id: string, owner: string, ttlMs: number): Promise<boolean>;
+
+  /** Extends the lease `owner` holds; false when it expired or was taken over */
+  renewLease(id: string, owner: string, ttlMs: number): Promise<boolean>;
+
+  releaseLease(id: string, owner: string): Promise<void>;
+
+  close?(): Promise<void>;
+}
+
+/** How long finished jobs stay pollable */
+const JOB_TTL_SECONDS = parseInt(process.env.INGEST_JOB_TTL_SECONDS || '86400', 10);
+
+function isFinished(job: IngestJob): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+/**
+ * Redis-backed job store
+ * Each job is a JSON string at `ingest:job:<id>` and its payloads one at
+ * `ingest:job:<id>:documents`; unfinished job IDs are kept in the
+ * `ingest:jobs:unfinished` set. A lease is the owner ID at
+ * `ingest:job:<id>:lease`, set with NX and a PX expiry.
+ */
+/** Extends or deletes a lease only while the caller still owns it */
+const RENEW_LEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('pexpire', KEYS[1], ARGV[2]) end return 0`;
+const RELEASE_LEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+
+export class RedisJobStore implements JobStore {
+  readonly backend = 'redis';
+
+  private client: Redis;
+
+  constructor(redisUrl: string) {
+    const options: RedisOptions = {
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times: number) => Math.min(times * 50, 2000),
+      lazyConnect: true,
+    };
+
+    this.client = new Redis(redisUrl, options);
+
+    this.client.on('error', (err: Error) => {
+      logger.error('Redis job store error', { error: err.message });
+    });
+
+    this.client.connect().catch((err: Error) => {
+      logger.error('Redis job store connection failed', { error: err.message });
+    });
+  }
+
+  private key(id: string): string {
+    return `ingest:job:${id}`;
+  }
+
+  async create(job: IngestJob, documents: IngestJobDocument[]): Promise<void> {
+    await this.client
+      .multi()
+      .set(`${this.key(job.id)}:documents`, JSON.stringify(documents))
+      .set(this.key(job.id), JSON.stringify(job))
+      .sadd('ingest:jobs:unfinished', job.id)
+      .exec();
+  }
+
+  async save(job: IngestJob): Promise<void> {
+    if (!isFinished(job)) {
+      await this.client.set(this.key(job.id), JSON.stringify(job));
+      return;
+    }
+    await this.client
+      .multi()
+      .set(this.key(job.id), JSON.stringify(job), 'EX', JOB_TTL_SECONDS)
+      .del(`${this.key(job.id)}:documents`)
+      .srem('ingest:jobs:unfinished', job.id)
+      .exec();
+  }
+
+  async get(id: string): Promise<IngestJob | null> {
+    const value = await this.client.get(this.key(id));
+    return value ? (JSON.parse(value) as IngestJob) : null;
+  }
+
+  async getDocuments(id: string): Promise<IngestJobDocument[] | null> {
+    const value = await this.client.get(`${this.key(id)}:documents`);
+    return value ? (JSON.parse(value) as IngestJobDocument[]) : null;
+  }
+
+  async listUnfinished(): Promise<IngestJob[]> {
+    const ids = await this.client.smembers('ingest:jobs:unfinished');
+    if (ids.length === 0) return [];
+    const values = await this.client.mget(ids.map((id) => this.key(id)));
+    return values.filter((v): v is string => v !== null).map((v) => JSON.parse(v) as IngestJob);
+  }
+
+  async acquireLease(id: string, owner: string, ttlMs: number): Promise<boolean> {
+    return (await this.client.set(`${this.key(id)}:lease`, owner, 'PX', ttlMs, 'NX')) === 'OK';
+  }
+
+  async renewLease(id: string, owner: string, ttlMs: number): Promise<boolean> {
+    return (await this.client.eval(RENEW_LEASE_SCRIPT, 1, `${this.key(id)}:lease`, owner, ttlMs)) === 1;
+  }
+
+  async releaseLease(id: string, owner: string): Promise<void> {
+    await this.client.eval(RELEASE_LEASE_SCRIPT, 1, `${this.key(id)}:lease`, owner);
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+/**
+ * In-memory job store
+ * Single-instance only; jobs are lost on restart
+ */
+export class InMemoryJobStore implements JobStore {
+  readonly backend = 'memory';
+
+  private jobs = new Map<string, { json: string; expiresAt?: number }>();
+  private documents = new Map<string, string>();
+  private leases = new Map<string, { owner: string; expiresAt: number }>();
+
+  async create(job: IngestJob, documents: IngestJobDocument[]): Promise<void> {
+    this.documents.set(job.id, JSON.stringify(documents));
+    await this.save(job);
+  }
+
+  async save(job: IngestJob): Promise<void> {
+    if (isFinished(job)) this.documents.delete(job.id);
+    this.jobs.set(job.id, {
+      json: JSON.stringify(job),
+      ...(isFinished(job) && { expiresAt: Date.now() + JOB_TTL_SECONDS * 1000 }),
+    });
+
+    // Cleanup expired jobs periodically (every 100 saves)
+    if (this.jobs.size % 100 === 0) {
+      const now = Date.now();
+      for (const [id, entry] of this.jobs.entries()) {
+        if (entry.expiresAt && now > entry.expiresAt) {
+          this.jobs.delete(id);
+        }
+      }
+    }
+  }
+
+  async get(id: string): Promise<IngestJob | null> {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    if (entry.expiresAt && Date.now() > entry.expiresAt) {
+      this.jobs.delete(id);
+      return null;
+    }
+    return JSON.parse(entry.json) as IngestJob;
+  }
+
+  async getDocuments(id: string): Promise<IngestJobDocument[] | null> {
+    const json = this.documents.get(id);
+    return json ? (JSON.parse(json) as IngestJobDocument[]) : null;
+  }
+
+  async listUnfinished(): Promise<IngestJob[]> {
+    return Array.from(this.jobs.values())
+      .map((entry) => JSON.parse(entry.json) as IngestJob)
+      .filter((job) => !isFinished(job));
+  }
+
+  async acquireLease(id: string, owner: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(id);
+    if (lease && Date.now() < lease.expiresAt) return false;
+    this.leases.set(id, { owner, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async renewLease(id: string, owner: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(id);
+    if (!lease || lease.owner !== owner || Date.now() >= lease.expiresAt) return false;
+    lease.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async releaseLease(id: string, owner: string): Promise<void> {
+    if (this.leases.get(id)?.owner === owner) this.leases.delete(id);
+  }
+}
+
+/**
+ * Job store factory
+ * Returns RedisJobStore if REDIS_URL is configured, otherwise InMemoryJobStore
+ */
+let jobStoreInstance: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (jobStoreInstance) {
+    return jobStoreInstance;
+  }
+
+  const redisUrl = process.env.REDIS_URL;
+
+  if (redisUrl) {
+    logger.info('Initializing Redis ingestion job store', { redisUrl: '***' });
+    jobStoreInstance = new RedisJobStore(redisUrl);
+  } else {
+    logger.info('Initializing in-memory ingestion job store (Redis not configured)');
+    jobStoreInstance = new InMemoryJobStore();
+  }
+
+  return jobStoreInstance;
+}
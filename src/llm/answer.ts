@@ -8,7 +8,8 @@
  *    - Answer the query using ONLY the provided contexts
  *    - Cite passages using index notation [p0], [p1], etc.
  *    - Explicitly state when information is not in the context
- * 3. LLM Inference: Calls OpenAI GPT model via LangChain to generate answer
+ * 3. LLM Inference: Calls the configured chat backend (OpenAI, Azure OpenAI, Anthropic,
+ *    or an OpenAI-compatible server) via LangChain to generate answer
  * 4. Citation Extraction: Parses the answer to extract referenced passage indices
  * 5. Response Formatting: Returns structured answer with citations
  * 
@@ -18,13 +19,16 @@
  * - Enable users to verify claims by viewing original passages
  */
 
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { logger } from '../utils/logger.js';
-import { llmTTFTHistogram, llmTotalHistogram } from '../metrics/metrics.js';
-import { loadConfig } from '../utils/config.js';
-import { createLLMClient } from '../utils/factory.js';
+import { HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import { logger, type Logger } from '../utils/logger.js';
+import { llmTTFTHistogram, llmTotalHistogram, llmCostCounter, llmFallbackCounter } from '../metrics/metrics.js';
+import { loadConfig, type RAGConfig } from '../utils/config.js';
+import { createLLMClientForTarget, resolveLLMChain, type LLMTarget } from '../utils/factory.js';
+import { getCircuitBreaker } from './circuitBreaker.js';
+import { AppError } from '../middleware/errorHandler.js';
 import { recordLLMTrace } from './langsmith.js';
 import { countTokens } from '../utils/tokenCounter.js';
+import { estimateLLMCostUsd } from './pricing.js';
 
 export interface Context {
   text: string;
@@ -35,12 +39,45 @@ export interface Context {
 export interface AnswerResult {
   answer: string;
   citations: number[];
+  /** LLM backend that produced the answer (absent when no LLM call was made) */
+  backend?: string;
+  model?: string;
+  /** True when the primary provider failed or was skipped and a fallback answered */
+  fallback?: boolean;
+}
+
+/**
+ * Receives the answer while it is generated (streaming responses)
+ */
+export interface AnswerStreamHandlers {
+  onToken(token: string): void;
+  /** Discard the tokens received so far: a provider failed mid-answer, or strict grounding replaces the answer */
+  onRestart?(): void;
+}
+
+interface LLMAttempt {
+  backend: string;
+  model: string;
+  error: string;
+}
+
+interface TimedResponse {
+  response: any;
+  ttftMs: number;
+  totalMs: number;
+}
+
+class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
 }
 
 // Configuration constants
 const DEFAULT_TEMPERATURE = 0.7;
-// Model can be configured via OPENAI_MODEL env var (e.g., 'gpt-4-turbo', 'gpt-4o', 'gpt-4o-mini')
-const DEFAULT_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+const DEFAULT_LLM_TIMEOUT_MS = 30000;
+// The default model depends on LLM_BACKEND (see loadConfig: LLM_MODEL, OPENAI_MODEL, ANTHROPIC_MODEL, ...)
 
 /**
  * Constructs the system prompt for RAG answer generation
@@ -99,25 +136,96 @@ export function extractCitations(answer: string, maxContextIndex: number): numbe
   return Array.from(citations).sort((a, b) => a - b);
 }
 
+/**
+ * Invokes a chat model, measuring TTFT (time-to-first-token) via streaming
+ * callbacks and total generation time. The call is aborted after timeoutMs.
+ * With onToken, the model is asked to stream and every token is forwarded
+ * until the call settles.
+ */
+async function invokeWithTimings(
+  llm: any,
+  messages: BaseMessage[],
+  timeoutMs: number,
+  onToken?: (token: string) => void
+): Promise<TimedResponse> {
+  const startHr = process.hrtime.bigint();
+  let firstTokenHr: bigint | null = null;
+  let settled = false;
+
+  // LangChain expects a list of handlers; we attempt both common callback
+  // names to maximize compatibility.
+  const callbacks = [
+    {
+      handleLLMNewToken: (token: string) => {
+        if (!firstTokenHr) firstTokenHr = process.hrtime.bigint();
+        // A timed-out call may keep producing tokens; they are not part of the answer
+        if (!settled) onToken?.(token);
+      },
+      onLLMNewToken: (_token: string) => {
+        if (!firstTokenHr) firstTokenHr = process.hrtime.bigint();
+      },
+      // Makes LangChain use the provider's streaming API even for invoke()
+      ...(onToken && { lc_prefer_streaming: true }),
+    },
+  ];
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  const call = (async () => {
+    try {
+      return await llm.invoke(messages, { callbacks, signal: controller.signal });
+    } catch (err) {
+      // Clients that do not accept an options argument: try without it
+      if (err instanceof TypeError && !controller.signal.aborted) {
+        return await llm.invoke(messages);
+      }
+      throw err;
+    }
+  })();
+  // The losing side of the race must not surface as an unhandled rejection
+  call.catch(() => undefined);
+
+  let response: any;
+  try {
+    response = await Promise.race([call, timeout]);
+  } finally {
+    settled = true;
+    clearTimeout(timer);
+  }
+
+  const totalMs = Number(process.hrtime.bigint() - startHr) / 1e6;
+  const ttftMs = firstTokenHr ? Number(firstTokenHr - startHr) / 1e6 : totalMs;
+  return { response, ttftMs, totalMs };
+}
+
 /**
  * Generates an answer to a query using retrieved context passages
  * 
  * @param query - The user's question
  * @param contexts - Retrieved passages with scores and metadata
  * @param temperature - Temperature for LLM generation (default: 0.7)
- * @param model - OpenAI model to use (default: 'gpt-4o-mini')
+ * @param model - Model (Azure: deployment) to use (default: the backend's configured model)
+ * @param stream - Receives answer tokens as they are generated
  * @returns Answer with citations
  */
 export async function generateAnswer(
   query: string,
   contexts: Context[],
   temperature: number = DEFAULT_TEMPERATURE,
-  model: string = DEFAULT_MODEL,
+  model?: string,
   requestId?: string,
-  reqLogger?: any,
+  reqLogger?: Logger,
   systemPromptOverride?: string,
   userPromptOverride?: string,
   llmClientOverride?: any,
+  stream?: AnswerStreamHandlers,
 ): Promise<AnswerResult> {
   const startTime = Date.now();
   const log = reqLogger || logger;
@@ -139,14 +247,17 @@ export async function generateAnswer(
       };
     }
 
-    // Initialize LLM: use provided override (tests) or load config and create via factory
-    let llm: any;
+    // Resolve the provider chain: the override (tests) alone, or the primary
+    // backend followed by LLM_FALLBACKS via factory
+    let config: RAGConfig | undefined;
+    let chain: Array<{ backend: string; model: string }>;
     if (llmClientOverride) {
-      llm = llmClientOverride;
+      chain = [{ backend: 'custom', model: model || 'unknown' }];
     } else {
-      const config = loadConfig(log);
-      llm = createLLMClient(config, model, temperature, log);
+      config = loadConfig(log);
+      chain = resolveLLMChain(config, model);
     }
+    const timeoutMs = config?.llmTimeoutMs || DEFAULT_LLM_TIMEOUT_MS;
 
     // Build prompts (allow overrides from caller)
     const systemPrompt = systemPromptOverride ?? buildSystemPrompt();
@@ -164,46 +275,65 @@ export async function generateAnswer(
       new HumanMessage(userPrompt),
     ];
 
-    // Measure TTFT (time-to-first-token) and total generation time.
-    const startHr = process.hrtime.bigint();
-    let firstTokenHr: bigint | null = null;
-
-    let response: any;
-    try {
-      const anyLLM = llm as any;
-
-      // Try invoking with streaming callbacks if supported by the client.
-      // We attempt both common callback names to maximize compatibility.
-      const callbacks = {
-        handleLLMNewToken: (_token: string) => {
-          if (!firstTokenHr) firstTokenHr = process.hrtime.bigint();
-        },
-        onLLMNewToken: (_token: string) => {
-          if (!firstTokenHr) firstTokenHr = process.hrtime.bigint();
-        },
-      };
+    // Try each provider in order; the circuit breaker skips providers that keep failing
+    let timed: TimedResponse | undefined;
+    let backend = '';
+    let resolvedModel = '';
+    let streamed = false;
+    const attempts: LLMAttempt[] = [];
+
+    for (const target of chain) {
+      const breaker = llmClientOverride ? undefined : getCircuitBreaker(target.backend, target.model);
+      const labels = { backend: target.backend, model: target.model };
+
+      if (breaker && !breaker.tryAcquire()) {
+        attempts.push({ ...labels, error: 'circuit open' });
+        llmFallbackCounter.inc({ ...labels, reason: 'circuit_open' });
+        log.warn('LLM provider skipped - circuit open', labels);
+        continue;
+      }
 
+      let streamedTokens = 0;
       try {
-        // Some LangChain LLMs accept a second options arg with `callbacks`.
-        response = await anyLLM.invoke(messages, { callbacks });
+        const llm = llmClientOverride ?? createLLMClientForTarget(target as LLMTarget, config, temperature, log);
+        const onToken = stream && ((token: string) => {
+          streamedTokens++;
+          stream.onToken(token);
+        });
+        timed = await invokeWithTimings(llm, messages, timeoutMs, onToken);
+        streamed = streamedTokens > 0;
+        breaker?.recordSuccess();
+        backend = target.backend;
+        resolvedModel = target.model;
+        break;
       } catch (err) {
-        // Fallback: try without callbacks
-        response = await anyLLM.invoke(messages);
+        breaker?.recordFailure();
+        const timedOut = err instanceof LLMTimeoutError;
+        const message = err instanceof Error ? err.message : String(err);
+        attempts.push({ ...labels, error: message });
+        llmFallbackCounter.inc({ ...labels, reason: timedOut ? 'timeout' : 'error' });
+        log.warn('LLM provider failed', { ...labels, error: message, timedOut, breakerState: breaker?.getState() });
+        if (streamedTokens > 0) stream?.onRestart?.();
       }
-    } catch (err) {
-      // As a last fallback, call invoke directly
-      response = await llm.invoke(messages);
     }
 
-    const endHr = process.hrtime.bigint();
-    const totalMs = Number(endHr - startHr) / 1e6;
-    const ttftMs = firstTokenHr ? Number(firstTokenHr - startHr) / 1e6 : totalMs;
+    if (!timed) {
+      throw new AppError(
+        `All LLM providers failed: ${attempts.map((a) => `${a.backend}/${a.model}: ${a.error}`).join('; ')}`,
+        503,
+        'LLM_UNAVAILABLE',
+        { attempts }
+      );
+    }
+
+    const { response, ttftMs, totalMs } = timed;
+    const fallback = attempts.length > 0;
 
     // Observe metrics (Prometheus expects seconds)
+    const metricLabels = { backend, model: resolvedModel };
     try {
-      const modelLabel = model || 'unknown';
-      llmTTFTHistogram.observe({ model: modelLabel }, ttftMs / 1000);
-      llmTotalHistogram.observe({ model: modelLabel }, totalMs / 1000);
+      llmTTFTHistogram.observe(metricLabels, ttftMs / 1000);
+      llmTotalHistogram.observe(metricLabels, totalMs / 1000);
     } catch (err) {
       // Swallow metric errors - shouldn't block response
     }
@@ -212,6 +342,11 @@ export async function generateAnswer(
       ? response.content
       : String(response?.content || '');
 
+    // Models without token callbacks still deliver the answer to the stream, in one piece
+    if (stream && !streamed && answer) {
+      stream.onToken(answer);
+    }
+
     // Extract citations
     const citations = extractCitations(answer, contexts.length - 1);
 
@@ -222,6 +357,9 @@ export async function generateAnswer(
       citationsCount: citations.length,
       citations,
       durationMs: duration,
+      backend,
+      model: resolvedModel,
+      fallback,
       llm_total_ms: Math.round(totalMs),
       llm_ttft_ms: Math.round(ttftMs),
     });
@@ -229,17 +367,19 @@ export async function generateAnswer(
     // Observability: record LLM token usage via LangSmith stub
     try {
       const combinedPrompt = systemPrompt + '\n' + userPrompt;
-      const promptTokens = await countTokens(combinedPrompt, model);
-      const completionTokens = await countTokens(answer, model);
-      log.info('LLM token usage', { requestId, promptTokens, completionTokens, model });
-      recordLLMTrace(requestId, promptTokens, completionTokens, model, 0 /* cost placeholder */);
+      const promptTokens = await countTokens(combinedPrompt, resolvedModel);
+      const completionTokens = await countTokens(answer, resolvedModel);
+      const costUsd = estimateLLMCostUsd(backend, resolvedModel, promptTokens, completionTokens);
+      log.info('LLM token usage', { requestId, promptTokens, completionTokens, backend, model: resolvedModel, costUsd });
+      llmCostCounter.inc(metricLabels, costUsd);
+      recordLLMTrace(requestId, promptTokens, completionTokens, resolvedModel, costUsd);
       // Also log TTFT + total timings
       log.info('LLM timings', { requestId, ttftMs: Math.round(ttftMs), totalMs: Math.round(totalMs) });
     } catch (err) {
       log.warn('Failed to record LLM trace', { requestId });
     }
 
-    return { answer, citations };
+    return { answer, citations, backend, model: resolvedModel, fallback };
   } catch (error) {
     const duration = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -250,6 +390,11 @@ export async function generateAnswer(
       durationMs: duration,
     });
 
+    // Provider exhaustion keeps its 503 status and attempt details
+    if (error instanceof AppError) {
+      throw error;
+    }
+
     throw new Error(`Answer generation failed: ${errorMessage}`);
   }
 }
@@ -0,0 +1,118 @@
+/**
+ * Circuit breaker for LLM providers
+ *
+ * One breaker per backend/model in the fallback chain:
+ * - closed: calls flow; consecutive failures are counted
+ * - open: after `failureThreshold` consecutive failures the provider is
+ *   skipped for `resetTimeoutMs`
+ * - half_open: after the timeout a single probe call is let through; success
+ *   closes the breaker, failure re-opens it for another timeout
+ *
+ * State is process-local and exported as Prometheus gauges
+ * (llm_circuit_breaker_state, llm_circuit_breaker_failures).
+ */
+
+import { llmCircuitStateGauge, llmCircuitFailuresGauge } from '../metrics/metrics.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/** Gauge encoding for llm_circuit_breaker_state */
+export const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = {
+  closed: 0,
+  half_open: 1,
+  open: 2,
+};
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    readonly backend: string,
+    readonly model: string,
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now
+  ) {
+    this.report();
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.transition('half_open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call may be attempted now. In half-open state only one probe is
+   * admitted until it reports success or failure.
+   */
+  tryAcquire(): boolean {
+    const state = this.getState();
+    if (state === 'closed') return true;
+    if (state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.probeInFlight = false;
+    this.transition('closed');
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    const wasProbe = this.probeInFlight;
+    this.probeInFlight = false;
+    if (wasProbe || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+      this.transition('open');
+    } else {
+      this.report();
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    this.report();
+  }
+
+  private report(): void {
+    const labels = { backend: this.backend, model: this.model };
+    llmCircuitStateGauge.set(labels, CIRCUIT_STATE_VALUES[this.state]);
+    llmCircuitFailuresGauge.set(labels, this.failures);
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Shared breaker for a backend/model pair (created on first use)
+ */
+export function getCircuitBreaker(backend: string, model: string, options?: Partial<CircuitBreakerOptions>): CircuitBreaker {
+  const key = `${backend}:${model}`;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(backend, model, {
+      failureThreshold: options?.failureThreshold ?? parseInt(process.env.LLM_BREAKER_FAILURE_THRESHOLD || '5', 10),
+      resetTimeoutMs: options?.resetTimeoutMs ?? parseInt(process.env.LLM_BREAKER_RESET_MS || '30000', 10),
+    });
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/** Clears all breakers (tests) */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
@@ -0,0 +1,223 @@
+/**
+ * Grounding verification of generated answers
+ *
+ * extractCitations only finds the [pN] markers; this module checks that the
+ * cited passages actually say what the answer claims:
+ * 1. The answer is split into claims, one per sentence. A claim's citations
+ *    are the markers in it or right after its full stop ("... promptly. [p0]").
+ * 2. Each claim gets a support score from 0 to 1 against its cited passages,
+ *    or against all passages when it cites none:
+ *    - lexical: share of the claim's terms found in the passages
+ *    - llm: the chat model scores every claim in one call; unparseable
+ *      replies and failures fall back to lexical
+ * 3. Claims scoring below the threshold are flagged as unsupported.
+ *
+ * Strict mode (refusing or regenerating unsupported answers) is applied by
+ * the /query handler.
+ */
+
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { logger, type Logger } from '../utils/logger.js';
+import { tokenizeForHashing } from '../embeddings/hashingProvider.js';
+import type { LLMClient } from '../utils/factory.js';
+import type { GroundingVerifierName } from '../utils/config.js';
+
+export interface ClaimSupport {
+  /** The sentence without its citation markers */
+  text: string;
+  /** Passage indexes cited by the sentence */
+  citations: number[];
+  /** 0 (not supported) to 1 (fully supported) */
+  score: number;
+  supported: boolean;
+}
+
+export interface GroundingReport {
+  verifier: 'lexical' | 'llm';
+  /** Mean claim score (1 when the answer makes no claims) */
+  score: number;
+  /** False when any claim is unsupported */
+  supported: boolean;
+  unsupportedClaims: number;
+  claims: ClaimSupport[];
+  /** Strict mode: the answer was regenerated, or replaced by a refusal */
+  action?: 'regenerated' | 'refused';
+}
+
+export interface VerifyGroundingOptions {
+  verifier?: Exclude<GroundingVerifierName, 'off'>;
+  /** Claims scoring below this are unsupported (default 0.5) */
+  threshold?: number;
+  /** Chat model for verifier=llm */
+  llm?: LLMClient;
+}
+
+/** Answer returned by strict mode when the answer cannot be grounded */
+export const GROUNDING_REFUSAL_ANSWER = 'I don’t have enough information in the provided documents to answer that.';
+
+const DEFAULT_THRESHOLD = 0.5;
+
+/** Characters of each passage shown to the LLM verifier */
+const MAX_PASSAGE_CHARS = 1000;
+
+const VERIFY_SYSTEM_PROMPT =
+  'You check whether claims are supported by the passages given for them. Score each claim from 0 ' +
+  '(not stated or contradicted) to 1 (fully stated in the passages), using only the passages. ' +
+  'Reply with a JSON array of scores, one per claim in order, and nothing else.';
+
+const citationMarker = /\[p(\d+)\]/g;
+const sentenceSegmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+
+interface Claim {
+  text: string;
+  citations: number[];
+}
+
+function markerIndexes(text: string): number[] {
+  return Array.from(text.matchAll(citationMarker), (m) => parseInt(m[1]!, 10));
+}
+
+/**
+ * Splits an answer into sentence claims with the passages each one cites.
+ * Sentences without any terms (e.g. "Yes.") are not claims.
+ */
+export function splitClaims(answer: string): Claim[] {
+  // "promptly. [p0] The" -> "promptly [p0]. The": the segmenter does not end a
+  // sentence before a marker, and the marker belongs to the sentence it follows
+  const normalized = answer.replace(/([.!?])((?:\s*\[p\d+\])+)/g, '$2$1');
+  const claims: Claim[] = [];
+
+  for (const { segment } of sentenceSegmenter.segment(normalized)) {
+    const text = segment.replace(/\s*\[p\d+\]/g, '').replace(/\s+/g, ' ').trim();
+    if (tokenizeForHashing(text).length === 0) continue;
+    claims.push({ text, citations: Array.from(new Set(markerIndexes(segment))) });
+  }
+
+  return claims;
+}
+
+/** Plural and verb "-s" endings are ignored when matching terms */
+function stem(term: string): string {
+  return term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+}
+
+/**
+ * Share of the claim's terms that appear in the passages (0-1)
+ */
+export function lexicalSupport(claim: string, passages: string[]): number {
+  const claimTerms = new Set(tokenizeForHashing(claim).map(stem));
+  if (claimTerms.size === 0) return 1;
+  const passageTerms = new Set(passages.flatMap((p) => tokenizeForHashing(p).map(stem)));
+  const found = Array.from(claimTerms).filter((term) => passageTerms.has(term)).length;
+  return found / claimTerms.size;
+}
+
+/** The passages a claim is checked against: its citations, or all passages when it cites none */
+function claimPassages(claim: Claim, contexts: string[]): Array<{ index: number; text: string }> {
+  const indexes = claim.citations.filter((i) => i < contexts.length);
+  return (indexes.length > 0 ? indexes : contexts.map((_text, i) => i)).map((index) => ({ index, text: contexts[index]! }));
+}
+
+function clip(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > MAX_PASSAGE_CHARS ? `${flat.slice(0, MAX_PASSAGE_CHARS)}…` : flat;
+}
+
+/**
+ * LLM verifier prompt: every claim followed by its passages
+ */
+export function buildVerificationPrompt(claims: Claim[], contexts: string[]): string {
+  const blocks = claims.map((claim, i) => {
+    const passages = claimPassages(claim, contexts).map((p) => `[p${p.index}] ${clip(p.text)}`);
+    return `Claim ${i + 1}: ${claim.text}\nPassages:\n${passages.join('\n')}`;
+  });
+  return `${blocks.join('\n\n')}\n\nScores:`;
+}
+
+/**
+ * Parses the LLM verifier reply into one score per claim (exported for tests)
+ */
+export function parseSupportScores(reply: string, count: number): number[] {
+  const match = reply.match(/\[[\d.,\s]*\]/);
+  if (!match) {
+    throw new Error(`Grounding verifier reply has no scores: ${reply.slice(0, 100)}`);
+  }
+  const scores = (JSON.parse(match[0]) as number[]).map((score) => Math.min(1, Math.max(0, Number(score))));
+  if (scores.length !== count || scores.some((score) => Number.isNaN(score))) {
+    throw new Error(`Grounding verifier returned ${scores.length} scores for ${count} claims`);
+  }
+  return scores;
+}
+
+function replyText(response: any): string {
+  const content = response?.content ?? response;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((part: any) => (typeof part === 'string' ? part : part?.text || '')).join('');
+  }
+  return String(content ?? '');
+}
+
+/**
+ * Scores every claim of an answer against the passages it cites
+ *
+ * @param contexts - Passage texts in prompt order, so [pN] is contexts[N]
+ */
+export async function verifyGrounding(
+  answer: string,
+  contexts: string[],
+  options: VerifyGroundingOptions = {},
+  reqLogger?: Logger
+): Promise<GroundingReport> {
+  const log = reqLogger || logger;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const claims = splitClaims(answer);
+
+  let verifier: GroundingReport['verifier'] = 'lexical';
+  let scores: number[] | undefined;
+
+  if (options.verifier === 'llm' && options.llm && claims.length > 0) {
+    try {
+      const response = await options.llm.invoke([
+        new SystemMessage(VERIFY_SYSTEM_PROMPT),
+        new HumanMessage(buildVerificationPrompt(claims, contexts)),
+      ]);
+      scores = parseSupportScores(replyText(response), claims.length);
+      verifier = 'llm';
+    } catch (err) {
+      log.warn('LLM grounding verification failed, using lexical support', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  scores ??= claims.map((claim) => lexicalSupport(claim.text, claimPassages(claim, contexts).map((p) => p.text)));
+
+  const supports: ClaimSupport[] = claims.map((claim, i) => ({
+    ...claim,
+    score: Math.round(scores![i]! * 1000) / 1000,
+    supported: scores![i]! >= threshold,
+  }));
+  const unsupportedClaims = supports.filter((claim) => !claim.supported).length;
+  const score = supports.length > 0 ? supports.reduce((sum, claim) => sum + claim.score, 0) / supports.length : 1;
+
+  return {
+    verifier,
+    score: Math.round(score * 1000) / 1000,
+    supported: unsupportedClaims === 0,
+    unsupportedClaims,
+    claims: supports,
+  };
+}
+
+/**
+ * Instruction appended to the user prompt when strict mode regenerates an answer
+ */
+export function regenerationFeedback(report: GroundingReport): string {
+  const unsupported = report.claims.filter((claim) => !claim.supported).map((claim) => `- ${claim.text}`);
+  return [
+    'A previous answer made claims that the cited passages do not support:',
+    ...unsupported,
+    'Answer again. State only what the passages say and cite the passage for every sentence.',
+  ].join('\n');
+}
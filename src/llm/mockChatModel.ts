@@ -0,0 +1,214 @@
+/**
+ * Deterministic mock chat model (LLM_BACKEND=mock)
+ *
+ * Builds an extractive answer from the context passages in the prompt instead
+ * of calling a provider, so /query, the benchmark's HTTP mode, the judge and
+ * the SDK can run end-to-end with no network access or API keys.
+ *
+ * - Passages are read from `[pN]: text` lines (both the built-in prompt and
+ *   the rag_grounded template render contexts that way)
+ * - The passages sharing the most terms with the question are quoted, first
+ *   sentence only, each followed by its [pN] citation
+ * - Follow-up rewrite prompts (see sessions/conversation.ts) are answered with
+ *   the heuristic rewrite, and grounding verification prompts (see
+ *   llm/grounding.ts) with lexical support scores, so session queries and
+ *   GROUNDING_VERIFIER=llm work end-to-end too
+ * - Output is streamed word by word through LangChain's callbacks, after
+ *   MOCK_LLM_LATENCY_MS and with MOCK_LLM_TOKEN_LATENCY_MS between tokens
+ *
+ * The same prompt always yields the same answer.
+ */
+
+import { BaseChatModel, type BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { AIMessage, AIMessageChunk, type BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, type ChatResult } from '@langchain/core/outputs';
+import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { tokenizeForHashing } from '../embeddings/hashingProvider.js';
+import { heuristicRewrite } from '../sessions/conversation.js';
+import { lexicalSupport } from './grounding.js';
+
+export const MOCK_NO_CONTEXT_ANSWER = 'The provided context does not contain enough information to answer this question.';
+
+export interface MockChatModelInput extends BaseChatModelParams {
+  /** Delay before the first token (ms) */
+  latencyMs?: number;
+  /** Delay between tokens (ms) */
+  tokenLatencyMs?: number;
+  /** Maximum number of passages quoted in the answer */
+  maxCitations?: number;
+  /** Reported model name */
+  model?: string;
+}
+
+interface PromptPassage {
+  index: number;
+  text: string;
+}
+
+const sleep = (ms: number) => (ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve());
+
+function terms(text: string): Set<string> {
+  return new Set(tokenizeForHashing(text));
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map((part) => ('text' in part && typeof part.text === 'string' ? part.text : '')).join('');
+}
+
+/**
+ * Extracts `[pN]: text` passages from a rendered user prompt. A passage runs
+ * until the next marker or the end of the context block.
+ */
+export function parsePromptPassages(prompt: string): PromptPassage[] {
+  const markers = Array.from(prompt.matchAll(/^\[p(\d+)\]:[ \t]*/gm));
+  return markers.map((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1]!.index! : prompt.length;
+    const text = prompt
+      .slice(start, end)
+      .split(/\n-{3,}|\n\s*\n(?:Question:|Please answer)/)[0]!
+      .trim();
+    return { index: parseInt(marker[1]!, 10), text };
+  });
+}
+
+function parseQuestion(prompt: string): string {
+  const match = prompt.match(/Question:\s*([\s\S]*?)(?:\n\s*\n|\nAnswer:|$)/);
+  return match?.[1]?.trim() || '';
+}
+
+/**
+ * Reads the follow-up and the last user question back from a rewrite prompt
+ * (see buildRewritePrompt in sessions/conversation.ts); null for any other prompt
+ */
+function parseRewritePrompt(prompt: string): { question: string; previousQuestion?: string } | null {
+  const match = prompt.match(/^Conversation:\n([\s\S]*)\n\nFollow-up question: ([\s\S]*)\n\nStandalone question:\s*$/);
+  if (!match) return null;
+
+  const previousQuestion = match[1]!
+    .split('\n')
+    .reverse()
+    .find((line) => line.startsWith('User: '))
+    ?.slice('User: '.length);
+  return { question: match[2]!, ...(previousQuestion && { previousQuestion }) };
+}
+
+/**
+ * Reads the claims and their passages back from a grounding verification
+ * prompt (see buildVerificationPrompt in llm/grounding.ts); null for any other prompt
+ */
+function parseVerificationPrompt(prompt: string): Array<{ claim: string; passages: string[] }> | null {
+  if (!/^Claim 1: /.test(prompt) || !/\n\nScores:\s*$/.test(prompt)) return null;
+
+  return prompt
+    .replace(/\n\nScores:\s*$/, '')
+    .split(/\n\n(?=Claim \d+: )/)
+    .map((block) => {
+      const [claimLine = '', , ...passageLines] = block.split('\n');
+      return {
+        claim: claimLine.replace(/^Claim \d+: /, ''),
+        passages: passageLines.map((line) => line.replace(/^\[p\d+\] /, '')),
+      };
+    });
+}
+
+function firstSentence(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const match = flat.match(/^.+?[.!?](?=\s|$)/);
+  return (match ? match[0] : flat).slice(0, 300);
+}
+
+/**
+ * Builds the deterministic answer for a prompt (exported for tests)
+ */
+export function buildMockAnswer(prompt: string, maxCitations: number = 2): string {
+  const passages = parsePromptPassages(prompt).filter((p) => p.text.length > 0);
+  if (passages.length === 0) {
+    return MOCK_NO_CONTEXT_ANSWER;
+  }
+
+  const questionTerms = terms(parseQuestion(prompt));
+  const ranked = passages
+    .map((passage) => ({
+      passage,
+      overlap: Array.from(terms(passage.text)).filter((t) => questionTerms.has(t)).length,
+    }))
+    .sort((a, b) => b.overlap - a.overlap || a.passage.index - b.passage.index);
+
+  // Prefer passages that share terms with the question; otherwise use the top-ranked passage
+  const relevant = ranked.filter((r) => r.overlap > 0);
+  const chosen = (relevant.length > 0 ? relevant : ranked.slice(0, 1))
+    .slice(0, Math.max(1, maxCitations))
+    .sort((a, b) => a.passage.index - b.passage.index);
+
+  const sentences = chosen.map(({ passage }) => `${firstSentence(passage.text)} [p${passage.index}]`);
+  return `According to the provided context: ${sentences.join(' ')}`;
+}
+
+export class MockChatModel extends BaseChatModel {
+  latencyMs: number;
+  tokenLatencyMs: number;
+  maxCitations: number;
+  model: string;
+
+  static lc_name() {
+    return 'MockChatModel';
+  }
+
+  constructor(fields: MockChatModelInput = {}) {
+    super(fields);
+    this.latencyMs = fields.latencyMs ?? 0;
+    this.tokenLatencyMs = fields.tokenLatencyMs ?? 0;
+    this.maxCitations = fields.maxCitations ?? 2;
+    this.model = fields.model ?? 'mock-extractive';
+  }
+
+  _llmType(): string {
+    return 'mock';
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const lastHuman = [...messages].reverse().find((m) => m._getType() === 'human');
+    const prompt = lastHuman ? messageText(lastHuman) : '';
+    const rewrite = parseRewritePrompt(prompt);
+    const verification = rewrite ? null : parseVerificationPrompt(prompt);
+    let answer: string;
+    if (rewrite) {
+      answer = heuristicRewrite(rewrite.question, rewrite.previousQuestion);
+    } else if (verification) {
+      const scores = verification.map(({ claim, passages }) => Math.round(lexicalSupport(claim, passages) * 100) / 100);
+      answer = JSON.stringify(scores);
+    } else {
+      answer = buildMockAnswer(prompt, this.maxCitations);
+    }
+
+    await sleep(this.latencyMs);
+
+    // Word tokens with their trailing whitespace, so chunks concatenate to the answer
+    const tokens = answer.match(/\S+\s*/g) || [];
+    for (let i = 0; i < tokens.length; i++) {
+      if (i > 0) await sleep(this.tokenLatencyMs);
+      const token = tokens[i]!;
+      yield new ChatGenerationChunk({ text: token, message: new AIMessageChunk({ content: token }) });
+      await runManager?.handleLLMNewToken(token);
+    }
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    let text = '';
+    for await (const chunk of this._streamResponseChunks(messages, options, runManager)) {
+      text += chunk.text;
+    }
+    return { generations: [{ text, message: new AIMessage(text) }] };
+  }
+}
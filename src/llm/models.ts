@@ -0,0 +1,14 @@
+/**
+ * Default chat model per LLM backend.
+ * Azure uses the deployment name (AZURE_OPENAI_DEPLOYMENT) instead.
+ */
+
+import type { LLMBackend } from '../utils/config.js';
+
+export const DEFAULT_LLM_MODELS: Record<LLMBackend, string> = {
+  openai: 'gpt-4o-mini',
+  azure: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  'openai-compatible': 'llama3.1',
+  mock: 'mock-extractive',
+};
@@ -0,0 +1,74 @@
+/**
+ * LLM pricing table
+ *
+ * USD per 1M tokens, used to estimate per-request cost for traces and the
+ * llm_cost_usd_total metric. Prices are list prices and drift over time;
+ * override with LLM_PRICE_PROMPT_PER_1M / LLM_PRICE_COMPLETION_PER_1M for
+ * negotiated rates or self-hosted models with an internal charge-back.
+ */
+
+import type { LLMBackend } from '../utils/config.js';
+
+export interface ModelPricing {
+  promptPer1M: number;
+  completionPer1M: number;
+}
+
+const FREE: ModelPricing = { promptPer1M: 0, completionPer1M: 0 };
+
+/** Keyed by model name prefix; the longest matching prefix wins */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { promptPer1M: 0.15, completionPer1M: 0.6 },
+  'gpt-4o': { promptPer1M: 2.5, completionPer1M: 10 },
+  'gpt-4.1-mini': { promptPer1M: 0.4, completionPer1M: 1.6 },
+  'gpt-4.1-nano': { promptPer1M: 0.1, completionPer1M: 0.4 },
+  'gpt-4.1': { promptPer1M: 2, completionPer1M: 8 },
+  'gpt-4-turbo': { promptPer1M: 10, completionPer1M: 30 },
+  'gpt-3.5-turbo': { promptPer1M: 0.5, completionPer1M: 1.5 },
+  'claude-3-5-haiku': { promptPer1M: 0.8, completionPer1M: 4 },
+  'claude-3-haiku': { promptPer1M: 0.25, completionPer1M: 1.25 },
+  'claude-3-5-sonnet': { promptPer1M: 3, completionPer1M: 15 },
+  'claude-3-7-sonnet': { promptPer1M: 3, completionPer1M: 15 },
+  'claude-sonnet-4': { promptPer1M: 3, completionPer1M: 15 },
+  'claude-opus-4': { promptPer1M: 15, completionPer1M: 75 },
+};
+
+/**
+ * Looks up pricing for a backend/model pair.
+ * The mock backend is always free. OpenAI-compatible endpoints (Ollama,
+ * LM Studio) are self-hosted and free unless overridden; unknown hosted
+ * models are also priced at 0 so cost metrics never block a request.
+ */
+export function getModelPricing(backend: LLMBackend | string, model: string): ModelPricing {
+  if (backend === 'mock') {
+    return FREE;
+  }
+
+  const promptOverride = process.env.LLM_PRICE_PROMPT_PER_1M;
+  const completionOverride = process.env.LLM_PRICE_COMPLETION_PER_1M;
+  if (promptOverride || completionOverride) {
+    return {
+      promptPer1M: parseFloat(promptOverride || '0'),
+      completionPer1M: parseFloat(completionOverride || '0'),
+    };
+  }
+
+  if (backend === 'openai-compatible') {
+    return FREE;
+  }
+
+  const key = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_PRICING[key]! : FREE;
+}
+
+export function estimateLLMCostUsd(
+  backend: LLMBackend | string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = getModelPricing(backend, model);
+  return (promptTokens * pricing.promptPer1M + completionTokens * pricing.completionPer1M) / 1_000_000;
+}
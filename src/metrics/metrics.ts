@@ -43,12 +43,12 @@ export const httpRequestDuration = new Histogram({
 
 /**
  * LLM TTFT and total generation time (seconds)
- * Labels: model
+ * Labels: backend (openai, azure, anthropic, openai-compatible), model
  */
 export const llmTTFTHistogram = new Histogram({
   name: 'llm_ttft_seconds',
   help: 'Time to first token for LLM responses in seconds',
-  labelNames: ['model'],
+  labelNames: ['backend', 'model'],
   buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5],
   registers: [register],
 });
@@ -56,11 +56,107 @@ export const llmTTFTHistogram = new Histogram({
 export const llmTotalHistogram = new Histogram({
   name: 'llm_total_generation_seconds',
   help: 'Total LLM generation time in seconds',
-  labelNames: ['model'],
+  labelNames: ['backend', 'model'],
   buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10],
   registers: [register],
 });
 
+/**
+ * Estimated LLM spend in USD (see src/llm/pricing.ts)
+ * Labels: backend, model
+ */
+export const llmCostCounter = new Counter({
+  name: 'llm_cost_usd_total',
+  help: 'Estimated LLM cost in USD from token counts and list pricing',
+  labelNames: ['backend', 'model'],
+  registers: [register],
+});
+
+/**
+ * Texts sent to the embedding provider and their estimated tokens
+ * (see recordEmbeddingUsage in src/embeddings/embeddingProvider.ts)
+ * Labels: provider, model, purpose (document, chunking, query)
+ */
+export const embeddingTextsCounter = new Counter({
+  name: 'embedding_texts_total',
+  help: 'Texts embedded',
+  labelNames: ['provider', 'model', 'purpose'],
+  registers: [register],
+});
+
+export const embeddingTokensCounter = new Counter({
+  name: 'embedding_tokens_total',
+  help: 'Estimated tokens embedded (4 characters per token)',
+  labelNames: ['provider', 'model', 'purpose'],
+  registers: [register],
+});
+
+/**
+ * LLM provider circuit breaker state (see src/llm/circuitBreaker.ts)
+ * Labels: backend, model
+ * Values: 0 = closed, 1 = half-open, 2 = open
+ */
+export const llmCircuitStateGauge = new Gauge({
+  name: 'llm_circuit_breaker_state',
+  help: 'LLM provider circuit breaker state (0=closed, 1=half_open, 2=open)',
+  labelNames: ['backend', 'model'],
+  registers: [register],
+});
+
+/**
+ * Consecutive failures counted by each LLM circuit breaker
+ * Labels: backend, model
+ */
+export const llmCircuitFailuresGauge = new Gauge({
+  name: 'llm_circuit_breaker_failures',
+  help: 'Consecutive failures recorded by the LLM provider circuit breaker',
+  labelNames: ['backend', 'model'],
+  registers: [register],
+});
+
+/**
+ * LLM calls that failed over to the next provider in the fallback chain
+ * Labels: backend, model (the provider that failed or was skipped), reason (error, timeout, circuit_open)
+ */
+export const llmFallbackCounter = new Counter({
+  name: 'llm_fallback_total',
+  help: 'LLM provider attempts that were skipped or failed and fell through to the next provider',
+  labelNames: ['backend', 'model', 'reason'],
+  registers: [register],
+});
+
+/**
+ * Rerank stage duration (seconds)
+ * Labels: reranker (llm, http, lexical)
+ */
+export const rerankDurationHistogram = new Histogram({
+  name: 'rerank_duration_seconds',
+  help: 'Time spent reranking retrieved passages in seconds',
+  labelNames: ['reranker'],
+  buckets: [0.001, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2, 5],
+  registers: [register],
+});
+
+/**
+ * Documents waiting in the async ingestion queue (not yet picked up by a worker)
+ */
+export const ingestQueueDepthGauge = new Gauge({
+  name: 'ingest_queue_depth',
+  help: 'Documents queued for asynchronous ingestion',
+  registers: [register],
+});
+
+/**
+ * Finished async ingestion jobs
+ * Labels: status (completed, failed)
+ */
+export const ingestJobsCounter = new Counter({
+  name: 'ingest_jobs_total',
+  help: 'Asynchronous ingestion jobs that finished',
+  labelNames: ['status'],
+  registers: [register],
+});
+
 /**
  * Retrieval precision gauge (value 0.0 - 1.0)
  * Labels: top_k
@@ -12,6 +12,8 @@
 
 import type { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger.js';
+import { chunkingStrategies } from '../rag/chunking.js';
+import { getPromptRegistry } from '../utils/promptLoader.js';
 
 // Extend Express Request to include tenant info
 declare global {
@@ -21,6 +23,8 @@ declare global {
         id: string;
         name: string;
         namespace: string; // Pinecone namespace for this tenant
+        chunkingStrategy?: string; // Default chunking strategy for ingestion
+        promptTemplate?: string; // Default answer prompt template (name or name@version)
       };
     }
   }
@@ -31,15 +35,60 @@ interface TenantConfig {
   name: string;
   namespace: string;
   apiKey: string;
+  chunkingStrategy?: string;
+  promptTemplate?: string; // As configured; checked against the registry per request
+}
+
+/**
+ * Tenant default chunking strategy: the tenant's own setting, else
+ * RAG_DEFAULT_CHUNKING_STRATEGY. Unknown strategies are ignored with a warning
+ * so a typo does not reject every ingest request.
+ */
+function chunkingStrategyFor(tenantId: string, configured: string | undefined): string | undefined {
+  const strategy = configured || process.env.RAG_DEFAULT_CHUNKING_STRATEGY;
+  if (!strategy) return undefined;
+  if (!chunkingStrategies().includes(strategy)) {
+    logger.warn('Ignoring unknown default chunking strategy', { tenantId, strategy, available: chunkingStrategies() });
+    return undefined;
+  }
+  return strategy;
+}
+
+// Tenant/template pairs already warned about, so a bad setting is logged once
+const warnedPromptTemplates = new Set<string>();
+
+/**
+ * Tenant default prompt template: the tenant's own setting, else
+ * RAG_DEFAULT_PROMPT_TEMPLATE. Unknown templates are ignored with a warning,
+ * like unknown chunking strategies. Checked per request against the current
+ * registry, so the registry loads on first use and follows reloads.
+ */
+function promptTemplateFor(tenantId: string, configured: string | undefined): string | undefined {
+  const template = configured || process.env.RAG_DEFAULT_PROMPT_TEMPLATE;
+  if (!template) return undefined;
+  const registry = getPromptRegistry();
+  if (!registry.has(template)) {
+    if (!warnedPromptTemplates.has(`${tenantId}:${template}`)) {
+      warnedPromptTemplates.add(`${tenantId}:${template}`);
+      logger.warn('Ignoring unknown default prompt template', {
+        tenantId,
+        template,
+        available: registry.list().map((t) => t.id),
+      });
+    }
+    return undefined;
+  }
+  return template;
 }
 
 /**
  * Load tenant configurations from environment
- * Format: RAG_TENANT_<ID>=name:namespace:apiKey
+ * Format: RAG_TENANT_<ID>=name:namespace:apiKey[:chunkingStrategy[:promptTemplate]]
  * 
  * Example:
  * RAG_TENANT_EASYFLOW=EasyFlow:easyflow-prod:sk_rag_easyflow_xxx
- * RAG_TENANT_DEMO=Demo:demo:sk_rag_demo_xxx
+ * RAG_TENANT_DEMO=Demo:demo:sk_rag_demo_xxx:markdown
+ * RAG_TENANT_ACME=Acme:acme:sk_rag_acme_xxx::rag_concise@1
  */
 function loadTenantConfigs(): Map<string, TenantConfig> {
   const tenants = new Map<string, TenantConfig>();
@@ -53,6 +102,7 @@ function loadTenantConfigs(): Map<string, TenantConfig> {
       name: 'Demo',
       namespace: '', // Empty namespace = default
       apiKey: demoKey,
+      ...(defaultChunking && { chunkingStrategy: defaultChunking }),
     });
   }
   
@@ -60,14 +110,17 @@ function loadTenantConfigs(): Map<string, TenantConfig> {
   for (const [key, value] of Object.entries(process.env)) {
     if (key.startsWith('RAG_TENANT_') && value) {
       const tenantId = key.replace('RAG_TENANT_', '').toLowerCase();
-      const [name, namespace, apiKey] = value.split(':');
+      const [name, namespace, apiKey, chunking, prompt] = value.split(':');
       
       if (name && apiKey) {
+        const chunkingStrategy = chunkingStrategyFor(tenantId, chunking);
         tenants.set(apiKey, {
           id: tenantId,
           name,
           namespace: namespace || tenantId,
           apiKey,
+          ...(chunkingStrategy && { chunkingStrategy }),
+          ...(prompt && { promptTemplate: prompt }),
         });
       }
     }
@@ -81,6 +134,7 @@ function loadTenantConfigs(): Map<string, TenantConfig> {
       name: 'Master',
       namespace: process.env.RAG_DEFAULT_NAMESPACE || '',
       apiKey: masterKey,
+      ...(defaultChunking && { chunkingStrategy: defaultChunking }),
     });
   }
   
@@ -92,6 +146,9 @@ function loadTenantConfigs(): Map<string, TenantConfig> {
   return tenants;
 }
 
+// Demo and master tenants (and unauthenticated demo access) get the global defaults
+const defaultChunking = chunkingStrategyFor('default', undefined);
+
 // Load tenants at startup
 const tenantConfigs = loadTenantConfigs();
 
@@ -128,10 +185,13 @@ export function apiKeyAuth(options: { required?: boolean } = {}) {
     
     // Allow demo access if auth not required
     if (!apiKey && !required) {
+      const promptTemplate = promptTemplateFor('demo', undefined);
       req.tenant = {
         id: 'demo',
         name: 'Demo',
         namespace: '',
+        ...(defaultChunking && { chunkingStrategy: defaultChunking }),
+        ...(promptTemplate && { promptTemplate }),
       };
       return next();
     }
@@ -166,10 +226,13 @@ export function apiKeyAuth(options: { required?: boolean } = {}) {
     }
     
     // Attach tenant to request
+    const promptTemplate = promptTemplateFor(tenant.id, tenant.promptTemplate);
     req.tenant = {
       id: tenant.id,
       name: tenant.name,
       namespace: tenant.namespace,
+      ...(tenant.chunkingStrategy && { chunkingStrategy: tenant.chunkingStrategy }),
+      ...(promptTemplate && { promptTemplate }),
     };
     
     logger.debug('API key authenticated', {
@@ -189,5 +252,19 @@ export function getTenantNamespace(req: Request): string {
   return req.tenant?.namespace || '';
 }
 
+/**
+ * Default chunking strategy for the current tenant (undefined: the built-in default)
+ */
+export function getTenantChunkingStrategy(req: Request): string | undefined {
+  return req.tenant?.chunkingStrategy;
+}
+
+/**
+ * Default prompt template for the current tenant (undefined: the built-in default)
+ */
+export function getTenantPromptTemplate(req: Request): string | undefined {
+  return req.tenant?.promptTemplate;
+}
+
 export default apiKeyAuth;
 
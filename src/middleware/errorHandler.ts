@@ -11,6 +11,7 @@
 
 import { type Request, type Response, type NextFunction } from 'express';
 import { logger } from '../utils/logger.js';
+import { isSseResponse, writeSseEvent } from '../utils/sse.js';
 
 /**
  * Custom error class for expected application errors
@@ -42,6 +43,7 @@ export class AppError extends Error {
       if (statusCode === 401) return 'UNAUTHORIZED';
       if (statusCode === 403) return 'FORBIDDEN';
       if (statusCode === 404) return 'NOT_FOUND';
+      if (statusCode === 409) return 'CONFLICT';
       if (statusCode === 422) return 'VALIDATION_ERROR';
       return 'CLIENT_ERROR';
     }
@@ -49,6 +51,21 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Sends the error body; a streaming (SSE) response has already sent its
+ * status, so the error becomes the stream's final `error` event
+ */
+function sendError(res: Response, statusCode: number, body: unknown): void {
+  if (res.headersSent) {
+    if (isSseResponse(res) && !res.writableEnded && !res.destroyed) {
+      writeSseEvent(res, 'error', { status: statusCode, ...(body as object) });
+    }
+    res.end();
+    return;
+  }
+  res.status(statusCode).json(body);
+}
+
 /**
  * Centralized error handler middleware
  * Must be registered last in the middleware chain (after all routes)
@@ -97,7 +114,7 @@ export function errorHandler(
       errorResponse.error.details = err.details;
     }
 
-    res.status(statusCode).json(errorResponse);
+    sendError(res, statusCode, errorResponse);
     return;
   }
 
@@ -120,7 +137,7 @@ export function errorHandler(
       ? 'An unexpected error occurred'
       : err.message;
 
-  res.status(statusCode).json({
+  sendError(res, statusCode, {
     requestId,
     error: {
       message,
@@ -147,3 +164,10 @@ export function notFoundError(message: string = 'Resource not found'): AppError
   return new AppError(message, 404, 'NOT_FOUND');
 }
 
+/**
+ * Helper to create conflict errors
+ */
+export function conflictError(message: string, details?: unknown): AppError {
+  return new AppError(message, 409, 'CONFLICT', details);
+}
+
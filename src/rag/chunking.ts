@@ -0,0 +1,471 @@
+/**
+ * Chunking Strategies
+ *
+ * How a document's text is split into chunks before embedding. Ingest
+ * requests choose the strategy and its settings with a `chunking` object
+ * (`{ strategy, chunkSize, chunkOverlap }`); a tenant can configure its own
+ * default strategy (see apiKeyAuth):
+ * - recursive (default): RecursiveCharacterTextSplitter, 500 with 100 overlap
+ * - markdown: splits on heading boundaries, keeps tables and fenced code
+ *   blocks whole and records the heading path of every chunk
+ *   (`headingPath: 'Lease > Tenant Obligations > Repairs'`)
+ * - tokens: the recursive splitter measuring length in tokens with the
+ *   tokenizer behind countTokens, so chunks fit an LLM token budget
+ *   (sizes in tokens, default 128 with 26 overlap)
+ * - sentences: windows of whole sentences; the overlap is rounded down to
+ *   whole sentences
+ * - semantic: embeds each sentence and starts a new chunk where consecutive
+ *   sentences are least similar (a topic shift) or the chunk is full; chunks
+ *   do not overlap
+ *
+ * Sizes are in characters unless the strategy declares another unit.
+ * The resolved settings are part of the document hash (see versionHash in
+ * ingest.ts), so re-ingesting with different settings re-indexes the document.
+ */
+
+import { RecursiveCharacterTextSplitter } from '@langchain/classic/text_splitter';
+import { cosineSimilarity, type VectorMetadata } from '../vector/vectorStore.js';
+import { recordEmbeddingUsage, type EmbeddingProvider } from '../embeddings/embeddingProvider.js';
+import { logger, type Logger } from '../utils/logger.js';
+import { getTokenCounter } from '../utils/tokenCounter.js';
+
+export interface ChunkingOptions {
+  /** Registered strategy name (default: recursive) */
+  strategy?: string;
+  /** Maximum chunk length, in the strategy's unit (characters unless noted) */
+  chunkSize?: number;
+  /** Length shared by consecutive chunks (default: a fifth of chunkSize) */
+  chunkOverlap?: number;
+}
+
+export type ChunkingSettings = Required<ChunkingOptions>;
+
+/** A chunk as produced by a strategy; metadata is stored with the chunk */
+export interface TextChunk {
+  text: string;
+  metadata?: VectorMetadata;
+}
+
+export type ChunkSizeUnit = 'characters' | 'tokens';
+
+export interface ChunkingStrategy {
+  readonly name: string;
+  /** Unit of chunkSize and chunkOverlap (default: characters) */
+  readonly unit?: ChunkSizeUnit;
+  /** False for strategies whose chunks never overlap (chunkOverlap is always 0) */
+  readonly overlap?: boolean;
+  chunk(text: string, settings: ChunkingSettings, context: ChunkingContext): Promise<TextChunk[]>;
+}
+
+/** What the ingest request provides to strategies */
+export interface ChunkingContext {
+  /** The request's embedding provider (required by the semantic strategy) */
+  embeddings?: EmbeddingProvider;
+  log?: Logger;
+}
+
+export const DEFAULT_CHUNKING: ChunkingSettings = { strategy: 'recursive', chunkSize: 500, chunkOverlap: 100 };
+
+/** Chunk metadata key holding the Markdown heading path */
+export const HEADING_PATH_KEY = 'headingPath';
+
+/** Allowed and default chunkSize per unit */
+const CHUNK_SIZE_LIMITS: Record<ChunkSizeUnit, { min: number; max: number; default: number }> = {
+  characters: { min: 100, max: 8000, default: DEFAULT_CHUNKING.chunkSize },
+  tokens: { min: 20, max: 2000, default: 128 },
+};
+
+/** Thrown for `chunking` options that are malformed or out of range */
+export class ChunkingValidationError extends Error {
+  constructor(
+    message: string,
+    /** Location of the offending option, e.g. `chunking.chunkSize` */
+    readonly path: string
+  ) {
+    super(`${message} (at ${path})`);
+    this.name = 'ChunkingValidationError';
+  }
+}
+
+const strategies = new Map<string, ChunkingStrategy>();
+
+/**
+ * Registers a strategy under its name (replacing any earlier one)
+ */
+export function registerChunkingStrategy(strategy: ChunkingStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+/** Names of the registered strategies */
+export function chunkingStrategies(): string[] {
+  return Array.from(strategies.keys());
+}
+
+function checkSize(value: unknown, path: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new ChunkingValidationError(`Must be an integer between ${min} and ${max}`, path);
+  }
+  return value;
+}
+
+export interface ResolveChunkingOptions {
+  /** Strategy used when the input names none, e.g. the tenant's default */
+  defaultStrategy?: string | undefined;
+  /** Path of the input in the request body, for error messages */
+  path?: string;
+}
+
+/**
+ * Validates `chunking` options and fills in the defaults
+ *
+ * @throws ChunkingValidationError with the path of the first invalid option
+ */
+export function resolveChunking(
+  input: unknown = {},
+  { defaultStrategy = DEFAULT_CHUNKING.strategy, path = 'chunking' }: ResolveChunkingOptions = {}
+): ChunkingSettings {
+  if (input === undefined || input === null) input = {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ChunkingValidationError('Chunking options must be an object', path);
+  }
+
+  const { strategy = defaultStrategy, chunkSize, chunkOverlap, ...rest } = input as Record<string, unknown>;
+  const unexpected = Object.keys(rest)[0];
+  if (unexpected !== undefined) {
+    throw new ChunkingValidationError(`Unknown chunking option "${unexpected}"`, `${path}.${unexpected}`);
+  }
+  if (typeof strategy !== 'string' || !strategies.has(strategy)) {
+    throw new ChunkingValidationError(
+      `Unknown chunking strategy. Available: ${chunkingStrategies().join(', ')}`,
+      `${path}.strategy`
+    );
+  }
+
+  const { unit = 'characters', overlap: overlaps = true } = strategies.get(strategy)!;
+  const limits = CHUNK_SIZE_LIMITS[unit];
+  const size = chunkSize === undefined ? limits.default : checkSize(chunkSize, `${path}.chunkSize`, limits.min, limits.max);
+  if (!overlaps && chunkOverlap !== undefined && chunkOverlap !== 0) {
+    throw new ChunkingValidationError(`The ${strategy} strategy does not overlap chunks`, `${path}.chunkOverlap`);
+  }
+  const overlap = !overlaps
+    ? 0
+    : chunkOverlap === undefined
+      ? Math.round(size / 5)
+      : checkSize(chunkOverlap, `${path}.chunkOverlap`, 0, Math.floor(size / 2));
+
+  return { strategy, chunkSize: size, chunkOverlap: overlap };
+}
+
+/** Stable description of the settings (part of the document hash) */
+export function describeChunking(settings: ChunkingSettings): string {
+  return `${settings.strategy}:${settings.chunkSize}:${settings.chunkOverlap}`;
+}
+
+/**
+ * Splits text with the strategy named in the settings
+ */
+export async function chunkWith(
+  text: string,
+  settings: ChunkingSettings,
+  context: ChunkingContext = {}
+): Promise<TextChunk[]> {
+  const strategy = strategies.get(settings.strategy);
+  if (!strategy) {
+    throw new Error(`Unknown chunking strategy: ${settings.strategy}`);
+  }
+  return strategy.chunk(text, settings, context);
+}
+
+async function splitRecursive(text: string, { chunkSize, chunkOverlap }: ChunkingSettings): Promise<string[]> {
+  const splitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap });
+  // RecursiveCharacterTextSplitter.splitText is async in newer versions
+  return splitter.splitText(text);
+}
+
+async function splitTokens(text: string, { chunkSize, chunkOverlap }: ChunkingSettings): Promise<string[]> {
+  const lengthFunction = await getTokenCounter();
+  const splitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap, lengthFunction });
+  return splitter.splitText(text);
+}
+
+// ----------------------------------------------------------------------------
+// Sentences
+// ----------------------------------------------------------------------------
+
+const sentenceSegmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+
+/**
+ * Sentences of the text with their trailing whitespace, so joining them
+ * restores the original text; sentences longer than chunkSize are split
+ * further by the recursive splitter. Segments without letters, such as the
+ * "1. " of a numbered clause, are kept with the sentence that follows.
+ */
+async function splitSentences(text: string, settings: ChunkingSettings): Promise<string[]> {
+  const sentences: string[] = [];
+  let prefix = '';
+  for (const { segment: raw } of sentenceSegmenter.segment(text)) {
+    if (!raw.trim()) continue;
+    if (!/\p{L}/u.test(raw)) {
+      prefix += raw;
+      continue;
+    }
+    const segment = prefix + raw;
+    prefix = '';
+    if (segment.trim().length <= settings.chunkSize) {
+      sentences.push(segment);
+    } else {
+      const pieces = await splitRecursive(segment, { ...settings, chunkOverlap: 0 });
+      sentences.push(...pieces.map((piece) => `${piece} `));
+    }
+  }
+  if (prefix.trim()) sentences.push(prefix);
+  return sentences;
+}
+
+/**
+ * Packs whole sentences into chunks of up to chunkSize characters; each
+ * chunk repeats the trailing sentences of the previous one that fit within
+ * chunkOverlap
+ */
+async function chunkSentences(text: string, settings: ChunkingSettings): Promise<TextChunk[]> {
+  const sentences = await splitSentences(text, settings);
+  const chunks: TextChunk[] = [];
+  let window: string[] = [];
+  let length = 0;
+
+  const flush = () => {
+    chunks.push({ text: window.join('').trim() });
+    const overlap: string[] = [];
+    let overlapLength = 0;
+    for (let i = window.length - 1; i > 0; i--) {
+      const sentence = window[i]!;
+      if (overlapLength + sentence.length > settings.chunkOverlap) break;
+      overlap.unshift(sentence);
+      overlapLength += sentence.length;
+    }
+    window = overlap;
+    length = overlapLength;
+  };
+
+  for (const sentence of sentences) {
+    if (window.length > 0 && length + sentence.trimEnd().length > settings.chunkSize) {
+      flush();
+      // Drop overlap that would leave no room for the next sentence
+      while (window.length > 0 && length + sentence.trimEnd().length > settings.chunkSize) {
+        length -= window.shift()!.length;
+      }
+    }
+    window.push(sentence);
+    length += sentence.length;
+  }
+  // Every flush is followed by a new sentence, so the last window is never only overlap
+  if (window.length > 0) {
+    chunks.push({ text: window.join('').trim() });
+  }
+  return chunks;
+}
+
+// ----------------------------------------------------------------------------
+// Semantic
+// ----------------------------------------------------------------------------
+
+/** Gaps between sentences more dissimilar than this share of all gaps become breakpoints */
+const SEMANTIC_BREAKPOINT_PERCENTILE = 0.9;
+
+/**
+ * Embedding-similarity chunking: consecutive sentences are embedded and
+ * compared, and a chunk ends at the gaps with the largest cosine distance
+ * (above the 90th percentile for the document) or when the next sentence
+ * would exceed chunkSize. The sentence embeddings count in the embedding
+ * metrics (purpose: chunking).
+ */
+async function chunkSemantic(
+  text: string,
+  settings: ChunkingSettings,
+  { embeddings, log = logger }: ChunkingContext
+): Promise<TextChunk[]> {
+  const sentences = await splitSentences(text, settings);
+  if (sentences.length <= 1) {
+    return sentences.map((sentence) => ({ text: sentence.trim() }));
+  }
+  if (!embeddings) {
+    throw new Error('The semantic chunking strategy needs an embedding provider');
+  }
+
+  const texts = sentences.map((sentence) => sentence.trim());
+  const vectors = await embeddings.embedDocuments(texts);
+  recordEmbeddingUsage(embeddings, 'chunking', texts);
+  log.debug('Sentences embedded for semantic chunking', { sentences: texts.length, provider: embeddings.provider });
+  const distances = vectors.slice(1).map((vector, i) => 1 - cosineSimilarity(vectors[i]!, vector));
+  const sorted = [...distances].sort((a, b) => a - b);
+  const threshold = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * SEMANTIC_BREAKPOINT_PERCENTILE))]!;
+
+  const chunks: TextChunk[] = [];
+  let chunk = sentences[0]!;
+  sentences.slice(1).forEach((sentence, i) => {
+    const distance = distances[i]!;
+    const topicShift = distance >= threshold && distance > sorted[0]!;
+    if (topicShift || chunk.length + sentence.trimEnd().length > settings.chunkSize) {
+      chunks.push({ text: chunk.trim() });
+      chunk = '';
+    }
+    chunk += sentence;
+  });
+  chunks.push({ text: chunk.trim() });
+  return chunks;
+}
+
+// ----------------------------------------------------------------------------
+// Markdown
+// ----------------------------------------------------------------------------
+
+interface MarkdownBlock {
+  kind: 'heading' | 'text' | 'code' | 'table';
+  text: string;
+  level?: number;
+  title?: string;
+}
+
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE_OPEN = /^\s{0,3}(`{3,}|~{3,})/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function isTableStart(line: string, next: string | undefined): boolean {
+  return /^\s*\|/.test(line) || (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next));
+}
+
+/**
+ * Splits Markdown into headings, paragraphs, fenced code blocks and tables
+ */
+function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) blocks.push({ kind: 'text', text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1]!;
+      const close = new RegExp(`^\\s{0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      const code = [line];
+      while (i + 1 < lines.length) {
+        code.push(lines[++i]!);
+        if (close.test(lines[i]!)) break;
+      }
+      blocks.push({ kind: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ kind: 'heading', text: line.trim(), level: heading[1]!.length, title: heading[2]!.trim() });
+      continue;
+    }
+
+    if (isTableStart(line, lines[i + 1])) {
+      flushParagraph();
+      const rows = [line];
+      while (i + 1 < lines.length && lines[i + 1]!.trim() && lines[i + 1]!.includes('|')) {
+        rows.push(lines[++i]!);
+      }
+      blocks.push({ kind: 'table', text: rows.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Heading-aware Markdown chunking: a chunk never spans two sections, tables
+ * and code blocks are never split (even when longer than chunkSize), and
+ * only paragraphs longer than chunkSize are split further. Headings with no
+ * text of their own (`# Lease` directly followed by `## Repairs`) are kept
+ * with the next section.
+ */
+async function chunkMarkdown(text: string, settings: ChunkingSettings): Promise<TextChunk[]> {
+  const sections: Array<{ path: string; blocks: MarkdownBlock[] }> = [];
+  const stack: Array<{ level: number; title: string }> = [];
+  let current: { path: string; blocks: MarkdownBlock[] } = { path: '', blocks: [] };
+
+  for (const block of parseMarkdownBlocks(text)) {
+    if (block.kind === 'heading') {
+      const hasBody = current.blocks.some((b) => b.kind !== 'heading');
+      if (hasBody) {
+        sections.push(current);
+        current = { path: '', blocks: [] };
+      }
+      while (stack.length > 0 && stack[stack.length - 1]!.level >= block.level!) {
+        stack.pop();
+      }
+      stack.push({ level: block.level!, title: block.title! });
+      current.path = stack.map((h) => h.title).join(' > ');
+    }
+    current.blocks.push(block);
+  }
+  if (current.blocks.length > 0) sections.push(current);
+
+  const chunks: TextChunk[] = [];
+  for (const section of sections) {
+    const metadata: VectorMetadata = section.path ? { [HEADING_PATH_KEY]: section.path } : {};
+    let chunk = '';
+    const flush = () => {
+      if (chunk) chunks.push({ text: chunk, metadata });
+      chunk = '';
+    };
+
+    for (const block of section.blocks) {
+      const pieces =
+        block.kind === 'text' && block.text.length > settings.chunkSize
+          ? await splitRecursive(block.text, settings)
+          : [block.text];
+      for (const piece of pieces) {
+        if (chunk && chunk.length + 2 + piece.length > settings.chunkSize) flush();
+        chunk = chunk ? `${chunk}\n\n${piece}` : piece;
+      }
+    }
+    flush();
+  }
+  return chunks;
+}
+
+// ----------------------------------------------------------------------------
+// Built-in strategies
+// ----------------------------------------------------------------------------
+
+registerChunkingStrategy({
+  name: 'recursive',
+  async chunk(text, settings) {
+    return (await splitRecursive(text, settings)).map((chunk) => ({ text: chunk }));
+  },
+});
+
+registerChunkingStrategy({ name: 'markdown', chunk: chunkMarkdown });
+
+registerChunkingStrategy({
+  name: 'tokens',
+  unit: 'tokens',
+  async chunk(text, settings) {
+    return (await splitTokens(text, settings)).map((chunk) => ({ text: chunk }));
+  },
+});
+
+registerChunkingStrategy({ name: 'sentences', chunk: chunkSentences });
+
+registerChunkingStrategy({ name: 'semantic', overlap: false, chunk: chunkSemantic });
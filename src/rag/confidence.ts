@@ -0,0 +1,156 @@
+/**
+ * Answer confidence and abstention
+ *
+ * Estimates how well the retrieved passages can answer a query, so /query
+ * can abstain with an "insufficient evidence" response instead of asking the
+ * LLM to answer from weak evidence (opt-in: CONFIDENCE_ABSTAIN_THRESHOLD).
+ * Signals, each 0-1:
+ * - topRelevance / meanRelevance: relevance of the best passage and the
+ *   average over the passages sent to the LLM. Cosine scores are mapped
+ *   linearly from CONFIDENCE_MIN_SCORE (0) to CONFIDENCE_MAX_SCORE (1);
+ *   BM25 scores saturate as bm25 / (bm25 + CONFIDENCE_BM25_SCALE). Hybrid
+ *   passages use their dense score, or BM25 when only the sparse side found
+ *   them (fused RRF scores carry no relevance information).
+ * - rerank: the best rerank score, when the passages were reranked by a
+ *   reranker whose scores carry relevance (see RerankScoreScale): 0-1 scores
+ *   are used as-is and logits go through a sigmoid; ordinal scores (listwise
+ *   LLM ranking) are left out
+ * - citationCoverage: after generation, the share of answer sentences backed
+ *   by a citation (a supported one when the grounding verifier ran)
+ *
+ * Retrieval confidence weighs top 0.6, mean 0.2 and rerank 0.2 (top 0.75 and
+ * mean 0.25 without a reranker). It decides abstention; the reported score
+ * then blends it with citation coverage (0.75 / 0.25).
+ */
+
+import { splitClaims, GROUNDING_REFUSAL_ANSWER, type GroundingReport } from '../llm/grounding.js';
+import type { RAGConfig, RetrievalMode } from '../utils/config.js';
+import type { Reranker, RerankScoreScale } from '../rerank/reranker.js';
+import type { RetrievedPassage } from './retriever.js';
+
+export interface ConfidenceSignals {
+  topRelevance: number;
+  meanRelevance: number;
+  rerank?: number;
+  citationCoverage?: number;
+}
+
+export interface ConfidenceReport {
+  /** 0 (no usable evidence) to 1 */
+  score: number;
+  signals: ConfidenceSignals;
+  /** Retrieval confidence below which the query is not answered */
+  threshold: number;
+  /** True when the LLM was not called because the evidence was too weak */
+  abstained: boolean;
+}
+
+export interface ConfidenceOptions {
+  retrievalMode: RetrievalMode;
+  /** 0 (the default) disables abstention */
+  abstainThreshold: number;
+  minScore: number;
+  maxScore: number;
+  bm25Scale: number;
+  /** Scale of the rerank scores, when the passages were reranked */
+  rerankScale?: RerankScoreScale;
+}
+
+/** Answer of an abstained query; worded like strict-grounding refusals and the grounded prompt */
+export const INSUFFICIENT_EVIDENCE_ANSWER = GROUNDING_REFUSAL_ANSWER;
+
+const RETRIEVAL_WEIGHTS = { top: 0.6, mean: 0.2, rerank: 0.2 };
+const CITATION_COVERAGE_WEIGHT = 0.25;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Confidence settings from the config, for a request's retrieval mode and reranker
+ */
+export function confidenceOptions(
+  config: RAGConfig,
+  retrievalMode?: RetrievalMode,
+  reranker?: Reranker | null
+): ConfidenceOptions {
+  return {
+    retrievalMode: retrievalMode || config.retrievalMode || 'dense',
+    abstainThreshold: config.confidenceAbstainThreshold ?? 0,
+    minScore: config.confidenceMinScore ?? 0.1,
+    maxScore: config.confidenceMaxScore ?? 0.6,
+    bm25Scale: config.confidenceBm25Scale ?? 5,
+    ...(reranker && { rerankScale: reranker.scoreScale }),
+  };
+}
+
+/**
+ * Relevance of one passage (0-1) from its first-stage score
+ */
+export function passageRelevance(passage: RetrievedPassage, options: ConfidenceOptions): number {
+  const cosine = (score: number) => clamp((score - options.minScore) / (options.maxScore - options.minScore));
+  const bm25 = (score: number) => (score > 0 ? score / (score + options.bm25Scale) : 0);
+  const firstStage = passage.vectorScore ?? passage.score;
+
+  switch (options.retrievalMode) {
+    case 'sparse':
+      return bm25(firstStage);
+    case 'hybrid': {
+      const { denseScore, bm25Score } = passage.metadata;
+      if (typeof denseScore === 'number') return cosine(denseScore);
+      return typeof bm25Score === 'number' ? bm25(bm25Score) : 0;
+    }
+    default:
+      return cosine(firstStage);
+  }
+}
+
+/**
+ * Confidence before generation; `abstained` is set when it is below the
+ * abstain threshold
+ */
+export function retrievalConfidence(passages: RetrievedPassage[], options: ConfidenceOptions): ConfidenceReport {
+  const relevance = passages.map((passage) => passageRelevance(passage, options));
+  const topRelevance = relevance.length > 0 ? Math.max(...relevance) : 0;
+  const meanRelevance = relevance.length > 0 ? relevance.reduce((sum, r) => sum + r, 0) / relevance.length : 0;
+
+  const rerankScores = passages.map((p) => p.rerankScore).filter((s): s is number => typeof s === 'number');
+  const topRerank = rerankScores.length > 0 ? Math.max(...rerankScores) : undefined;
+  const rerank =
+    topRerank === undefined || options.rerankScale === undefined || options.rerankScale === 'ordinal'
+      ? undefined
+      : options.rerankScale === 'logit'
+        ? 1 / (1 + Math.exp(-topRerank))
+        : clamp(topRerank);
+
+  const score =
+    rerank === undefined
+      ? (RETRIEVAL_WEIGHTS.top * topRelevance + RETRIEVAL_WEIGHTS.mean * meanRelevance) /
+        (RETRIEVAL_WEIGHTS.top + RETRIEVAL_WEIGHTS.mean)
+      : RETRIEVAL_WEIGHTS.top * topRelevance + RETRIEVAL_WEIGHTS.mean * meanRelevance + RETRIEVAL_WEIGHTS.rerank * rerank;
+
+  return {
+    score: round(score),
+    signals: {
+      topRelevance: round(topRelevance),
+      meanRelevance: round(meanRelevance),
+      ...(rerank !== undefined && { rerank: round(rerank) }),
+    },
+    threshold: options.abstainThreshold,
+    abstained: options.abstainThreshold > 0 && (passages.length === 0 || score < options.abstainThreshold),
+  };
+}
+
+/**
+ * Adds the answer's citation coverage to a retrieval confidence report
+ */
+export function withCitationCoverage(report: ConfidenceReport, answer: string, grounding?: GroundingReport): ConfidenceReport {
+  const claims = grounding?.claims ?? splitClaims(answer);
+  const backed = claims.filter((claim) => claim.citations.length > 0 && (!('supported' in claim) || claim.supported));
+  const citationCoverage = claims.length > 0 ? backed.length / claims.length : 0;
+
+  return {
+    ...report,
+    score: round((1 - CITATION_COVERAGE_WEIGHT) * report.score + CITATION_COVERAGE_WEIGHT * citationCoverage),
+    signals: { ...report.signals, citationCoverage: round(citationCoverage) },
+  };
+}
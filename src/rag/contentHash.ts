@@ -0,0 +1,38 @@
+/**
+ * Content hashes for idempotent ingestion
+ *
+ * Every stored chunk carries two hashes in its metadata:
+ * - docHash: the whole document as ingested (text, caller metadata and the
+ *   chunking settings), identical on all chunks of one version
+ * - chunkHash: the chunk text alone
+ *
+ * Re-ingesting a source compares docHash against the stored version (skip
+ * when unchanged), reuses stored embeddings for chunks whose chunkHash did
+ * not change, and finds identical documents stored under another source.
+ */
+
+import { createHash } from 'crypto';
+
+/** Metadata keys holding the hashes (reserved for caller metadata) */
+export const DOC_HASH_KEY = 'docHash';
+export const CHUNK_HASH_KEY = 'chunkHash';
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Hash of a document version; changes when the text, the caller metadata or
+ * the chunking settings change (key order of the metadata does not matter)
+ */
+export function documentHash(text: string, metadata: Record<string, unknown>, chunking: string): string {
+  const sortedMetadata = Object.keys(metadata)
+    .sort()
+    .map((key) => [key, metadata[key]]);
+  return hashText(JSON.stringify({ chunking, metadata: sortedMetadata, text }));
+}
+
+/** Vector ID of a chunk; stable across re-ingestion so upserts overwrite */
+export function chunkId(source: string, chunkIndex: number): string {
+  return `${source}_chunk_${chunkIndex}`;
+}
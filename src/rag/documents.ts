@@ -0,0 +1,141 @@
+/**
+ * Document Management
+ *
+ * A "document" is the chunk set ingested under one `source` in a namespace.
+ * Chunk IDs are `<source>_chunk_<i>` and chunk 0 carries the document-level
+ * fields (totalChunks, ingestedAt, docHash), so documents can be listed,
+ * read and deleted without a separate catalogue:
+ * - listDocuments: scans the namespace's chunk IDs for chunk 0 of each source
+ * - getDocument: the document's metadata and chunk texts, in order
+ * - deleteDocument: removes every chunk from the vector store and the lexical index
+ *
+ * Replacing a document is plain re-ingestion (ingestText): chunks are
+ * overwritten in place under the same IDs, so readers never see the document
+ * missing, and writes to one source are serialized (withSourceLock).
+ */
+
+import { logger, type Logger } from '../utils/logger.js';
+import { loadConfig } from '../utils/config.js';
+import { createVectorClient } from '../utils/factory.js';
+import type { VectorMetadata, VectorNamespace, VectorRecord } from '../vector/vectorStore.js';
+import { chunkId } from './contentHash.js';
+import { deleteChunks, withSourceLock } from './ingest.js';
+import { callerMetadata } from './metadata.js';
+
+/** Vector IDs per list/fetch call */
+const PAGE_SIZE = 100;
+
+const HEAD_CHUNK_SUFFIX = '_chunk_0';
+
+export interface DocumentSummary {
+  source: string;
+  chunkCount: number;
+  /** ISO-8601 time the current version was stored (absent for documents ingested before it was recorded) */
+  ingestedAt?: string;
+  /** Caller metadata supplied at ingestion */
+  metadata: VectorMetadata;
+}
+
+export interface StoredDocument extends DocumentSummary {
+  chunks: Array<{ id: string; chunkIndex: number; text: string }>;
+}
+
+export interface ListDocumentsOptions {
+  /** Only sources starting with this prefix */
+  prefix?: string;
+}
+
+function toSummary(head: VectorRecord): DocumentSummary {
+  const metadata = head.metadata || {};
+  return {
+    source: String(metadata.source),
+    chunkCount: Number(metadata.totalChunks) || 1,
+    ...(typeof metadata.ingestedAt === 'string' && { ingestedAt: metadata.ingestedAt }),
+    metadata: callerMetadata(metadata),
+  };
+}
+
+async function fetchAll(index: VectorNamespace, ids: string[]): Promise<VectorRecord[]> {
+  const records: VectorRecord[] = [];
+  for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+    records.push(...(await index.fetch(ids.slice(i, i + PAGE_SIZE))));
+  }
+  return records;
+}
+
+async function fetchHead(index: VectorNamespace, source: string): Promise<VectorRecord | null> {
+  const [head] = await index.fetch([chunkId(source, 0)]);
+  return head?.metadata?.source === source ? head : null;
+}
+
+/**
+ * Lists the documents in a namespace, sorted by source
+ */
+export async function listDocuments(
+  namespace?: string,
+  options: ListDocumentsOptions = {},
+  reqLogger?: Logger
+): Promise<DocumentSummary[]> {
+  const log = reqLogger || logger;
+  const index = createVectorClient(loadConfig(log), log).namespace(namespace);
+
+  const headIds: string[] = [];
+  let paginationToken: string | undefined;
+  do {
+    const page = await index.list({
+      limit: PAGE_SIZE,
+      ...(options.prefix && { prefix: options.prefix }),
+      ...(paginationToken && { paginationToken }),
+    });
+    headIds.push(...page.ids.filter((id) => id.endsWith(HEAD_CHUNK_SUFFIX)));
+    paginationToken = page.nextToken;
+  } while (paginationToken);
+
+  return (await fetchAll(index, headIds))
+    .filter((head) => head.metadata?.chunkIndex === 0 && typeof head.metadata.source === 'string')
+    .map(toSummary)
+    .sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/**
+ * A document with its chunks in order, or null when the source is not stored
+ */
+export async function getDocument(source: string, namespace?: string, reqLogger?: Logger): Promise<StoredDocument | null> {
+  const log = reqLogger || logger;
+  const index = createVectorClient(loadConfig(log), log).namespace(namespace);
+
+  const head = await fetchHead(index, source);
+  if (!head) return null;
+
+  const summary = toSummary(head);
+  const ids = Array.from({ length: summary.chunkCount }, (_v, i) => chunkId(source, i));
+  const chunks = (await fetchAll(index, ids))
+    .map((record) => ({
+      id: record.id,
+      chunkIndex: Number(record.metadata?.chunkIndex),
+      text: String(record.metadata?.text ?? ''),
+    }))
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  return { ...summary, chunks };
+}
+
+/**
+ * Deletes every chunk of a document
+ * @returns Number of chunks deleted (0 when the source is not stored)
+ */
+export async function deleteDocument(source: string, namespace?: string, reqLogger?: Logger): Promise<number> {
+  const log = reqLogger || logger;
+  const vectorStore = createVectorClient(loadConfig(log), log);
+
+  return withSourceLock(namespace, source, async () => {
+    const head = await fetchHead(vectorStore.namespace(namespace), source);
+    if (!head) return 0;
+
+    const ids = Array.from({ length: toSummary(head).chunkCount }, (_v, i) => chunkId(source, i));
+    await deleteChunks(ids, vectorStore, namespace);
+
+    log.info('Document deleted', { source, namespace: namespace || '(default)', chunksDeleted: ids.length });
+    return ids.length;
+  });
+}
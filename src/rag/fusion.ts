@@ -0,0 +1,72 @@
+/**
+ * Rank fusion for hybrid retrieval
+ *
+ * Merges ranked result lists (dense vector search, BM25) into one ranking:
+ * - rrf: reciprocal rank fusion, sum of 1 / (k + rank) over the lists a
+ *   document appears in. Ignores raw scores, so cosine and BM25 scales never
+ *   need calibrating.
+ * - weighted: min-max normalizes each list's scores to 0-1 and blends them
+ *   with a dense weight; a document missing from a list scores 0 there.
+ */
+
+/** Standard RRF constant from Cormack et al. (2009) */
+export const RRF_K = 60;
+
+export interface RankedItem {
+  id: string;
+  score: number;
+}
+
+export interface FusedItem {
+  id: string;
+  score: number;
+}
+
+/**
+ * Reciprocal rank fusion over lists that are already sorted best-first
+ */
+export function reciprocalRankFusion(lists: RankedItem[][], k: number = RRF_K): FusedItem[] {
+  const scores = new Map<string, number>();
+  for (const list of lists) {
+    list.forEach((item, rank) => {
+      scores.set(item.id, (scores.get(item.id) || 0) + 1 / (k + rank + 1));
+    });
+  }
+  return sortFused(scores);
+}
+
+/**
+ * Weighted sum of min-max normalized scores
+ */
+export function weightedScoreFusion(dense: RankedItem[], sparse: RankedItem[], denseWeight: number): FusedItem[] {
+  const weight = Math.min(1, Math.max(0, denseWeight));
+  const scores = new Map<string, number>();
+  const add = (list: RankedItem[], w: number) => {
+    for (const [id, normalized] of normalize(list)) {
+      scores.set(id, (scores.get(id) || 0) + w * normalized);
+    }
+  };
+  add(dense, weight);
+  add(sparse, 1 - weight);
+  return sortFused(scores);
+}
+
+function normalize(list: RankedItem[]): Map<string, number> {
+  const normalized = new Map<string, number>();
+  if (list.length === 0) return normalized;
+
+  const scores = list.map((item) => item.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  for (const item of list) {
+    // A single result (or all-equal scores) counts as a full match
+    normalized.set(item.id, range === 0 ? 1 : (item.score - min) / range);
+  }
+  return normalized;
+}
+
+function sortFused(scores: Map<string, number>): FusedItem[] {
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort(
+    (a, b) => b.score - a.score || a.id.localeCompare(b.id)
+  );
+}
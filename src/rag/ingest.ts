@@ -1,28 +1,39 @@
 /**
  * RAG Data Flow - Ingestion Pipeline
  * 
- * 1. Document Loading: Read PDF/Markdown files from local paths
- * 2. Text Extraction: Parse PDFs (pdf-parse) or read Markdown as plain text
- * 3. Text Chunking: Split documents into overlapping chunks (500-1000 chars, ~200 char overlap)
- * 4. Embedding Generation: Use OpenAI embeddings (via LangChain) to create vector representations
- * 5. Vector Storage: Upsert embeddings + metadata into Pinecone index
+ * 1. Document Loading: Read files from local paths
+ * 2. Text Extraction: The parser registered for the file extension (see parsers.ts):
+ *    PDF, Markdown, plain text, HTML, DOCX, CSV and JSON/JSONL
+ * 3. Text Chunking: Split documents with the requested chunking strategy (see chunking.ts;
+ *    recursive 500/100 character chunks by default)
+ * 4. Embedding Generation: Use the configured EmbeddingProvider (OpenAI by default) to create vector representations
+ * 5. Vector Storage: Upsert embeddings + metadata into the configured vector store
+ * 6. Lexical Index: Add the same chunks to the namespace's BM25 index (sparse/hybrid retrieval)
+ *
+ * Re-ingestion is idempotent (see indexChunks): an unchanged document is
+ * skipped, a changed one replaces its previous chunk set exactly, and a
+ * document identical to one stored under another source is not stored twice.
  * 
  * Future enhancements:
  * - Streaming ingestion for large document sets
  * - Cloud storage paths (S3, GCS) instead of local files
- * - Support for other document types (DOCX, TXT, HTML)
  * - Batch processing optimizations
  */
 
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join, extname, basename, resolve, normalize, isAbsolute } from 'path';
-import { PDFParse } from 'pdf-parse';
-import { RecursiveCharacterTextSplitter } from '@langchain/classic/text_splitter';
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { Pinecone } from '@pinecone-database/pinecone';
-import { logger } from '../utils/logger.js';
+import { logger, type Logger } from '../utils/logger.js';
 import { loadConfig } from '../utils/config.js';
+import { createVectorClient, createEmbeddingProvider } from '../utils/factory.js';
+import type { VectorMetadata, VectorStore } from '../vector/vectorStore.js';
+import { withDateTimestamps } from '../vector/filter.js';
+import { recordEmbeddingUsage, type EmbeddingProvider } from '../embeddings/embeddingProvider.js';
+import { getLexicalStore } from './lexicalIndex.js';
+import { sanitizeMetadata } from './metadata.js';
+import { CHUNK_HASH_KEY, DOC_HASH_KEY, chunkId, documentHash, hashText } from './contentHash.js';
+import { getParser, locatePages, supportedExtensions, PAGE_END_KEY, PAGE_START_KEY, type ParsedDocument } from './parsers.js';
+import { chunkWith, describeChunking, resolveChunking, type ChunkingOptions, type TextChunk } from './chunking.js';
 
 // When set to "true", ingest pipeline will stop after chunking and skip
 // embedding generation + vector upserts. Useful for offline chunking experiments.
@@ -73,69 +84,70 @@ export interface DocumentChunk {
   };
 }
 
+/**
+ * A file whose on-disk path differs from the name it is stored under,
+ * e.g. an upload that multer wrote to uploads/ with a random name
+ */
+export interface DocumentInput {
+  path: string;
+  /** metadata.source, chunk ID prefix and file type (default: path) */
+  source?: string;
+  /** Caller metadata stored with every chunk (see sanitizeMetadata) */
+  metadata?: Record<string, unknown>;
+  /** JSON/JSONL only: dotted field paths to index (default: all fields) */
+  fields?: string[];
+  /** Chunking strategy and settings (default: recursive 500/100) */
+  chunking?: ChunkingOptions;
+}
+
 export interface IngestionResult {
   filePath: string;
   chunksProcessed: number;
   success: boolean;
   error?: string;
+  /**
+   * ingested: new source; replaced: changed document, previous chunks replaced;
+   * skipped: unchanged; duplicate: new source identical to the document stored
+   * as `duplicateOf`, so nothing was stored
+   */
+  status?: 'ingested' | 'replaced' | 'skipped' | 'duplicate';
+  duplicateOf?: string;
+  /** Chunks of the previous version that were removed */
+  chunksDeleted?: number;
 }
 
-/**
- * Reads and parses a PDF file
- */
-async function parsePDF(filePath: string): Promise<string> {
-  const safePath = validateFilePath(filePath);
-  const buffer = await readFile(safePath);
-  const parser = new PDFParse({ data: buffer });
-  const textResult = await parser.getText();
-  return textResult.text;
-}
-
-/**
- * Reads a Markdown file as plain text
- */
-async function parseMarkdown(filePath: string): Promise<string> {
-  const safePath = validateFilePath(filePath);
-  const content = await readFile(safePath, 'utf-8');
-  return content;
-}
+/** Vector IDs per fetch/delete call when reconciling a previous version */
+const RECONCILE_BATCH_SIZE = 100;
 
 /**
- * Parses a document based on its file extension
+ * Parses a document with the parser registered for its extension (taken from
+ * `fileName` when the path has none)
  */
-async function parseDocument(filePath: string): Promise<string> {
-  const ext = extname(filePath).toLowerCase();
-  
-  if (ext === '.pdf') {
-    return await parsePDF(filePath);
-  } else if (ext === '.md' || ext === '.markdown') {
-    return await parseMarkdown(filePath);
-  } else {
-    throw new Error(`Unsupported file type: ${ext}. Supported: .pdf, .md, .markdown`);
+async function parseDocument(
+  filePath: string,
+  fileName: string,
+  chunkSize: number,
+  fields?: string[]
+): Promise<ParsedDocument> {
+  const parser = getParser(fileName);
+  if (!parser) {
+    throw new Error(
+      `Unsupported file type: ${extname(fileName).toLowerCase()}. Supported: ${supportedExtensions().join(', ')}`
+    );
   }
+
+  const content = await readFile(validateFilePath(filePath));
+  return parser.parse(content, { fileName: basename(fileName), chunkSize, ...(fields && { fields }) });
 }
 
 /**
- * Chunks text into overlapping segments suitable for retrieval
- * Uses 500-1000 character chunks with ~200 character overlap
+ * Wraps chunk texts (from a chunking strategy or a parser) with their chunk metadata
  */
-async function chunkText(
-  text: string,
-  source: string,
-  chunkSize: number = 500,
-  chunkOverlap: number = 100
-): Promise<DocumentChunk[]> {
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize,
-    chunkOverlap,
-  });
-
-  // RecursiveCharacterTextSplitter.splitText is async in newer versions
-  const textChunks = await splitter.splitText(text);
-  
-  return textChunks.map((chunkText: string, index: number) => ({
+function toDocumentChunks(textChunks: TextChunk[], source: string): DocumentChunk[] {
+  return textChunks.map(({ text: chunkText, metadata }, index: number) => ({
     text: chunkText,
     metadata: {
+      ...metadata,
       source,
       chunkIndex: index,
       totalChunks: textChunks.length,
@@ -145,50 +157,53 @@ async function chunkText(
 }
 
 /**
- * Embeds text chunks using OpenAI embeddings
+ * Embeds text chunks with the configured embedding provider
  */
 async function embedChunks(
   chunks: DocumentChunk[],
-  embeddings: OpenAIEmbeddings
+  embeddings: EmbeddingProvider
 ): Promise<number[][]> {
   const texts = chunks.map((chunk) => chunk.text);
   const embeddingsArray = await embeddings.embedDocuments(texts);
+  recordEmbeddingUsage(embeddings, 'document', texts);
   return embeddingsArray;
 }
 
 /**
- * Upserts embedded chunks into Pinecone index
+ * Upserts embedded chunks into the vector store, then into the lexical index
  * 
  * @param namespace - Optional namespace for multi-tenant isolation
  */
-async function upsertToPinecone(
+async function upsertVectors(
   chunks: DocumentChunk[],
   embeddings: number[][],
-  indexName: string,
-  pinecone: Pinecone,
+  vectorStore: VectorStore,
   namespace?: string
 ): Promise<void> {
-  const baseIndex = pinecone.index(indexName);
-  const index = namespace ? baseIndex.namespace(namespace) : baseIndex;
+  const index = vectorStore.namespace(namespace);
 
   // Prepare vectors for upsert
-  // Pinecone metadata must have string, number, boolean, or array values (no undefined)
+  // Metadata must have string, number, boolean, or array values (no undefined);
+  // caller fields were already flattened by sanitizeMetadata
   const vectors = chunks.map((chunk, i) => {
-    const metadata: Record<string, string | number> = {
-      source: String(chunk.metadata.source),
-      chunkIndex: Number(chunk.metadata.chunkIndex),
-      text: String(chunk.metadata.text),
+    const { source, chunkIndex, text, totalChunks, ...custom } = chunk.metadata;
+    const metadata: VectorMetadata = {
+      ...(custom as VectorMetadata),
+      source: String(source),
+      chunkIndex: Number(chunkIndex),
+      text: String(text),
     };
     
     // Only include totalChunks if it exists
-    if (chunk.metadata.totalChunks) {
-      metadata.totalChunks = Number(chunk.metadata.totalChunks);
+    if (totalChunks) {
+      metadata.totalChunks = Number(totalChunks);
     }
     
     return {
-      id: `${chunk.metadata.source}_chunk_${chunk.metadata.chunkIndex}`,
+      id: chunkId(String(source), Number(chunkIndex)),
       values: embeddings[i]!,
-      metadata,
+      // `<field>_ts` companions let date range filters work on every backend
+      metadata: withDateTimestamps(metadata),
     };
   });
 
@@ -202,47 +217,195 @@ async function upsertToPinecone(
       totalBatches: Math.ceil(vectors.length / batchSize),
     });
   }
+
+  // Keep the BM25 index in step with the vector store (same IDs)
+  getLexicalStore()
+    .namespace(namespace)
+    .upsert(vectors.map((v) => ({ id: v.id, text: String(v.metadata.text), metadata: v.metadata })));
+}
+
+/**
+ * Hash of a document version as it will be indexed: text, caller metadata,
+ * chunking settings and embedding model (a new model must re-embed)
+ */
+function versionHash(
+  text: string,
+  metadata: Record<string, unknown>,
+  chunking: string,
+  embeddings: EmbeddingProvider
+): string {
+  const settings = `${chunking};${embeddings.provider}:${embeddings.model}`;
+  return documentHash(text, metadata, settings);
+}
+
+/** Pending write per `<namespace>/<source>`, so writes to one document never interleave */
+const sourceLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `fn` once earlier writes (ingestion, replace, delete) to the same
+ * source in this process have settled
+ */
+export async function withSourceLock<T>(namespace: string | undefined, source: string, fn: () => Promise<T>): Promise<T> {
+  const key = `${namespace || ''}/${source}`;
+  const previous = sourceLocks.get(key) ?? Promise.resolve();
+  const current = previous.catch(() => {}).then(fn);
+  sourceLocks.set(key, current);
+  try {
+    return await current;
+  } finally {
+    if (sourceLocks.get(key) === current) {
+      sourceLocks.delete(key);
+    }
+  }
+}
+
+/**
+ * Removes chunks from the vector store and the lexical index
+ */
+export async function deleteChunks(ids: string[], vectorStore: VectorStore, namespace?: string): Promise<void> {
+  const index = vectorStore.namespace(namespace);
+  for (let i = 0; i < ids.length; i += RECONCILE_BATCH_SIZE) {
+    await index.deleteMany(ids.slice(i, i + RECONCILE_BATCH_SIZE));
+  }
+  getLexicalStore().namespace(namespace).deleteMany(ids);
+}
+
+interface IndexOutcome {
+  status: 'ingested' | 'replaced' | 'skipped' | 'duplicate';
+  chunksProcessed: number;
+  chunksDeleted: number;
+  duplicateOf?: string;
+}
+
+/**
+ * Embeds and stores a document's chunks idempotently, comparing against the
+ * version already stored for the same source (chunk 0 carries its docHash
+ * and totalChunks):
+ * - same docHash: nothing to do
+ * - new source whose document (docHash) is stored under another source:
+ *   nothing is stored. A source that has a previous version is always
+ *   replaced, so it never keeps serving stale chunks.
+ * - otherwise the chunks are upserted, reusing stored embeddings for chunks
+ *   whose text did not change, and trailing chunks of a longer previous
+ *   version are deleted
+ */
+async function indexChunks(
+  chunks: DocumentChunk[],
+  docHash: string,
+  embeddings: EmbeddingProvider,
+  vectorStore: VectorStore,
+  namespace: string | undefined,
+  log: Logger
+): Promise<IndexOutcome> {
+  const source = String(chunks[0]!.metadata.source);
+  const index = vectorStore.namespace(namespace);
+
+  const [head] = await index.fetch([chunkId(source, 0)]);
+  if (head?.metadata?.[DOC_HASH_KEY] === docHash) {
+    log.info('Document unchanged, skipping', { source, namespace: namespace || '(default)' });
+    return { status: 'skipped', chunksProcessed: 0, chunksDeleted: 0 };
+  }
+
+  const previousCount = head ? Number(head.metadata?.totalChunks) || 1 : 0;
+  const previousIds = Array.from({ length: previousCount }, (_v, i) => chunkId(source, i));
+
+  // Embeddings of chunks whose text is unchanged can be reused
+  const reusable = new Map<string, number[]>();
+  for (let i = 0; i < previousIds.length; i += RECONCILE_BATCH_SIZE) {
+    for (const record of await index.fetch(previousIds.slice(i, i + RECONCILE_BATCH_SIZE))) {
+      const hash = record.metadata?.[CHUNK_HASH_KEY];
+      if (typeof hash === 'string' && record.values?.length) {
+        reusable.set(hash, record.values);
+      }
+    }
+  }
+
+  const ingestedAt = new Date().toISOString();
+  const hashedChunks = chunks.map((chunk) => ({
+    ...chunk,
+    metadata: { ...chunk.metadata, [DOC_HASH_KEY]: docHash, [CHUNK_HASH_KEY]: hashText(chunk.text), ingestedAt },
+  }));
+  const toEmbed = hashedChunks.filter((chunk) => !reusable.has(chunk.metadata[CHUNK_HASH_KEY]));
+  const fresh = toEmbed.length > 0 ? await embedChunks(toEmbed, embeddings) : [];
+  let nextFresh = 0;
+  const vectors = hashedChunks.map((chunk) => reusable.get(chunk.metadata[CHUNK_HASH_KEY]) ?? fresh[nextFresh++]!);
+
+  log.debug('Embeddings prepared', {
+    source,
+    embedded: toEmbed.length,
+    reused: hashedChunks.length - toEmbed.length,
+  });
+
+  // The same document under another new source is stored once
+  if (previousCount === 0) {
+    const { matches } = await index.query({
+      vector: vectors[0]!,
+      topK: 1,
+      filter: { [DOC_HASH_KEY]: docHash, chunkIndex: 0 },
+      includeMetadata: true,
+    });
+    const duplicate = matches.find((match) => match.metadata?.source !== undefined && match.metadata.source !== source);
+    if (duplicate) {
+      const duplicateOf = String(duplicate.metadata!.source);
+      log.info('Document duplicates another source, not storing it', { source, duplicateOf });
+      return { status: 'duplicate', chunksProcessed: 0, chunksDeleted: 0, duplicateOf };
+    }
+  }
+
+  await upsertVectors(hashedChunks, vectors, vectorStore, namespace);
+
+  const stale = previousIds.slice(chunks.length);
+  if (stale.length > 0) {
+    await deleteChunks(stale, vectorStore, namespace);
+  }
+
+  return {
+    status: previousCount > 0 ? 'replaced' : 'ingested',
+    chunksProcessed: chunks.length,
+    chunksDeleted: stale.length,
+  };
 }
 
 /**
  * Ingests a single document file
  * 
- * @param filePath - Path to the document
+ * @param input - Path to the document, or a DocumentInput for uploads
  * @param namespace - Optional namespace for multi-tenant isolation
  */
-async function ingestDocument(filePath: string, namespace?: string, requestId?: string, reqLogger?: any): Promise<IngestionResult> {
+async function ingestDocument(input: string | DocumentInput, namespace?: string, requestId?: string, reqLogger?: Logger): Promise<IngestionResult> {
   const startTime = Date.now();
-  const fileName = basename(filePath);
+  const { path: filePath, source = filePath, metadata, fields, chunking } =
+    typeof input === 'string' ? ({ path: input } as DocumentInput) : input;
+  const fileName = basename(source);
   const log = reqLogger || logger;
 
   try {
+    const customMetadata = sanitizeMetadata(metadata);
+    const chunkingSettings = resolveChunking(chunking);
+
     // Validate file path is safe and exists
     const safePath = validateFilePath(filePath);
     if (!existsSync(safePath)) {
       throw new Error(`File not found: ${filePath}`);
     }
 
-    log.info('Starting document ingestion', { filePath, fileName });
+    log.info('Starting document ingestion', { filePath, fileName, source });
 
     // Load config
     const config = loadConfig(log);
 
-    // Initialize embeddings
-    const embeddings = new OpenAIEmbeddings({
-      openAIApiKey: config.openaiApiKey,
-    });
+    // Initialize embeddings via factory (openai/openai-compatible/local)
+    const embeddings = createEmbeddingProvider(config, log);
 
-    // Initialize Pinecone
-    const pinecone = new Pinecone({
-      apiKey: config.pineconeApiKey,
-      ...(config.pineconeEnvironment && { environment: config.pineconeEnvironment }),
-    });
+    // Initialize vector store via factory (pinecone/memory)
+    const vectorStore = createVectorClient(config, log);
 
     // Parse document
     log.debug('Parsing document', { filePath });
-    const text = await parseDocument(filePath);
+    const parsed = await parseDocument(filePath, source, chunkingSettings.chunkSize, fields);
+    const text = parsed.text;
 
-    if (!text || text.trim().length === 0) {
+    if (!text || text.trim().length === 0 || parsed.chunks?.length === 0) {
       throw new Error('Document is empty or contains no text');
     }
 
@@ -251,9 +414,22 @@ async function ingestDocument(filePath: string, namespace?: string, requestId?:
       textLength: text.length,
     });
 
-    // Chunk text
-    log.debug('Chunking text', { filePath });
-    const chunks = await chunkText(text, filePath);
+    // Chunk text (record formats such as CSV/JSON arrive pre-chunked)
+    log.debug('Chunking text', { filePath, ...chunkingSettings });
+    let textChunks: TextChunk[] = parsed.chunks?.map((chunk) => ({ text: chunk })) ?? (await chunkWith(text, chunkingSettings, { embeddings, log }));
+    if (parsed.pages) {
+      const ranges = locatePages(parsed.pages, textChunks.map((chunk) => chunk.text));
+      textChunks = textChunks.map((chunk, i) => {
+        const range = ranges[i];
+        return range
+          ? { ...chunk, metadata: { ...chunk.metadata, [PAGE_START_KEY]: range.pageStart, [PAGE_END_KEY]: range.pageEnd } }
+          : chunk;
+      });
+    }
+    const chunks = toDocumentChunks(textChunks, source).map((chunk) => ({
+      ...chunk,
+      metadata: { ...customMetadata, ...chunk.metadata },
+    }));
 
     log.info('Text chunked', {
       filePath,
@@ -278,44 +454,41 @@ async function ingestDocument(filePath: string, namespace?: string, requestId?:
       });
 
       return {
-        filePath,
+        filePath: source,
         chunksProcessed: chunks.length,
         success: true,
       };
     }
 
-    // Embed chunks
-    log.debug('Generating embeddings', {
-      filePath,
-      chunksCount: chunks.length,
-    });
-    const embeddedVectors = await embedChunks(chunks, embeddings);
-
-    log.info('Embeddings generated', {
-      filePath,
-      vectorDimensions: embeddedVectors[0]?.length || 0,
-    });
-
-    // Upsert to Pinecone (with optional namespace for multi-tenancy)
-    log.debug('Upserting to Pinecone', {
+    // Embed and upsert (with optional namespace for multi-tenancy), reconciling any previous version
+    log.debug('Indexing chunks', {
       filePath,
-      indexName: config.pineconeIndexName,
+      backend: vectorStore.backend,
       namespace: namespace || '(default)',
       chunksCount: chunks.length,
     });
-    await upsertToPinecone(chunks, embeddedVectors, config.pineconeIndexName, pinecone, namespace);
+    const outcome = await withSourceLock(namespace, source, () =>
+      indexChunks(
+        chunks,
+        versionHash(text, customMetadata, describeChunking(chunkingSettings), embeddings),
+        embeddings,
+        vectorStore,
+        namespace,
+        log
+      )
+    );
 
     const duration = Date.now() - startTime;
     log.info('Document ingestion completed', {
       filePath,
-      chunksProcessed: chunks.length,
+      ...outcome,
       durationMs: duration,
     });
 
     return {
-      filePath,
-      chunksProcessed: chunks.length,
+      filePath: source,
       success: true,
+      ...outcome,
     };
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -328,7 +501,7 @@ async function ingestDocument(filePath: string, namespace?: string, requestId?:
     });
 
     return {
-      filePath,
+      filePath: source,
       chunksProcessed: 0,
       success: false,
       error: errorMessage,
@@ -340,10 +513,15 @@ async function ingestDocument(filePath: string, namespace?: string, requestId?:
  * Ingests multiple documents from file paths
  * Processes documents sequentially to avoid overwhelming the API
  * 
- * @param filePaths - Array of file paths to ingest
+ * @param filePaths - Array of file paths (or DocumentInputs for uploads) to ingest
  * @param namespace - Optional namespace for multi-tenant isolation
  */
-export async function ingestDocuments(filePaths: string[], namespace?: string, requestId?: string, reqLogger?: any): Promise<IngestionResult[]> {
+export async function ingestDocuments(
+  filePaths: Array<string | DocumentInput>,
+  namespace?: string,
+  requestId?: string,
+  reqLogger?: Logger
+): Promise<IngestionResult[]> {
   const log = reqLogger || logger;
   log.info('Starting batch document ingestion', {
     documentCount: filePaths.length,
@@ -355,11 +533,6 @@ export async function ingestDocuments(filePaths: string[], namespace?: string, r
   for (const filePath of filePaths) {
     const result = await ingestDocument(filePath, namespace, requestId, reqLogger);
     results.push(result);
-
-    // Small delay between documents to avoid rate limiting
-    if (filePaths.length > 1) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
   }
 
   const successful = results.filter((r) => r.success).length;
@@ -381,7 +554,8 @@ export async function ingestDocuments(filePaths: string[], namespace?: string, r
  * @param text - The text content to ingest
  * @param source - Source identifier (e.g., "api:doc-123", "easyflow:workflow-help")
  * @param namespace - Optional namespace for multi-tenant isolation
- * @param metadata - Additional metadata to store with chunks
+ * @param metadata - Additional metadata to store with chunks (validated and flattened, see sanitizeMetadata)
+ * @param chunking - Chunking strategy and settings (see resolveChunking)
  */
 export async function ingestText(
   text: string,
@@ -389,7 +563,8 @@ export async function ingestText(
   namespace?: string,
   metadata: Record<string, unknown> = {},
   requestId?: string,
-  reqLogger?: any
+  reqLogger?: Logger,
+  chunking: ChunkingOptions = {}
 ): Promise<IngestionResult> {
   const startTime = Date.now();
   const log = reqLogger || logger;
@@ -399,6 +574,9 @@ export async function ingestText(
       throw new Error('Text content is empty');
     }
 
+    const customMetadata = sanitizeMetadata(metadata);
+    const chunkingSettings = resolveChunking(chunking);
+
     log.info('Starting text ingestion', {
       source,
       textLength: text.length,
@@ -408,32 +586,28 @@ export async function ingestText(
     // Load config
     const config = loadConfig(log);
 
-    // Initialize embeddings
-    const embeddings = new OpenAIEmbeddings({
-      openAIApiKey: config.openaiApiKey,
-    });
+    // Initialize embeddings via factory (openai/openai-compatible/local)
+    const embeddings = createEmbeddingProvider(config, log);
 
-    // Initialize Pinecone
-    const pinecone = new Pinecone({
-      apiKey: config.pineconeApiKey,
-      ...(config.pineconeEnvironment && { environment: config.pineconeEnvironment }),
-    });
+    // Initialize vector store via factory (pinecone/memory)
+    const vectorStore = createVectorClient(config, log);
 
     // Chunk text
-    const chunks = await chunkText(text, source);
+    const chunks = toDocumentChunks(await chunkWith(text, chunkingSettings, { embeddings, log }), source);
     
     // Add custom metadata to each chunk
     const enrichedChunks = chunks.map(chunk => ({
       ...chunk,
       metadata: {
+        ...customMetadata,
         ...chunk.metadata,
-        ...metadata,
       },
     }));
 
     log.info('Text chunked', {
       source,
       chunksCount: enrichedChunks.length,
+      ...chunkingSettings,
     });
 
     // Optionally short-circuit here for chunk-only experiments
@@ -459,29 +633,30 @@ export async function ingestText(
       };
     }
 
-    // Embed chunks
-    const embeddedVectors = await embedChunks(enrichedChunks, embeddings);
-
-    log.info('Embeddings generated', {
-      source,
-      vectorDimensions: embeddedVectors[0]?.length || 0,
-    });
-
-    // Upsert to Pinecone
-    await upsertToPinecone(enrichedChunks, embeddedVectors, config.pineconeIndexName, pinecone, namespace);
+    // Embed and upsert, reconciling any previous version of this source
+    const outcome = await withSourceLock(namespace, source, () =>
+      indexChunks(
+        enrichedChunks,
+        versionHash(text, customMetadata, describeChunking(chunkingSettings), embeddings),
+        embeddings,
+        vectorStore,
+        namespace,
+        log
+      )
+    );
 
     const duration = Date.now() - startTime;
     log.info('Text ingestion completed', {
       source,
-      chunksProcessed: enrichedChunks.length,
+      ...outcome,
       namespace: namespace || '(default)',
       durationMs: duration,
     });
 
     return {
       filePath: source,
-      chunksProcessed: enrichedChunks.length,
       success: true,
+      ...outcome,
     };
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -0,0 +1,282 @@
+/**
+ * Lexical (BM25) Index
+ *
+ * Dense retrieval misses exact terms — statute numbers, clause IDs, "72 hours"
+ * — whose embeddings sit close to any other number. This keeps a BM25 index
+ * per namespace next to the vector store so retrieval can search (or fuse)
+ * on exact term matches.
+ *
+ * - Maintained at ingest time (same record IDs as the vector store)
+ * - Process-local and in memory; after a restart a namespace is rebuilt from
+ *   the vector store on first sparse/hybrid query (see `ensureNamespace`).
+ *   Writes made while a rebuild runs win over the records it loads.
+ * - Single replica only: another process's ingests and deletes are not seen
+ *   until this process restarts, so with several replicas sparse and hybrid
+ *   retrieval can miss new documents and return deleted ones
+ * - Identifiers such as `4.2.1`, `art-33` or `2016/679` are indexed both as a
+ *   whole token and as their parts, so either form matches
+ */
+
+import { logger, type Logger } from '../utils/logger.js';
+import { tokenizeForHashing } from '../embeddings/hashingProvider.js';
+import { matchesFilter } from '../vector/filter.js';
+import type { MetadataFilter, VectorMetadata, VectorNamespace } from '../vector/vectorStore.js';
+
+/** BM25 term-frequency saturation */
+const K1 = 1.2;
+/** BM25 length normalization */
+const B = 0.75;
+
+/** Page size when rebuilding a namespace from the vector store */
+const REBUILD_PAGE_SIZE = 100;
+
+export interface LexicalDocument {
+  id: string;
+  text: string;
+  metadata?: VectorMetadata;
+}
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+  text: string;
+  metadata: VectorMetadata;
+}
+
+/**
+ * Tokens for BM25: stopword-filtered words plus whole compound identifiers
+ */
+export function tokenizeForBM25(text: string): string[] {
+  const compounds = text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+(?:[.\-/:§][\p{L}\p{N}]+)+/gu) || [];
+  return [...tokenizeForHashing(text), ...compounds];
+}
+
+interface IndexedDocument {
+  text: string;
+  metadata: VectorMetadata;
+  length: number;
+  termFreqs: Map<string, number>;
+}
+
+/**
+ * BM25 index for a single namespace
+ */
+export class LexicalNamespace {
+  private docs: Map<string, IndexedDocument> = new Map();
+  /** term -> number of documents containing it */
+  private docFreqs: Map<string, number> = new Map();
+  private totalLength = 0;
+  /** While a rebuild runs: IDs upserted or deleted by live writes, which the rebuild must not overwrite */
+  private changedDuringRebuild: Set<string> | null = null;
+  /** Bumped by deleteAll, so a rebuild started before it stops loading */
+  private generation = 0;
+
+  constructor(readonly name: string) {}
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  upsert(documents: LexicalDocument[]): void {
+    documents.forEach((doc) => this.changedDuringRebuild?.add(doc.id));
+    this.index(documents);
+  }
+
+  deleteMany(ids: string[]): void {
+    ids.forEach((id) => {
+      this.changedDuringRebuild?.add(id);
+      this.remove(id);
+    });
+  }
+
+  deleteAll(): void {
+    this.docs.clear();
+    this.docFreqs.clear();
+    this.totalLength = 0;
+    this.generation++;
+  }
+
+  /**
+   * Runs a rebuild: `load` receives a function adding records read from the
+   * vector store, which skips IDs written since the rebuild started and stops
+   * (returns false) once the namespace was deleted
+   */
+  async rebuild(load: (add: (documents: LexicalDocument[]) => boolean) => Promise<void>): Promise<void> {
+    const generation = this.generation;
+    const changed = new Set<string>();
+    this.changedDuringRebuild = changed;
+    try {
+      await load((documents) => {
+        if (this.generation !== generation) return false;
+        this.index(documents.filter((doc) => !changed.has(doc.id)));
+        return true;
+      });
+    } finally {
+      if (this.changedDuringRebuild === changed) this.changedDuringRebuild = null;
+    }
+  }
+
+  private index(documents: LexicalDocument[]): void {
+    for (const doc of documents) {
+      this.remove(doc.id);
+
+      const tokens = tokenizeForBM25(doc.text);
+      const termFreqs = new Map<string, number>();
+      for (const token of tokens) {
+        termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+      }
+      for (const term of termFreqs.keys()) {
+        this.docFreqs.set(term, (this.docFreqs.get(term) || 0) + 1);
+      }
+
+      this.docs.set(doc.id, { text: doc.text, metadata: doc.metadata || {}, length: tokens.length, termFreqs });
+      this.totalLength += tokens.length;
+    }
+  }
+
+  /**
+   * Top-k documents by BM25 score; documents sharing no term with the query
+   * or not matching the metadata filter are omitted
+   */
+  search(query: string, topK: number, filter?: MetadataFilter): LexicalMatch[] {
+    const queryTerms = Array.from(new Set(tokenizeForBM25(query)));
+    if (queryTerms.length === 0 || this.docs.size === 0) {
+      return [];
+    }
+
+    const n = this.docs.size;
+    const avgLength = this.totalLength / n || 1;
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const df = this.docFreqs.get(term) || 0;
+      if (df > 0) idf.set(term, Math.log(1 + (n - df + 0.5) / (df + 0.5)));
+    }
+    if (idf.size === 0) {
+      return [];
+    }
+
+    const matches: LexicalMatch[] = [];
+    for (const [id, doc] of this.docs) {
+      if (filter && !matchesFilter(doc.metadata, filter)) continue;
+      let score = 0;
+      for (const [term, weight] of idf) {
+        const tf = doc.termFreqs.get(term);
+        if (!tf) continue;
+        score += (weight * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / avgLength));
+      }
+      if (score > 0) {
+        matches.push({ id, score, text: doc.text, metadata: doc.metadata });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id)).slice(0, topK);
+  }
+
+  private remove(id: string): void {
+    const existing = this.docs.get(id);
+    if (!existing) return;
+
+    for (const term of existing.termFreqs.keys()) {
+      const df = (this.docFreqs.get(term) || 1) - 1;
+      if (df === 0) this.docFreqs.delete(term);
+      else this.docFreqs.set(term, df);
+    }
+    this.totalLength -= existing.length;
+    this.docs.delete(id);
+  }
+}
+
+/**
+ * Namespaced BM25 indexes (mirrors VectorStore.namespace)
+ */
+export class LexicalStore {
+  private namespaces: Map<string, LexicalNamespace> = new Map();
+  /** Namespaces already loaded from the vector store in this process */
+  private hydrated: Map<string, Promise<void>> = new Map();
+
+  namespace(name?: string): LexicalNamespace {
+    const key = name || '';
+    let ns = this.namespaces.get(key);
+    if (!ns) {
+      ns = new LexicalNamespace(key);
+      this.namespaces.set(key, ns);
+    }
+    return ns;
+  }
+
+  deleteNamespace(name?: string): void {
+    this.namespace(name).deleteAll();
+  }
+
+  /**
+   * Loads the records already in the vector store into the namespace (once
+   * per process; upserts by ID, so documents ingested since startup are kept).
+   * Backends that cannot list records leave the index as is, in which case
+   * sparse retrieval only sees documents ingested since startup.
+   */
+  async ensureNamespace(vectorNamespace: VectorNamespace, reqLogger?: Logger): Promise<LexicalNamespace> {
+    const log = reqLogger || logger;
+    const ns = this.namespace(vectorNamespace.name);
+
+    let pending = this.hydrated.get(ns.name);
+    if (!pending) {
+      pending = rebuildFromVectorStore(ns, vectorNamespace, log);
+      this.hydrated.set(ns.name, pending);
+    }
+    await pending;
+    return ns;
+  }
+
+  clear(): void {
+    this.namespaces.clear();
+    this.hydrated.clear();
+  }
+}
+
+async function rebuildFromVectorStore(ns: LexicalNamespace, vectorNamespace: VectorNamespace, log: Logger): Promise<void> {
+  const startTime = Date.now();
+  try {
+    await ns.rebuild(async (add) => {
+      let paginationToken: string | undefined;
+      do {
+        const page = await vectorNamespace.list({
+          limit: REBUILD_PAGE_SIZE,
+          ...(paginationToken && { paginationToken }),
+        });
+        if (page.ids.length > 0) {
+          const records = await vectorNamespace.fetch(page.ids);
+          const loaded = add(
+            records
+              .filter((r) => typeof r.metadata?.text === 'string')
+              .map((r) => ({ id: r.id, text: r.metadata!.text as string, metadata: r.metadata! }))
+          );
+          if (!loaded) return;
+        }
+        paginationToken = page.nextToken;
+      } while (paginationToken);
+    });
+
+    log.info('Lexical index rebuilt from vector store', {
+      namespace: ns.name || '(default)',
+      documents: ns.size,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    log.warn('Lexical index rebuild failed - sparse results limited to newly ingested documents', {
+      namespace: ns.name || '(default)',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+let lexicalStoreInstance: LexicalStore | null = null;
+
+/**
+ * Process-wide lexical store shared by ingestion and retrieval
+ */
+export function getLexicalStore(): LexicalStore {
+  if (!lexicalStoreInstance) {
+    lexicalStoreInstance = new LexicalStore();
+  }
+  return lexicalStoreInstance;
+}
@@ -0,0 +1,178 @@
+/**
+ * Caller-supplied chunk metadata
+ *
+ * `/ingest/text` and `/ingest/batch` accept a `metadata` object that is stored
+ * with every chunk of the document and returned in retrieval results and
+ * citations. Vector backends only store flat primitive values (see
+ * VectorMetadataValue), so the object is normalized first:
+ * - strings, finite numbers and booleans are kept as-is
+ * - null / undefined values are dropped
+ * - nested objects are flattened with dotted keys: `{ author: { name } }` → `author.name`
+ * - arrays of primitives become string arrays (`[2023, 2024]` → `['2023', '2024']`)
+ *
+ * Keys the pipeline writes itself (source, text, chunk counters, content
+ * hashes, ingestion time, Markdown heading path, retrieval scores, `<field>_ts` date companions and `_rag_*` backend
+ * bookkeeping) are reserved. Anything that cannot be stored faithfully is
+ * rejected with a MetadataValidationError instead of being dropped silently.
+ */
+
+import type { VectorMetadata, VectorMetadataValue } from '../vector/vectorStore.js';
+import { DATE_TIMESTAMP_SUFFIX, FIELD_NAME } from '../vector/filter.js';
+
+/** Keys set by ingestion or retrieval; callers cannot override them */
+export const RESERVED_METADATA_KEYS: ReadonlySet<string> = new Set([
+  'id',
+  'text',
+  'source',
+  'chunkIndex',
+  'totalChunks',
+  'denseScore',
+  'bm25Score',
+  'docHash',
+  'chunkHash',
+  'ingestedAt',
+  'headingPath',
+  'pageStart',
+  'pageEnd',
+]);
+
+/** Prefix of backend bookkeeping keys (e.g. Chroma's array-key list) */
+const INTERNAL_KEY_PREFIX = '_rag_';
+
+/** Limits on caller metadata (per document, after flattening) */
+const MAX_METADATA_DEPTH = 3;
+const MAX_METADATA_KEYS = 32;
+const MAX_STRING_LENGTH = 1024;
+const MAX_ARRAY_LENGTH = 100;
+const MAX_METADATA_BYTES = 8192;
+
+export class MetadataValidationError extends Error {
+  constructor(
+    message: string,
+    /** Location of the offending value, e.g. `metadata.author.name` */
+    readonly path: string
+  ) {
+    super(`${message} (at ${path})`);
+    this.name = 'MetadataValidationError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(value: string, path: string): string {
+  if (value.length > MAX_STRING_LENGTH) {
+    throw new MetadataValidationError(`Strings are limited to ${MAX_STRING_LENGTH} characters`, path);
+  }
+  return value;
+}
+
+function toPrimitive(value: unknown, path: string): string | number | boolean {
+  if (typeof value === 'string') return checkString(value, path);
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new MetadataValidationError('Numbers must be finite', path);
+    }
+    return value;
+  }
+  throw new MetadataValidationError('Values must be strings, numbers, booleans, arrays of those, or objects', path);
+}
+
+/**
+ * Validates and flattens caller metadata into storable values
+ *
+ * @throws MetadataValidationError with the path of the first invalid value
+ */
+export function sanitizeMetadata(input: unknown, path: string = 'metadata'): VectorMetadata {
+  if (input === undefined || input === null) return {};
+  if (!isPlainObject(input)) {
+    throw new MetadataValidationError('Metadata must be an object', path);
+  }
+
+  const result: VectorMetadata = {};
+
+  const visit = (object: Record<string, unknown>, prefix: string, depth: number, objectPath: string) => {
+    if (depth > MAX_METADATA_DEPTH) {
+      throw new MetadataValidationError(`Metadata nesting exceeds ${MAX_METADATA_DEPTH} levels`, objectPath);
+    }
+
+    for (const [rawKey, value] of Object.entries(object)) {
+      const key = prefix ? `${prefix}.${rawKey}` : rawKey;
+      const keyPath = `${objectPath}.${rawKey}`;
+
+      if (!FIELD_NAME.test(key)) {
+        throw new MetadataValidationError('Keys must be 1-64 letters, digits, "_", "." or "-" and start with a letter or "_"', keyPath);
+      }
+      if (
+        RESERVED_METADATA_KEYS.has(key) ||
+        key.endsWith(DATE_TIMESTAMP_SUFFIX) ||
+        key.startsWith(INTERNAL_KEY_PREFIX)
+      ) {
+        throw new MetadataValidationError(`"${key}" is reserved`, keyPath);
+      }
+      if (value === undefined || value === null) continue;
+
+      if (isPlainObject(value)) {
+        visit(value, key, depth + 1, keyPath);
+        continue;
+      }
+
+      let stored: VectorMetadataValue;
+      if (Array.isArray(value)) {
+        if (value.length > MAX_ARRAY_LENGTH) {
+          throw new MetadataValidationError(`Arrays are limited to ${MAX_ARRAY_LENGTH} values`, keyPath);
+        }
+        stored = value.map((item, i) => String(toPrimitive(item, `${keyPath}[${i}]`)));
+      } else {
+        stored = toPrimitive(value, keyPath);
+      }
+
+      if (key in result) {
+        throw new MetadataValidationError(`Flattened key "${key}" is defined twice`, keyPath);
+      }
+      if (Object.keys(result).length >= MAX_METADATA_KEYS) {
+        throw new MetadataValidationError(`Metadata is limited to ${MAX_METADATA_KEYS} fields`, keyPath);
+      }
+      result[key] = stored;
+    }
+  };
+
+  visit(input, '', 1, path);
+
+  if (Buffer.byteLength(JSON.stringify(result)) > MAX_METADATA_BYTES) {
+    throw new MetadataValidationError(`Metadata is limited to ${MAX_METADATA_BYTES} bytes`, path);
+  }
+  return result;
+}
+
+/**
+ * The caller metadata of a stored chunk (drops the reserved keys, date
+ * companions and backend bookkeeping the pipeline added)
+ */
+export function callerMetadata(stored: VectorMetadata): VectorMetadata {
+  return Object.fromEntries(
+    Object.entries(stored).filter(
+      ([key]) =>
+        !RESERVED_METADATA_KEYS.has(key) &&
+        !key.endsWith(DATE_TIMESTAMP_SUFFIX) &&
+        !key.startsWith(INTERNAL_KEY_PREFIX)
+    )
+  );
+}
+
+/** Pipeline keys returned with retrieved passages: where the passage comes from */
+const PASSAGE_LOCATION_KEYS = ['source', 'chunkIndex', 'headingPath', 'pageStart', 'pageEnd'];
+
+/**
+ * Metadata of a stored chunk as returned in retrieval results and citations:
+ * its location in the source plus the caller metadata (no chunk text, content
+ * hashes, date companions or backend bookkeeping)
+ */
+export function passageMetadata(stored: VectorMetadata): VectorMetadata {
+  return {
+    ...Object.fromEntries(Object.entries(stored).filter(([key]) => PASSAGE_LOCATION_KEYS.includes(key))),
+    ...callerMetadata(stored),
+  };
+}
@@ -0,0 +1,456 @@
+/**
+ * Document Parsers
+ *
+ * Registry mapping file extensions to parsers that turn a file's bytes into
+ * text for the ingestion pipeline (see parseDocument in ingest.ts):
+ * - PDF (pdf-parse): extracted page by page with headers and footers that
+ *   repeat across pages removed, so chunks can carry their page range
+ * - Markdown and plain text
+ * - HTML: scripts, navigation, headers/footers and other boilerplate are
+ *   dropped; headings are kept as Markdown `#` lines
+ * - DOCX (mammoth): converted to HTML first so headings survive the same way
+ * - CSV: rows are packed into chunks with the header row repeated in each
+ * - JSON / JSONL: one record per array element or line, optionally limited to
+ *   selected fields, packed into chunks record by record
+ *
+ * Tabular and record formats return their own `chunks` so a row or record is
+ * never split across chunks; other formats are chunked by the text splitter.
+ * New formats only need registerParser.
+ */
+
+import { extname } from 'path';
+import { PDFParse } from 'pdf-parse';
+import mammoth from 'mammoth';
+import { parse as parseHtml, HTMLElement, TextNode, type Node } from 'node-html-parser';
+
+export interface ParseOptions {
+  /** Original file name (for error messages) */
+  fileName: string;
+  /** Target chunk size in characters, for parsers that chunk themselves */
+  chunkSize: number;
+  /** JSON/JSONL: dotted field paths to index (all fields when omitted) */
+  fields?: string[];
+}
+
+export interface ParsedDocument {
+  /** Full text of the document */
+  text: string;
+  /** Pre-built chunks; when absent the text is chunked by the splitter */
+  chunks?: string[];
+  /**
+   * Paged formats: text of each page (page N at index N-1); `text` is the
+   * pages joined with PAGE_SEPARATOR
+   */
+  pages?: string[];
+}
+
+/** Chunk metadata keys holding the first and last page of a chunk */
+export const PAGE_START_KEY = 'pageStart';
+export const PAGE_END_KEY = 'pageEnd';
+
+/** Joins the pages of a paged document into its text */
+export const PAGE_SEPARATOR = '\n\n';
+
+export interface DocumentParser {
+  readonly name: string;
+  /** Lower-case extensions including the dot, e.g. `.pdf` */
+  readonly extensions: readonly string[];
+  parse(content: Buffer, options: ParseOptions): Promise<ParsedDocument>;
+}
+
+const parsers = new Map<string, DocumentParser>();
+
+/**
+ * Registers a parser for its extensions (replacing any earlier parser for them)
+ */
+export function registerParser(parser: DocumentParser): void {
+  for (const ext of parser.extensions) {
+    parsers.set(ext.toLowerCase(), parser);
+  }
+}
+
+/**
+ * Parser for a file name's extension, or undefined when unsupported
+ */
+export function getParser(fileName: string): DocumentParser | undefined {
+  return parsers.get(extname(fileName).toLowerCase());
+}
+
+/** Extensions with a registered parser */
+export function supportedExtensions(): string[] {
+  return Array.from(parsers.keys());
+}
+
+function decodeText(content: Buffer): string {
+  // Strip a UTF-8 byte order mark (common in CSVs exported from spreadsheets)
+  return content.toString('utf-8').replace(/^﻿/, '');
+}
+
+/**
+ * Groups records into chunks of up to `chunkSize` characters without
+ * splitting a record; `header` is repeated at the top of every chunk
+ */
+function packRecords(records: string[], chunkSize: number, separator: string, header?: string): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push([...(header ? [header] : []), ...current].join(separator));
+    current = [];
+    size = 0;
+  };
+
+  for (const record of records) {
+    if (current.length > 0 && (header?.length ?? 0) + size + record.length + separator.length > chunkSize) {
+      flush();
+    }
+    current.push(record);
+    size += record.length + separator.length;
+  }
+  flush();
+  return chunks;
+}
+
+// ----------------------------------------------------------------------------
+// Pages
+// ----------------------------------------------------------------------------
+
+/** Lines at the top and bottom of a page checked for running headers/footers */
+const PAGE_EDGE_LINES = 2;
+/** Share of pages a line must appear on to count as a running header/footer */
+const REPEATED_LINE_SHARE = 0.6;
+/** Fewer pages than this give too little evidence to tell furniture from content */
+const MIN_PAGES_FOR_FURNITURE = 3;
+
+/** Page numbers change from page to page, so digits are ignored when comparing lines */
+function furnitureKey(line: string): string {
+  return line.trim().replace(/\s+/g, ' ').replace(/\d+/g, '#').toLowerCase();
+}
+
+/**
+ * Removes running headers and footers: lines among the first or last
+ * PAGE_EDGE_LINES non-blank lines of a page that recur (ignoring digits, so
+ * "Page 3 of 12" matches "Page 4 of 12") on at least 60% of the pages
+ */
+export function stripPageFurniture(pages: string[]): string[] {
+  if (pages.length < MIN_PAGES_FOR_FURNITURE) return pages;
+
+  const edgeLines = pages.map((page) => {
+    const lines = page.split('\n').filter((line) => line.trim());
+    return new Set([...lines.slice(0, PAGE_EDGE_LINES), ...lines.slice(-PAGE_EDGE_LINES)].map(furnitureKey));
+  });
+  const counts = new Map<string, number>();
+  for (const keys of edgeLines) {
+    for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const furniture = new Set(
+    Array.from(counts).filter(([, count]) => count >= pages.length * REPEATED_LINE_SHARE).map(([key]) => key)
+  );
+  if (furniture.size === 0) return pages;
+
+  return pages.map((page) => {
+    const lines = page.split('\n');
+    const content = lines.map((line, i) => ({ line, i })).filter(({ line }) => line.trim());
+    const edges = new Set([...content.slice(0, PAGE_EDGE_LINES), ...content.slice(-PAGE_EDGE_LINES)].map(({ i }) => i));
+    return lines
+      .filter((line, i) => !(edges.has(i) && furniture.has(furnitureKey(line))))
+      .join('\n')
+      .trim();
+  });
+}
+
+/**
+ * First and last page of each chunk of a paged document, found by locating
+ * the chunk in the joined page text. Whitespace is ignored because strategies
+ * may trim or re-join it; chunks are searched in order from the previous
+ * chunk's start since overlapping chunks repeat text. Chunks that cannot be
+ * located (e.g. rewritten by a custom strategy) get no range.
+ */
+export function locatePages(pages: string[], chunks: string[]): Array<{ pageStart: number; pageEnd: number } | undefined> {
+  // Collapsed text without whitespace, with the page of every character
+  let collapsed = '';
+  const pageOf: number[] = [];
+  pages.forEach((page, i) => {
+    const text = page.replace(/\s+/g, '');
+    collapsed += text;
+    for (let c = 0; c < text.length; c++) pageOf.push(i + 1);
+  });
+
+  let cursor = 0;
+  return chunks.map((chunk) => {
+    const needle = chunk.replace(/\s+/g, '');
+    if (!needle) return undefined;
+    let start = collapsed.indexOf(needle, cursor);
+    if (start === -1) start = collapsed.indexOf(needle);
+    if (start === -1) return undefined;
+    cursor = start + 1;
+    return { pageStart: pageOf[start]!, pageEnd: pageOf[start + needle.length - 1]! };
+  });
+}
+
+// ----------------------------------------------------------------------------
+// HTML
+// ----------------------------------------------------------------------------
+
+/** Page furniture that is not part of the content */
+const HTML_BOILERPLATE =
+  'script, style, noscript, template, iframe, svg, form, nav, aside, footer, body > header, ' +
+  '[role=navigation], [role=banner], [role=contentinfo], [aria-hidden=true]';
+
+/** Elements that start a new paragraph */
+const HTML_BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'hr', 'li',
+  'main', 'ol', 'p', 'pre', 'section', 'table', 'tbody', 'thead', 'tr', 'ul',
+]);
+
+/**
+ * Readable text of an HTML page: boilerplate removed, one paragraph per
+ * block element, headings as `#` lines and list items as `- ` lines
+ */
+export function htmlToText(html: string): string {
+  const root = parseHtml(html, { comment: false });
+  root.querySelectorAll(HTML_BOILERPLATE).forEach((node) => node.remove());
+  const content = root.querySelector('main') ?? root.querySelector('article') ?? root.querySelector('body') ?? root;
+
+  const blocks: string[] = [];
+  let line = '';
+  const flush = () => {
+    const text = line.replace(/\s+/g, ' ').trim();
+    if (text && text !== '-') blocks.push(text);
+    line = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node instanceof TextNode) {
+      line += node.text;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+
+    const tag = node.rawTagName?.toLowerCase() ?? '';
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const title = node.text.replace(/\s+/g, ' ').trim();
+      if (title) blocks.push(`${'#'.repeat(Number(heading[1]))} ${title}`);
+      return;
+    }
+
+    const block = HTML_BLOCK_TAGS.has(tag);
+    if (block) flush();
+    if (tag === 'li') line += '- ';
+    node.childNodes.forEach(walk);
+    if (tag === 'td' || tag === 'th') line += ' ';
+    if (block) flush();
+  };
+
+  walk(content);
+  flush();
+
+  // Pages without an <h1> in the content still get their title as a heading
+  const title = root.querySelector('title')?.text.replace(/\s+/g, ' ').trim();
+  if (title && !blocks.some((block) => block.startsWith('# '))) {
+    blocks.unshift(`# ${title}`);
+  }
+  return blocks.join('\n\n');
+}
+
+// ----------------------------------------------------------------------------
+// CSV
+// ----------------------------------------------------------------------------
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, doubled quotes, CRLF or LF); blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim())) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) endRow();
+  return rows;
+}
+
+function toCsvLine(values: string[]): string {
+  return values.map((value) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(',');
+}
+
+// ----------------------------------------------------------------------------
+// JSON / JSONL
+// ----------------------------------------------------------------------------
+
+/** Flattens a JSON value into `path: value` lines (dotted paths, array indexes as segments) */
+function flattenJson(value: unknown, path: string, lines: Array<[string, string]>): void {
+  if (value === null || value === undefined) return;
+  if (Array.isArray(value)) {
+    if (value.every((item) => typeof item !== 'object' || item === null)) {
+      const items = value.filter((item) => item !== null && item !== undefined).map(String);
+      if (items.length > 0) lines.push([path, items.join(', ')]);
+      return;
+    }
+    value.forEach((item, i) => flattenJson(item, path ? `${path}.${i}` : String(i), lines));
+    return;
+  }
+  if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      flattenJson(child, path ? `${path}.${key}` : key, lines);
+    }
+    return;
+  }
+  lines.push([path, String(value)]);
+}
+
+/** A field is selected by its own path or any ancestor path (`author` selects `author.name`) */
+function isSelected(path: string, fields: string[] | undefined): boolean {
+  return !fields || fields.some((field) => path === field || path.startsWith(`${field}.`));
+}
+
+function renderRecord(record: unknown, fields: string[] | undefined): string {
+  if (typeof record !== 'object' || record === null) {
+    return String(record);
+  }
+  const lines: Array<[string, string]> = [];
+  flattenJson(record, '', lines);
+  return lines
+    .filter(([path]) => isSelected(path, fields))
+    .map(([path, value]) => `${path}: ${value}`)
+    .join('\n');
+}
+
+function parseJsonRecords(text: string, fileName: string, lines: boolean): unknown[] {
+  if (lines) {
+    return text.split(/\r?\n/).flatMap((line, i) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line)];
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${i + 1} of ${fileName}: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${fileName}: ${(error as Error).message}`);
+  }
+  return Array.isArray(data) ? data : [data];
+}
+
+function jsonParser(name: string, extensions: string[], lines: boolean): DocumentParser {
+  return {
+    name,
+    extensions,
+    async parse(content, { fileName, chunkSize, fields }) {
+      const records = parseJsonRecords(decodeText(content), fileName, lines)
+        .map((record) => renderRecord(record, fields))
+        .filter((record) => record.trim());
+      return { text: records.join('\n\n'), chunks: packRecords(records, chunkSize, '\n\n') };
+    },
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Built-in parsers
+// ----------------------------------------------------------------------------
+
+registerParser({
+  name: 'pdf',
+  extensions: ['.pdf'],
+  async parse(content) {
+    const parser = new PDFParse({ data: content });
+    try {
+      const result = await parser.getText();
+      const pages = stripPageFurniture([...result.pages].sort((a, b) => a.num - b.num).map((page) => page.text));
+      return { text: pages.join(PAGE_SEPARATOR), pages };
+    } finally {
+      await parser.destroy();
+    }
+  },
+});
+
+registerParser({
+  name: 'markdown',
+  extensions: ['.md', '.markdown'],
+  async parse(content) {
+    return { text: decodeText(content) };
+  },
+});
+
+registerParser({
+  name: 'text',
+  extensions: ['.txt'],
+  async parse(content) {
+    return { text: decodeText(content) };
+  },
+});
+
+registerParser({
+  name: 'html',
+  extensions: ['.html', '.htm'],
+  async parse(content) {
+    return { text: htmlToText(decodeText(content)) };
+  },
+});
+
+registerParser({
+  name: 'docx',
+  extensions: ['.docx'],
+  async parse(content) {
+    const { value: html } = await mammoth.convertToHtml({ buffer: content });
+    return { text: htmlToText(html) };
+  },
+});
+
+registerParser({
+  name: 'csv',
+  extensions: ['.csv'],
+  async parse(content, { chunkSize }) {
+    const [header, ...rows] = parseCsv(decodeText(content));
+    if (!header) return { text: '' };
+
+    const headerLine = toCsvLine(header);
+    const rowLines = rows.map(toCsvLine);
+    return {
+      text: [headerLine, ...rowLines].join('\n'),
+      chunks: packRecords(rowLines, chunkSize, '\n', headerLine),
+    };
+  },
+});
+
+registerParser(jsonParser('json', ['.json'], false));
+registerParser(jsonParser('jsonl', ['.jsonl', '.ndjson'], true));
@@ -1,39 +1,65 @@
 /**
  * RAG Data Flow - Retrieval Pipeline
  * 
- * 1. Query Embedding: Convert user query into vector embedding using OpenAI (LangChain)
- * 2. Vector Search: Query Pinecone index for top-k most similar document chunks
+ * 1. Query Embedding: Convert user query into vector embedding using the configured EmbeddingProvider
+ * 2. Vector Search: Query the vector store for top-k most similar document chunks
  * 3. Result Formatting: Return passages with relevance scores and metadata
  * 
  * The retriever finds semantically similar content even if exact keywords don't match,
  * enabling natural language Q&A over the ingested document corpus.
+ *
+ * Retrieval modes (RETRIEVAL_MODE, or `retrievalMode` per request):
+ * - dense: vector search only (default)
+ * - sparse: BM25 over the lexical index only (exact terms, clause IDs, numbers)
+ * - hybrid: both, fused with reciprocal rank fusion or a weighted score (HYBRID_FUSION)
+ *
+ * An optional metadata filter (already validated, see normalizeQueryFilter)
+ * scopes every mode to matching chunks.
  * 
  * Future enhancements:
- * - Use LangChain VectorStoreRetriever abstraction for easier DB swapping
  * - Add query expansion/rewriting for better recall
- * - Implement hybrid search (keyword + semantic)
- * - Add filtering by metadata (date ranges, document types, etc.)
  */
 
-import { OpenAIEmbeddings } from '@langchain/openai';
-import { logger } from '../utils/logger.js';
-import { loadConfig } from '../utils/config.js';
-import { createVectorClient } from '../utils/factory.js';
+import { logger, type Logger } from '../utils/logger.js';
+import { loadConfig, type RAGConfig, type RetrievalMode } from '../utils/config.js';
+import { createVectorClient, createEmbeddingProvider } from '../utils/factory.js';
+import { recordEmbeddingUsage } from '../embeddings/embeddingProvider.js';
 import { recordRetrievalTrace } from '../llm/langsmith.js';
 import { retrievalPrecisionGauge } from '../metrics/metrics.js';
+import { getLexicalStore } from './lexicalIndex.js';
+import { reciprocalRankFusion, weightedScoreFusion } from './fusion.js';
+import { passageMetadata } from './metadata.js';
+import type { MetadataFilter, VectorNamespace } from '../vector/vectorStore.js';
 
 export interface RetrievedPassage {
   text: string;
   score: number;
   metadata: Record<string, unknown>;
+  /** Set by the rerank stage: the first-stage retrieval score (cosine, BM25 or fused) */
+  vectorScore?: number;
+  /** Set by the rerank stage: the reranker's score, which `score` then equals */
+  rerankScore?: number;
+}
+
+export interface RetrievalOptions {
+  /** Overrides RETRIEVAL_MODE for this call */
+  mode?: RetrievalMode;
+  /** Metadata filter in vector-store form (see normalizeQueryFilter) */
+  filter?: MetadataFilter;
+}
+
+/** Candidates fetched from each side before hybrid fusion */
+function hybridCandidateCount(topK: number): number {
+  return Math.min(Math.max(topK * 3, 20), 100);
 }
 
 /**
- * Retrieves relevant passages from Pinecone based on a query
+ * Retrieves relevant passages from the vector store based on a query
  * 
  * @param query - The search query string
  * @param topK - Number of passages to retrieve (default: 5)
- * @param namespace - Pinecone namespace for multi-tenant isolation (optional)
+ * @param namespace - Vector store namespace for multi-tenant isolation (optional)
+ * @param options - Per-call retrieval mode (dense, sparse or hybrid) and metadata filter
  * @returns Array of retrieved passages with scores and metadata
  */
 export async function retrieveRelevantPassages(
@@ -41,70 +67,44 @@ export async function retrieveRelevantPassages(
   topK: number = 5,
   namespace?: string,
   requestId?: string,
-  reqLogger?: any
+  reqLogger?: Logger,
+  options: RetrievalOptions = {}
 ): Promise<RetrievedPassage[]> {
   const startTime = Date.now();
   const log = reqLogger || logger;
 
   try {
-    log.info('Starting retrieval', {
-      queryLength: query.length,
-      topK,
-    });
-
     // Load configuration
     const config = loadConfig(log);
+    const mode: RetrievalMode = options.mode || config.retrievalMode || 'dense';
+    const filter = options.filter;
 
-    // Initialize embeddings
-    const embeddings = new OpenAIEmbeddings({
-      openAIApiKey: config.openaiApiKey,
+    log.info('Starting retrieval', {
+      queryLength: query.length,
+      topK,
+      mode,
+      filtered: Boolean(filter),
     });
 
-    // Initialize vector client via factory (pinecone/chroma/azure)
+    // Initialize vector client via factory (pinecone/memory)
     const vectorClient = createVectorClient(config, log);
 
-    // Embed the query
-    log.debug('Embedding query', { queryLength: query.length });
-    const queryEmbedding = await embeddings.embedQuery(query);
-    
-    log.debug('Query embedded', {
-      vectorDimensions: queryEmbedding.length,
-    });
-
-    // Query Pinecone (with optional namespace for multi-tenancy)
-    // Use Pinecone-compatible index API from factory
-    const index = vectorClient.index(config.pineconeIndexName);
-
-    log.debug('Querying vector index', {
-      indexName: config.pineconeIndexName,
-      namespace: namespace || '(default)',
-      topK,
-      backend: process.env.VECTOR_BACKEND || 'pinecone',
-    });
-
     // Use namespace if provided (for tenant isolation)
-    const targetIndex = namespace ? index.namespace(namespace) : index;
+    const targetIndex = vectorClient.namespace(namespace);
 
-    const queryResponse = await targetIndex.query({
-      vector: queryEmbedding,
-      topK,
-      includeMetadata: true,
-    });
-
-    // Format results
-    const passages: RetrievedPassage[] = (queryResponse.matches || []).map((match: any) => {
-      // Extract text from metadata or use id as fallback
-      const text = (match.metadata?.text as string) || match.id || '';
-      
-      return {
-        text,
-        score: match.score || 0,
-        metadata: {
-          ...match.metadata,
-          id: match.id,
-        },
-      };
-    });
+    let passages: RetrievedPassage[];
+    if (mode === 'sparse') {
+      passages = await sparseSearch(query, topK, targetIndex, log, filter);
+    } else if (mode === 'hybrid') {
+      const candidates = hybridCandidateCount(topK);
+      const [dense, sparse] = await Promise.all([
+        denseSearch(query, candidates, targetIndex, config, log, filter),
+        sparseSearch(query, candidates, targetIndex, log, filter),
+      ]);
+      passages = fusePassages(dense, sparse, topK, config);
+    } else {
+      passages = await denseSearch(query, topK, targetIndex, config, log, filter);
+    }
 
     // Compute retrieval precision if we can infer relevance
     try {
@@ -124,6 +124,7 @@ export async function retrieveRelevantPassages(
     log.info('Retrieval completed', {
       queryLength: query.length,
       topK,
+      mode,
       namespace: namespace || '(default)',
       resultsCount: passages.length,
       durationMs: duration,
@@ -150,3 +151,118 @@ export async function retrieveRelevantPassages(
     throw error;
   }
 }
+
+/**
+ * Embeds the query and runs vector search
+ */
+async function denseSearch(
+  query: string,
+  topK: number,
+  targetIndex: VectorNamespace,
+  config: RAGConfig,
+  log: Logger,
+  filter?: MetadataFilter
+): Promise<RetrievedPassage[]> {
+  // Initialize embeddings via factory (openai/openai-compatible/local)
+  const embeddings = createEmbeddingProvider(config, log);
+
+  // Embed the query
+  log.debug('Embedding query', { queryLength: query.length });
+  const queryEmbedding = await embeddings.embedQuery(query);
+  recordEmbeddingUsage(embeddings, 'query', [query]);
+
+  log.debug('Query embedded', {
+    vectorDimensions: queryEmbedding.length,
+  });
+
+  log.debug('Querying vector index', {
+    namespace: targetIndex.name || '(default)',
+    topK,
+  });
+
+  const queryResponse = await targetIndex.query({
+    vector: queryEmbedding,
+    topK,
+    includeMetadata: true,
+    ...(filter && { filter }),
+  });
+
+  // Format results
+  return (queryResponse.matches || []).map((match) => {
+    // Extract text from metadata or use id as fallback
+    const text = (match.metadata?.text as string) || match.id || '';
+
+    return {
+      text,
+      score: match.score || 0,
+      metadata: {
+        ...passageMetadata(match.metadata || {}),
+        id: match.id,
+      },
+    };
+  });
+}
+
+/**
+ * BM25 search over the namespace's lexical index (loaded from the vector store on first use)
+ */
+async function sparseSearch(
+  query: string,
+  topK: number,
+  targetIndex: VectorNamespace,
+  log: Logger,
+  filter?: MetadataFilter
+): Promise<RetrievedPassage[]> {
+  const lexical = await getLexicalStore().ensureNamespace(targetIndex, log);
+
+  log.debug('Querying lexical index', {
+    namespace: targetIndex.name || '(default)',
+    topK,
+    documents: lexical.size,
+  });
+
+  return lexical.search(query, topK, filter).map((match) => ({
+    text: match.text,
+    score: match.score,
+    metadata: {
+      ...passageMetadata(match.metadata),
+      id: match.id,
+    },
+  }));
+}
+
+/**
+ * Merges dense and BM25 candidates; the fused score replaces the raw scores,
+ * which are kept in metadata as denseScore / bm25Score
+ */
+function fusePassages(
+  dense: RetrievedPassage[],
+  sparse: RetrievedPassage[],
+  topK: number,
+  config: RAGConfig
+): RetrievedPassage[] {
+  const ranked = (passages: RetrievedPassage[]) =>
+    passages.map((p) => ({ id: String(p.metadata.id), score: p.score }));
+  const fused =
+    config.hybridFusion === 'weighted'
+      ? weightedScoreFusion(ranked(dense), ranked(sparse), config.hybridDenseWeight ?? 0.5)
+      : reciprocalRankFusion([ranked(dense), ranked(sparse)]);
+
+  const denseById = new Map(dense.map((p) => [String(p.metadata.id), p]));
+  const sparseById = new Map(sparse.map((p) => [String(p.metadata.id), p]));
+
+  return fused.slice(0, topK).map(({ id, score }) => {
+    const denseHit = denseById.get(id);
+    const sparseHit = sparseById.get(id);
+    const passage = (denseHit || sparseHit)!;
+    return {
+      text: passage.text,
+      score,
+      metadata: {
+        ...passage.metadata,
+        ...(denseHit && { denseScore: denseHit.score }),
+        ...(sparseHit && { bm25Score: sparseHit.score }),
+      },
+    };
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Remote cross-encoder reranker (RERANKER=http)
+ *
+ * Calls `POST {baseUrl}/rerank` with the Cohere/Jina request shape
+ * (`{ model, query, documents, top_n }`), which text-embeddings-inference,
+ * Infinity, vLLM and most hosted rerank APIs accept. Both response shapes are
+ * understood:
+ * - `{ results: [{ index, relevance_score }] }` (Cohere, Jina, vLLM, Infinity)
+ * - `[{ index, score }]` (text-embeddings-inference)
+ */
+
+import type { Reranker, RerankScoreScale } from './reranker.js';
+
+export interface HttpRerankerOptions {
+  baseUrl: string;
+  model?: string | undefined;
+  apiKey?: string | undefined;
+  /** Request timeout (default 10000ms) */
+  timeoutMs?: number;
+  /** probability (default) for 0-1 relevance scores, logit for raw cross-encoder scores */
+  scoreScale?: RerankScoreScale | undefined;
+}
+
+interface RerankResult {
+  index: number;
+  relevance_score?: number;
+  score?: number;
+}
+
+export class HttpReranker implements Reranker {
+  readonly name: string = 'http';
+  readonly scoreScale: RerankScoreScale;
+
+  private readonly baseUrl: string;
+  private readonly model: string | undefined;
+  private readonly apiKey: string | undefined;
+  private readonly timeoutMs: number;
+
+  constructor(options: HttpRerankerOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs || 10000;
+    this.scoreScale = options.scoreScale || 'probability';
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/rerank`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        ...(this.model && { model: this.model }),
+        query,
+        documents: passages,
+        top_n: passages.length,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Rerank request failed (${response.status}) at ${this.baseUrl}: ${detail.slice(0, 200)}`);
+    }
+
+    const body = (await response.json()) as { results?: RerankResult[] } | RerankResult[];
+    const results = Array.isArray(body) ? body : body.results;
+    if (!Array.isArray(results)) {
+      throw new Error('Rerank endpoint returned no results');
+    }
+
+    // Results come back sorted by relevance; `index` points at the input document
+    const scores = new Map<number, number>();
+    for (const result of results) {
+      const value = result.relevance_score ?? result.score;
+      if (Number.isInteger(result.index) && result.index >= 0 && result.index < passages.length && typeof value === 'number') {
+        scores.set(result.index, value);
+      }
+    }
+    if (scores.size === 0) {
+      throw new Error('Rerank endpoint returned no usable scores');
+    }
+
+    // Documents the endpoint dropped rank below every scored one
+    const floor = Math.min(...scores.values()) - 1;
+    return passages.map((_text, i) => scores.get(i) ?? floor);
+  }
+}
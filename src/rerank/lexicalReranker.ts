@@ -0,0 +1,59 @@
+/**
+ * Local lexical-overlap reranker (RERANKER=lexical)
+ *
+ * Scores each candidate by how much of the query it covers: the IDF-weighted
+ * share of query terms it contains (IDF over the candidate set, so terms
+ * every candidate shares count little), plus a bonus for query bigrams that
+ * appear as adjacent words, scaled to 0-1. Deterministic and offline; useful
+ * in CI and as a cheap tie-breaker on top of dense retrieval.
+ */
+
+import { tokenizeForHashing } from '../embeddings/hashingProvider.js';
+import { tokenizeForBM25 } from '../rag/lexicalIndex.js';
+import type { Reranker, RerankScoreScale } from './reranker.js';
+
+/** Weight of the adjacent-bigram bonus relative to term coverage */
+const BIGRAM_WEIGHT = 0.5;
+
+function bigrams(tokens: string[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let i = 1; i < tokens.length; i++) {
+    pairs.add(`${tokens[i - 1]} ${tokens[i]}`);
+  }
+  return pairs;
+}
+
+export class LexicalReranker implements Reranker {
+  readonly name: string = 'lexical';
+  readonly scoreScale: RerankScoreScale = 'probability';
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const queryTerms = Array.from(new Set(tokenizeForBM25(query)));
+    const queryBigrams = bigrams(tokenizeForHashing(query));
+    if (queryTerms.length === 0) {
+      return passages.map(() => 0);
+    }
+
+    const passageTerms = passages.map((text) => new Set(tokenizeForBM25(text)));
+    const passageBigrams = passages.map((text) => bigrams(tokenizeForHashing(text)));
+
+    const n = passages.length;
+    const idf = new Map(
+      queryTerms.map((term) => {
+        const df = passageTerms.filter((terms) => terms.has(term)).length;
+        return [term, Math.log(1 + n / (1 + df))];
+      })
+    );
+    const totalIdf = Array.from(idf.values()).reduce((sum, w) => sum + w, 0);
+
+    return passages.map((_text, i) => {
+      const covered = queryTerms.reduce((sum, term) => sum + (passageTerms[i]!.has(term) ? idf.get(term)! : 0), 0);
+      const coverage = totalIdf > 0 ? covered / totalIdf : 0;
+      const phrase =
+        queryBigrams.size > 0
+          ? Array.from(queryBigrams).filter((pair) => passageBigrams[i]!.has(pair)).length / queryBigrams.size
+          : 0;
+      return (coverage + BIGRAM_WEIGHT * phrase) / (1 + BIGRAM_WEIGHT);
+    });
+  }
+}
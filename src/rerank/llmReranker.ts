@@ -0,0 +1,134 @@
+/**
+ * LLM reranker (RERANKER=llm)
+ *
+ * Uses the configured chat model as the relevance judge:
+ * - listwise (default): one call with every candidate; the model replies with
+ *   passage numbers in order of relevance, e.g. `[3, 0, 2]`. Candidates it
+ *   leaves out keep their retrieval order after the ranked ones.
+ * - pointwise: one call per candidate asking for a 0-10 relevance score
+ *   (RERANK_LLM_CONCURRENCY calls in flight). More calls, but each is small
+ *   and the scores are comparable across requests.
+ *
+ * Unparseable replies throw, so rerankPassages falls back to retrieval order.
+ */
+
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import type { LLMClient } from '../utils/factory.js';
+import type { Reranker, RerankScoreScale } from './reranker.js';
+
+export type LLMRerankMode = 'listwise' | 'pointwise';
+
+export interface LLMRerankerOptions {
+  mode?: LLMRerankMode;
+  /** Characters of each passage shown to the model (default 1000) */
+  maxPassageChars?: number;
+  /** Pointwise calls in flight (default 4) */
+  concurrency?: number;
+}
+
+const LISTWISE_SYSTEM_PROMPT =
+  'You rank passages by how well they answer a question. ' +
+  'Reply with a JSON array of passage numbers, most relevant first, and nothing else.';
+
+const POINTWISE_SYSTEM_PROMPT =
+  'You judge how well a passage answers a question on a scale from 0 (irrelevant) to 10 (fully answers it). ' +
+  'Reply with the number only.';
+
+function contentText(response: any): string {
+  const content = response?.content ?? response;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((part: any) => (typeof part === 'string' ? part : part?.text || '')).join('');
+  }
+  return String(content ?? '');
+}
+
+/**
+ * Parses a listwise reply into passage indexes (exported for tests)
+ */
+export function parseRanking(reply: string, count: number): number[] {
+  const match = reply.match(/\[[\d,\s]*\]/);
+  if (!match) {
+    throw new Error(`LLM reranker reply has no ranking: ${reply.slice(0, 100)}`);
+  }
+  const seen = new Set<number>();
+  for (const value of JSON.parse(match[0]) as number[]) {
+    if (Number.isInteger(value) && value >= 0 && value < count) seen.add(value);
+  }
+  if (seen.size === 0) {
+    throw new Error(`LLM reranker ranking references no passages: ${match[0]}`);
+  }
+  return Array.from(seen);
+}
+
+export class LLMReranker implements Reranker {
+  readonly name: string = 'llm';
+  /** Pointwise scores are 0-1 relevance; listwise ones only encode the ranking */
+  readonly scoreScale: RerankScoreScale;
+
+  private readonly mode: LLMRerankMode;
+  private readonly maxPassageChars: number;
+  private readonly concurrency: number;
+
+  constructor(
+    private readonly llm: LLMClient,
+    options: LLMRerankerOptions = {}
+  ) {
+    this.mode = options.mode || 'listwise';
+    this.scoreScale = this.mode === 'pointwise' ? 'probability' : 'ordinal';
+    this.maxPassageChars = options.maxPassageChars || 1000;
+    this.concurrency = Math.max(1, options.concurrency || 4);
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) return [];
+    return this.mode === 'pointwise' ? this.scorePointwise(query, passages) : this.scoreListwise(query, passages);
+  }
+
+  private async scoreListwise(query: string, passages: string[]): Promise<number[]> {
+    const listing = passages.map((text, i) => `[${i}] ${this.clip(text)}`).join('\n\n');
+    const response = await this.llm.invoke([
+      new SystemMessage(LISTWISE_SYSTEM_PROMPT),
+      new HumanMessage(`Question: ${query}\n\nPassages:\n${listing}\n\nRanking:`),
+    ]);
+
+    const ranking = parseRanking(contentText(response), passages.length);
+    const unranked = passages.map((_text, i) => i).filter((i) => !ranking.includes(i));
+    const order = [...ranking, ...unranked];
+
+    // Linear scores from 1 (first) down towards 0
+    const scores = new Array<number>(passages.length);
+    order.forEach((passageIndex, position) => {
+      scores[passageIndex] = 1 - position / passages.length;
+    });
+    return scores;
+  }
+
+  private async scorePointwise(query: string, passages: string[]): Promise<number[]> {
+    const scores = new Array<number>(passages.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < passages.length) {
+        const i = next++;
+        const response = await this.llm.invoke([
+          new SystemMessage(POINTWISE_SYSTEM_PROMPT),
+          new HumanMessage(`Question: ${query}\n\nPassage: ${this.clip(passages[i]!)}\n\nScore:`),
+        ]);
+        const match = contentText(response).match(/\d+(?:\.\d+)?/);
+        if (!match) {
+          throw new Error(`LLM reranker reply has no score for passage ${i}`);
+        }
+        scores[i] = Math.min(10, parseFloat(match[0])) / 10;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, passages.length) }, worker));
+    return scores;
+  }
+
+  private clip(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > this.maxPassageChars ? `${flat.slice(0, this.maxPassageChars)}…` : flat;
+  }
+}
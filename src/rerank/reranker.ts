@@ -0,0 +1,95 @@
+/**
+ * Reranker Abstraction
+ *
+ * Optional second stage between retrieval and prompt building: retrieval
+ * over-fetches RERANK_CANDIDATES passages, a reranker scores each one against
+ * the query, and the top-k by rerank score go to the LLM.
+ *
+ * Implementations (selected by RERANKER, see createReranker):
+ * - LLMReranker: asks the chat model to rank (listwise) or score (pointwise) passages
+ * - HttpReranker: remote cross-encoder behind a Cohere/Jina-style /rerank endpoint
+ * - LexicalReranker: query-term overlap, no network (offline, CI)
+ *
+ * A reranker failure never fails the request: the retrieval order is kept
+ * and the error is logged.
+ */
+
+import { logger, type Logger } from '../utils/logger.js';
+import { rerankDurationHistogram } from '../metrics/metrics.js';
+import type { RetrievedPassage } from '../rag/retriever.js';
+
+/**
+ * What a reranker's scores mean, for answer confidence (see rag/confidence.ts):
+ * - probability: relevance from 0 to 1
+ * - logit: unbounded relevance logits (a sigmoid maps them to 0-1)
+ * - ordinal: only the order is meaningful (not used for confidence)
+ */
+export type RerankScoreScale = 'probability' | 'logit' | 'ordinal';
+
+export interface Reranker {
+  /** Reranker name for logs and metric labels, e.g. 'lexical' */
+  readonly name: string;
+  readonly scoreScale: RerankScoreScale;
+  /**
+   * Relevance score per passage, in input order (higher is more relevant).
+   * Scales differ between rerankers; only the order matters.
+   */
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+/**
+ * Reranks passages and keeps the top k. Each returned passage carries the
+ * first-stage score as `vectorScore` and the reranker's as `rerankScore`;
+ * `score` is the rerank score so downstream ordering stays consistent.
+ */
+export async function rerankPassages(
+  reranker: Reranker,
+  query: string,
+  passages: RetrievedPassage[],
+  topK: number,
+  reqLogger?: Logger
+): Promise<RetrievedPassage[]> {
+  const log = reqLogger || logger;
+  if (passages.length === 0) {
+    return passages;
+  }
+
+  const endTimer = rerankDurationHistogram.startTimer({ reranker: reranker.name });
+  try {
+    const scores = await reranker.score(
+      query,
+      passages.map((p) => p.text)
+    );
+    if (scores.length !== passages.length || scores.some((s) => typeof s !== 'number' || Number.isNaN(s))) {
+      throw new Error(`Reranker returned ${scores.length} scores for ${passages.length} passages`);
+    }
+
+    const reranked = passages
+      .map((passage, i) => ({
+        ...passage,
+        score: scores[i]!,
+        vectorScore: passage.score,
+        rerankScore: scores[i]!,
+        rank: i,
+      }))
+      // Ties keep the retrieval order
+      .sort((a, b) => b.rerankScore - a.rerankScore || a.rank - b.rank)
+      .slice(0, topK)
+      .map(({ rank: _rank, ...passage }) => passage);
+
+    log.info('Passages reranked', {
+      reranker: reranker.name,
+      candidates: passages.length,
+      kept: reranked.length,
+    });
+    return reranked;
+  } catch (error) {
+    log.warn('Rerank failed - keeping retrieval order', {
+      reranker: reranker.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return passages.slice(0, topK);
+  } finally {
+    endTimer();
+  }
+}
@@ -5,6 +5,7 @@
  * - Tenant management
  * - Usage analytics
  * - System health
+ * - Prompt template reload
  * 
  * Protected by admin API key (RAG_ADMIN_KEY env var)
  */
@@ -17,6 +18,7 @@ import {
   getTodayUsage,
   exportUsageRecords,
 } from '../services/usageTracker.js';
+import { PromptTemplateError, reloadPromptRegistry } from '../utils/promptLoader.js';
 
 const router = Router();
 
@@ -175,6 +177,31 @@ router.post('/tenants', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * POST /admin/prompts/reload
+ * Re-read the prompt templates from PROMPTS_DIR
+ *
+ * An invalid template file is reported and the templates loaded before stay in use.
+ */
+router.post('/prompts/reload', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const registry = reloadPromptRegistry();
+    res.json({
+      success: true,
+      templates: registry.list().map((t) => t.id),
+    });
+  } catch (error) {
+    if (error instanceof PromptTemplateError) {
+      logger.warn('Prompt template reload failed', { error: error.message });
+      return res.status(400).json({
+        error: 'Invalid prompt template',
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+});
+
 /**
  * GET /admin/config
  * Get current service configuration (sanitized)
@@ -186,6 +213,9 @@ router.get('/config', (req: Request, res: Response) => {
     cacheEnabled: !!process.env.REDIS_URL || true,
     cacheTtl: parseInt(process.env.CACHE_TTL_SECONDS || '300'),
     maxContextLength: parseInt(process.env.MAX_CONTEXT_LENGTH || '8000'),
+    llmBackend: process.env.LLM_BACKEND || 'openai',
+    retrievalMode: process.env.RETRIEVAL_MODE || 'dense',
+    reranker: process.env.RERANKER || 'none',
     openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
     pineconeIndex: process.env.PINECONE_INDEX_NAME || '(not set)',
     features: {
@@ -0,0 +1,173 @@
+/**
+ * Document Management Routes
+ *
+ * Per-document operations within the caller's tenant namespace, keyed by the
+ * `source` given at ingestion (URL-encode sources containing "/"):
+ * - GET    /documents            list documents (optional ?prefix=)
+ * - GET    /documents/:source    document metadata and chunks
+ * - PUT    /documents/:source    replace (or create) the document from text
+ * - DELETE /documents/:source    delete the document
+ *
+ * Protected by the tenant API key (apiKeyAuth)
+ */
+
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { logger } from '../utils/logger.js';
+import { apiKeyAuth, getTenantNamespace, getTenantChunkingStrategy } from '../middleware/apiKeyAuth.js';
+import { conflictError, notFoundError, validationError } from '../middleware/errorHandler.js';
+import { ingestText } from '../rag/ingest.js';
+import { deleteDocument, getDocument, listDocuments } from '../rag/documents.js';
+import { sanitizeMetadata, MetadataValidationError } from '../rag/metadata.js';
+import { resolveChunking, ChunkingValidationError } from '../rag/chunking.js';
+
+const router = Router();
+
+router.use(apiKeyAuth({ required: true }));
+
+/**
+ * GET /documents
+ * Documents in the namespace with chunk counts, ingestion times and metadata
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const log = (req as any).log || logger;
+    const namespace = getTenantNamespace(req);
+    const prefix = typeof req.query.prefix === 'string' ? req.query.prefix : undefined;
+
+    const documents = await listDocuments(namespace, { ...(prefix && { prefix }) }, log);
+
+    res.json({
+      requestId: req.requestId,
+      data: {
+        namespace: namespace || '(default)',
+        total: documents.length,
+        documents,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /documents/:source
+ * A single document with its chunks in order
+ */
+router.get('/:source', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const log = (req as any).log || logger;
+    const source = String(req.params.source);
+
+    const document = await getDocument(source, getTenantNamespace(req), log);
+    if (!document) {
+      throw notFoundError(`Document ${source} not found`);
+    }
+
+    res.json({
+      requestId: req.requestId,
+      data: document,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /documents/:source
+ * Body: { text, metadata?, chunking? }. Re-ingests the document under the
+ * same chunk IDs, so the previous version stays readable until the new chunks
+ * are written. Creating a document whose text is already stored under another
+ * source stores nothing and fails with 409 naming `duplicateOf`.
+ */
+router.put('/:source', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const log = (req as any).log || logger;
+    const source = String(req.params.source);
+    const namespace = getTenantNamespace(req);
+
+    if (!req.body?.text || typeof req.body.text !== 'string') {
+      throw validationError('Request body must contain a "text" field of type string', { path: 'text' });
+    }
+
+    let metadata;
+    let chunking;
+    try {
+      metadata = sanitizeMetadata(req.body.metadata);
+      chunking = resolveChunking(req.body.chunking, { defaultStrategy: getTenantChunkingStrategy(req) });
+    } catch (err) {
+      if (err instanceof MetadataValidationError || err instanceof ChunkingValidationError) {
+        throw validationError(err.message, { path: err.path });
+      }
+      throw err;
+    }
+
+    log.info('Processing document replace request', {
+      requestId: req.requestId,
+      tenantId: req.tenant?.id,
+      namespace,
+      source,
+      textLength: req.body.text.length,
+    });
+
+    const result = await ingestText(req.body.text, source, namespace, metadata, req.requestId, log, chunking);
+
+    if (!result.success) {
+      return res.status(500).json({
+        requestId: req.requestId,
+        success: false,
+        error: result.error,
+      });
+    }
+
+    if (result.status === 'duplicate') {
+      throw conflictError(`Document ${source} was not stored: its text is already stored as ${result.duplicateOf}`, {
+        duplicateOf: result.duplicateOf,
+      });
+    }
+
+    res.json({
+      requestId: req.requestId,
+      success: true,
+      data: {
+        source,
+        namespace: namespace || '(default)',
+        status: result.status,
+        chunksProcessed: result.chunksProcessed,
+        chunksDeleted: result.chunksDeleted ?? 0,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /documents/:source
+ * Removes every chunk of the document (404 when it does not exist)
+ */
+router.delete('/:source', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const log = (req as any).log || logger;
+    const source = String(req.params.source);
+    const namespace = getTenantNamespace(req);
+
+    const chunksDeleted = await deleteDocument(source, namespace, log);
+    if (chunksDeleted === 0) {
+      throw notFoundError(`Document ${source} not found`);
+    }
+
+    res.json({
+      requestId: req.requestId,
+      success: true,
+      data: {
+        source,
+        namespace: namespace || '(default)',
+        chunksDeleted,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as documentsRouter };
@@ -0,0 +1,117 @@
+/**
+ * Conversation Session Routes
+ *
+ * Sessions hold the turns of a multi-turn conversation. Questions are asked
+ * with POST /query and `sessionId` in the body, which rewrites follow-ups
+ * into standalone queries, puts earlier turns in the prompt and appends the
+ * question and answer to the session:
+ * - POST   /sessions        create a session
+ * - GET    /sessions/:id    session with its turns
+ * - DELETE /sessions/:id    delete the session
+ *
+ * Sessions belong to the tenant that created them; other tenants get 404.
+ * Protected by the tenant API key (apiKeyAuth)
+ */
+
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { logger } from '../utils/logger.js';
+import { apiKeyAuth, getTenantNamespace } from '../middleware/apiKeyAuth.js';
+import { notFoundError } from '../middleware/errorHandler.js';
+import { getSessionStore, SESSION_TTL_SECONDS, type Session } from '../sessions/sessionStore.js';
+
+const router = Router();
+
+router.use(apiKeyAuth({ required: true }));
+
+/**
+ * Loads a session of the calling tenant; throws 404 for unknown, expired and
+ * other tenants' sessions alike
+ */
+export async function getTenantSession(req: Request, id: string): Promise<Session> {
+  const session = await getSessionStore().get(id);
+  if (!session || session.tenantId !== req.tenant?.id) {
+    throw notFoundError(`Session ${id} not found`);
+  }
+  return session;
+}
+
+function toPublicSession(session: Session) {
+  return {
+    ...session,
+    namespace: session.namespace || '(default)',
+    expiresAt: new Date(Date.parse(session.updatedAt) + SESSION_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * POST /sessions
+ * Starts an empty conversation in the caller's namespace
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const log = (req as any).log || logger;
+    const namespace = getTenantNamespace(req);
+
+    const session = await getSessionStore().create(req.tenant!.id, namespace || undefined);
+
+    log.info('Session created', {
+      requestId: req.requestId,
+      tenantId: req.tenant?.id,
+      sessionId: session.id,
+    });
+
+    res.status(201).json({
+      requestId: req.requestId,
+      data: toPublicSession(session),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /sessions/:id
+ * The session with its turns, oldest first
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = await getTenantSession(req, String(req.params.id));
+
+    res.json({
+      requestId: req.requestId,
+      data: toPublicSession(session),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /sessions/:id
+ * Ends the conversation and removes its history
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const log = (req as any).log || logger;
+    const session = await getTenantSession(req, String(req.params.id));
+
+    await getSessionStore().delete(session.id);
+
+    log.info('Session deleted', {
+      requestId: req.requestId,
+      tenantId: req.tenant?.id,
+      sessionId: session.id,
+      turns: session.turns.length,
+    });
+
+    res.json({
+      requestId: req.requestId,
+      success: true,
+      data: { id: session.id, turnsDeleted: session.turns.length },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as sessionsRouter };
@@ -16,8 +16,10 @@ async function main() {
 
   const question = 'Under GDPR, how long does the controller have to notify authorities?';
 
-  const { systemPrompt, userPrompt } = await renderRagPrompts(contexts, question);
+  // Optional template to render, e.g. rag_concise@1 (default: the latest rag_grounded)
+  const { systemPrompt, userPrompt, template } = await renderRagPrompts(contexts, question, { template: process.argv[2] });
 
+  console.log(`Template: ${template.name}@${template.version}\n`);
   console.log('----- SYSTEM PROMPT -----\n');
   console.log(systemPrompt);
   console.log('\n----- USER PROMPT -----\n');
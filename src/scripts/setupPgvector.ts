@@ -0,0 +1,72 @@
+#!/usr/bin/env ts-node-dev
+/**
+ * Script to create the pgvector extension, table and indexes for RAG service
+ *
+ * Usage:
+ *   npm run setup-pgvector
+ *
+ * Or directly:
+ *   ts-node-dev src/scripts/setupPgvector.ts
+ *
+ * Safe to re-run: every statement is IF NOT EXISTS.
+ */
+
+import { loadConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { PgVectorStore } from '../vector/pgvectorStore.js';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+async function setupPgvector() {
+  const config = loadConfig();
+  const table = config.pgvectorTable;
+  const dimension = config.pgvectorDimension;
+
+  if (!config.pgvectorUrl) {
+    console.error('\n❌ Error: PGVECTOR_URL (or DATABASE_URL) is not set');
+    process.exit(1);
+  }
+
+  const store = new PgVectorStore({
+    connectionString: config.pgvectorUrl,
+    table,
+    dimension,
+    autoMigrate: false,
+  });
+
+  try {
+    logger.info('Starting pgvector setup', { table, dimension });
+
+    await store.migrate();
+    const stats = await store.describeIndexStats();
+
+    logger.info('Table statistics', {
+      table,
+      totalVectors: stats.totalRecordCount,
+      namespaces: Object.keys(stats.namespaces).length,
+    });
+
+    console.log(`\n✅ Table '${table}' is ready to use!`);
+    console.log(`   Dimensions: ${dimension}`);
+    console.log(`   Metric: cosine (HNSW)`);
+    console.log(`   Total vectors: ${stats.totalRecordCount}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('pgvector setup failed', { error: errorMessage, table });
+
+    console.error(`\n❌ Error: ${errorMessage}`);
+
+    if (errorMessage.includes('extension "vector"')) {
+      console.log(`\nℹ️  The pgvector extension is not installed on this server (try the pgvector/pgvector image)`);
+    } else if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('password')) {
+      console.log(`\nℹ️  Please check your PGVECTOR_URL in .env file`);
+    }
+
+    process.exitCode = 1;
+  } finally {
+    await store.close();
+  }
+}
+
+setupPgvector();
@@ -11,7 +11,7 @@
  * This implementation stores in-memory and logs for demo purposes.
  */
 
-import { logger } from '../utils/logger.js';
+import { logger, type Logger } from '../utils/logger.js';
 
 export interface UsageRecord {
   tenantId: string;
@@ -72,7 +72,7 @@ const MAX_RECORDS = 10000; // Keep last 10K records in memory
 /**
  * Record a usage event
  */
-export function trackUsage(record: UsageRecord, reqLogger?: any): void {
+export function trackUsage(record: UsageRecord, reqLogger?: Logger): void {
   // Calculate cost
   let costMillicents = 0;
   
@@ -0,0 +1,166 @@
+/**
+ * Conversation helpers for session queries
+ *
+ * - selectHistory: the most recent turns that fit in a token budget
+ * - formatHistory: turns as `User:` / `Assistant:` lines for a prompt
+ * - rewriteFollowUp: turns a follow-up ("what about the landlord's
+ *   obligations?") into a standalone question for retrieval, with the chat
+ *   model (QUERY_REWRITE=llm) or by adding the key terms of the previous
+ *   question (QUERY_REWRITE=heuristic, and the fallback when the model fails)
+ */
+
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { logger, type Logger } from '../utils/logger.js';
+import { getTokenCounter } from '../utils/tokenCounter.js';
+import { tokenizeForHashing } from '../embeddings/hashingProvider.js';
+import type { LLMClient } from '../utils/factory.js';
+import type { QueryRewriteMode } from '../utils/config.js';
+import type { SessionTurn } from './sessionStore.js';
+
+export interface RewriteResult {
+  /** Query to retrieve with (the question itself when nothing was rewritten) */
+  query: string;
+  /** How the query was produced */
+  method: 'none' | 'llm' | 'heuristic';
+}
+
+/** Token budget for prior turns in the answer and rewrite prompts */
+export const SESSION_HISTORY_MAX_TOKENS = parseInt(process.env.SESSION_HISTORY_MAX_TOKENS || '1000', 10);
+
+/** Previous-question terms added by the heuristic rewrite */
+const MAX_HEURISTIC_TERMS = 12;
+
+const REWRITE_SYSTEM_PROMPT =
+  'You rewrite the follow-up question of a conversation into a standalone question that can be understood ' +
+  'without the conversation. Resolve pronouns and references using the conversation. If the follow-up is ' +
+  'already standalone, repeat it unchanged. Reply with the standalone question only.';
+
+const FOLLOW_UP_LABEL = 'Follow-up question:';
+const STANDALONE_LABEL = 'Standalone question:';
+
+/**
+ * The latest turns whose combined token count stays within maxTokens, oldest
+ * first. A turn that does not fit ends the selection, so the history never
+ * has gaps.
+ */
+export async function selectHistory(turns: SessionTurn[], maxTokens: number = SESSION_HISTORY_MAX_TOKENS): Promise<SessionTurn[]> {
+  const count = await getTokenCounter();
+  const selected: SessionTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = count(formatTurn(turns[i]!));
+    if (used + tokens > maxTokens) break;
+    used += tokens;
+    selected.unshift(turns[i]!);
+  }
+
+  return selected;
+}
+
+/**
+ * One line per turn. Citation markers are removed from answers: they point at
+ * passages of an earlier request, not the ones in the current prompt.
+ */
+function formatTurn(turn: SessionTurn, useStandalone = false): string {
+  const text = turn.role === 'user' && useStandalone ? turn.standaloneQuery || turn.content : turn.content;
+  const flat = text.replace(/\s*\[p\d+\]/g, '').replace(/\s+/g, ' ').trim();
+  return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${flat}`;
+}
+
+/**
+ * Turns as prompt lines; with useStandalone, user turns show their rewritten
+ * query so references resolved earlier stay resolved
+ */
+export function formatHistory(turns: SessionTurn[], useStandalone = false): string {
+  return turns.map((turn) => formatTurn(turn, useStandalone)).join('\n');
+}
+
+/**
+ * Rewrite prompt for the chat model; the reply is the standalone question
+ */
+export function buildRewritePrompt(question: string, history: SessionTurn[]): string {
+  return `Conversation:\n${formatHistory(history, true)}\n\n${FOLLOW_UP_LABEL} ${question.trim()}\n\n${STANDALONE_LABEL}`;
+}
+
+/**
+ * Adds the terms of the previous question that the follow-up lacks, e.g.
+ * "what about the landlord's obligations? (tenant repair lease)"
+ */
+export function heuristicRewrite(question: string, previousQuestion?: string): string {
+  if (!previousQuestion) return question;
+
+  const own = new Set(tokenizeForHashing(question));
+  const added = Array.from(new Set(tokenizeForHashing(previousQuestion)))
+    .filter((term) => !own.has(term))
+    .slice(0, MAX_HEURISTIC_TERMS);
+
+  return added.length > 0 ? `${question.trim()} (${added.join(' ')})` : question;
+}
+
+function replyText(response: any): string {
+  const content = response?.content ?? response;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((part: any) => (typeof part === 'string' ? part : part?.text || '')).join('');
+  }
+  return String(content ?? '');
+}
+
+/** First line of the reply without a repeated label or quotes; empty when unusable */
+function cleanRewrite(reply: string, question: string): string {
+  const line = reply
+    .trim()
+    .split('\n')[0]!
+    .replace(new RegExp(`^${STANDALONE_LABEL}\\s*`, 'i'), '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .trim();
+  // A reply much longer than the question is an answer, not a rewrite
+  return line.length <= question.length * 4 + 200 ? line : '';
+}
+
+/**
+ * Rewrites a follow-up into a standalone query. Questions without prior turns
+ * are returned as they are.
+ */
+export async function rewriteFollowUp(
+  question: string,
+  turns: SessionTurn[],
+  options: { mode?: QueryRewriteMode; llm?: LLMClient; maxHistoryTokens?: number },
+  reqLogger?: Logger
+): Promise<RewriteResult> {
+  const log = reqLogger || logger;
+  const mode = options.mode || 'llm';
+  const history = await selectHistory(turns, options.maxHistoryTokens);
+  const previousQuestion = [...history].reverse().find((turn) => turn.role === 'user');
+
+  if (mode === 'off' || !previousQuestion) {
+    return { query: question, method: 'none' };
+  }
+
+  const heuristic = (): RewriteResult => ({
+    query: heuristicRewrite(question, previousQuestion.standaloneQuery || previousQuestion.content),
+    method: 'heuristic',
+  });
+
+  if (mode === 'heuristic' || !options.llm) {
+    return heuristic();
+  }
+
+  try {
+    const response = await options.llm.invoke([
+      new SystemMessage(REWRITE_SYSTEM_PROMPT),
+      new HumanMessage(buildRewritePrompt(question, history)),
+    ]);
+    const query = cleanRewrite(replyText(response), question);
+    if (query) {
+      return { query, method: 'llm' };
+    }
+    log.warn('Query rewrite reply unusable, using heuristic rewrite', { reply: replyText(response).slice(0, 100) });
+  } catch (err) {
+    log.warn('Query rewrite failed, using heuristic rewrite', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+  return heuristic();
+}
@@ -0,0 +1,236 @@
+/**
+ * Conversation Session Store
+ *
+ * Holds the turns of multi-turn conversations (see routes/sessions.ts and
+ * POST /query with `sessionId`) so follow-up questions can be answered in
+ * context:
+ * - RedisSessionStore: sessions are shared between instances; used when REDIS_URL is set
+ * - InMemorySessionStore: process-local fallback (sessions are lost on restart)
+ *
+ * Sessions expire SESSION_TTL_SECONDS after their last turn, and only the
+ * latest SESSION_MAX_TURNS turns are kept.
+ */
+
+import { randomUUID } from 'crypto';
+import { Redis, type RedisOptions } from 'ioredis';
+import { logger } from '../utils/logger.js';
+
+export type SessionTurnRole = 'user' | 'assistant';
+
+export interface SessionTurn {
+  role: SessionTurnRole;
+  content: string;
+  createdAt: string;
+  /** User turns: the question as rewritten for retrieval, when it differs */
+  standaloneQuery?: string;
+  /** Assistant turns: sources of the cited passages */
+  sources?: string[];
+}
+
+export interface Session {
+  id: string;
+  /** Owning tenant; other tenants cannot read or use the session */
+  tenantId: string;
+  /** Tenant namespace at creation time; undefined for the default namespace */
+  namespace?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Oldest first */
+  turns: SessionTurn[];
+}
+
+export interface SessionStore {
+  readonly backend: string;
+
+  create(tenantId: string, namespace?: string): Promise<Session>;
+
+  get(id: string): Promise<Session | null>;
+
+  /** Appends turns and refreshes the TTL; null when the session does not exist (or expired) */
+  appendTurns(id: string, turns: SessionTurn[]): Promise<Session | null>;
+
+  /** False when the session did not exist */
+  delete(id: string): Promise<boolean>;
+
+  close?(): Promise<void>;
+}
+
+/** Idle time after which a session expires */
+export const SESSION_TTL_SECONDS = parseInt(process.env.SESSION_TTL_SECONDS || '3600', 10);
+
+/** Turns kept per session; older turns are dropped */
+const SESSION_MAX_TURNS = parseInt(process.env.SESSION_MAX_TURNS || '50', 10);
+
+function newSession(tenantId: string, namespace?: string): Session {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    tenantId,
+    ...(namespace && { namespace }),
+    createdAt: now,
+    updatedAt: now,
+    turns: [],
+  };
+}
+
+/**
+ * Redis-backed session store
+ * Session fields are a JSON string at `session:<id>` and the turns a list at
+ * `session:<id>:turns`, so appending is a single atomic transaction
+ */
+export class RedisSessionStore implements SessionStore {
+  readonly backend = 'redis';
+
+  private client: Redis;
+
+  constructor(redisUrl: string) {
+    const options: RedisOptions = {
+      maxRetriesPerRequest: 3,
+      retryStrategy: (times: number) => Math.min(times * 50, 2000),
+      lazyConnect: true,
+    };
+
+    this.client = new Redis(redisUrl, options);
+
+    this.client.on('error', (err: Error) => {
+      logger.error('Redis session store error', { error: err.message });
+    });
+
+    this.client.connect().catch((err: Error) => {
+      logger.error('Redis session store connection failed', { error: err.message });
+    });
+  }
+
+  private key(id: string): string {
+    return `session:${id}`;
+  }
+
+  private turnsKey(id: string): string {
+    return `session:${id}:turns`;
+  }
+
+  async create(tenantId: string, namespace?: string): Promise<Session> {
+    const session = newSession(tenantId, namespace);
+    const { turns: _turns, ...fields } = session;
+    await this.client.set(this.key(session.id), JSON.stringify(fields), 'EX', SESSION_TTL_SECONDS);
+    return session;
+  }
+
+  async get(id: string): Promise<Session | null> {
+    const [fields, turns] = await Promise.all([
+      this.client.get(this.key(id)),
+      this.client.lrange(this.turnsKey(id), 0, -1),
+    ]);
+    if (!fields) return null;
+    return { ...(JSON.parse(fields) as Omit<Session, 'turns'>), turns: turns.map((t) => JSON.parse(t) as SessionTurn) };
+  }
+
+  async appendTurns(id: string, turns: SessionTurn[]): Promise<Session | null> {
+    const fields = await this.client.get(this.key(id));
+    if (!fields) return null;
+
+    const updated = { ...(JSON.parse(fields) as Omit<Session, 'turns'>), updatedAt: new Date().toISOString() };
+    const tx = this.client.multi();
+    tx.set(this.key(id), JSON.stringify(updated), 'EX', SESSION_TTL_SECONDS);
+    if (turns.length > 0) {
+      tx.rpush(this.turnsKey(id), ...turns.map((t) => JSON.stringify(t)));
+      tx.ltrim(this.turnsKey(id), -SESSION_MAX_TURNS, -1);
+    }
+    tx.expire(this.turnsKey(id), SESSION_TTL_SECONDS);
+    tx.lrange(this.turnsKey(id), 0, -1);
+    const results = await tx.exec();
+
+    const allTurns = (results?.at(-1)?.[1] as string[] | undefined) ?? [];
+    return { ...updated, turns: allTurns.map((t) => JSON.parse(t) as SessionTurn) };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.client.del(this.key(id), this.turnsKey(id));
+    return deleted > 0;
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+/**
+ * In-memory session store
+ * Single-instance only; sessions are lost on restart
+ */
+export class InMemorySessionStore implements SessionStore {
+  readonly backend = 'memory';
+
+  private sessions = new Map<string, { json: string; expiresAt: number }>();
+
+  private put(session: Session): void {
+    this.sessions.set(session.id, {
+      json: JSON.stringify(session),
+      expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+    });
+
+    // Cleanup expired sessions periodically (every 100 writes)
+    if (this.sessions.size % 100 === 0) {
+      const now = Date.now();
+      for (const [id, entry] of this.sessions.entries()) {
+        if (now > entry.expiresAt) {
+          this.sessions.delete(id);
+        }
+      }
+    }
+  }
+
+  async create(tenantId: string, namespace?: string): Promise<Session> {
+    const session = newSession(tenantId, namespace);
+    this.put(session);
+    return session;
+  }
+
+  async get(id: string): Promise<Session | null> {
+    const entry = this.sessions.get(id);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt) {
+      this.sessions.delete(id);
+      return null;
+    }
+    return JSON.parse(entry.json) as Session;
+  }
+
+  async appendTurns(id: string, turns: SessionTurn[]): Promise<Session | null> {
+    const session = await this.get(id);
+    if (!session) return null;
+
+    session.turns = [...session.turns, ...turns].slice(-SESSION_MAX_TURNS);
+    session.updatedAt = new Date().toISOString();
+    this.put(session);
+    return session;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+}
+
+/**
+ * Session store factory
+ * Returns RedisSessionStore if REDIS_URL is configured, otherwise InMemorySessionStore
+ */
+let sessionStoreInstance: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (sessionStoreInstance) {
+    return sessionStoreInstance;
+  }
+
+  const redisUrl = process.env.REDIS_URL;
+
+  if (redisUrl) {
+    logger.info('Initializing Redis session store', { redisUrl: '***' });
+    sessionStoreInstance = new RedisSessionStore(redisUrl);
+  } else {
+    logger.info('Initializing in-memory session store (Redis not configured)');
+    sessionStoreInstance = new InMemorySessionStore();
+  }
+
+  return sessionStoreInstance;
+}
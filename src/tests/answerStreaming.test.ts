@@ -0,0 +1,114 @@
+import { jest } from '@jest/globals';
+import express, { type NextFunction, type Request, type Response } from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => ({
+    openaiApiKey: '',
+    pineconeApiKey: '',
+    pineconeIndexName: 'rag-index',
+    llmBackend: 'mock',
+    llmModel: 'mock-extractive',
+  }),
+}));
+
+const { generateAnswer } = await import('../llm/answer.js');
+const { openSseStream } = await import('../utils/sse.js');
+const { AppError, errorHandler } = await import('../middleware/errorHandler.js');
+
+const contexts = [{ text: 'Pets are not allowed without written consent.', score: 0.9, metadata: {} }];
+
+/** Asks about pets with the configured mock backend, or `llm` when given */
+const ask = (llm: unknown, stream: { onToken(token: string): void; onRestart(): void }) =>
+  generateAnswer('Are pets allowed?', contexts, undefined, 'test-model', 'req-1', undefined, undefined, undefined, llm, stream);
+
+function collector() {
+  const events: string[] = [];
+  return {
+    events,
+    handlers: {
+      onToken: (token: string) => void events.push(token),
+      onRestart: () => void events.push('<restart>'),
+    },
+  };
+}
+
+describe('generateAnswer streaming', () => {
+  test('forwards the model tokens as they are generated', async () => {
+    const { events, handlers } = collector();
+    const result = await ask(undefined, handlers);
+
+    expect(events.length).toBeGreaterThan(5);
+    expect(events.join('')).toBe(result.answer);
+  });
+
+  test('delivers the answer in one piece when the model does not stream', async () => {
+    const { events, handlers } = collector();
+    const llm = { invoke: async () => ({ content: 'No pets [p0]' }) };
+
+    await ask(llm, handlers);
+
+    expect(events).toEqual(['No pets [p0]']);
+  });
+
+  test('signals a restart when a provider fails mid-answer', async () => {
+    const { events, handlers } = collector();
+    const llm = {
+      invoke: async (_messages: unknown, options?: any) => {
+        options?.callbacks?.[0]?.handleLLMNewToken('Pets ');
+        throw new Error('connection reset');
+      },
+    };
+
+    const error = await ask(llm, handlers).catch((err) => err);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(events).toEqual(['Pets ', '<restart>']);
+  });
+});
+
+describe('SSE responses', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.get('/stream', (_req: Request, res: Response, next: NextFunction) => {
+      const sse = openSseStream(res);
+      sse.send('retrieval', { results: [] });
+      next(new AppError('All LLM providers failed', 503, 'LLM_UNAVAILABLE'));
+    });
+    app.use(errorHandler);
+    server = await new Promise((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  test('errors after the stream started become a final error event', async () => {
+    const response = await fetch(`${baseUrl}/stream`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toMatch(/^text\/event-stream/);
+    const events = (await response.text())
+      .trim()
+      .split('\n\n')
+      .map((event) => {
+        const [name, data] = event.split('\n');
+        return { event: name!.replace('event: ', ''), data: JSON.parse(data!.replace('data: ', '')) };
+      });
+
+    expect(events).toEqual([
+      { event: 'retrieval', data: { results: [] } },
+      {
+        event: 'error',
+        data: { status: 503, requestId: 'unknown', error: { message: 'All LLM providers failed', code: 'LLM_UNAVAILABLE' } },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,233 @@
+import { jest } from '@jest/globals';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+process.env.RAG_TENANT_ACME = 'Acme:acme:sk_rag_acme:sentences';
+process.env.RAG_TENANT_TYPO = 'Typo:typo:sk_rag_typo:sentence';
+
+const { chunkWith, resolveChunking, ChunkingValidationError, DEFAULT_CHUNKING } = await import('../rag/chunking.js');
+const { getTokenCounter } = await import('../utils/tokenCounter.js');
+const { apiKeyAuth, getTenantChunkingStrategy } = await import('../middleware/apiKeyAuth.js');
+const { ingestText } = await import('../rag/ingest.js');
+const { getDocument } = await import('../rag/documents.js');
+const { createVectorClient, createEmbeddingProvider } = await import('../utils/factory.js');
+const { embeddingTextsCounter } = await import('../metrics/metrics.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+
+const lease = [
+  '# Lease',
+  '',
+  'This lease is made between the Landlord and the Tenant.',
+  '',
+  '## Tenant Obligations',
+  '',
+  '### Repairs',
+  '',
+  'The Tenant must keep the interior in good repair. ' + 'Damage beyond fair wear and tear is charged. '.repeat(4),
+  '',
+  '| Item | Responsibility |',
+  '|------|----------------|',
+  '| Boiler | Landlord |',
+  '| Light bulbs | Tenant |',
+  '',
+  '### Rent',
+  '',
+  'Rent is due on the first day of each month.',
+  '',
+  '```',
+  'late_fee = rent * 0.05',
+  '```',
+  '',
+  '## Termination',
+  '',
+  'Either party may terminate with two months notice.',
+].join('\n');
+
+const markdown = (chunkSize: number) => resolveChunking({ strategy: 'markdown', chunkSize });
+
+describe('markdown chunking', () => {
+  test('splits on headings and records the heading path', async () => {
+    const chunks = await chunkWith(lease, markdown(1000));
+
+    expect(chunks.map((c) => c.metadata?.headingPath)).toEqual([
+      'Lease',
+      'Lease > Tenant Obligations > Repairs',
+      'Lease > Tenant Obligations > Rent',
+      'Lease > Termination',
+    ]);
+    // A heading without text of its own stays with the next section
+    expect(chunks[1]!.text.startsWith('## Tenant Obligations\n\n### Repairs\n\nThe Tenant must')).toBe(true);
+    expect(chunks[2]!.text).toContain('```\nlate_fee = rent * 0.05\n```');
+  });
+
+  test('keeps tables and code blocks whole when they exceed the chunk size', async () => {
+    const rows = Array.from({ length: 12 }, (_v, i) => `| Clause ${i} | ${'obligation '.repeat(3)}|`);
+    const table = ['| Clause | Text |', '|---|---|', ...rows].join('\n');
+    const code = ['```ts', ...Array.from({ length: 15 }, (_v, i) => `const rule${i} = applyClause(${i});`), '```'].join('\n');
+
+    const chunks = await chunkWith(`## Schedule\n\nIntro.\n\n${table}\n\n${code}\n\nClosing words.`, markdown(200));
+
+    expect(chunks.map((c) => c.text)).toContain(table);
+    expect(chunks.map((c) => c.text)).toContain(code);
+    expect(chunks.every((c) => c.metadata?.headingPath === 'Schedule')).toBe(true);
+  });
+
+  test('splits only paragraphs longer than the chunk size', async () => {
+    const paragraph = 'The deposit is held in a protected scheme. '.repeat(12);
+    const chunks = await chunkWith(`# Deposit\n\n${paragraph}`, markdown(200));
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every((c) => c.text.length <= 200)).toBe(true);
+  });
+
+  test('text before the first heading has no heading path', async () => {
+    const [preamble] = await chunkWith('Draft v2\n\n# Lease\n\nTerms.', markdown(500));
+    expect(preamble).toEqual({ text: 'Draft v2', metadata: {} });
+  });
+});
+
+describe('token, sentence and semantic chunking', () => {
+  const rent = [
+    'Rent is paid monthly by bank transfer.',
+    'Late rent payments incur a monthly fee.',
+    'The rent transfer reference is the flat number.',
+    'Rent receipts are sent after each bank transfer.',
+    'Monthly rent increases are capped at inflation.',
+    'Rent arrears over two monthly payments end the lease.',
+  ];
+  const pets = [
+    'Pets need written permission from the landlord.',
+    'Dogs and cats are allowed as pets with permission.',
+    'Pet damage to carpets is deducted from the deposit.',
+    'Dogs must not be left alone in the flat overnight.',
+    'Cats need a litter tray and pets must be vaccinated.',
+    'Exotic pets such as snakes need landlord permission.',
+  ];
+
+  test('token windows stay within the token budget', async () => {
+    const settings = resolveChunking({ strategy: 'tokens', chunkSize: 30 });
+    expect(settings).toEqual({ strategy: 'tokens', chunkSize: 30, chunkOverlap: 6 });
+    expect(resolveChunking({ strategy: 'tokens' }).chunkSize).toBe(128);
+
+    const count = await getTokenCounter();
+    const chunks = await chunkWith([...rent, ...pets].join(' '), settings);
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks.every((c) => count(c.text) <= 30)).toBe(true);
+  });
+
+  test('sentence windows hold whole sentences and overlap by whole sentences', async () => {
+    const chunks = await chunkWith(rent.join(' '), resolveChunking({ strategy: 'sentences', chunkSize: 100, chunkOverlap: 50 }));
+
+    expect(chunks.map((c) => c.text)).toEqual([
+      `${rent[0]} ${rent[1]}`,
+      `${rent[1]} ${rent[2]}`,
+      `${rent[2]} ${rent[3]}`,
+      `${rent[3]} ${rent[4]}`,
+      // Repeating rent[4] would leave no room for rent[5]
+      rent[5],
+    ]);
+  });
+
+  test('semantic chunking breaks where the topic shifts', async () => {
+    const settings = resolveChunking({ strategy: 'semantic', chunkSize: 2000 });
+    expect(settings.chunkOverlap).toBe(0);
+
+    const embeddings = createEmbeddingProvider(config as any);
+    const embedded = async () =>
+      (await embeddingTextsCounter.get()).values.find((v) => v.labels.purpose === 'chunking')?.value ?? 0;
+    const before = await embedded();
+
+    const chunks = await chunkWith([...rent, ...pets].join(' '), settings, { embeddings });
+
+    expect(await embedded()).toBe(before + rent.length + pets.length);
+    await expect(chunkWith(rent.join(' '), settings)).rejects.toThrow(/needs an embedding provider/);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(/rent/i.test(chunk.text) && /pet/i.test(chunk.text)).toBe(false);
+    }
+    expect(chunks.map((c) => c.text).join(' ')).toBe([...rent, ...pets].join(' '));
+  });
+});
+
+describe('tenant default strategy', () => {
+  const authenticate = (apiKey: string) => {
+    const req: any = { headers: { 'x-api-key': apiKey }, query: {}, path: '/ingest/text' };
+    apiKeyAuth({ required: true })(req, {} as any, () => undefined);
+    return req;
+  };
+
+  test('applies when the request names no strategy and can be overridden', () => {
+    const defaultStrategy = getTenantChunkingStrategy(authenticate('sk_rag_acme'));
+    expect(defaultStrategy).toBe('sentences');
+
+    expect(resolveChunking({ chunkSize: 800 }, { defaultStrategy }).strategy).toBe('sentences');
+    expect(resolveChunking({ strategy: 'markdown' }, { defaultStrategy }).strategy).toBe('markdown');
+  });
+
+  test('ignores an unknown configured strategy', () => {
+    expect(getTenantChunkingStrategy(authenticate('sk_rag_typo'))).toBeUndefined();
+  });
+});
+
+describe('resolveChunking', () => {
+  test('fills in the defaults', () => {
+    expect(resolveChunking(undefined)).toEqual(DEFAULT_CHUNKING);
+    expect(resolveChunking({ chunkSize: 1000 })).toEqual({ strategy: 'recursive', chunkSize: 1000, chunkOverlap: 200 });
+  });
+
+  test.each([
+    [{ strategy: 'paragraphs' }, 'chunking.strategy'],
+    [{ strategy: 'tokens', chunkSize: 5000 }, 'chunking.chunkSize'],
+    [{ strategy: 'semantic', chunkOverlap: 50 }, 'chunking.chunkOverlap'],
+    [{ chunkSize: 20 }, 'chunking.chunkSize'],
+    [{ chunkSize: 500, chunkOverlap: 400 }, 'chunking.chunkOverlap'],
+    [{ size: 500 }, 'chunking.size'],
+    ['markdown', 'chunking'],
+  ])('rejects %j', (input, path) => {
+    expect(() => resolveChunking(input)).toThrow(ChunkingValidationError);
+    try {
+      resolveChunking(input);
+    } catch (err) {
+      expect((err as InstanceType<typeof ChunkingValidationError>).path).toBe(path);
+    }
+  });
+});
+
+describe('ingesting with a chunking strategy', () => {
+  const namespace = 'chunking-test';
+
+  afterAll(async () => {
+    await createVectorClient().namespace(namespace).deleteAll();
+    getLexicalStore().clear();
+  });
+
+  test('stores the heading path and re-indexes when the strategy changes', async () => {
+    const first = await ingestText(lease, 'lease.md', namespace, {}, undefined, undefined, { strategy: 'markdown' });
+    expect(first.status).toBe('ingested');
+
+    const [repairs] = await createVectorClient().namespace(namespace).fetch(['lease.md_chunk_1']);
+    expect(repairs?.metadata?.headingPath).toBe('Lease > Tenant Obligations > Repairs');
+
+    const again = await ingestText(lease, 'lease.md', namespace, {}, undefined, undefined, { strategy: 'markdown' });
+    expect(again.status).toBe('skipped');
+
+    const recursive = await ingestText(lease, 'lease.md', namespace);
+    expect(recursive.status).toBe('replaced');
+    const document = (await getDocument('lease.md', namespace))!;
+    expect(document.chunks).toHaveLength(recursive.chunksProcessed);
+    expect(document.metadata).toEqual({});
+  });
+});
@@ -0,0 +1,84 @@
+import { jest } from '@jest/globals';
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => ({
+    openaiApiKey: '',
+    pineconeApiKey: '',
+    pineconeIndexName: 'rag-index',
+  }),
+}));
+
+const { confidenceOptions, passageRelevance, retrievalConfidence, withCitationCoverage } = await import(
+  '../rag/confidence.js'
+);
+const { verifyGrounding } = await import('../llm/grounding.js');
+
+const passage = (score: number, extra: Record<string, unknown> = {}, metadata: Record<string, unknown> = {}) => ({
+  text: 'The Landlord repairs the structure, roof and boiler within 14 days of notice.',
+  score,
+  metadata,
+  ...extra,
+});
+
+const dense = confidenceOptions({ retrievalMode: 'dense' } as any);
+
+describe('passageRelevance', () => {
+  test('maps scores of each retrieval mode to 0-1', () => {
+    expect(passageRelevance(passage(0.05), dense)).toBe(0);
+    expect(passageRelevance(passage(0.35), dense)).toBeCloseTo(0.5);
+    expect(passageRelevance(passage(0.9), dense)).toBe(1);
+    // Reranked passages are judged on their first-stage score
+    expect(passageRelevance(passage(0.99, { vectorScore: 0.35, rerankScore: 0.99 }), dense)).toBeCloseTo(0.5);
+
+    expect(passageRelevance(passage(5), confidenceOptions({} as any, 'sparse'))).toBe(0.5);
+
+    const hybrid = confidenceOptions({} as any, 'hybrid');
+    expect(passageRelevance(passage(0.03, {}, { denseScore: 0.6, bm25Score: 2 }), hybrid)).toBe(1);
+    expect(passageRelevance(passage(0.03, {}, { bm25Score: 5 }), hybrid)).toBe(0.5);
+  });
+});
+
+describe('retrievalConfidence', () => {
+  test('abstains when the evidence is weak, only once a threshold is set', () => {
+    const weak = [passage(0.02), passage(0.01)];
+    const abstaining = confidenceOptions({ retrievalMode: 'dense', confidenceAbstainThreshold: 0.1 } as any);
+
+    expect(retrievalConfidence(weak, dense)).toMatchObject({ score: 0, abstained: false, threshold: 0 });
+    expect(retrievalConfidence([], dense).abstained).toBe(false);
+    expect(retrievalConfidence(weak, abstaining)).toMatchObject({ score: 0, abstained: true, threshold: 0.1 });
+    expect(retrievalConfidence([], abstaining).abstained).toBe(true);
+
+    const strong = retrievalConfidence([passage(0.6), passage(0.1)], dense);
+    expect(strong).toMatchObject({ score: 0.875, signals: { topRelevance: 1, meanRelevance: 0.5 }, abstained: false });
+  });
+
+  test('weighs in rerank scores on the scale of the reranker that produced them', () => {
+    const reranked = [passage(0.9, { vectorScore: 0.6, rerankScore: 0.5 }), passage(0.1, { vectorScore: 0.1, rerankScore: 0.2 })];
+    expect(retrievalConfidence(reranked, { ...dense, rerankScale: 'probability' })).toMatchObject({
+      score: 0.8,
+      signals: { rerank: 0.5 },
+    });
+    // The same scores as logits, and as a listwise ranking that says nothing about relevance
+    expect(retrievalConfidence(reranked, { ...dense, rerankScale: 'logit' }).signals.rerank).toBeCloseTo(0.622, 3);
+    expect(retrievalConfidence(reranked, { ...dense, rerankScale: 'ordinal' }).signals.rerank).toBeUndefined();
+
+    const reranker = { name: 'http', scoreScale: 'logit' as const, score: async () => [] };
+    expect(confidenceOptions({} as any, 'dense', reranker).rerankScale).toBe('logit');
+  });
+});
+
+describe('withCitationCoverage', () => {
+  test('blends in the share of cited, supported answer sentences', async () => {
+    const report = retrievalConfidence([passage(0.6)], dense);
+    const answer = 'The Landlord repairs the boiler [p0]. The Landlord also pays the council tax [p0].';
+
+    expect(withCitationCoverage(report, 'The boiler is repaired [p0]. Rent is due monthly.')).toMatchObject({
+      score: 0.875,
+      signals: { citationCoverage: 0.5 },
+    });
+
+    const grounding = await verifyGrounding(answer, [passage(0.6).text]);
+    expect(withCitationCoverage(report, answer, grounding).signals.citationCoverage).toBe(0.5);
+    expect(withCitationCoverage(report, 'I cannot say.').signals.citationCoverage).toBe(0);
+  });
+});
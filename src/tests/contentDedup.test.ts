@@ -0,0 +1,109 @@
+import { jest } from '@jest/globals';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { ingestText } = await import('../rag/ingest.js');
+const { createVectorClient } = await import('../utils/factory.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+const { hashText } = await import('../rag/contentHash.js');
+
+const namespace = 'dedup-test';
+const index = () => createVectorClient().namespace(namespace);
+
+/** Text long enough for several 500-character chunks */
+function handbook(sections: number): string {
+  return Array.from(
+    { length: sections },
+    (_v, i) => `Section ${i}. ` + `Employees must follow procedure ${i} when handling requests. `.repeat(6)
+  ).join('\n\n');
+}
+
+afterEach(async () => {
+  await index().deleteAll();
+  getLexicalStore().clear();
+});
+
+describe('idempotent re-ingestion', () => {
+  test('skips a document that has not changed', async () => {
+    const first = await ingestText(handbook(4), 'handbook.md', namespace);
+    expect(first).toEqual(expect.objectContaining({ success: true, status: 'ingested', chunksDeleted: 0 }));
+    expect(first.chunksProcessed).toBeGreaterThan(1);
+
+    const second = await ingestText(handbook(4), 'handbook.md', namespace);
+    expect(second).toEqual(
+      expect.objectContaining({ success: true, status: 'skipped', chunksProcessed: 0, chunksDeleted: 0 })
+    );
+  });
+
+  test('replaces the previous chunk set and removes stale chunks', async () => {
+    const first = await ingestText(handbook(6), 'handbook.md', namespace);
+    const second = await ingestText(handbook(2), 'handbook.md', namespace);
+
+    expect(second.status).toBe('replaced');
+    expect(second.chunksDeleted).toBe(first.chunksProcessed - second.chunksProcessed);
+    expect(second.chunksDeleted).toBeGreaterThan(0);
+
+    const ids = Array.from({ length: first.chunksProcessed }, (_v, i) => `handbook.md_chunk_${i}`);
+    const remaining = await index().fetch(ids);
+    expect(remaining.map((record) => record.id).sort()).toEqual(ids.slice(0, second.chunksProcessed).sort());
+
+    const lexical = getLexicalStore().namespace(namespace).search('procedure', 50);
+    expect(new Set(lexical.map((hit) => hit.id))).toEqual(new Set(ids.slice(0, second.chunksProcessed)));
+  });
+
+  test('re-indexes when only the caller metadata changes', async () => {
+    await ingestText(handbook(2), 'handbook.md', namespace, { version: 1 });
+    const result = await ingestText(handbook(2), 'handbook.md', namespace, { version: 2 });
+
+    expect(result.status).toBe('replaced');
+    const [head] = await index().fetch(['handbook.md_chunk_0']);
+    expect(head?.metadata?.version).toBe(2);
+  });
+
+  test('does not store a document identical to one under another source', async () => {
+    await ingestText(handbook(2), 'handbook.md', namespace);
+    const copy = await ingestText(handbook(2), 'handbook-copy.md', namespace);
+
+    expect(copy).toEqual(
+      expect.objectContaining({ success: true, status: 'duplicate', duplicateOf: 'handbook.md', chunksProcessed: 0 })
+    );
+    expect(await index().fetch(['handbook-copy.md_chunk_0'])).toEqual([]);
+  });
+
+  test('replaces the previous version of a source whose new content duplicates another source', async () => {
+    await ingestText(handbook(2), 'handbook.md', namespace);
+    await ingestText('The canteen opens at noon.', 'canteen.md', namespace);
+    const result = await ingestText(handbook(2), 'canteen.md', namespace);
+
+    expect(result).toEqual(expect.objectContaining({ status: 'replaced', chunksProcessed: 2 }));
+    expect(result.duplicateOf).toBeUndefined();
+    const [head] = await index().fetch(['canteen.md_chunk_0']);
+    expect(head?.metadata?.text).not.toBe('The canteen opens at noon.');
+    expect(head?.metadata?.docHash).toBe((await index().fetch(['handbook.md_chunk_0']))[0]?.metadata?.docHash);
+  });
+
+  test('stores document and chunk hashes on every chunk', async () => {
+    const result = await ingestText(handbook(3), 'handbook.md', namespace);
+    const ids = Array.from({ length: result.chunksProcessed }, (_v, i) => `handbook.md_chunk_${i}`);
+    const records = await index().fetch(ids);
+
+    const docHashes = new Set(records.map((record) => record.metadata?.docHash));
+    expect(docHashes.size).toBe(1);
+    for (const record of records) {
+      expect(record.metadata?.chunkHash).toBe(hashText(String(record.metadata?.text)));
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { jest } from '@jest/globals';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { getParser, registerParser, supportedExtensions, htmlToText, parseCsv } = await import('../rag/parsers.js');
+const { ingestDocuments } = await import('../rag/ingest.js');
+const { getDocument } = await import('../rag/documents.js');
+const { createVectorClient } = await import('../utils/factory.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+
+const parse = (fileName: string, content: string, options: { chunkSize?: number; fields?: string[] } = {}) =>
+  getParser(fileName)!.parse(Buffer.from(content), { fileName, chunkSize: options.chunkSize ?? 500, ...options });
+
+describe('parser registry', () => {
+  test('covers the built-in formats and accepts new ones', async () => {
+    expect(supportedExtensions()).toEqual(
+      expect.arrayContaining(['.pdf', '.md', '.markdown', '.txt', '.html', '.htm', '.docx', '.csv', '.json', '.jsonl'])
+    );
+    expect(getParser('Report.DOCX')?.name).toBe('docx');
+    expect(getParser('budget.xlsx')).toBeUndefined();
+
+    registerParser({ name: 'rst', extensions: ['.rst'], parse: async (content) => ({ text: content.toString() }) });
+    expect((await parse('guide.rst', 'Title\n=====')).text).toBe('Title\n=====');
+  });
+});
+
+describe('HTML', () => {
+  test('drops boilerplate and keeps headings and list structure', () => {
+    const text = htmlToText(`
+      <html><head><title>Handbook</title><style>p { color: red }</style></head>
+      <body>
+        <header><a href="/">Home</a></header>
+        <nav><ul><li>Menu item</li></ul></nav>
+        <main>
+          <h1>Leave   policy</h1>
+          <p>Staff get <b>25 days</b> &amp; public holidays.</p>
+          <h2>Carry over</h2>
+          <ul><li>Up to 5 days</li><li>Used by March</li></ul>
+          <script>track()</script>
+        </main>
+        <footer>© Example Corp</footer>
+      </body></html>`);
+
+    expect(text).toBe(
+      '# Leave policy\n\nStaff get 25 days & public holidays.\n\n## Carry over\n\n- Up to 5 days\n\n- Used by March'
+    );
+  });
+
+  test('uses the page title when the content has no top-level heading', () => {
+    expect(htmlToText('<title>FAQ</title><body><p>Answers</p></body>')).toBe('# FAQ\n\nAnswers');
+  });
+});
+
+describe('CSV', () => {
+  test('parses quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('name,notes\r\n"Smith, J","said ""hi""\nlater"\r\n\r\nLee,\n')).toEqual([
+      ['name', 'notes'],
+      ['Smith, J', 'said "hi"\nlater'],
+      ['Lee', ''],
+    ]);
+  });
+
+  test('packs whole rows into chunks and repeats the header in each', async () => {
+    const rows = Array.from({ length: 6 }, (_v, i) => `item-${i},${'x'.repeat(20)}`);
+    const parsed = await parse('inventory.csv', ['sku,description', ...rows].join('\n'), { chunkSize: 80 });
+
+    expect(parsed.chunks!.length).toBeGreaterThan(1);
+    for (const chunk of parsed.chunks!) {
+      expect(chunk.split('\n')[0]).toBe('sku,description');
+    }
+    expect(parsed.chunks!.flatMap((chunk) => chunk.split('\n').slice(1))).toEqual(rows);
+  });
+});
+
+describe('JSON', () => {
+  const articles = [
+    { id: 1, title: 'Refunds', body: 'Refunds take 5 days.', author: { name: 'Sam', email: 'sam@example.com' }, tags: ['billing'] },
+    { id: 2, title: 'Shipping', body: 'Ships in 2 days.', author: { name: 'Ana', email: 'ana@example.com' }, tags: [] },
+  ];
+
+  test('renders one record per array element, limited to the selected fields', async () => {
+    const parsed = await parse('articles.json', JSON.stringify(articles), { fields: ['title', 'body', 'author.name'] });
+
+    expect(parsed.chunks).toEqual([
+      'title: Refunds\nbody: Refunds take 5 days.\nauthor.name: Sam\n\ntitle: Shipping\nbody: Ships in 2 days.\nauthor.name: Ana',
+    ]);
+  });
+
+  test('indexes every field by default and reads JSONL line by line', async () => {
+    const parsed = await parse('articles.jsonl', articles.map((a) => JSON.stringify(a)).join('\n') + '\n', { chunkSize: 50 });
+
+    expect(parsed.chunks).toHaveLength(2);
+    expect(parsed.chunks![0]).toContain('author.email: sam@example.com');
+    expect(parsed.chunks![0]).toContain('tags: billing');
+    expect(parsed.chunks![1]).not.toContain('tags');
+  });
+
+  test('reports the line of invalid JSONL', async () => {
+    await expect(parse('bad.jsonl', '{"a": 1}\n{oops}\n')).rejects.toThrow(/line 2 of bad\.jsonl/);
+  });
+});
+
+describe('ingesting new formats', () => {
+  const uploadDir = join(process.cwd(), 'uploads', 'parser-test');
+  const namespace = 'parser-test';
+
+  beforeAll(async () => {
+    await mkdir(uploadDir, { recursive: true });
+    await writeFile(join(uploadDir, 'a1'), 'sku,price\nA-1,10\nB-2,20\n');
+    await writeFile(join(uploadDir, 'b2'), '<h1>Returns</h1><p>Within 30 days.</p>');
+  });
+
+  afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+    await createVectorClient().namespace(namespace).deleteAll();
+    getLexicalStore().clear();
+  });
+
+  test('stores parser-built chunks and parsed text', async () => {
+    const results = await ingestDocuments(
+      [
+        { path: join(uploadDir, 'a1'), source: 'prices.csv' },
+        { path: join(uploadDir, 'b2'), source: 'returns.html' },
+      ],
+      namespace
+    );
+    expect(results.map((r) => r.success)).toEqual([true, true]);
+
+    expect((await getDocument('prices.csv', namespace))!.chunks.map((c) => c.text)).toEqual(['sku,price\nA-1,10\nB-2,20']);
+    expect((await getDocument('returns.html', namespace))!.chunks.map((c) => c.text)).toEqual([
+      '# Returns\n\nWithin 30 days.',
+    ]);
+  });
+});
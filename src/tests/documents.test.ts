@@ -0,0 +1,150 @@
+import { jest } from '@jest/globals';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+process.env.RAG_TENANT_DOCS = 'Docs:documents-test:sk_rag_docs';
+
+const { ingestText } = await import('../rag/ingest.js');
+const { listDocuments, getDocument, deleteDocument } = await import('../rag/documents.js');
+const { createVectorClient } = await import('../utils/factory.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+const { documentsRouter } = await import('../routes/documents.js');
+const { errorHandler } = await import('../middleware/errorHandler.js');
+
+const namespace = 'documents-test';
+const leaveMetadata = { docType: 'policy', publishedAt: '2024-02-10' };
+
+const longText = (topic: string) =>
+  Array.from({ length: 4 }, (_v, i) => `${topic} paragraph ${i}. ` + `Details about ${topic} and its rules. `.repeat(8)).join(
+    '\n\n'
+  );
+
+beforeEach(async () => {
+  await ingestText(longText('leave'), 'hr/leave.md', namespace, leaveMetadata);
+  await ingestText('Expenses are reimbursed monthly.', 'finance/expenses.md', namespace);
+});
+
+afterEach(async () => {
+  await createVectorClient().namespace(namespace).deleteAll();
+  getLexicalStore().clear();
+});
+
+describe('document management', () => {
+  test('lists documents with chunk counts, ingestion times and caller metadata', async () => {
+    const documents = await listDocuments(namespace);
+
+    expect(documents.map((d) => d.source)).toEqual(['finance/expenses.md', 'hr/leave.md']);
+    const leave = documents[1]!;
+    expect(leave.chunkCount).toBeGreaterThan(1);
+    expect(Date.parse(leave.ingestedAt!)).not.toBeNaN();
+    expect(leave.metadata).toEqual({ docType: 'policy', publishedAt: '2024-02-10' });
+
+    expect((await listDocuments(namespace, { prefix: 'hr/' })).map((d) => d.source)).toEqual(['hr/leave.md']);
+  });
+
+  test('returns a document with its chunks in order, or null when missing', async () => {
+    const document = (await getDocument('hr/leave.md', namespace))!;
+
+    expect(document.chunks).toHaveLength(document.chunkCount);
+    expect(document.chunks.map((c) => c.chunkIndex)).toEqual([...document.chunks.keys()]);
+    expect(document.chunks[0]!.text).toContain('leave paragraph 0');
+
+    expect(await getDocument('hr/missing.md', namespace)).toBeNull();
+    expect(await getDocument('hr/leave.md', 'other-tenant')).toBeNull();
+  });
+
+  test('deletes a single document from the vector store and the lexical index', async () => {
+    const { chunkCount } = (await getDocument('hr/leave.md', namespace))!;
+
+    expect(await deleteDocument('hr/leave.md', namespace)).toBe(chunkCount);
+    expect(await deleteDocument('hr/leave.md', namespace)).toBe(0);
+
+    expect((await listDocuments(namespace)).map((d) => d.source)).toEqual(['finance/expenses.md']);
+    const hits = getLexicalStore().namespace(namespace).search('leave rules', 10);
+    expect(hits.map((hit) => hit.metadata.source)).not.toContain('hr/leave.md');
+  });
+
+  test('serializes concurrent replacements of the same source', async () => {
+    const results = await Promise.all([
+      ingestText(longText('remote work'), 'hr/leave.md', namespace),
+      ingestText('Leave is now unlimited.', 'hr/leave.md', namespace),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(['replaced', 'replaced']);
+
+    // Whichever write lands last, the stored chunk set is one complete version
+    const document = (await getDocument('hr/leave.md', namespace))!;
+    expect(document.chunks).toHaveLength(document.chunkCount);
+    const text = document.chunks.map((c) => c.text).join(' ');
+    if (document.chunkCount === 1) {
+      expect(text).toBe('Leave is now unlimited.');
+    } else {
+      expect(text).not.toContain('Leave is now unlimited');
+      expect(text).not.toContain('leave paragraph');
+    }
+    expect(document.metadata).toEqual({});
+  });
+});
+
+describe('PUT /documents/:source', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/documents', documentsRouter);
+    app.use(errorHandler);
+    server = await new Promise((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const put = (source: string, text: string, metadata?: Record<string, unknown>) =>
+    fetch(`${baseUrl}/documents/${encodeURIComponent(source)}`, {
+      method: 'PUT',
+      headers: { 'x-api-key': 'sk_rag_docs', 'content-type': 'application/json' },
+      body: JSON.stringify({ text, metadata }),
+    });
+
+  test('replaces a document with text another source already stores', async () => {
+    const response = await put('finance/expenses.md', longText('leave'), leaveMetadata);
+
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as any).data.status).toBe('replaced');
+    const document = (await getDocument('finance/expenses.md', namespace))!;
+    expect(document.chunks[0]!.text).toContain('leave paragraph 0');
+  });
+
+  test('rejects creating a document that duplicates another source with 409', async () => {
+    const response = await put('hr/leave-copy.md', longText('leave'), leaveMetadata);
+
+    expect(response.status).toBe(409);
+    expect(((await response.json()) as any).error).toMatchObject({
+      code: 'CONFLICT',
+      details: { duplicateOf: 'hr/leave.md' },
+    });
+    expect(await getDocument('hr/leave-copy.md', namespace)).toBeNull();
+  });
+});
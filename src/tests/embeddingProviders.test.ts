@@ -0,0 +1,117 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { HashingEmbeddingProvider } from '../embeddings/hashingProvider.js';
+import { HttpEmbeddingProvider } from '../embeddings/httpProvider.js';
+import { OpenAIEmbeddingProvider } from '../embeddings/openaiProvider.js';
+import { checkEmbeddingDimension, EmbeddingDimensionError } from '../embeddings/embeddingProvider.js';
+import { createEmbeddingProvider } from '../utils/factory.js';
+import { MemoryVectorStore } from '../vector/memoryStore.js';
+import { cosineSimilarity } from '../vector/vectorStore.js';
+import type { RAGConfig } from '../utils/config.js';
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider({ dimensions: 256 });
+
+  test('is deterministic, fixed-size and L2-normalised', async () => {
+    const a = await provider.embedQuery('Tenants report maintenance issues');
+    const b = await provider.embedQuery('Tenants report maintenance issues');
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(256);
+    expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1, 6);
+  });
+
+  test('ranks lexically related text above unrelated text', async () => {
+    const [lease, gdpr] = await provider.embedDocuments([
+      'The tenant must report maintenance issues within 72 hours.',
+      'Controllers notify the supervisory authority of personal data breaches.',
+    ]);
+    const query = await provider.embedQuery('when do tenants report maintenance?');
+    expect(cosineSimilarity(query, lease!)).toBeGreaterThan(cosineSimilarity(query, gdpr!));
+  });
+
+  test('returns a zero vector for text with no indexable terms', async () => {
+    expect((await provider.embedQuery('the of and')).every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe('HttpEmbeddingProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: Array<{ auth: string | undefined; body: any }> = [];
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/v1/embeddings', (req, res) => {
+      requests.push({ auth: req.headers.authorization, body: req.body });
+      const input: string[] = req.body.input;
+      // Reverse the order to check the client sorts by `index`
+      const data = input.map((text, index) => ({ index, embedding: [text.length, index] })).reverse();
+      res.json({ object: 'list', data, model: req.body.model });
+    });
+    app.post('/broken/embeddings', (_req, res) => {
+      res.status(500).send('model not loaded');
+    });
+    server = await new Promise((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  test('batches inputs, keeps input order and sends the API key', async () => {
+    const provider = new HttpEmbeddingProvider({
+      baseUrl: `${baseUrl}/v1/`,
+      model: 'nomic-embed-text',
+      apiKey: 'secret',
+      batchSize: 2,
+    });
+
+    const vectors = await provider.embedDocuments(['a', 'bb', 'ccc']);
+    expect(vectors).toEqual([[1, 0], [2, 1], [3, 0]]);
+    expect(requests).toHaveLength(2);
+    expect(requests[0]).toEqual({ auth: 'Bearer secret', body: { model: 'nomic-embed-text', input: ['a', 'bb'] } });
+    expect(provider.dimension).toBeUndefined();
+  });
+
+  test('surfaces endpoint errors with the status code', async () => {
+    const provider = new HttpEmbeddingProvider({ baseUrl: `${baseUrl}/broken`, model: 'm' });
+    await expect(provider.embedQuery('x')).rejects.toThrow(/\(500\).*model not loaded/);
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  const base = { openaiApiKey: 'sk-test', embeddingModel: 'text-embedding-3-large' } as RAGConfig;
+
+  test('selects the provider from config', () => {
+    const openai = createEmbeddingProvider({ ...base, embeddingProvider: 'openai' });
+    expect(openai).toBeInstanceOf(OpenAIEmbeddingProvider);
+    expect(openai.dimension).toBe(3072);
+
+    const local = createEmbeddingProvider({ ...base, embeddingProvider: 'local', embeddingDimensions: 64 });
+    expect(local).toBeInstanceOf(HashingEmbeddingProvider);
+    expect(local.dimension).toBe(64);
+
+    expect(() => createEmbeddingProvider({ ...base, embeddingProvider: 'openai-compatible' })).toThrow(
+      /EMBEDDING_BASE_URL/
+    );
+  });
+});
+
+describe('checkEmbeddingDimension', () => {
+  test('skips empty indexes and rejects mismatched ones', async () => {
+    const store = new MemoryVectorStore();
+    const provider = new HashingEmbeddingProvider({ dimensions: 8 });
+    await expect(checkEmbeddingDimension(provider, store)).resolves.toBeUndefined();
+
+    await store.namespace().upsert([{ id: 'a', values: new Array(8).fill(0.1) }]);
+    await expect(checkEmbeddingDimension(provider, store)).resolves.toBeUndefined();
+
+    const wider = new HashingEmbeddingProvider({ dimensions: 16 });
+    await expect(checkEmbeddingDimension(wider, store)).rejects.toBeInstanceOf(EmbeddingDimensionError);
+  });
+});
@@ -0,0 +1,59 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileVectorStore } from '../vector/fileStore.js';
+
+describe('FileVectorStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rag-vectors-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reloads namespaces, vectors and metadata after restart', async () => {
+    const store = new FileVectorStore(dir);
+    await store.namespace().upsert([{ id: 'd1', values: [1, 0], metadata: { source: 'default.md' } }]);
+    await store.namespace('tenant/a').upsert([
+      { id: 'a1', values: [0, 1], metadata: { source: 'a.md', chunkIndex: 0, tags: ['x', 'y'] } },
+      { id: 'a2', values: [1, 1], metadata: { source: 'a.md', chunkIndex: 1 } },
+    ]);
+    await store.close();
+
+    expect(readdirSync(dir).sort()).toEqual(['_default.json', 'ns_tenant%2Fa.json']);
+
+    const reopened = new FileVectorStore(dir);
+    const stats = await reopened.describeIndexStats();
+    expect(stats).toEqual({
+      dimension: 2,
+      totalRecordCount: 3,
+      namespaces: { '': { recordCount: 1 }, 'tenant/a': { recordCount: 2 } },
+    });
+
+    const res = await reopened.namespace('tenant/a').query({ vector: [0, 1], topK: 1, includeMetadata: true });
+    expect(res.matches[0]!.id).toBe('a1');
+    expect(res.matches[0]!.metadata).toEqual({ source: 'a.md', chunkIndex: 0, tags: ['x', 'y'] });
+  });
+
+  test('deleteAll removes the namespace file', async () => {
+    const store = new FileVectorStore(dir);
+    await store.namespace('gone').upsert([{ id: '1', values: [1] }]);
+    await store.namespace('kept').upsert([{ id: '2', values: [1] }]);
+    await store.namespace('gone').deleteAll();
+
+    expect(readdirSync(dir)).toEqual(['ns_kept.json']);
+    expect((await new FileVectorStore(dir).describeIndexStats()).namespaces).toEqual({ kept: { recordCount: 1 } });
+  });
+
+  test('persists deletes by id', async () => {
+    const store = new FileVectorStore(dir);
+    await store.namespace('n').upsert([{ id: '1', values: [1] }, { id: '2', values: [1] }]);
+    await store.namespace('n').deleteMany(['1']);
+
+    const reopened = new FileVectorStore(dir);
+    expect((await reopened.namespace('n').list()).ids).toEqual(['2']);
+  });
+});
@@ -0,0 +1,73 @@
+import { jest } from '@jest/globals';
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => ({
+    openaiApiKey: '',
+    pineconeApiKey: '',
+    pineconeIndexName: 'rag-index',
+    llmBackend: 'mock',
+    llmModel: 'mock-extractive',
+  }),
+}));
+
+const { splitClaims, lexicalSupport, verifyGrounding, parseSupportScores, regenerationFeedback } = await import(
+  '../llm/grounding.js'
+);
+const { createLLMClient } = await import('../utils/factory.js');
+
+const contexts = [
+  'The Tenant must keep the interior in good repair and report damage promptly.',
+  'The Landlord repairs the structure, roof and boiler within 14 days of notice.',
+];
+
+describe('splitClaims', () => {
+  test('assigns markers that open the next sentence to the previous one', () => {
+    const answer = 'The Tenant keeps the interior in repair. [p0] The Landlord repairs the boiler [p1][p0]. Yes.';
+
+    expect(splitClaims(answer)).toEqual([
+      { text: 'The Tenant keeps the interior in repair.', citations: [0] },
+      { text: 'The Landlord repairs the boiler.', citations: [1, 0] },
+      { text: 'Yes.', citations: [] },
+    ]);
+    expect(splitClaims('[p0]')).toEqual([]);
+  });
+});
+
+describe('verifyGrounding', () => {
+  test('flags claims their cited passages do not support', async () => {
+    const answer = 'The Landlord repairs the boiler within 14 days [p1]. The Landlord also pays the council tax [p1].';
+    const report = await verifyGrounding(answer, contexts);
+
+    expect(report.verifier).toBe('lexical');
+    expect(report.claims.map((c) => c.supported)).toEqual([true, false]);
+    expect(report).toMatchObject({ supported: false, unsupportedClaims: 1 });
+    expect(report.claims[0]!.score).toBe(1);
+    expect(regenerationFeedback(report)).toContain('- The Landlord also pays the council tax.');
+  });
+
+  test('checks uncited claims against every passage', () => {
+    expect(lexicalSupport('Tenants report damage promptly.', contexts)).toBe(1);
+    expect(lexicalSupport('Pets are allowed.', contexts)).toBe(0);
+  });
+
+  test('uses the LLM scores and falls back to lexical support when they are unusable', async () => {
+    const answer = 'The Tenant reports damage [p0]. The boiler is repaired within 14 days [p1].';
+    const judge = (reply: string) => ({ invoke: async () => ({ content: reply }) }) as any;
+
+    const scored = await verifyGrounding(answer, contexts, { verifier: 'llm', llm: judge('[1, 0.2]'), threshold: 0.5 });
+    expect(scored).toMatchObject({ verifier: 'llm', score: 0.6, unsupportedClaims: 1 });
+
+    const fallback = await verifyGrounding(answer, contexts, { verifier: 'llm', llm: judge('[1]') });
+    expect(fallback).toMatchObject({ verifier: 'lexical', supported: true });
+
+    expect(() => parseSupportScores('Both are supported.', 2)).toThrow(/no scores/);
+  });
+
+  test('the mock model scores verification prompts lexically', async () => {
+    const answer = 'The Tenant reports damage promptly [p0]. Rent is waived in winter [p1].';
+    const report = await verifyGrounding(answer, contexts, { verifier: 'llm', llm: createLLMClient(undefined, undefined, 0) });
+
+    expect(report.verifier).toBe('llm');
+    expect(report.claims.map((c) => c.supported)).toEqual([true, false]);
+  });
+});
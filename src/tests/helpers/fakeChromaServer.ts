@@ -0,0 +1,147 @@
+/**
+ * Minimal in-process stand-in for Chroma's v2 HTTP API.
+ *
+ * Implements only the endpoints ChromaVectorStore calls, with Chroma's
+ * response shapes (nested query arrays, cosine distances, 404 on missing
+ * collections), so the adapter can be tested without a Chroma container.
+ */
+import express, { type Request, type Response } from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { randomUUID } from 'crypto';
+import { matchesFilter } from '../../vector/filter.js';
+import { cosineSimilarity, type VectorMetadata } from '../../vector/vectorStore.js';
+
+interface FakeCollection {
+  id: string;
+  name: string;
+  metadata: Record<string, unknown> | null;
+  dimension: number | null;
+  records: Map<string, { embedding: number[]; metadata: VectorMetadata | null }>;
+}
+
+export interface FakeChromaServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export async function startFakeChromaServer(): Promise<FakeChromaServer> {
+  const collections = new Map<string, FakeCollection>();
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  const base = '/api/v2/tenants/:tenant/databases/:database/collections';
+  const byName = (name: string) => Array.from(collections.values()).find((c) => c.name === name);
+  const byId = (req: Request, res: Response): FakeCollection | undefined => {
+    const collection = collections.get(String(req.params.id));
+    if (!collection) res.status(404).json({ error: 'NotFoundError', message: 'Collection does not exist' });
+    return collection;
+  };
+  const selected = (collection: FakeCollection, body: { ids?: string[]; where?: Record<string, unknown> }) =>
+    Array.from(collection.records.entries()).filter(
+      ([id, record]) =>
+        (!body.ids || body.ids.includes(id)) && matchesFilter(record.metadata || undefined, body.where)
+    );
+
+  app.get(base, (_req, res) => {
+    res.json(Array.from(collections.values()).map(({ records: _records, ...c }) => c));
+  });
+
+  app.post(base, (req, res) => {
+    const existing = byName(req.body.name);
+    if (existing) {
+      const { records: _records, ...c } = existing;
+      return res.json(c);
+    }
+    const collection: FakeCollection = {
+      id: randomUUID(),
+      name: req.body.name,
+      metadata: req.body.metadata || null,
+      dimension: null,
+      records: new Map(),
+    };
+    collections.set(collection.id, collection);
+    const { records: _records, ...c } = collection;
+    res.json(c);
+  });
+
+  app.get(`${base}/:name`, (req, res) => {
+    const collection = byName(String(req.params.name));
+    if (!collection) return res.status(404).json({ error: 'NotFoundError', message: 'Collection does not exist' });
+    const { records: _records, ...c } = collection;
+    res.json(c);
+  });
+
+  app.delete(`${base}/:name`, (req, res) => {
+    const collection = byName(String(req.params.name));
+    if (!collection) return res.status(404).json({ error: 'NotFoundError', message: 'Collection does not exist' });
+    collections.delete(collection.id);
+    res.json({});
+  });
+
+  app.get(`${base}/:id/count`, (req, res) => {
+    const collection = byId(req, res);
+    if (collection) res.json(collection.records.size);
+  });
+
+  app.post(`${base}/:id/upsert`, (req, res) => {
+    const collection = byId(req, res);
+    if (!collection) return;
+    const { ids, embeddings, metadatas } = req.body as { ids: string[]; embeddings: number[][]; metadatas: VectorMetadata[] };
+    ids.forEach((id, i) => {
+      collection.dimension = collection.dimension ?? embeddings[i]!.length;
+      collection.records.set(id, { embedding: embeddings[i]!, metadata: metadatas?.[i] ?? null });
+    });
+    res.json({});
+  });
+
+  app.post(`${base}/:id/query`, (req, res) => {
+    const collection = byId(req, res);
+    if (!collection) return;
+    const query = (req.body.query_embeddings as number[][])[0]!;
+    const ranked = selected(collection, { where: req.body.where })
+      .map(([id, record]) => ({ id, record, distance: 1 - cosineSimilarity(query, record.embedding) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, req.body.n_results);
+    const include: string[] = req.body.include || [];
+    res.json({
+      ids: [ranked.map((r) => r.id)],
+      distances: include.includes('distances') ? [ranked.map((r) => r.distance)] : null,
+      metadatas: include.includes('metadatas') ? [ranked.map((r) => r.record.metadata)] : null,
+      embeddings: include.includes('embeddings') ? [ranked.map((r) => r.record.embedding)] : null,
+    });
+  });
+
+  app.post(`${base}/:id/get`, (req, res) => {
+    const collection = byId(req, res);
+    if (!collection) return;
+    // Records in insertion order, like Chroma's internal sequence
+    const offset: number = req.body.offset ?? 0;
+    const rows = selected(collection, req.body).slice(offset, req.body.limit !== undefined ? offset + req.body.limit : undefined);
+    const include: string[] = req.body.include || [];
+    res.json({
+      ids: rows.map(([id]) => id),
+      metadatas: include.includes('metadatas') ? rows.map(([, r]) => r.metadata) : null,
+      embeddings: include.includes('embeddings') ? rows.map(([, r]) => r.embedding) : null,
+    });
+  });
+
+  app.post(`${base}/:id/delete`, (req, res) => {
+    const collection = byId(req, res);
+    if (!collection) return;
+    for (const [id] of selected(collection, req.body)) {
+      collection.records.delete(id);
+    }
+    res.json({});
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
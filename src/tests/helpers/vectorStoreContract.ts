@@ -0,0 +1,98 @@
+/**
+ * Backend-agnostic VectorStore contract.
+ *
+ * Every vector backend must pass these cases so ingestion, retrieval and the
+ * semantic cache behave identically regardless of VECTOR_BACKEND.
+ */
+import type { VectorStore } from '../../vector/vectorStore.js';
+
+export function describeVectorStoreContract(
+  name: string,
+  createStore: () => VectorStore | Promise<VectorStore>,
+  cleanup?: (store: VectorStore) => Promise<void>
+): void {
+  describe(`VectorStore contract: ${name}`, () => {
+    let store: VectorStore;
+    // Unique namespaces per run so live backends can be shared safely
+    const run = Math.random().toString(36).slice(2, 8);
+    const nsA = `contract-a-${run}`;
+    const nsB = `contract-b-${run}`;
+
+    beforeAll(async () => {
+      store = await createStore();
+    });
+
+    afterAll(async () => {
+      await store.namespace(nsA).deleteAll();
+      await store.namespace(nsB).deleteAll();
+      if (cleanup) await cleanup(store);
+    });
+
+    test('upserts and queries by cosine similarity with metadata', async () => {
+      await store.namespace(nsA).upsert([
+        { id: 'doc_chunk_0', values: [1, 0, 0], metadata: { source: 'doc.md', chunkIndex: 0, text: 'zero', tags: ['a', 'b'] } },
+        { id: 'doc_chunk_1', values: [0.8, 0.6, 0], metadata: { source: 'doc.md', chunkIndex: 1, text: 'one', final: true } },
+        { id: 'other_chunk_0', values: [0, 0, 1], metadata: { source: 'other.md', chunkIndex: 0, text: 'other' } },
+      ]);
+
+      const res = await store.namespace(nsA).query({ vector: [1, 0, 0], topK: 2, includeMetadata: true });
+      expect(res.matches.map((m) => m.id)).toEqual(['doc_chunk_0', 'doc_chunk_1']);
+      expect(res.matches[0]!.score).toBeCloseTo(1, 4);
+      expect(res.matches[1]!.score).toBeCloseTo(0.8, 4);
+      expect(res.matches[0]!.metadata).toEqual({ source: 'doc.md', chunkIndex: 0, text: 'zero', tags: ['a', 'b'] });
+      expect(res.matches[1]!.metadata!.final).toBe(true);
+    });
+
+    test('isolates namespaces', async () => {
+      await store.namespace(nsB).upsert([{ id: 'b1', values: [1, 0, 0], metadata: { source: 'b.md' } }]);
+
+      const a = await store.namespace(nsA).query({ vector: [1, 0, 0], topK: 10 });
+      const b = await store.namespace(nsB).query({ vector: [1, 0, 0], topK: 10 });
+      expect(a.matches.map((m) => m.id)).not.toContain('b1');
+      expect(b.matches.map((m) => m.id)).toEqual(['b1']);
+
+      const missing = await store.namespace(`contract-missing-${run}`).query({ vector: [1, 0, 0], topK: 5 });
+      expect(missing.matches).toEqual([]);
+    });
+
+    test('applies metadata filters', async () => {
+      const ids = async (filter: Record<string, unknown>) =>
+        (await store.namespace(nsA).query({ vector: [1, 0, 0], topK: 10, filter })).matches.map((m) => m.id).sort();
+
+      expect(await ids({ source: 'other.md' })).toEqual(['other_chunk_0']);
+      expect(await ids({ source: { $in: ['doc.md'] }, chunkIndex: { $gte: 1 } })).toEqual(['doc_chunk_1']);
+      expect(await ids({ $or: [{ chunkIndex: { $gt: 0 } }, { source: { $eq: 'other.md' } }] })).toEqual([
+        'doc_chunk_1',
+        'other_chunk_0',
+      ]);
+    });
+
+    test('fetches, lists and deletes records', async () => {
+      const fetched = await store.namespace(nsA).fetch(['doc_chunk_1', 'does-not-exist']);
+      expect(fetched).toHaveLength(1);
+      expect(fetched[0]!.values.map((v) => Number(v.toFixed(4)))).toEqual([0.8, 0.6, 0]);
+
+      const page1 = await store.namespace(nsA).list({ prefix: 'doc_', limit: 1 });
+      expect(page1.ids).toEqual(['doc_chunk_0']);
+      const page2 = await store.namespace(nsA).list({ prefix: 'doc_', limit: 1, paginationToken: page1.nextToken! });
+      expect(page2.ids).toEqual(['doc_chunk_1']);
+      expect(page2.nextToken).toBeUndefined();
+
+      await store.namespace(nsA).deleteMany(['doc_chunk_0']);
+      await store.namespace(nsA).deleteByFilter({ source: 'other.md' });
+      expect((await store.namespace(nsA).list()).ids).toEqual(['doc_chunk_1']);
+    });
+
+    test('reports per-namespace stats and deletes whole namespaces', async () => {
+      const stats = await store.describeIndexStats();
+      expect(stats.namespaces[nsA]).toEqual({ recordCount: 1 });
+      expect(stats.namespaces[nsB]).toEqual({ recordCount: 1 });
+      expect(stats.totalRecordCount).toBeGreaterThanOrEqual(2);
+
+      await store.namespace(nsB).deleteAll();
+      const after = await store.describeIndexStats();
+      expect(after.namespaces[nsB]).toBeUndefined();
+      expect((await store.namespace(nsB).query({ vector: [1, 0, 0], topK: 5 })).matches).toEqual([]);
+    });
+  });
+}
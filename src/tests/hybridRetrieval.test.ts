@@ -0,0 +1,166 @@
+import { jest } from '@jest/globals';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 256,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+  hybridDenseWeight: 0.5,
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { LexicalNamespace, getLexicalStore, tokenizeForBM25 } = await import('../rag/lexicalIndex.js');
+const { reciprocalRankFusion, weightedScoreFusion, RRF_K } = await import('../rag/fusion.js');
+const { ingestText } = await import('../rag/ingest.js');
+const { retrieveRelevantPassages } = await import('../rag/retriever.js');
+const { createVectorClient } = await import('../utils/factory.js');
+
+const docs = [
+  { id: 'notice', text: 'The tenant must report maintenance issues within 72 hours of discovery.' },
+  { id: 'rent', text: 'Rent is due monthly. Late rent incurs a fee after 5 days.' },
+  { id: 'art33', text: 'Under Art. 33 and clause 4.2.1 the controller notifies the authority.' },
+  { id: 'pets', text: 'Pets require written consent from the landlord.' },
+];
+
+describe('LexicalNamespace (BM25)', () => {
+  test('ranks exact terms and keeps compound identifiers whole', () => {
+    const ns = new LexicalNamespace('t');
+    ns.upsert(docs);
+
+    expect(tokenizeForBM25('see clause 4.2.1')).toEqual(expect.arrayContaining(['clause', '4', '2', '1', '4.2.1']));
+    expect(ns.search('72 hours', 2)[0]!.id).toBe('notice');
+    expect(ns.search('4.2.1', 4).map((m) => m.id)).toEqual(['art33']);
+    expect(ns.search('unrelated zebra', 4)).toEqual([]);
+  });
+
+  test('a rebuild does not bring back records deleted or replaced while it runs', async () => {
+    const ns = new LexicalNamespace('t');
+    const stale = docs.map((d) => ({ ...d, text: `${d.text} stale` }));
+
+    await ns.rebuild(async (add) => {
+      // Written by ingestion and deletes after the rebuild read the records
+      ns.deleteMany(['pets']);
+      ns.upsert([{ id: 'rent', text: 'Rent is due weekly.' }]);
+      expect(add(stale)).toBe(true);
+    });
+    expect(ns.search('pets consent', 4)).toEqual([]);
+    expect(ns.search('rent', 4)[0]!.text).toBe('Rent is due weekly.');
+    expect(ns.size).toBe(3);
+
+    await ns.rebuild(async (add) => {
+      ns.deleteAll();
+      expect(add(stale)).toBe(false);
+    });
+    expect(ns.size).toBe(0);
+  });
+
+  test('replaces documents on re-upsert and forgets deleted ones', () => {
+    const ns = new LexicalNamespace('t');
+    ns.upsert(docs);
+    ns.upsert([{ id: 'pets', text: 'Pets are welcome within 72 hours of notice.' }]);
+    expect(ns.size).toBe(4);
+    expect(ns.search('consent', 4)).toEqual([]);
+
+    ns.deleteMany(['notice', 'pets']);
+    expect(ns.search('72 hours', 4)).toEqual([]);
+    expect(ns.size).toBe(2);
+  });
+});
+
+describe('rank fusion', () => {
+  const dense = [
+    { id: 'a', score: 0.9 },
+    { id: 'b', score: 0.8 },
+  ];
+  const sparse = [
+    { id: 'b', score: 12 },
+    { id: 'c', score: 3 },
+  ];
+
+  test('reciprocal rank fusion rewards documents found by both searches', () => {
+    const fused = reciprocalRankFusion([dense, sparse]);
+    expect(fused.map((f) => f.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0]!.score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1), 10);
+  });
+
+  test('weighted fusion blends normalized scores', () => {
+    expect(weightedScoreFusion(dense, sparse, 1).map((f) => f.id)).toEqual(['a', 'b', 'c']);
+    expect(weightedScoreFusion(dense, sparse, 0).map((f) => f.id)).toEqual(['b', 'a', 'c']);
+    expect(weightedScoreFusion(dense, sparse, 0.4)[0]).toEqual({ id: 'b', score: 0.6 });
+  });
+});
+
+describe('retrieveRelevantPassages modes', () => {
+  beforeAll(async () => {
+    for (const doc of docs) {
+      const result = await ingestText(doc.text, doc.id, 'hybrid-test');
+      expect(result.success).toBe(true);
+    }
+  });
+
+  test('sparse and hybrid modes find exact numeric terms', async () => {
+    const sparse = await retrieveRelevantPassages('72 hours', 2, 'hybrid-test', undefined, undefined, {
+      mode: 'sparse',
+    });
+    expect(sparse[0]!.metadata.source).toBe('notice');
+
+    const hybrid = await retrieveRelevantPassages('within 72 hours', 3, 'hybrid-test', undefined, undefined, {
+      mode: 'hybrid',
+    });
+    expect(hybrid[0]!.metadata.source).toBe('notice');
+    expect(hybrid[0]!.metadata).toEqual(
+      expect.objectContaining({ denseScore: expect.any(Number), bm25Score: expect.any(Number) })
+    );
+    expect(hybrid.length).toBeLessThanOrEqual(3);
+  });
+
+  test('returns the passage location and caller metadata, not the internal keys', async () => {
+    await ingestText('Deposits are returned within 10 days.', 'deposit', 'hybrid-meta', {
+      docType: 'policy',
+      publishedAt: '2024-02-10',
+    });
+    for (const mode of ['dense', 'sparse', 'hybrid'] as const) {
+      const [passage] = await retrieveRelevantPassages('deposit returned', 1, 'hybrid-meta', undefined, undefined, {
+        mode,
+      });
+      const { denseScore, bm25Score, ...metadata } = passage!.metadata;
+      expect(metadata).toEqual({
+        id: 'deposit_chunk_0',
+        source: 'deposit',
+        chunkIndex: 0,
+        docType: 'policy',
+        publishedAt: '2024-02-10',
+      });
+    }
+    await createVectorClient().namespace('hybrid-meta').deleteAll();
+  });
+
+  test('rebuilds the lexical index from the vector store after a restart', async () => {
+    getLexicalStore().clear();
+    expect(getLexicalStore().namespace('hybrid-test').size).toBe(0);
+
+    const passages = await retrieveRelevantPassages('clause 4.2.1', 1, 'hybrid-test', undefined, undefined, {
+      mode: 'sparse',
+    });
+    expect(passages[0]!.metadata.source).toBe('art33');
+    expect(getLexicalStore().namespace('hybrid-test').size).toBe(docs.length);
+  });
+
+  test('uses RETRIEVAL_MODE when the request does not choose', async () => {
+    config.retrievalMode = 'sparse';
+    try {
+      const passages = await retrieveRelevantPassages('written consent', 4, 'hybrid-test');
+      expect(passages.map((p) => p.metadata.source)).toEqual(['pets']);
+    } finally {
+      config.retrievalMode = 'dense';
+    }
+    await createVectorClient().namespace('hybrid-test').deleteAll();
+  });
+});
@@ -0,0 +1,115 @@
+import { jest } from '@jest/globals';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { sanitizeMetadata, MetadataValidationError } = await import('../rag/metadata.js');
+const { ingestText } = await import('../rag/ingest.js');
+const { retrieveRelevantPassages } = await import('../rag/retriever.js');
+const { createVectorClient } = await import('../utils/factory.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+const { normalizeQueryFilter } = await import('../vector/filter.js');
+
+function rejection(input: unknown): InstanceType<typeof MetadataValidationError> {
+  try {
+    sanitizeMetadata(input);
+  } catch (err) {
+    if (err instanceof MetadataValidationError) return err;
+    throw err;
+  }
+  throw new Error('expected the metadata to be rejected');
+}
+
+describe('sanitizeMetadata', () => {
+  test('flattens nested objects, stringifies arrays and drops nulls', () => {
+    expect(
+      sanitizeMetadata({
+        docType: 'policy',
+        version: 3,
+        draft: false,
+        years: [2023, 2024],
+        author: { name: 'Sam', team: { id: 'legal' } },
+        reviewer: null,
+      })
+    ).toEqual({
+      docType: 'policy',
+      version: 3,
+      draft: false,
+      years: ['2023', '2024'],
+      'author.name': 'Sam',
+      'author.team.id': 'legal',
+    });
+    expect(sanitizeMetadata(undefined)).toEqual({});
+  });
+
+  test('rejects reserved keys, unsupported values and oversized input', () => {
+    expect(rejection({ source: 'x' }).path).toBe('metadata.source');
+    expect(rejection({ published_ts: 1 }).message).toMatch(/reserved/);
+    expect(rejection({ _rag_array_keys: 'x' }).message).toMatch(/reserved/);
+    expect(rejection({ tags: [{ a: 1 }] }).path).toBe('metadata.tags[0]');
+    expect(rejection({ score: Number.NaN }).message).toMatch(/finite/);
+    expect(rejection({ a: { b: { c: { d: 1 } } } }).message).toMatch(/nesting/);
+    expect(rejection({ 'a.b': 1, a: { b: 2 } }).message).toMatch(/defined twice/);
+    expect(rejection({ 'bad key': 1 }).path).toBe('metadata.bad key');
+    expect(rejection({ note: 'x'.repeat(2000) }).message).toMatch(/1024 characters/);
+    expect(rejection(Object.fromEntries(Array.from({ length: 40 }, (_v, i) => [`k${i}`, i]))).message).toMatch(
+      /32 fields/
+    );
+    expect(rejection(['a']).path).toBe('metadata');
+  });
+});
+
+describe('ingestText metadata round trip', () => {
+  const namespace = 'metadata-test';
+
+  afterAll(async () => {
+    await createVectorClient().namespace(namespace).deleteAll();
+    getLexicalStore().clear();
+  });
+
+  test('custom fields are stored, returned and filterable', async () => {
+    const result = await ingestText('Refunds are issued within 14 days of purchase.', 'refunds.md', namespace, {
+      docType: 'policy',
+      publishedAt: '2024-02-10',
+      author: { name: 'Sam' },
+    });
+    expect(result.success).toBe(true);
+
+    const [passage] = await retrieveRelevantPassages('refund', 1, namespace);
+    expect(passage!.metadata).toEqual(
+      expect.objectContaining({
+        source: 'refunds.md',
+        chunkIndex: 0,
+        docType: 'policy',
+        publishedAt: '2024-02-10',
+        'author.name': 'Sam',
+      })
+    );
+
+    for (const mode of ['dense', 'sparse'] as const) {
+      const filtered = await retrieveRelevantPassages('refunds', 1, namespace, undefined, undefined, {
+        mode,
+        filter: normalizeQueryFilter({ 'author.name': 'Sam', publishedAt: { $gte: '2024-01-01' } }),
+      });
+      expect(filtered).toHaveLength(1);
+    }
+  });
+
+  test('invalid metadata fails the ingestion', async () => {
+    const result = await ingestText('Some text.', 'bad.md', namespace, { text: 'override' });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/"text" is reserved/);
+  });
+});
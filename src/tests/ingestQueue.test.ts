@@ -0,0 +1,156 @@
+import { IngestQueue, type DocumentProcessor } from '../jobs/ingestQueue.js';
+import { InMemoryJobStore, type IngestJob } from '../jobs/jobStore.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const docs = (count: number) =>
+  Array.from({ length: count }, (_v, i) => ({ text: `Document ${i}`, source: `doc-${i}.md` }));
+
+/** Processor that records concurrency and fails sources containing "bad" */
+function fakeProcessor(delayMs = 5) {
+  const state = { active: 0, maxActive: 0, seen: [] as string[] };
+  const processor: DocumentProcessor = async (document) => {
+    state.active++;
+    state.maxActive = Math.max(state.maxActive, state.active);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    state.active--;
+    state.seen.push(document.source);
+    if (document.source.includes('bad')) {
+      return { filePath: document.source, chunksProcessed: 0, success: false, error: 'embedding failed' };
+    }
+    return { filePath: document.source, chunksProcessed: 2, success: true };
+  };
+  return { processor, state };
+}
+
+describe('IngestQueue', () => {
+  test('processes documents with bounded concurrency and reports per-document results', async () => {
+    const store = new InMemoryJobStore();
+    const saved: string[] = [];
+    const save = store.save.bind(store);
+    store.save = (job) => {
+      saved.push(JSON.stringify(job));
+      return save(job);
+    };
+    const { processor, state } = fakeProcessor();
+    const queue = new IngestQueue(store, { concurrency: 2, processor });
+
+    const job = await queue.enqueue([...docs(4), { text: 'x', source: 'bad.md' }], 'tenant-a');
+    expect(job.status).toBe('queued');
+
+    await queue.onIdle();
+    expect(state.maxActive).toBe(2);
+
+    const finished = (await queue.get(job.id))!;
+    expect(finished).toEqual(
+      expect.objectContaining({ status: 'completed', namespace: 'tenant-a', total: 5, processed: 5, succeeded: 4, failed: 1 })
+    );
+    expect(finished.results[4]).toEqual({ source: 'bad.md', status: 'failed', chunksProcessed: 0, error: 'embedding failed' });
+    expect(await store.getDocuments(job.id)).toBeNull();
+    expect(await store.listUnfinished()).toEqual([]);
+    // Payloads are stored once at creation; progress saves leave them out
+    expect(saved.length).toBeGreaterThanOrEqual(5);
+    expect(saved.some((json) => json.includes('Document 0'))).toBe(false);
+  });
+
+  test('reports progress while a job is running', async () => {
+    const { processor } = fakeProcessor(20);
+    const queue = new IngestQueue(new InMemoryJobStore(), { concurrency: 1, processor });
+
+    const job = await queue.enqueue(docs(3));
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const running = (await queue.get(job.id))!;
+    expect(running.status).toBe('running');
+    expect(running.processed).toBeGreaterThanOrEqual(1);
+    expect(running.processed).toBeLessThan(3);
+    expect(running).not.toHaveProperty('documents');
+
+    await queue.onIdle();
+    expect((await queue.get(job.id))!.status).toBe('completed');
+  });
+
+  test('marks a job failed when every document fails, and refuses work beyond the queue limit', async () => {
+    const { processor } = fakeProcessor();
+    const queue = new IngestQueue(new InMemoryJobStore(), { concurrency: 1, maxQueuedDocuments: 3, processor });
+
+    const job = await queue.enqueue([{ text: 'x', source: 'bad-1.md' }]);
+    await expect(queue.enqueue(docs(5))).rejects.toMatchObject({ statusCode: 503, code: 'QUEUE_FULL' });
+    await expect(queue.enqueue(docs(5))).rejects.toBeInstanceOf(AppError);
+
+    await queue.onIdle();
+    expect((await queue.get(job.id))!.status).toBe('failed');
+  });
+
+  test('resumes unfinished jobs from the store after a restart', async () => {
+    const store = new InMemoryJobStore();
+    const interrupted: IngestJob = {
+      id: 'job-1',
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      total: 3,
+      processed: 1,
+      succeeded: 1,
+      skipped: 0,
+      duplicates: 0,
+      failed: 0,
+      results: [
+        { source: 'doc-0.md', status: 'succeeded', chunksProcessed: 2 },
+        { source: 'doc-1.md', status: 'pending' },
+        { source: 'doc-2.md', status: 'pending' },
+      ],
+    };
+    await store.create(interrupted, docs(3));
+
+    const { processor, state } = fakeProcessor();
+    const queue = new IngestQueue(store, { processor });
+    expect(await queue.recover()).toBe(1);
+    await queue.onIdle();
+
+    expect(state.seen.sort()).toEqual(['doc-1.md', 'doc-2.md']);
+    expect(await store.get('job-1')).toEqual(
+      expect.objectContaining({ status: 'completed', processed: 3, succeeded: 3 })
+    );
+  });
+
+  test('leaves jobs to the process holding their lease and takes over expired ones', async () => {
+    const store = new InMemoryJobStore();
+    const job: IngestJob = {
+      id: 'job-2',
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      total: 2,
+      processed: 0,
+      succeeded: 0,
+      skipped: 0,
+      duplicates: 0,
+      failed: 0,
+      results: docs(2).map((doc) => ({ source: doc.source, status: 'pending' as const })),
+    };
+    await store.create(job, docs(2));
+    await store.acquireLease('job-2', 'other-process', 20);
+
+    const { processor, state } = fakeProcessor();
+    const queue = new IngestQueue(store, { processor });
+    expect(await queue.recover()).toBe(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await queue.recover()).toBe(1);
+    await queue.onIdle();
+    expect(state.seen.sort()).toEqual(['doc-0.md', 'doc-1.md']);
+    expect(await store.acquireLease('job-2', 'other-process', 20)).toBe(true);
+  });
+
+  test('stops working on a job whose lease was lost', async () => {
+    const store = new InMemoryJobStore();
+    store.renewLease = async () => false;
+    const { processor, state } = fakeProcessor(20);
+    const queue = new IngestQueue(store, { concurrency: 1, leaseMs: 30, processor });
+
+    const job = await queue.enqueue(docs(5));
+    await queue.onIdle();
+
+    expect(state.seen.length).toBeLessThan(5);
+    // Left unfinished for the process that takes it over
+    expect((await store.listUnfinished()).map((j) => j.id)).toEqual([job.id]);
+    expect((await store.get(job.id))!.processed).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { jest } from '@jest/globals';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { ingestDocuments } = await import('../rag/ingest.js');
+const { createVectorClient } = await import('../utils/factory.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+
+// multer writes uploads under uploads/ with random, extension-less names
+const uploadDir = join(process.cwd(), 'uploads', 'ingest-upload-test');
+const namespace = 'upload-test';
+
+beforeAll(async () => {
+  await mkdir(uploadDir, { recursive: true });
+  await writeFile(join(uploadDir, '3f9a1c'), '# Leave policy\n\nStaff get 25 days of annual leave.');
+  await writeFile(join(uploadDir, '77b0e2'), 'not really a spreadsheet');
+});
+
+afterAll(async () => {
+  await rm(uploadDir, { recursive: true, force: true });
+  await createVectorClient().namespace(namespace).deleteAll();
+  getLexicalStore().clear();
+});
+
+describe('ingestDocuments with uploaded files', () => {
+  test('uses the original name for the file type, source and chunk IDs', async () => {
+    const results = await ingestDocuments(
+      [
+        { path: join(uploadDir, '3f9a1c'), source: 'leave-policy.md', metadata: { docType: 'policy' } },
+        { path: join(uploadDir, '77b0e2'), source: 'budget.xlsx' },
+      ],
+      namespace
+    );
+
+    expect(results[0]).toEqual({
+      filePath: 'leave-policy.md',
+      chunksProcessed: 1,
+      success: true,
+      status: 'ingested',
+      chunksDeleted: 0,
+    });
+    expect(results[1]).toEqual(
+      expect.objectContaining({
+        filePath: 'budget.xlsx',
+        success: false,
+        error: expect.stringMatching(/Unsupported file type: \.xlsx/),
+      })
+    );
+
+    const [stored] = await createVectorClient().namespace(namespace).fetch(['leave-policy.md_chunk_0']);
+    expect(stored?.metadata).toEqual(
+      expect.objectContaining({ source: 'leave-policy.md', docType: 'policy' })
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { ChatOpenAI, AzureChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import { createLLMClient, resolveLLMTarget } from '../utils/factory.js';
+import { estimateLLMCostUsd, getModelPricing } from '../llm/pricing.js';
+import type { RAGConfig } from '../utils/config.js';
+
+const base = {
+  openaiApiKey: 'sk-test',
+  llmModel: 'gpt-4o-mini',
+  azureOpenAIApiVersion: '2024-10-21',
+} as RAGConfig;
+
+describe('createLLMClient backends', () => {
+  test('creates a chat model per LLM backend', () => {
+    const openai = createLLMClient({ ...base, llmBackend: 'openai' }, undefined, 0);
+    expect(openai).toBeInstanceOf(ChatOpenAI);
+    expect((openai as ChatOpenAI).model).toBe('gpt-4o-mini');
+
+    const anthropic = createLLMClient(
+      { ...base, llmBackend: 'anthropic', llmModel: 'claude-3-5-haiku-latest', anthropicApiKey: 'sk-ant-test' },
+      undefined,
+      0
+    );
+    expect(anthropic).toBeInstanceOf(ChatAnthropic);
+    expect((anthropic as ChatAnthropic).model).toBe('claude-3-5-haiku-latest');
+
+    const azure = createLLMClient(
+      {
+        ...base,
+        llmBackend: 'azure',
+        llmModel: 'rag-gpt4o',
+        azureOpenAIApiKey: 'az-test',
+        azureOpenAIEndpoint: 'https://example.openai.azure.com',
+      },
+      undefined,
+      0
+    );
+    expect(azure).toBeInstanceOf(AzureChatOpenAI);
+    expect((azure as AzureChatOpenAI).azureOpenAIApiDeploymentName).toBe('rag-gpt4o');
+
+    const local = createLLMClient(
+      { ...base, llmBackend: 'openai-compatible', llmModel: 'llama3.1', llmBaseUrl: 'http://localhost:11434/v1' },
+      undefined,
+      0
+    );
+    expect(local).toBeInstanceOf(ChatOpenAI);
+    expect((local as ChatOpenAI).clientConfig.baseURL).toBe('http://localhost:11434/v1');
+  });
+
+  test('an explicit model overrides the configured default', () => {
+    expect(resolveLLMTarget({ ...base, llmBackend: 'anthropic', llmModel: 'claude-3-5-haiku-latest' })).toEqual({
+      backend: 'anthropic',
+      model: 'claude-3-5-haiku-latest',
+    });
+    expect(resolveLLMTarget({ ...base, llmBackend: 'openai' }, 'gpt-4o').model).toBe('gpt-4o');
+  });
+
+  test('requires a base URL for openai-compatible', () => {
+    expect(() => createLLMClient({ ...base, llmBackend: 'openai-compatible' })).toThrow(/LLM_BASE_URL/);
+  });
+});
+
+describe('LLM pricing', () => {
+  test('prices by longest model prefix and treats self-hosted models as free', () => {
+    expect(getModelPricing('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ promptPer1M: 0.15, completionPer1M: 0.6 });
+    expect(getModelPricing('azure', 'gpt-4o')).toEqual({ promptPer1M: 2.5, completionPer1M: 10 });
+    expect(estimateLLMCostUsd('anthropic', 'claude-3-5-haiku-latest', 1_000_000, 1_000_000)).toBeCloseTo(4.8, 6);
+    expect(estimateLLMCostUsd('openai-compatible', 'gpt-4o', 1000, 1000)).toBe(0);
+    expect(estimateLLMCostUsd('openai', 'unknown-model', 1000, 1000)).toBe(0);
+  });
+});
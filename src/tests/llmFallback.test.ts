@@ -0,0 +1,145 @@
+import { jest } from '@jest/globals';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  llmBackend: 'openai-compatible',
+  llmModel: 'broken-model',
+  llmFallbacks: [{ backend: 'mock', model: 'mock-extractive' }],
+  llmTimeoutMs: 5000,
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { CircuitBreaker, getCircuitBreaker, resetCircuitBreakers } = await import('../llm/circuitBreaker.js');
+const { generateAnswer } = await import('../llm/answer.js');
+const { register } = await import('../metrics/metrics.js');
+const { AppError } = await import('../middleware/errorHandler.js');
+
+const contexts = [{ text: 'Pets are not allowed without written consent.', score: 0.9, metadata: {} }];
+
+async function metricValue(name: string, labels: Record<string, string>): Promise<number | undefined> {
+  const metric = (await register.getMetricsAsJSON()).find((m) => m.name === name);
+  const sample = (metric?.values as Array<{ value: number; labels: Record<string, unknown> }> | undefined)?.find(
+    (v) => Object.entries(labels).every(([k, val]) => v.labels[k] === val)
+  );
+  return sample?.value;
+}
+
+describe('CircuitBreaker', () => {
+  test('opens after the failure threshold and probes once when half-open', async () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('openai', 'gpt-test', { failureThreshold: 2, resetTimeoutMs: 1000 }, () => now);
+    const labels = { backend: 'openai', model: 'gpt-test' };
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(await metricValue('llm_circuit_breaker_state', labels)).toBe(2);
+    expect(await metricValue('llm_circuit_breaker_failures', labels)).toBe(2);
+
+    now = 1000;
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    now = 2000;
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(await metricValue('llm_circuit_breaker_state', labels)).toBe(0);
+    expect(await metricValue('llm_circuit_breaker_failures', labels)).toBe(0);
+  });
+});
+
+describe('generateAnswer fallback chain', () => {
+  let server: Server;
+  let requests = 0;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    // 400 is not retried by the OpenAI client, so each attempt fails fast
+    app.post('/v1/chat/completions', (_req, res) => {
+      requests++;
+      res.status(400).json({ error: { message: 'model not loaded', type: 'invalid_request_error' } });
+    });
+    server = await new Promise((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    config.llmBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    resetCircuitBreakers();
+    requests = 0;
+  });
+
+  test('answers from the next provider and skips the primary once its circuit opens', async () => {
+    getCircuitBreaker('openai-compatible', 'broken-model', { failureThreshold: 2, resetTimeoutMs: 60_000 });
+    const failures = { backend: 'openai-compatible', model: 'broken-model' };
+    const errorsBefore = (await metricValue('llm_fallback_total', { ...failures, reason: 'error' })) ?? 0;
+
+    for (let i = 0; i < 3; i++) {
+      const result = await generateAnswer('Are pets allowed?', contexts);
+      expect(result.backend).toBe('mock');
+      expect(result.model).toBe('mock-extractive');
+      expect(result.fallback).toBe(true);
+      expect(result.answer).toContain('[p0]');
+    }
+
+    // Third call never reached the broken endpoint
+    expect(requests).toBe(2);
+    expect(await metricValue('llm_fallback_total', { ...failures, reason: 'error' })).toBe(errorsBefore + 2);
+    expect(await metricValue('llm_fallback_total', { ...failures, reason: 'circuit_open' })).toBe(1);
+    expect(await metricValue('llm_circuit_breaker_state', failures)).toBe(2);
+  });
+
+  test('fails with a 503 listing every attempt when no provider answers', async () => {
+    const fallbacks = config.llmFallbacks;
+    config.llmFallbacks = [];
+    try {
+      const error = await generateAnswer('Are pets allowed?', contexts).catch((err) => err);
+      expect(error).toBeInstanceOf(AppError);
+      expect(error.statusCode).toBe(503);
+      expect(error.code).toBe('LLM_UNAVAILABLE');
+      expect(error.details.attempts).toEqual([
+        expect.objectContaining({ backend: 'openai-compatible', model: 'broken-model' }),
+      ]);
+    } finally {
+      config.llmFallbacks = fallbacks;
+    }
+  });
+
+  test('treats a slow provider as failed after LLM_TIMEOUT_MS', async () => {
+    const saved = { ...config };
+    Object.assign(config, { llmBackend: 'mock', llmModel: 'slow-mock', llmTimeoutMs: 50, llmFallbacks: [] });
+    process.env.MOCK_LLM_LATENCY_MS = '500';
+    try {
+      const error = await generateAnswer('Are pets allowed?', contexts).catch((err) => err);
+      expect(error.statusCode).toBe(503);
+      expect(error.details.attempts).toEqual([
+        { backend: 'mock', model: 'slow-mock', error: 'LLM call timed out after 50ms' },
+      ]);
+      expect(await metricValue('llm_fallback_total', { backend: 'mock', model: 'slow-mock', reason: 'timeout' })).toBe(1);
+    } finally {
+      delete process.env.MOCK_LLM_LATENCY_MS;
+      Object.assign(config, saved);
+    }
+  });
+});
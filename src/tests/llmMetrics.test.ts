@@ -28,9 +28,9 @@ describe('LLM metrics', () => {
     // Provide a fake LLM client that triggers token callbacks
     const fakeLLM = {
       invoke: async (_messages: any, options?: any) => {
-        if (options && options.callbacks) {
-          if (typeof options.callbacks.onLLMNewToken === 'function') options.callbacks.onLLMNewToken('t');
-          if (typeof options.callbacks.handleLLMNewToken === 'function') options.callbacks.handleLLMNewToken('t');
+        for (const handler of options?.callbacks ?? []) {
+          if (typeof handler.onLLMNewToken === 'function') handler.onLLMNewToken('t');
+          if (typeof handler.handleLLMNewToken === 'function') handler.handleLLMNewToken('t');
         }
         return { content: 'hello [p0]' };
       },
@@ -49,6 +49,7 @@ describe('LLM metrics', () => {
     const ttftEntry = ttftMetric!.values.find((v: any) => v.labels.model === 'test-model');
     const totalEntry = totalMetric!.values.find((v: any) => v.labels.model === 'test-model');
     expect(ttftEntry).toBeDefined();
+    expect(ttftEntry.labels.backend).toBe('custom');
     expect(totalEntry).toBeDefined();
     expect(ttftEntry.value).toBeGreaterThanOrEqual(0);
     expect(totalEntry.value).toBeGreaterThanOrEqual(ttftEntry.value);
@@ -0,0 +1,102 @@
+import { jest } from '@jest/globals';
+
+// The local hashing embedder lets the real pipeline run offline
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => ({
+    openaiApiKey: '',
+    pineconeApiKey: '',
+    pineconeIndexName: 'rag-index',
+    vectorBackend: 'memory',
+    embeddingProvider: 'local',
+    embeddingModel: 'hashing-tf',
+    embeddingDimensions: 256,
+  }),
+}));
+
+const { MemoryVectorStore } = await import('../vector/memoryStore.js');
+
+describe('MemoryVectorStore', () => {
+  test('returns matches ordered by cosine similarity', async () => {
+    const store = new MemoryVectorStore();
+    const ns = store.namespace('tenant-a');
+    await ns.upsert([
+      { id: 'x', values: [1, 0, 0], metadata: { kind: 'x' } },
+      { id: 'y', values: [0, 1, 0], metadata: { kind: 'y' } },
+      { id: 'xy', values: [1, 1, 0], metadata: { kind: 'xy' } },
+    ]);
+
+    const res = await ns.query({ vector: [1, 0.1, 0], topK: 2, includeMetadata: true });
+    expect(res.matches.map((m) => m.id)).toEqual(['x', 'xy']);
+    expect(res.matches[0]!.score).toBeCloseTo(0.995, 3);
+    expect(res.matches[0]!.metadata).toEqual({ kind: 'x' });
+  });
+
+  test('isolates namespaces and applies metadata filters', async () => {
+    const store = new MemoryVectorStore();
+    await store.namespace('a').upsert([
+      { id: '1', values: [1, 0], metadata: { source: 'doc.md', chunkIndex: 0 } },
+      { id: '2', values: [1, 0], metadata: { source: 'doc.md', chunkIndex: 1 } },
+      { id: '3', values: [1, 0], metadata: { source: 'other.md', chunkIndex: 0 } },
+    ]);
+    await store.namespace('b').upsert([{ id: '4', values: [1, 0] }]);
+
+    const filtered = await store.namespace('a').query({
+      vector: [1, 0],
+      topK: 10,
+      filter: { $and: [{ source: 'doc.md' }, { chunkIndex: { $gte: 1 } }] },
+    });
+    expect(filtered.matches.map((m) => m.id)).toEqual(['2']);
+
+    const defaultNs = await store.namespace().query({ vector: [1, 0], topK: 10 });
+    expect(defaultNs.matches).toHaveLength(0);
+
+    await store.namespace('a').deleteByFilter({ source: { $in: ['other.md'] } });
+    await store.namespace('a').deleteMany(['1']);
+    const stats = await store.describeIndexStats();
+    expect(stats).toEqual({
+      dimension: 2,
+      totalRecordCount: 2,
+      namespaces: { a: { recordCount: 1 }, b: { recordCount: 1 } },
+    });
+
+    await store.namespace('b').deleteAll();
+    expect((await store.describeIndexStats()).namespaces).toEqual({ a: { recordCount: 1 } });
+  });
+
+  test('lists IDs with prefix and pagination', async () => {
+    const store = new MemoryVectorStore();
+    const ns = store.namespace('p');
+    await ns.upsert(['a_1', 'a_2', 'a_3', 'b_1'].map((id) => ({ id, values: [1] })));
+
+    const first = await ns.list({ prefix: 'a_', limit: 2 });
+    expect(first).toEqual({ ids: ['a_1', 'a_2'], nextToken: '2' });
+    const second = await ns.list({ prefix: 'a_', limit: 2, paginationToken: first.nextToken! });
+    expect(second).toEqual({ ids: ['a_3'] });
+  });
+
+  test('rejects vectors with a different dimension', async () => {
+    const store = new MemoryVectorStore();
+    await store.namespace().upsert([{ id: '1', values: [1, 2, 3] }]);
+    await expect(store.namespace().upsert([{ id: '2', values: [1, 2] }])).rejects.toThrow(/dimension/);
+  });
+});
+
+describe('ingest -> retrieve with VECTOR_BACKEND=memory', () => {
+  test('retrieves ingested chunks without Pinecone or OpenAI', async () => {
+    const { ingestText } = await import('../rag/ingest.js');
+    const { retrieveRelevantPassages } = await import('../rag/retriever.js');
+
+    const lease = 'The tenant must report maintenance issues within 72 hours of discovery.';
+    const gdpr = 'Controllers notify the supervisory authority of personal data breaches.';
+    expect((await ingestText(lease, 'lease.md', 'tenant-x')).success).toBe(true);
+    expect((await ingestText(gdpr, 'gdpr.md', 'tenant-x')).success).toBe(true);
+
+    const passages = await retrieveRelevantPassages('tenant maintenance issues', 1, 'tenant-x');
+    expect(passages).toHaveLength(1);
+    expect(passages[0]!.metadata.source).toBe('lease.md');
+    expect(passages[0]!.metadata.id).toBe('lease.md_chunk_0');
+
+    const otherTenant = await retrieveRelevantPassages('tenant maintenance issues', 1, 'tenant-y');
+    expect(otherTenant).toHaveLength(0);
+  });
+});
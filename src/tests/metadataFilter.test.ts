@@ -0,0 +1,122 @@
+import { jest } from '@jest/globals';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { normalizeQueryFilter, withDateTimestamps, FilterValidationError } = await import('../vector/filter.js');
+const { toChromaWhere } = await import('../vector/chromaStore.js');
+const { toPgWhere } = await import('../vector/pgvectorStore.js');
+const { retrieveRelevantPassages } = await import('../rag/retriever.js');
+const { createVectorClient } = await import('../utils/factory.js');
+const { HashingEmbeddingProvider } = await import('../embeddings/hashingProvider.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+
+function rejection(input: unknown, options?: { unsupportedOperators?: string[] }): InstanceType<typeof FilterValidationError> {
+  try {
+    normalizeQueryFilter(input, options);
+  } catch (err) {
+    if (err instanceof FilterValidationError) return err;
+    throw err;
+  }
+  throw new Error('expected the filter to be rejected');
+}
+
+describe('normalizeQueryFilter', () => {
+  test('passes equality, $in, numeric ranges and combinators through', () => {
+    const filter = {
+      docType: 'policy',
+      $or: [{ source: { $in: ['a.md', 'b.md'] } }, { chunkIndex: { $gte: 2, $lt: 10 } }],
+      draft: { $ne: true },
+    };
+    expect(normalizeQueryFilter(filter)).toEqual(filter);
+  });
+
+  test('rewrites date ranges to the numeric _ts companion', () => {
+    expect(normalizeQueryFilter({ publishedAt: { $gte: '2024-01-01', $lt: '2024-02-01T00:00:00Z' }, year: 2024 })).toEqual({
+      publishedAt_ts: { $gte: Date.parse('2024-01-01'), $lt: Date.parse('2024-02-01T00:00:00Z') },
+      year: 2024,
+    });
+  });
+
+  test('reports the path of the first invalid clause', () => {
+    expect(rejection({ $or: [{ a: 1 }, { b: { $regex: 'x' } }] }).path).toBe('filter.$or[1].b.$regex');
+    expect(rejection({ $not: { a: 1 } }).message).toMatch(/Unsupported combinator \$not/);
+    expect(rejection({ tags: ['a', 'b'] }).message).toMatch(/use \$in/);
+    expect(rejection({ year: { $gt: 'recent' } }).message).toMatch(/number or an ISO-8601 date/);
+    expect(rejection({ source: { $in: [] } }).path).toBe('filter.source.$in');
+    expect(rejection({ 'bad key!': 1 }).path).toBe('filter.bad key!');
+    expect(rejection({ $and: [] }).path).toBe('filter.$and');
+    expect(rejection('docType=policy').path).toBe('filter');
+    expect(rejection({ $and: [{ $and: [{ $and: [{ $and: [{ a: 1 }] }] }] }] }).message).toMatch(/nesting/);
+    expect(rejection({ a: { $exists: true } }, { unsupportedOperators: ['$exists'] }).message).toMatch(
+      /not supported by the configured vector store/
+    );
+  });
+
+  test('normalized filters translate for Chroma and pgvector', () => {
+    const filter = normalizeQueryFilter({ docType: 'policy', publishedAt: { $gte: '2024-01-01' } });
+    expect(toChromaWhere(filter)).toEqual({
+      $and: [{ docType: { $eq: 'policy' } }, { publishedAt_ts: { $gte: Date.parse('2024-01-01') } }],
+    });
+    const params: unknown[] = [];
+    expect(toPgWhere(filter, params)).toContain("jsonb_typeof(metadata -> $3) = 'number'");
+    expect(params).toContain('publishedAt_ts');
+  });
+});
+
+describe('withDateTimestamps', () => {
+  test('adds epoch companions for ISO dates only', () => {
+    expect(withDateTimestamps({ publishedAt: '2024-03-01', title: '2024 plan', chunkIndex: 1 })).toEqual({
+      publishedAt: '2024-03-01',
+      publishedAt_ts: Date.parse('2024-03-01'),
+      title: '2024 plan',
+      chunkIndex: 1,
+    });
+  });
+});
+
+describe('retrieveRelevantPassages with a filter', () => {
+  const namespace = 'filter-test';
+
+  beforeAll(async () => {
+    const embedder = new HashingEmbeddingProvider({ dimensions: 64 });
+    const docs = [
+      { id: 'p1', text: 'Refund policy for annual plans.', docType: 'policy', publishedAt: '2023-06-01' },
+      { id: 'p2', text: 'Refund policy for monthly plans.', docType: 'policy', publishedAt: '2024-02-10' },
+      { id: 'f1', text: 'Refund questions answered in the FAQ.', docType: 'faq', publishedAt: '2024-03-05' },
+    ];
+    const vectors = await embedder.embedDocuments(docs.map((d) => d.text));
+    const records = docs.map((d, i) => ({
+      id: d.id,
+      values: vectors[i]!,
+      metadata: withDateTimestamps({ text: d.text, docType: d.docType, publishedAt: d.publishedAt }),
+    }));
+    await createVectorClient().namespace(namespace).upsert(records);
+  });
+
+  afterAll(async () => {
+    await createVectorClient().namespace(namespace).deleteAll();
+    getLexicalStore().clear();
+  });
+
+  test.each(['dense', 'sparse', 'hybrid'] as const)('%s mode only returns matching chunks', async (mode) => {
+    const filter = normalizeQueryFilter({ docType: 'policy', publishedAt: { $gte: '2024-01-01' } });
+    const passages = await retrieveRelevantPassages('refund policy', 5, namespace, undefined, undefined, {
+      mode,
+      filter,
+    });
+    expect(passages.map((p) => p.metadata.id)).toEqual(['p2']);
+  });
+});
@@ -0,0 +1,82 @@
+import { jest } from '@jest/globals';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => ({
+    openaiApiKey: '',
+    pineconeApiKey: '',
+    pineconeIndexName: 'rag-index',
+    llmBackend: 'mock',
+    llmModel: 'mock-extractive',
+  }),
+}));
+
+const { MockChatModel, buildMockAnswer, parsePromptPassages, MOCK_NO_CONTEXT_ANSWER } = await import(
+  '../llm/mockChatModel.js'
+);
+const { generateAnswer } = await import('../llm/answer.js');
+const { renderRagPrompts } = await import('../utils/promptLoader.js');
+
+const contexts = [
+  { text: 'Payment is due on the first of each month. Late fees apply after five days.', score: 0.9, metadata: {} },
+  { text: 'The tenant must report maintenance issues within 72 hours.', score: 0.8, metadata: {} },
+  { text: 'Pets are not allowed without written consent.', score: 0.7, metadata: {} },
+];
+
+describe('mock LLM answers', () => {
+  test('quotes the passages that match the question with [pN] citations', () => {
+    const prompt = `Question: When must the tenant report maintenance issues?
+
+Context passages:
+${contexts.map((c, i) => `[p${i}]: ${c.text}`).join('\n\n')}
+
+Please answer the question using the context passages above. Cite passages using [p0], [p1], etc.`;
+
+    expect(parsePromptPassages(prompt).map((p) => p.index)).toEqual([0, 1, 2]);
+    expect(buildMockAnswer(prompt)).toBe(
+      'According to the provided context: The tenant must report maintenance issues within 72 hours. [p1]'
+    );
+    expect(buildMockAnswer(prompt)).toBe(buildMockAnswer(prompt));
+  });
+
+  test('reads the rag_grounded template layout and refuses without context', async () => {
+    const { userPrompt } = await renderRagPrompts(
+      contexts.map((c, i) => `[p${i}]: ${c.text}`),
+      'Are pets allowed and when is payment due?'
+    );
+    expect(buildMockAnswer(userPrompt)).toBe(
+      'According to the provided context: Payment is due on the first of each month. [p0] ' +
+        'Pets are not allowed without written consent. [p2]'
+    );
+    expect(buildMockAnswer('Question: anything?')).toBe(MOCK_NO_CONTEXT_ANSWER);
+  });
+
+  test('streams tokens through LangChain callbacks after the configured latency', async () => {
+    const model = new MockChatModel({ latencyMs: 30, tokenLatencyMs: 1 });
+    const tokens: string[] = [];
+    const start = Date.now();
+    const response = await model.invoke(
+      [new SystemMessage('system'), new HumanMessage('Question: pets?\n\n[p0]: Pets are not allowed.')],
+      { callbacks: [{ handleLLMNewToken: (token: string) => void tokens.push(token) }] }
+    );
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+    expect(response.content).toBe('According to the provided context: Pets are not allowed. [p0]');
+    expect(tokens.length).toBeGreaterThan(5);
+    expect(tokens.join('')).toBe(response.content);
+
+    const streamed: string[] = [];
+    for await (const chunk of await model.stream([new HumanMessage('[p0]: Pets are not allowed.')])) {
+      streamed.push(String(chunk.content));
+    }
+    expect(streamed.join('')).toBe(response.content);
+  });
+
+  test('generateAnswer runs end-to-end with LLM_BACKEND=mock', async () => {
+    const result = await generateAnswer('When must the tenant report maintenance issues?', contexts);
+    expect(result.backend).toBe('mock');
+    expect(result.model).toBe('mock-extractive');
+    expect(result.answer).toContain('within 72 hours. [p1]');
+    expect(result.citations).toEqual([1]);
+  });
+});
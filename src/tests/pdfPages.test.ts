@@ -0,0 +1,117 @@
+import { jest } from '@jest/globals';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+const config: Record<string, any> = {
+  openaiApiKey: '',
+  pineconeApiKey: '',
+  pineconeIndexName: 'rag-index',
+  vectorBackend: 'memory',
+  embeddingProvider: 'local',
+  embeddingDimensions: 64,
+  retrievalMode: 'dense',
+  hybridFusion: 'rrf',
+};
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => config,
+}));
+
+const { getParser, locatePages, stripPageFurniture } = await import('../rag/parsers.js');
+const { ingestDocuments } = await import('../rag/ingest.js');
+const { createVectorClient } = await import('../utils/factory.js');
+const { getLexicalStore } = await import('../rag/lexicalIndex.js');
+
+/** Minimal PDF with one Helvetica text line per entry on each page */
+function makePdf(pages: string[][]): Buffer {
+  const objects: string[] = [];
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  const kids = pages.map((lines, i) => {
+    const contentId = 4 + i * 2;
+    const stream = ['BT /F1 12 Tf 14 TL 72 720 Td', ...lines.map((line) => `(${line}) Tj T*`), 'ET'].join('\n');
+    objects[contentId] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    objects[contentId + 1] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${contentId} 0 R ` +
+      '/Resources << /Font << /F1 3 0 R >> >> >>';
+    return `${contentId + 1} 0 R`;
+  });
+  objects[2] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${pages.length} >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets.push(pdf.length);
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+const clauses = [
+  ['1. The Tenant pays rent monthly in advance.', '2. Rent is paid by bank transfer.'],
+  ['3. The Tenant keeps the interior in good repair.', '4. The Landlord repairs the structure and boiler.'],
+  ['5. Either party may end the lease with two months notice.', '6. Notice must be given in writing.'],
+];
+const lease = makePdf(clauses.map((lines, i) => ['ACME Residential Lease', ...lines, `Page ${i + 1} of 3`]));
+
+describe('PDF pages', () => {
+  test('extracts each page without running headers and footers', async () => {
+    const parsed = await getParser('lease.pdf')!.parse(lease, { fileName: 'lease.pdf', chunkSize: 500 });
+
+    expect(parsed.pages).toEqual(clauses.map((lines) => lines.join('\n')));
+    expect(parsed.text).not.toMatch(/ACME Residential Lease|Page \d of 3/);
+  });
+
+  test('keeps repeated lines that are not at the top or bottom of a page', () => {
+    const pages = ['Header\nSigned\nbody one\nFooter', 'Header\nbody two\nSigned\nmore\nFooter', 'Header\nbody three\nFooter'];
+    expect(stripPageFurniture(pages)).toEqual(['Signed\nbody one', 'body two\nSigned\nmore', 'body three']);
+    expect(stripPageFurniture(pages.slice(0, 2))).toEqual(pages.slice(0, 2));
+  });
+
+  test('locates overlapping and re-joined chunks in the pages', () => {
+    const pages = ['alpha beta\ngamma', 'delta epsilon', 'zeta'];
+    expect(locatePages(pages, ['alpha beta', 'beta gamma delta', 'delta  epsilon\n\nzeta', 'omega'])).toEqual([
+      { pageStart: 1, pageEnd: 1 },
+      { pageStart: 1, pageEnd: 2 },
+      { pageStart: 2, pageEnd: 3 },
+      undefined,
+    ]);
+  });
+});
+
+describe('ingesting a PDF', () => {
+  const uploadDir = join(process.cwd(), 'uploads', 'pdf-pages-test');
+  const namespace = 'pdf-pages-test';
+
+  beforeAll(async () => {
+    await mkdir(uploadDir, { recursive: true });
+    await writeFile(join(uploadDir, 'lease'), lease);
+  });
+
+  afterAll(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+    await createVectorClient().namespace(namespace).deleteAll();
+    getLexicalStore().clear();
+  });
+
+  test('stores the page range of every chunk', async () => {
+    const [result] = await ingestDocuments(
+      [{ path: join(uploadDir, 'lease'), source: 'lease.pdf', chunking: { strategy: 'sentences', chunkSize: 150, chunkOverlap: 0 } }],
+      namespace
+    );
+    expect(result!.success).toBe(true);
+
+    const ids = Array.from({ length: result!.chunksProcessed }, (_v, i) => `lease.pdf_chunk_${i}`);
+    const chunks = await createVectorClient().namespace(namespace).fetch(ids);
+
+    // Three clauses per chunk, so each chunk runs onto the next page
+    expect(chunks.map((chunk) => [chunk?.metadata?.pageStart, chunk?.metadata?.pageEnd])).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+  });
+});
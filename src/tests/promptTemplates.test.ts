@@ -0,0 +1,148 @@
+import { jest } from '@jest/globals';
+import { copyFileSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => ({
+    openaiApiKey: '',
+    pineconeApiKey: '',
+    pineconeIndexName: 'rag-index',
+  }),
+}));
+
+process.env.RAG_TENANT_ACME = 'Acme:acme:sk_rag_acme::rag_concise@1';
+process.env.RAG_TENANT_TYPO = 'Typo:typo:sk_rag_typo::rag_grounded@9';
+process.env.RAG_TENANT_NEXT = 'Next:next:sk_rag_next::rag_concise@2';
+
+const { parsePromptTemplate, PromptRegistry, PromptTemplateError, getPromptRegistry, reloadPromptRegistry, renderRagPrompts } =
+  await import('../utils/promptLoader.js');
+const { apiKeyAuth, getTenantPromptTemplate } = await import('../middleware/apiKeyAuth.js');
+
+const template = (body: string, variables = 'retrieved_context, user_question') =>
+  `---\ndescription: Test template\nvariables: ${variables}\n---\n${body}`;
+
+const sections = '[system]\nUse the context.\n\n[user]\nContext:\n{{retrieved_context}}\n\nQuestion:\n{{ user_question }}\n';
+
+const authenticate = (apiKey: string) => {
+  const req: any = { headers: { 'x-api-key': apiKey }, query: {}, path: '/query' };
+  apiKeyAuth({ required: true })(req, {} as any, () => undefined);
+  return req;
+};
+
+describe('parsePromptTemplate', () => {
+  test('reads the name and version from the file name and the sections from the body', () => {
+    expect(parsePromptTemplate(template(sections), 'short_answers_v3.txt')).toEqual({
+      name: 'short_answers',
+      version: 3,
+      id: 'short_answers@3',
+      description: 'Test template',
+      variables: ['retrieved_context', 'user_question'],
+      sections: {
+        system: 'Use the context.',
+        user: 'Context:\n{{retrieved_context}}\n\nQuestion:\n{{ user_question }}',
+      },
+    });
+  });
+
+  test.each([
+    ['short_answers.txt', template(sections), /File name must be/],
+    ['t_v1.txt', sections, /front matter/],
+    ['t_v1.txt', template(sections, 'user_question'), /Required variables not declared: retrieved_context/],
+    ['t_v1.txt', template(sections, 'retrieved_context, user_question, tone'), /Unknown variable "tone"/],
+    ['t_v1.txt', template(sections, 'retrieved_context, user_question, conversation_history'), /not used: conversation_history/],
+    ['t_v1.txt', template(`${sections}{{tone}}`), /\{\{tone\}\} is not a declared variable/],
+    ['t_v1.txt', template(`Intro\n${sections}`), /Text before the first section/],
+    ['t_v1.txt', template(`${sections}[assistant]\nHi`), /Unknown section \[assistant\]/],
+    ['t_v1.txt', template(`${sections}[system]\nAgain`), /Duplicate section \[system\]/],
+    ['t_v1.txt', template('[system]\nHi\n[developer]\n{{retrieved_context}} {{user_question}}'), /Missing or empty \[user\]/],
+  ])('rejects %s: %p', (fileName, raw, message) => {
+    expect(() => parsePromptTemplate(raw, fileName)).toThrow(PromptTemplateError);
+    expect(() => parsePromptTemplate(raw, fileName)).toThrow(message);
+  });
+});
+
+describe('PromptRegistry', () => {
+  const registry = new PromptRegistry([
+    parsePromptTemplate(template(sections), 'short_v1.txt'),
+    parsePromptTemplate(template(sections.replace('Use', 'Only use')), 'short_v2.txt'),
+  ]);
+
+  test('resolves a name to its latest version and name@version to that version', () => {
+    expect(registry.get('short').id).toBe('short@2');
+    expect(registry.get('short@1').sections.system).toBe('Use the context.');
+    expect(() => registry.get('short@3')).toThrow(/Available: 1, 2/);
+    expect(() => registry.get('long')).toThrow(/Unknown prompt template "long"/);
+    expect(() => new PromptRegistry(registry.list().concat(registry.get('short@1')))).toThrow(/Duplicate/);
+  });
+
+  test('loads the bundled templates', () => {
+    expect(getPromptRegistry().list().map((t) => t.id)).toEqual(['rag_concise@1', 'rag_grounded@2']);
+  });
+});
+
+describe('renderRagPrompts', () => {
+  const contexts = ['[p0]: Rent is due on the 1st.', '[p1]: Pets need consent.'];
+
+  test('fills in the variables and reports the template', async () => {
+    const registry = new PromptRegistry([parsePromptTemplate(template(sections), 'short_v1.txt')]);
+    const rendered = await renderRagPrompts(contexts, 'When is rent due? $& {{user_question}}', {
+      template: 'short',
+      registry,
+    });
+
+    expect(rendered.systemPrompt).toBe('Use the context.');
+    expect(rendered.userPrompt).toBe(
+      'Context:\n[p0]: Rent is due on the 1st.\n\n[p1]: Pets need consent.\n\nQuestion:\nWhen is rent due? $& {{user_question}}'
+    );
+    expect(rendered.template).toEqual({ name: 'short', version: 1 });
+  });
+
+  test('places the history where the template declares it, else before the user section', async () => {
+    const history = 'User: Who repairs the boiler?\nAssistant: The Landlord.';
+
+    const grounded = await renderRagPrompts(contexts, 'And the roof?', { history });
+    expect(grounded.template).toEqual({ name: 'rag_grounded', version: 2 });
+    expect(grounded.systemPrompt).toContain('Answer the user’s question using the provided context.');
+    expect(grounded.userPrompt.startsWith(`Conversation so far:\n${history}\n\nContext:`)).toBe(true);
+
+    const concise = await renderRagPrompts(contexts, 'And the roof?', { history, template: 'rag_concise@1' });
+    expect(concise.userPrompt).toContain(`Earlier in this conversation:\n${history}\n\nQuestion:\nAnd the roof?`);
+    expect(concise.userPrompt).not.toContain('Conversation so far');
+  });
+});
+
+describe('tenant default template', () => {
+  test('comes from the tenant configuration; unknown templates are ignored', () => {
+    expect(getTenantPromptTemplate(authenticate('sk_rag_acme'))).toBe('rag_concise@1');
+    expect(getTenantPromptTemplate(authenticate('sk_rag_typo'))).toBeUndefined();
+  });
+});
+
+describe('reloadPromptRegistry', () => {
+  const bundled = process.env.PROMPTS_DIR || 'src/prompts';
+  const dir = mkdtempSync(join(tmpdir(), 'rag-prompts-'));
+
+  beforeAll(() => {
+    for (const file of readdirSync(bundled)) copyFileSync(join(bundled, file), join(dir, file));
+    process.env.PROMPTS_DIR = dir;
+  });
+
+  afterAll(() => {
+    process.env.PROMPTS_DIR = bundled;
+    reloadPromptRegistry();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('picks up new versions, and keeps the current templates when a file is invalid', () => {
+    expect(getTenantPromptTemplate(authenticate('sk_rag_next'))).toBeUndefined();
+
+    writeFileSync(join(dir, 'rag_concise_v2.txt'), template(sections));
+    expect(reloadPromptRegistry().get('rag_concise').version).toBe(2);
+    expect(getTenantPromptTemplate(authenticate('sk_rag_next'))).toBe('rag_concise@2');
+
+    writeFileSync(join(dir, 'rag_concise_v3.txt'), sections);
+    expect(() => reloadPromptRegistry()).toThrow(/front matter.*\(in rag_concise_v3.txt\)/);
+    expect(getPromptRegistry().get('rag_concise').version).toBe(2);
+  });
+});
@@ -0,0 +1,153 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { rerankPassages, type Reranker } from '../rerank/reranker.js';
+import { LexicalReranker } from '../rerank/lexicalReranker.js';
+import { HttpReranker } from '../rerank/httpReranker.js';
+import { LLMReranker, parseRanking } from '../rerank/llmReranker.js';
+import { createReranker } from '../utils/factory.js';
+import type { RetrievedPassage } from '../rag/retriever.js';
+import type { RAGConfig } from '../utils/config.js';
+
+const passages: RetrievedPassage[] = [
+  { text: 'Rent is due on the first of each month.', score: 0.91, metadata: { id: 'rent' } },
+  { text: 'Pets require written consent from the landlord.', score: 0.88, metadata: { id: 'pets' } },
+  { text: 'Maintenance issues must be reported within 72 hours.', score: 0.8, metadata: { id: 'notice' } },
+];
+
+const fixedReranker = (scores: number[]): Reranker => ({ name: 'fixed', scoreScale: 'probability', score: async () => scores });
+
+describe('rerankPassages', () => {
+  test('reorders, keeps the top k and reports both scores', async () => {
+    const reranked = await rerankPassages(fixedReranker([0.1, 0.5, 0.9]), 'q', passages, 2);
+    expect(reranked.map((p) => p.metadata.id)).toEqual(['notice', 'pets']);
+    expect(reranked[0]).toEqual(expect.objectContaining({ score: 0.9, rerankScore: 0.9, vectorScore: 0.8 }));
+  });
+
+  test('keeps retrieval order when the reranker fails', async () => {
+    const failing: Reranker = {
+      name: 'failing',
+      scoreScale: 'probability',
+      score: async () => {
+        throw new Error('endpoint down');
+      },
+    };
+    const kept = await rerankPassages(failing, 'q', passages, 2);
+    expect(kept.map((p) => p.metadata.id)).toEqual(['rent', 'pets']);
+    expect(kept[0]!.rerankScore).toBeUndefined();
+
+    const short = await rerankPassages(fixedReranker([1]), 'q', passages, 3);
+    expect(short.map((p) => p.metadata.id)).toEqual(['rent', 'pets', 'notice']);
+  });
+});
+
+describe('LexicalReranker', () => {
+  test('prefers passages covering the rare query terms and phrases', async () => {
+    const reranker = new LexicalReranker();
+    const scores = await reranker.score(
+      'report maintenance within 72 hours',
+      passages.map((p) => p.text)
+    );
+    expect(scores[2]).toBeGreaterThan(scores[0]!);
+    expect(scores[2]).toBeGreaterThan(scores[1]!);
+    expect(await reranker.score('the of', ['a', 'b'])).toEqual([0, 0]);
+    expect(scores.every((score) => score >= 0 && score <= 1)).toBe(true);
+  });
+});
+
+describe('HttpReranker', () => {
+  let server: Server;
+  let baseUrl: string;
+  const bodies: any[] = [];
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    // Cohere/Jina shape; drops the last document
+    app.post('/cohere/rerank', (req, res) => {
+      bodies.push(req.body);
+      res.json({
+        results: [
+          { index: 1, relevance_score: 0.97 },
+          { index: 0, relevance_score: 0.12 },
+        ],
+      });
+    });
+    // text-embeddings-inference shape
+    app.post('/tei/rerank', (_req, res) => {
+      res.json([
+        { index: 2, score: 3.5 },
+        { index: 0, score: -1 },
+        { index: 1, score: 0.5 },
+      ]);
+    });
+    server = await new Promise((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  test('reads both response shapes and ranks dropped documents last', async () => {
+    const texts = passages.map((p) => p.text);
+    const cohere = new HttpReranker({ baseUrl: `${baseUrl}/cohere/`, model: 'rerank-v3', apiKey: 'k' });
+    expect(await cohere.score('pets?', texts)).toEqual([0.12, 0.97, 0.12 - 1]);
+    expect(bodies[0]).toEqual({ model: 'rerank-v3', query: 'pets?', documents: texts, top_n: 3 });
+
+    const tei = new HttpReranker({ baseUrl: `${baseUrl}/tei` });
+    expect(await tei.score('notice?', texts)).toEqual([-1, 0.5, 3.5]);
+  });
+});
+
+describe('LLMReranker', () => {
+  const fakeLLM = (replies: string[]) => {
+    const prompts: string[] = [];
+    return {
+      prompts,
+      invoke: async (messages: any[]) => {
+        prompts.push(String(messages[1].content));
+        return { content: replies[Math.min(prompts.length - 1, replies.length - 1)] };
+      },
+    } as any;
+  };
+
+  test('listwise ranking puts unranked passages after ranked ones', async () => {
+    const llm = fakeLLM(['Most relevant first: [2, 0]']);
+    const scores = await new LLMReranker(llm).score('q', ['a', 'b', 'c']);
+    expect(scores[2]).toBe(1);
+    expect(scores[0]).toBeGreaterThan(scores[1]!);
+    expect(llm.prompts[0]).toContain('[2] c');
+  });
+
+  test('pointwise scores each passage on a 0-10 scale', async () => {
+    const llm = fakeLLM(['7', '2', '10']);
+    const scores = await new LLMReranker(llm, { mode: 'pointwise', concurrency: 1 }).score('q', ['a', 'b', 'c']);
+    expect(scores).toEqual([0.7, 0.2, 1]);
+  });
+
+  test('rejects replies without a usable ranking', () => {
+    expect(() => parseRanking('passage two is best', 3)).toThrow(/no ranking/);
+    expect(() => parseRanking('[7, 9]', 3)).toThrow(/no passages/);
+    expect(parseRanking('[1, 1, 0]', 3)).toEqual([1, 0]);
+  });
+});
+
+describe('createReranker', () => {
+  const base = { llmBackend: 'mock', llmModel: 'mock-extractive', rerankLlmMode: 'listwise' } as RAGConfig;
+
+  test('selects the reranker from config', () => {
+    expect(createReranker({ ...base, reranker: 'none' })).toBeNull();
+    expect(createReranker({ ...base, reranker: 'lexical' })).toBeInstanceOf(LexicalReranker);
+    expect(createReranker({ ...base, reranker: 'llm' })).toBeInstanceOf(LLMReranker);
+    expect(createReranker({ ...base, reranker: 'http', rerankBaseUrl: 'http://localhost:7997' })).toBeInstanceOf(
+      HttpReranker
+    );
+    expect(() => createReranker({ ...base, reranker: 'http' })).toThrow(/RERANK_BASE_URL/);
+    expect(createReranker({ ...base, reranker: 'http', rerankBaseUrl: 'x', rerankScoreScale: 'logit' })!.scoreScale).toBe('logit');
+    expect(createReranker({ ...base, reranker: 'llm' })!.scoreScale).toBe('ordinal');
+    expect(createReranker({ ...base, reranker: 'llm', rerankLlmMode: 'pointwise' })!.scoreScale).toBe('probability');
+  });
+});
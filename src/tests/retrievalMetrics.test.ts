@@ -17,22 +17,19 @@ await jest.unstable_mockModule('../utils/config.js', () => ({
   }),
 }));
 
-await jest.unstable_mockModule('@langchain/openai', () => ({
-  OpenAIEmbeddings: class {
+await jest.unstable_mockModule('../utils/factory.js', () => ({
+  createEmbeddingProvider: () => ({
+    provider: 'mock',
+    model: 'mock',
+    dimension: 3,
     async embedQuery(_q: string) {
       return [0.1, 0.2, 0.3];
-    }
-  },
-}));
-
-await jest.unstable_mockModule('../utils/factory.js', () => ({
-  createVectorClient: () => ({
-    index: (_name: string) => {
-      const idx: any = { query: queryMock };
-      idx.namespace = (_ns: string) => idx;
-      return idx;
     },
   }),
+  createVectorClient: () => ({
+    backend: 'mock',
+    namespace: (_ns?: string) => ({ query: queryMock }),
+  }),
 }));
 
 describe('Retrieval metrics', () => {
@@ -19,25 +19,22 @@ await jest.unstable_mockModule('../utils/config.js', () => ({
   }),
 }));
 
-await jest.unstable_mockModule('@langchain/openai', () => ({
-  OpenAIEmbeddings: class {
+await jest.unstable_mockModule('../utils/factory.js', () => ({
+  createEmbeddingProvider: () => ({
+    provider: 'mock',
+    model: 'mock',
+    dimension: 3,
     async embedQuery(_q: string) {
       return [0.1, 0.2, 0.3];
-    }
-  },
-}));
-
-await jest.unstable_mockModule('../utils/factory.js', () => ({
-  createVectorClient: () => ({
-    index: (_name: string) => {
-      const idx: any = {
-        query: queryMock,
-        upsert: upsertMock,
-      };
-      idx.namespace = (_ns: string) => idx;
-      return idx;
     },
   }),
+  createVectorClient: () => ({
+    backend: 'mock',
+    namespace: (_ns?: string) => ({
+      query: queryMock,
+      upsert: upsertMock,
+    }),
+  }),
 }));
 let semanticGet: any;
 let semanticSet: any;
@@ -84,8 +81,8 @@ describe('Semantic cache', () => {
     const upsertCalls = (upsertMock as any).mock.calls as any[];
     expect(upsertCalls.length).toBeGreaterThan(0);
     const upsertArg = upsertCalls[0][0] as any;
-    expect(upsertArg).toHaveProperty('vectors');
-    const vec = upsertArg.vectors[0];
+    expect(Array.isArray(upsertArg)).toBe(true);
+    const vec = upsertArg[0];
     expect(vec).toHaveProperty('metadata');
     expect(vec.metadata.cachedResponse).toEqual(responseData);
   });
@@ -0,0 +1,146 @@
+import { jest } from '@jest/globals';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+await jest.unstable_mockModule('../utils/config.js', () => ({
+  loadConfig: () => ({
+    openaiApiKey: '',
+    pineconeApiKey: '',
+    pineconeIndexName: 'rag-index',
+    llmBackend: 'mock',
+    llmModel: 'mock-extractive',
+  }),
+}));
+
+process.env.RAG_TENANT_ACME = 'Acme:acme:sk_rag_acme';
+process.env.RAG_TENANT_GLOBEX = 'Globex:globex:sk_rag_globex';
+
+const { selectHistory, formatHistory, rewriteFollowUp, heuristicRewrite } = await import('../sessions/conversation.js');
+const { InMemorySessionStore } = await import('../sessions/sessionStore.js');
+const { sessionsRouter } = await import('../routes/sessions.js');
+const { errorHandler } = await import('../middleware/errorHandler.js');
+const { createLLMClient } = await import('../utils/factory.js');
+
+const turn = (role: 'user' | 'assistant', content: string, standaloneQuery?: string) => ({
+  role,
+  content,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  ...(standaloneQuery && { standaloneQuery }),
+});
+
+const history = [
+  turn('user', 'Who repairs the boiler?', 'Who repairs the boiler under the lease?'),
+  turn('assistant', 'The Landlord repairs the structure and boiler. [p1]'),
+];
+
+describe('conversation history', () => {
+  test('keeps the latest turns that fit the token budget, without citation markers', async () => {
+    const turns = [turn('user', 'An old question about rent deposits and notice periods'), ...history];
+
+    expect(await selectHistory(turns, 1000)).toHaveLength(3);
+    expect(await selectHistory(turns, 25)).toEqual(history);
+    expect(await selectHistory(turns, 5)).toEqual([]);
+    expect(formatHistory(history)).toBe('User: Who repairs the boiler?\nAssistant: The Landlord repairs the structure and boiler.');
+  });
+});
+
+describe('rewriteFollowUp', () => {
+  const followUp = 'And who pays for it?';
+
+  test('leaves the first question of a session alone', async () => {
+    expect(await rewriteFollowUp(followUp, [], { mode: 'llm' })).toEqual({ query: followUp, method: 'none' });
+  });
+
+  test('uses the model reply as the standalone query', async () => {
+    let prompt = '';
+    const llm = {
+      invoke: async (messages: any[]) => {
+        prompt = messages[1].content;
+        return { content: 'Standalone question: "Who pays for boiler repairs under the lease?"\n' };
+      },
+    } as any;
+
+    expect(await rewriteFollowUp(followUp, history, { mode: 'llm', llm })).toEqual({
+      query: 'Who pays for boiler repairs under the lease?',
+      method: 'llm',
+    });
+    // Earlier questions appear in their rewritten form
+    expect(prompt).toContain('User: Who repairs the boiler under the lease?');
+  });
+
+  test('falls back to the heuristic rewrite when the model fails', async () => {
+    const llm = {
+      invoke: async () => {
+        throw new Error('rate limited');
+      },
+    } as any;
+
+    const result = await rewriteFollowUp(followUp, history, { mode: 'llm', llm });
+    expect(result).toEqual({ query: 'And who pays for it? (repairs boiler under lease)', method: 'heuristic' });
+  });
+
+  test('the mock model answers rewrite prompts with the heuristic rewrite', async () => {
+    const llm = createLLMClient(undefined, undefined, 0);
+    const result = await rewriteFollowUp("what about the landlord's obligations?", [turn('user', "What are the tenant's repair obligations?")], {
+      mode: 'llm',
+      llm,
+    });
+
+    expect(result).toEqual({ query: "what about the landlord's obligations? (tenant repair)", method: 'llm' });
+    expect(heuristicRewrite('Is it allowed?')).toBe('Is it allowed?');
+  });
+});
+
+describe('InMemorySessionStore', () => {
+  test('appends turns and deletes sessions', async () => {
+    const store = new InMemorySessionStore();
+    const session = await store.create('acme', 'acme');
+
+    const updated = await store.appendTurns(session.id, history);
+    expect(updated?.turns).toEqual(history);
+    expect((await store.get(session.id))?.turns).toEqual(history);
+
+    expect(await store.delete(session.id)).toBe(true);
+    expect(await store.get(session.id)).toBeNull();
+    expect(await store.appendTurns(session.id, history)).toBeNull();
+  });
+});
+
+describe('/sessions routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/sessions', sessionsRouter);
+    app.use(errorHandler);
+    server = await new Promise((resolve) => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const call = (method: string, path: string, apiKey: string) =>
+    fetch(`${baseUrl}${path}`, { method, headers: { 'x-api-key': apiKey } });
+
+  test('creates, reads and deletes a session of the calling tenant only', async () => {
+    const created = await call('POST', '/sessions', 'sk_rag_acme');
+    expect(created.status).toBe(201);
+    const { data: session } = (await created.json()) as any;
+    expect(session).toMatchObject({ tenantId: 'acme', namespace: 'acme', turns: [] });
+    expect(Date.parse(session.expiresAt)).toBeGreaterThan(Date.now());
+
+    expect((await call('GET', `/sessions/${session.id}`, 'sk_rag_acme')).status).toBe(200);
+    expect((await call('GET', `/sessions/${session.id}`, 'sk_rag_globex')).status).toBe(404);
+    expect((await call('DELETE', `/sessions/${session.id}`, 'sk_rag_globex')).status).toBe(404);
+
+    expect((await call('DELETE', `/sessions/${session.id}`, 'sk_rag_acme')).status).toBe(200);
+    expect((await call('GET', `/sessions/${session.id}`, 'sk_rag_acme')).status).toBe(404);
+  });
+});
@@ -3,31 +3,224 @@
  * Throws clear errors on startup if any required vars are missing
  */
 
+export type VectorBackend = 'pinecone' | 'memory' | 'file' | 'chroma' | 'pgvector';
+
+export const VECTOR_BACKENDS: readonly VectorBackend[] = ['pinecone', 'memory', 'file', 'chroma', 'pgvector'];
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+export const EMBEDDING_PROVIDERS: readonly EmbeddingProviderName[] = ['openai', 'openai-compatible', 'local'];
+
+export type LLMBackend = 'openai' | 'azure' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export const LLM_BACKENDS: readonly LLMBackend[] = ['openai', 'azure', 'anthropic', 'openai-compatible', 'mock'];
+
+export type RetrievalMode = 'dense' | 'sparse' | 'hybrid';
+
+export const RETRIEVAL_MODES: readonly RetrievalMode[] = ['dense', 'sparse', 'hybrid'];
+
+export type HybridFusion = 'rrf' | 'weighted';
+
+export type RerankerName = 'none' | 'llm' | 'http' | 'lexical';
+
+export const RERANKERS: readonly RerankerName[] = ['none', 'llm', 'http', 'lexical'];
+
+export type QueryRewriteMode = 'llm' | 'heuristic' | 'off';
+
+export const QUERY_REWRITE_MODES: readonly QueryRewriteMode[] = ['llm', 'heuristic', 'off'];
+
+export type GroundingVerifierName = 'off' | 'lexical' | 'llm';
+
+export const GROUNDING_VERIFIERS: readonly GroundingVerifierName[] = ['off', 'lexical', 'llm'];
+
+export type StrictGroundingMode = 'off' | 'refuse' | 'regenerate';
+
+export const STRICT_GROUNDING_MODES: readonly StrictGroundingMode[] = ['off', 'refuse', 'regenerate'];
+
+export interface LLMFallbackConfig {
+  backend: LLMBackend;
+  model: string;
+}
+
 export interface RAGConfig {
   openaiApiKey: string;
   pineconeApiKey: string;
   pineconeIndexName: string;
   pineconeEnvironment?: string | undefined;
+  vectorBackend: VectorBackend;
+  /** Directory for VECTOR_BACKEND=file */
+  vectorStoreDir: string;
+  chromaUrl: string;
+  chromaTenant: string;
+  chromaDatabase: string;
+  chromaCollectionPrefix: string;
+  chromaAuthToken?: string | undefined;
+  /** Postgres connection string for VECTOR_BACKEND=pgvector */
+  pgvectorUrl: string;
+  pgvectorTable: string;
+  pgvectorDimension: number;
+  embeddingProvider: EmbeddingProviderName;
+  embeddingModel: string;
+  /** Requested output size; defaults to the model's native size (local: 1536) */
+  embeddingDimensions?: number | undefined;
+  /** Base URL for EMBEDDING_PROVIDER=openai-compatible, e.g. http://localhost:11434/v1 */
+  embeddingBaseUrl?: string | undefined;
+  embeddingApiKey?: string | undefined;
+  llmBackend: LLMBackend;
+  /** Chat model (or Azure deployment) used when a request does not name one */
+  llmModel: string;
+  anthropicApiKey?: string | undefined;
+  azureOpenAIApiKey?: string | undefined;
+  /** e.g. https://my-resource.openai.azure.com */
+  azureOpenAIEndpoint?: string | undefined;
+  azureOpenAIDeployment?: string | undefined;
+  azureOpenAIApiVersion: string;
+  /** Base URL for LLM_BACKEND=openai-compatible, e.g. http://localhost:11434/v1 */
+  llmBaseUrl?: string | undefined;
+  llmApiKey?: string | undefined;
+  /** Providers tried in order after the primary one fails or its breaker is open (LLM_FALLBACKS) */
+  llmFallbacks: LLMFallbackConfig[];
+  /** Per-attempt timeout before falling through to the next provider */
+  llmTimeoutMs: number;
+  /** Retrieval mode used when a /query request does not set retrievalMode */
+  retrievalMode: RetrievalMode;
+  /** How hybrid mode merges dense and BM25 results */
+  hybridFusion: HybridFusion;
+  /** Dense share of the score for hybridFusion=weighted (0-1; BM25 gets the rest) */
+  hybridDenseWeight: number;
+  /** Second-stage reranker; 'none' disables reranking */
+  reranker: RerankerName;
+  /** Passages retrieved for the reranker to choose the top-k from */
+  rerankCandidates: number;
+  /** Base URL of the /rerank endpoint for RERANKER=http */
+  rerankBaseUrl?: string | undefined;
+  /** Cross-encoder model (http) or chat model (llm); defaults to the endpoint's / LLM's own */
+  rerankModel?: string | undefined;
+  rerankApiKey?: string | undefined;
+  /** RERANKER=http: whether the endpoint returns 0-1 relevance or raw logits */
+  rerankScoreScale: 'probability' | 'logit';
+  /** RERANKER=llm: one listwise call or one pointwise call per passage */
+  rerankLlmMode: 'listwise' | 'pointwise';
+  /** How session follow-ups become standalone retrieval queries (QUERY_REWRITE) */
+  queryRewrite: QueryRewriteMode;
+  /** How answer claims are checked against their cited passages; 'off' skips the check */
+  groundingVerifier: GroundingVerifierName;
+  /** Claims with a lower support score (0-1) are unsupported */
+  groundingThreshold: number;
+  /** What /query does with an unsupported answer unless the request says otherwise */
+  groundingStrict: StrictGroundingMode;
+  /** Retrieval confidence (0-1) below which /query abstains without calling the LLM; 0 (default) disables */
+  confidenceAbstainThreshold: number;
+  /** Cosine scores mapped to relevance 0 and 1 by the confidence model */
+  confidenceMinScore: number;
+  confidenceMaxScore: number;
+  /** BM25 score that counts as relevance 0.5 */
+  confidenceBm25Scale: number;
 }
 
 /**
  * Loads and validates configuration from environment variables
+ * Pinecone credentials are only required when VECTOR_BACKEND=pinecone (default),
+ * and a Postgres URL only when VECTOR_BACKEND=pgvector. OPENAI_API_KEY is
+ * required unless neither embeddings nor the LLM use OpenAI.
  * @throws Error if any required configuration is missing
  */
-import { logger } from './logger.js';
+import { logger, type Logger } from './logger.js';
+import { DEFAULT_LLM_MODELS } from '../llm/models.js';
 
-export function loadConfig(reqLogger?: any): RAGConfig {
+export function loadConfig(reqLogger?: Logger): RAGConfig {
   const log = reqLogger || logger;
   const openaiApiKey = process.env.OPENAI_API_KEY;
   const pineconeApiKey = process.env.PINECONE_API_KEY;
   const pineconeIndexName = process.env.PINECONE_INDEX_NAME;
   const pineconeEnvironment = process.env.PINECONE_ENVIRONMENT;
+  const vectorBackend = (process.env.VECTOR_BACKEND || 'pinecone') as VectorBackend;
+  const pgvectorUrl = process.env.PGVECTOR_URL || process.env.DATABASE_URL;
+
+  if (!VECTOR_BACKENDS.includes(vectorBackend)) {
+    log.error('Configuration validation failed - unknown vector backend', { vectorBackend });
+    throw new Error(
+      `Unknown VECTOR_BACKEND "${vectorBackend}". Supported: ${VECTOR_BACKENDS.join(', ')}`
+    );
+  }
+
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName;
+
+  if (!EMBEDDING_PROVIDERS.includes(embeddingProvider)) {
+    log.error('Configuration validation failed - unknown embedding provider', { embeddingProvider });
+    throw new Error(
+      `Unknown EMBEDDING_PROVIDER "${embeddingProvider}". Supported: ${EMBEDDING_PROVIDERS.join(', ')}`
+    );
+  }
+
+  const llmBackend = (process.env.LLM_BACKEND || 'openai') as LLMBackend;
+
+  if (!LLM_BACKENDS.includes(llmBackend)) {
+    log.error('Configuration validation failed - unknown LLM backend', { llmBackend });
+    throw new Error(`Unknown LLM_BACKEND "${llmBackend}". Supported: ${LLM_BACKENDS.join(', ')}`);
+  }
+
+  const retrievalMode = (process.env.RETRIEVAL_MODE || 'dense') as RetrievalMode;
+
+  if (!RETRIEVAL_MODES.includes(retrievalMode)) {
+    log.error('Configuration validation failed - unknown retrieval mode', { retrievalMode });
+    throw new Error(`Unknown RETRIEVAL_MODE "${retrievalMode}". Supported: ${RETRIEVAL_MODES.join(', ')}`);
+  }
+
+  const reranker = (process.env.RERANKER || 'none') as RerankerName;
+
+  if (!RERANKERS.includes(reranker)) {
+    log.error('Configuration validation failed - unknown reranker', { reranker });
+    throw new Error(`Unknown RERANKER "${reranker}". Supported: ${RERANKERS.join(', ')}`);
+  }
+
+  const queryRewrite = (process.env.QUERY_REWRITE || 'llm') as QueryRewriteMode;
+
+  if (!QUERY_REWRITE_MODES.includes(queryRewrite)) {
+    log.error('Configuration validation failed - unknown query rewrite mode', { queryRewrite });
+    throw new Error(`Unknown QUERY_REWRITE "${queryRewrite}". Supported: ${QUERY_REWRITE_MODES.join(', ')}`);
+  }
+
+  const groundingVerifier = (process.env.GROUNDING_VERIFIER || 'lexical') as GroundingVerifierName;
+
+  if (!GROUNDING_VERIFIERS.includes(groundingVerifier)) {
+    log.error('Configuration validation failed - unknown grounding verifier', { groundingVerifier });
+    throw new Error(`Unknown GROUNDING_VERIFIER "${groundingVerifier}". Supported: ${GROUNDING_VERIFIERS.join(', ')}`);
+  }
+
+  const groundingStrict = (process.env.GROUNDING_STRICT || 'off') as StrictGroundingMode;
+
+  if (!STRICT_GROUNDING_MODES.includes(groundingStrict)) {
+    log.error('Configuration validation failed - unknown strict grounding mode', { groundingStrict });
+    throw new Error(`Unknown GROUNDING_STRICT "${groundingStrict}". Supported: ${STRICT_GROUNDING_MODES.join(', ')}`);
+  }
+
+  const embeddingDimensions = process.env.EMBEDDING_DIMENSIONS
+    ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10)
+    : undefined;
+  const embeddingBaseUrl = process.env.EMBEDDING_BASE_URL;
+  const azureDeployment = process.env.AZURE_OPENAI_DEPLOYMENT;
+  const llmFallbacks = parseLLMFallbacks(process.env.LLM_FALLBACKS || '', azureDeployment, log);
+  const chainBackends = new Set<LLMBackend>([llmBackend, ...llmFallbacks.map((f) => f.backend)]);
+  const usesOpenAI = embeddingProvider === 'openai' || chainBackends.has('openai');
 
   const missing: string[] = [];
 
-  if (!openaiApiKey) missing.push('OPENAI_API_KEY');
-  if (!pineconeApiKey) missing.push('PINECONE_API_KEY');
-  if (!pineconeIndexName) missing.push('PINECONE_INDEX_NAME');
+  if (!openaiApiKey && usesOpenAI) missing.push('OPENAI_API_KEY');
+  if (embeddingProvider === 'openai-compatible' && !embeddingBaseUrl) missing.push('EMBEDDING_BASE_URL');
+  if (vectorBackend === 'pinecone') {
+    if (!pineconeApiKey) missing.push('PINECONE_API_KEY');
+    if (!pineconeIndexName) missing.push('PINECONE_INDEX_NAME');
+  }
+  if (vectorBackend === 'pgvector' && !pgvectorUrl) missing.push('PGVECTOR_URL');
+  if (chainBackends.has('anthropic') && !process.env.ANTHROPIC_API_KEY) missing.push('ANTHROPIC_API_KEY');
+  if (chainBackends.has('azure')) {
+    if (!process.env.AZURE_OPENAI_API_KEY) missing.push('AZURE_OPENAI_API_KEY');
+    if (!process.env.AZURE_OPENAI_ENDPOINT) missing.push('AZURE_OPENAI_ENDPOINT');
+    if (!azureDeployment) missing.push('AZURE_OPENAI_DEPLOYMENT');
+  }
+  if (chainBackends.has('openai-compatible') && !process.env.LLM_BASE_URL) missing.push('LLM_BASE_URL');
+  if (reranker === 'http' && !process.env.RERANK_BASE_URL) missing.push('RERANK_BASE_URL');
 
   if (missing.length > 0) {
     log.error('Configuration validation failed - missing env vars', { missing });
@@ -38,10 +231,97 @@ export function loadConfig(reqLogger?: any): RAGConfig {
   }
 
   return {
-    openaiApiKey: openaiApiKey!,
-    pineconeApiKey: pineconeApiKey!,
-    pineconeIndexName: pineconeIndexName!,
+    openaiApiKey: openaiApiKey || '',
+    pineconeApiKey: pineconeApiKey || '',
+    pineconeIndexName: pineconeIndexName || 'rag-index',
     pineconeEnvironment,
+    vectorBackend,
+    vectorStoreDir: process.env.VECTOR_STORE_DIR || 'data/vector-store',
+    chromaUrl: process.env.CHROMA_URL || 'http://localhost:8000',
+    chromaTenant: process.env.CHROMA_TENANT || 'default_tenant',
+    chromaDatabase: process.env.CHROMA_DATABASE || 'default_database',
+    chromaCollectionPrefix: process.env.CHROMA_COLLECTION_PREFIX || 'rag',
+    chromaAuthToken: process.env.CHROMA_AUTH_TOKEN,
+    pgvectorUrl: pgvectorUrl || '',
+    pgvectorTable: process.env.PGVECTOR_TABLE || 'rag_vectors',
+    pgvectorDimension: parseInt(process.env.PGVECTOR_DIMENSION || '1536', 10),
+    embeddingProvider,
+    // ada-002 was LangChain's implicit default, so existing indexes keep matching
+    embeddingModel:
+      process.env.EMBEDDING_MODEL || (embeddingProvider === 'local' ? 'hashing-tf' : 'text-embedding-ada-002'),
+    embeddingDimensions,
+    embeddingBaseUrl,
+    embeddingApiKey: process.env.EMBEDDING_API_KEY,
+    llmBackend,
+    llmModel: resolveDefaultLLMModel(llmBackend, azureDeployment),
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+    azureOpenAIApiKey: process.env.AZURE_OPENAI_API_KEY,
+    azureOpenAIEndpoint: process.env.AZURE_OPENAI_ENDPOINT,
+    azureOpenAIDeployment: azureDeployment,
+    azureOpenAIApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    llmBaseUrl: process.env.LLM_BASE_URL,
+    llmApiKey: process.env.LLM_API_KEY,
+    llmFallbacks,
+    llmTimeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000', 10),
+    retrievalMode,
+    hybridFusion: process.env.HYBRID_FUSION === 'weighted' ? 'weighted' : 'rrf',
+    hybridDenseWeight: parseFloat(process.env.HYBRID_DENSE_WEIGHT || '0.5'),
+    reranker,
+    rerankCandidates: parseInt(process.env.RERANK_CANDIDATES || '20', 10),
+    rerankBaseUrl: process.env.RERANK_BASE_URL,
+    rerankModel: process.env.RERANK_MODEL,
+    rerankApiKey: process.env.RERANK_API_KEY,
+    rerankScoreScale: process.env.RERANK_SCORE_SCALE === 'logit' ? 'logit' : 'probability',
+    rerankLlmMode: process.env.RERANK_LLM_MODE === 'pointwise' ? 'pointwise' : 'listwise',
+    queryRewrite,
+    groundingVerifier,
+    groundingThreshold: parseFloat(process.env.GROUNDING_THRESHOLD || '0.5'),
+    groundingStrict,
+    confidenceAbstainThreshold: parseFloat(process.env.CONFIDENCE_ABSTAIN_THRESHOLD || '0'),
+    confidenceMinScore: parseFloat(process.env.CONFIDENCE_MIN_SCORE || '0.1'),
+    confidenceMaxScore: parseFloat(process.env.CONFIDENCE_MAX_SCORE || '0.6'),
+    confidenceBm25Scale: parseFloat(process.env.CONFIDENCE_BM25_SCALE || '5'),
   };
 }
 
+/**
+ * LLM_MODEL wins for the primary backend; otherwise the backend's own variable
+ * (OPENAI_MODEL, ANTHROPIC_MODEL, AZURE_OPENAI_DEPLOYMENT) or its default.
+ */
+function resolveDefaultLLMModel(backend: LLMBackend, azureDeployment?: string, isPrimary = true): string {
+  if (isPrimary && process.env.LLM_MODEL) return process.env.LLM_MODEL;
+  switch (backend) {
+    case 'openai':
+      return process.env.OPENAI_MODEL || DEFAULT_LLM_MODELS.openai;
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL || DEFAULT_LLM_MODELS.anthropic;
+    case 'azure':
+      return azureDeployment || DEFAULT_LLM_MODELS.azure;
+    default:
+      return DEFAULT_LLM_MODELS[backend];
+  }
+}
+
+/**
+ * Parses LLM_FALLBACKS, a comma-separated list of `backend` or
+ * `backend:model` entries, e.g. `anthropic:claude-3-5-haiku-latest,openai-compatible:llama3.1:8b,mock`.
+ * Everything after the first colon is the model, so Ollama tags survive.
+ */
+function parseLLMFallbacks(raw: string, azureDeployment: string | undefined, log: Logger): LLMFallbackConfig[] {
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const backend = (separator === -1 ? entry : entry.slice(0, separator)) as LLMBackend;
+      const model = separator === -1 ? '' : entry.slice(separator + 1).trim();
+
+      if (!LLM_BACKENDS.includes(backend)) {
+        log.error('Configuration validation failed - unknown fallback LLM backend', { entry });
+        throw new Error(`Unknown backend "${backend}" in LLM_FALLBACKS. Supported: ${LLM_BACKENDS.join(', ')}`);
+      }
+
+      return { backend, model: model || resolveDefaultLLMModel(backend, azureDeployment, false) };
+    });
+}
@@ -1,61 +1,298 @@
 /**
- * Factory helpers to create vector and LLM clients based on environment configuration.
- * Allows swapping implementations (pinecone, chroma, azure) via env variables.
+ * Factory helpers to create vector, embedding, LLM and reranker clients based on environment configuration.
+ * Allows swapping implementations (pinecone, memory, file, chroma, pgvector;
+ * openai, azure, anthropic, openai-compatible, mock; llm, http, lexical rerankers) via env variables.
  */
-import { Pinecone } from '@pinecone-database/pinecone';
-import { ChatOpenAI } from '@langchain/openai';
+import { ChatOpenAI, AzureChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { loadConfig } from './config.js';
-import type { RAGConfig } from './config.js';
-import { logger } from './logger.js';
+import type { RAGConfig, LLMBackend } from './config.js';
+import { logger, type Logger } from './logger.js';
+import type { VectorStore } from '../vector/vectorStore.js';
+import { PineconeVectorStore } from '../vector/pineconeStore.js';
+import { MemoryVectorStore } from '../vector/memoryStore.js';
+import { FileVectorStore } from '../vector/fileStore.js';
+import { ChromaVectorStore } from '../vector/chromaStore.js';
+import { PgVectorStore } from '../vector/pgvectorStore.js';
+import type { EmbeddingProvider } from '../embeddings/embeddingProvider.js';
+import { OpenAIEmbeddingProvider } from '../embeddings/openaiProvider.js';
+import { HttpEmbeddingProvider } from '../embeddings/httpProvider.js';
+import { HashingEmbeddingProvider } from '../embeddings/hashingProvider.js';
+import { DEFAULT_LLM_MODELS } from '../llm/models.js';
+import { MockChatModel } from '../llm/mockChatModel.js';
+import type { Reranker } from '../rerank/reranker.js';
+import { LLMReranker } from '../rerank/llmReranker.js';
+import { HttpReranker } from '../rerank/httpReranker.js';
+import { LexicalReranker } from '../rerank/lexicalReranker.js';
 
-export type VectorClient = any;
-export type LLMClient = any;
+export type VectorClient = VectorStore;
+export type LLMClient = BaseChatModel;
 
-export function createVectorClient(config?: RAGConfig, reqLogger?: any): VectorClient {
+// Process-local stores must be shared across calls, otherwise every request
+// would see an empty index.
+let memoryStoreInstance: MemoryVectorStore | null = null;
+const fileStoreInstances = new Map<string, FileVectorStore>();
+// One connection pool per database/table rather than one per request
+const pgvectorStoreInstances = new Map<string, PgVectorStore>();
+// Chroma stores cache collection IDs, so reuse them instead of looking collections up per request
+const chromaStoreInstances = new Map<string, ChromaVectorStore>();
+// Pinecone stores remember the index kind, so reuse them instead of describing the index per request
+const pineconeStoreInstances = new Map<string, PineconeVectorStore>();
+
+export function createVectorClient(config?: RAGConfig, reqLogger?: Logger): VectorClient {
   const log = reqLogger || logger;
   const cfg = config || loadConfig(log);
-  const backend = process.env.VECTOR_BACKEND || 'pinecone';
+  const backend = cfg.vectorBackend || 'pinecone';
 
   log.info('Factory: creating vector client', { backend });
 
   if (backend === 'pinecone') {
-    return new Pinecone({
-      apiKey: cfg.pineconeApiKey,
-      ...(cfg.pineconeEnvironment && { environment: cfg.pineconeEnvironment }),
-    });
+    const key = [cfg.pineconeApiKey, cfg.pineconeIndexName, cfg.pineconeEnvironment].join('#');
+    let store = pineconeStoreInstances.get(key);
+    if (!store) {
+      store = new PineconeVectorStore({
+        apiKey: cfg.pineconeApiKey,
+        indexName: cfg.pineconeIndexName,
+        environment: cfg.pineconeEnvironment,
+      });
+      pineconeStoreInstances.set(key, store);
+    }
+    return store;
+  }
+
+  if (backend === 'memory') {
+    if (!memoryStoreInstance) {
+      memoryStoreInstance = new MemoryVectorStore();
+    }
+    return memoryStoreInstance;
+  }
+
+  if (backend === 'file') {
+    const dir = cfg.vectorStoreDir || 'data/vector-store';
+    let store = fileStoreInstances.get(dir);
+    if (!store) {
+      store = new FileVectorStore(dir);
+      fileStoreInstances.set(dir, store);
+    }
+    return store;
   }
 
   if (backend === 'chroma') {
-    // Minimal placeholder: users can extend to use Chroma SDK or REST API
-    throw new Error('Chroma backend selected but not implemented in factory.');
+    const key = [cfg.chromaUrl, cfg.chromaTenant, cfg.chromaDatabase, cfg.chromaCollectionPrefix, cfg.chromaAuthToken].join('#');
+    let store = chromaStoreInstances.get(key);
+    if (!store) {
+      store = new ChromaVectorStore({
+        url: cfg.chromaUrl,
+        tenant: cfg.chromaTenant,
+        database: cfg.chromaDatabase,
+        collectionPrefix: cfg.chromaCollectionPrefix,
+        authToken: cfg.chromaAuthToken,
+      });
+      chromaStoreInstances.set(key, store);
+    }
+    return store;
   }
 
-  if (backend === 'azure') {
-    // Placeholder for Azure-based vector service
-    throw new Error('Azure vector backend not implemented in factory.');
+  if (backend === 'pgvector') {
+    const key = `${cfg.pgvectorUrl}#${cfg.pgvectorTable}`;
+    let store = pgvectorStoreInstances.get(key);
+    if (!store) {
+      store = new PgVectorStore({
+        connectionString: cfg.pgvectorUrl,
+        table: cfg.pgvectorTable,
+        dimension: cfg.pgvectorDimension,
+        autoMigrate: process.env.PGVECTOR_AUTO_MIGRATE !== 'false',
+      });
+      pgvectorStoreInstances.set(key, store);
+    }
+    return store;
   }
 
   throw new Error(`Unknown vector backend: ${backend}`);
 }
 
-export function createLLMClient(config?: RAGConfig, model?: string, temperature?: number, reqLogger?: any): LLMClient {
+/** Default output size of the local hashing embedder; matches OpenAI-sized indexes */
+const LOCAL_EMBEDDING_DIMENSIONS = 1536;
+
+export function createEmbeddingProvider(config?: RAGConfig, reqLogger?: Logger): EmbeddingProvider {
   const log = reqLogger || logger;
   const cfg = config || loadConfig(log);
-  const backend = process.env.LLM_BACKEND || 'openai';
+  const provider = cfg.embeddingProvider || 'openai';
+
+  log.debug('Factory: creating embedding provider', { provider, model: cfg.embeddingModel });
+
+  if (provider === 'openai') {
+    return new OpenAIEmbeddingProvider({
+      apiKey: cfg.openaiApiKey,
+      model: cfg.embeddingModel || 'text-embedding-ada-002',
+      dimensions: cfg.embeddingDimensions,
+    });
+  }
+
+  if (provider === 'openai-compatible') {
+    if (!cfg.embeddingBaseUrl) {
+      throw new Error('EMBEDDING_BASE_URL is required for EMBEDDING_PROVIDER=openai-compatible');
+    }
+    return new HttpEmbeddingProvider({
+      baseUrl: cfg.embeddingBaseUrl,
+      model: cfg.embeddingModel,
+      apiKey: cfg.embeddingApiKey,
+      dimensions: cfg.embeddingDimensions,
+    });
+  }
+
+  if (provider === 'local') {
+    return new HashingEmbeddingProvider({
+      dimensions: cfg.embeddingDimensions || LOCAL_EMBEDDING_DIMENSIONS,
+    });
+  }
 
-  log.info('Factory: creating LLM client', { backend, model });
+  throw new Error(`Unknown embedding provider: ${provider}`);
+}
+
+export interface LLMTarget {
+  backend: LLMBackend;
+  /** Model name (Azure: deployment name) used for the call, metrics and pricing */
+  model: string;
+}
+
+/**
+ * Resolves which backend and model a call will use: an explicit model wins,
+ * then the configured per-backend default.
+ */
+export function resolveLLMTarget(config: RAGConfig, model?: string): LLMTarget {
+  const backend = config.llmBackend || (process.env.LLM_BACKEND as LLMBackend) || 'openai';
+  return {
+    backend,
+    model: model || config.llmModel || DEFAULT_LLM_MODELS[backend] || DEFAULT_LLM_MODELS.openai,
+  };
+}
+
+/**
+ * Resolves the ordered provider chain: the primary target, then LLM_FALLBACKS.
+ * Duplicate backend/model pairs are dropped so a provider is tried once.
+ */
+export function resolveLLMChain(config: RAGConfig, model?: string): LLMTarget[] {
+  const chain = [resolveLLMTarget(config, model), ...(config.llmFallbacks || [])];
+  const seen = new Set<string>();
+  return chain.filter((target) => {
+    const key = `${target.backend}:${target.model}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function createLLMClient(config?: RAGConfig, model?: string, temperature?: number, reqLogger?: Logger): LLMClient {
+  const log = reqLogger || logger;
+  const cfg = config || loadConfig(log);
+  return createLLMClientForTarget(resolveLLMTarget(cfg, model), cfg, temperature, log);
+}
+
+/**
+ * Creates the chat model for a specific backend/model pair (used by the fallback chain)
+ */
+export function createLLMClientForTarget(
+  target: LLMTarget,
+  config?: RAGConfig,
+  temperature?: number,
+  reqLogger?: Logger
+): LLMClient {
+  const log = reqLogger || logger;
+  const cfg = config || loadConfig(log);
+  const backend = target.backend;
+  const resolvedTemperature = typeof temperature === 'number' ? temperature : 0.7;
+
+  log.info('Factory: creating LLM client', { backend, model: target.model });
 
   if (backend === 'openai') {
     return new ChatOpenAI({
       openAIApiKey: cfg.openaiApiKey,
-      modelName: model || process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      temperature: typeof temperature === 'number' ? temperature : 0.7,
+      modelName: target.model,
+      temperature: resolvedTemperature,
     });
   }
 
   if (backend === 'azure') {
-    throw new Error('Azure LLM backend not implemented in factory.');
+    return new AzureChatOpenAI({
+      ...(cfg.azureOpenAIApiKey && { azureOpenAIApiKey: cfg.azureOpenAIApiKey }),
+      ...(cfg.azureOpenAIEndpoint && { azureOpenAIEndpoint: cfg.azureOpenAIEndpoint }),
+      azureOpenAIApiDeploymentName: target.model,
+      azureOpenAIApiVersion: cfg.azureOpenAIApiVersion,
+      temperature: resolvedTemperature,
+    });
+  }
+
+  if (backend === 'anthropic') {
+    return new ChatAnthropic({
+      ...(cfg.anthropicApiKey && { apiKey: cfg.anthropicApiKey }),
+      model: target.model,
+      temperature: resolvedTemperature,
+      maxTokens: parseInt(process.env.ANTHROPIC_MAX_TOKENS || '1024', 10),
+    });
+  }
+
+  if (backend === 'openai-compatible') {
+    if (!cfg.llmBaseUrl) {
+      throw new Error('LLM_BASE_URL is required for LLM_BACKEND=openai-compatible');
+    }
+    // Ollama and LM Studio ignore the key, but the OpenAI client refuses an empty one
+    return new ChatOpenAI({
+      apiKey: cfg.llmApiKey || 'not-needed',
+      model: target.model,
+      temperature: resolvedTemperature,
+      configuration: { baseURL: cfg.llmBaseUrl },
+    });
+  }
+
+  if (backend === 'mock') {
+    // Deterministic extractive answers; no network (see src/llm/mockChatModel.ts)
+    return new MockChatModel({
+      model: target.model,
+      latencyMs: parseInt(process.env.MOCK_LLM_LATENCY_MS || '0', 10),
+      tokenLatencyMs: parseInt(process.env.MOCK_LLM_TOKEN_LATENCY_MS || '0', 10),
+      maxCitations: parseInt(process.env.MOCK_LLM_MAX_CITATIONS || '2', 10),
+    });
   }
 
   throw new Error(`Unknown LLM backend: ${backend}`);
 }
+
+/**
+ * Creates the configured reranker, or null when RERANKER=none
+ */
+export function createReranker(config?: RAGConfig, reqLogger?: Logger): Reranker | null {
+  const log = reqLogger || logger;
+  const cfg = config || loadConfig(log);
+  const name = cfg.reranker || 'none';
+
+  log.debug('Factory: creating reranker', { reranker: name });
+
+  if (name === 'none') {
+    return null;
+  }
+
+  if (name === 'lexical') {
+    return new LexicalReranker();
+  }
+
+  if (name === 'http') {
+    if (!cfg.rerankBaseUrl) {
+      throw new Error('RERANK_BASE_URL is required for RERANKER=http');
+    }
+    return new HttpReranker({
+      baseUrl: cfg.rerankBaseUrl,
+      model: cfg.rerankModel,
+      apiKey: cfg.rerankApiKey,
+      scoreScale: cfg.rerankScoreScale,
+    });
+  }
+
+  if (name === 'llm') {
+    // Deterministic judging: temperature 0
+    return new LLMReranker(createLLMClient(cfg, cfg.rerankModel, 0, log), { mode: cfg.rerankLlmMode });
+  }
+
+  throw new Error(`Unknown reranker: ${name}`);
+}
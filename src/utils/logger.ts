@@ -22,3 +22,8 @@ export const logger = {
   child,
 };
 
+/**
+ * Logger accepted by functions that take a request-scoped logger (`req.log`,
+ * see requestId middleware); defaults to `logger`
+ */
+export type Logger = Pick<typeof logger, 'info' | 'warn' | 'error' | 'debug'>;
@@ -1,42 +1,308 @@
-import { readFile } from 'fs/promises';
+/**
+ * Prompt Template Registry
+ *
+ * Answer prompts are named, versioned templates in PROMPTS_DIR (default
+ * src/prompts), one file per version: `<name>_v<version>.txt`, e.g.
+ * `rag_grounded_v2.txt`. A template is referenced as `name@version`, or by
+ * `name` alone for its latest version.
+ *
+ * File format: a front matter block declaring the variables the template
+ * uses, then its sections, each opened by a `[system]`, `[developer]` or
+ * `[user]` line. system and user are required; system and developer are
+ * joined into the system prompt.
+ *
+ *   ---
+ *   description: Grounded answers that refuse without supporting context
+ *   variables: retrieved_context, user_question
+ *   ---
+ *   [system]
+ *   You are a retrieval-augmented assistant. ...
+ *   [user]
+ *   Context:
+ *   {{retrieved_context}}
+ *
+ *   Question:
+ *   {{user_question}}
+ *
+ * Variables: retrieved_context and user_question (required), and
+ * conversation_history (earlier turns of a session; templates that do not
+ * declare it get the history before their user section). Placeholders must be
+ * declared and declared variables must be used; templates are validated when
+ * the registry loads, on first use (the server does so at startup).
+ *
+ * The registry is kept until reloadPromptRegistry() (POST /admin/prompts/reload)
+ * reads PROMPTS_DIR again, so new versions go live without a restart.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { logger } from './logger.js';
 
 type RenderedPrompts = {
   systemPrompt: string;
   userPrompt: string;
+  /** Template the prompts were rendered from */
+  template: { name: string; version: number };
 };
 
-let cachedTemplate: string | null = null;
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  /** `name@version` */
+  id: string;
+  description?: string;
+  variables: string[];
+  sections: { system: string; developer?: string; user: string };
+}
+
+/** Template used when neither the request nor the tenant picks one */
+export const DEFAULT_PROMPT_TEMPLATE = 'rag_grounded';
+
+/** Read on every load, so a reload picks up a changed PROMPTS_DIR */
+const promptsDir = () => process.env.PROMPTS_DIR || 'src/prompts';
+
+const REQUIRED_VARIABLES = ['retrieved_context', 'user_question'];
+const OPTIONAL_VARIABLES = ['conversation_history'];
+const SECTIONS = ['system', 'developer', 'user'] as const;
+
+const fileNamePattern = /^([a-z0-9][a-z0-9_-]*)_v(\d+)\.txt$/;
+const placeholderPattern = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Thrown for malformed template files and unknown template references */
+export class PromptTemplateError extends Error {
+  constructor(
+    message: string,
+    /** Template file the error is in, when it is about a file */
+    readonly file?: string
+  ) {
+    super(file ? `${message} (in ${file})` : message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * Parses and validates one template file
+ *
+ * @throws PromptTemplateError describing the first problem found
+ */
+export function parsePromptTemplate(raw: string, fileName: string): PromptTemplate {
+  const fail = (message: string): never => {
+    throw new PromptTemplateError(message, fileName);
+  };
+
+  const nameMatch = fileName.match(fileNamePattern);
+  if (!nameMatch) fail('File name must be <name>_v<version>.txt, e.g. rag_grounded_v2.txt');
+  const [, name, versionText] = nameMatch!;
+  const version = parseInt(versionText!, 10);
+  if (version < 1) fail('Version must be 1 or higher');
+
+  const frontMatter = raw.replace(/\r\n/g, '\n').match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+  if (!frontMatter) fail('Template must start with a front matter block between --- lines');
+
+  const fields = new Map<string, string>();
+  for (const line of frontMatter![1]!.split('\n')) {
+    if (!line.trim()) continue;
+    const field = line.match(/^([a-z]+):\s*(.*)$/);
+    if (!field) fail(`Malformed front matter line "${line}"`);
+    fields.set(field![1]!, field![2]!.trim());
+  }
+  const unknownFields = Array.from(fields.keys()).filter((key) => key !== 'description' && key !== 'variables');
+  if (unknownFields.length > 0) fail(`Unknown front matter field "${unknownFields[0]}"`);
+  if (!fields.has('variables')) fail('Front matter must declare the template variables');
+
+  const variables = fields
+    .get('variables')!
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  for (const variable of variables) {
+    if (!REQUIRED_VARIABLES.includes(variable) && !OPTIONAL_VARIABLES.includes(variable)) {
+      fail(`Unknown variable "${variable}". Supported: ${[...REQUIRED_VARIABLES, ...OPTIONAL_VARIABLES].join(', ')}`);
+    }
+  }
+  const missing = REQUIRED_VARIABLES.filter((v) => !variables.includes(v));
+  if (missing.length > 0) fail(`Required variables not declared: ${missing.join(', ')}`);
+
+  // Sections: a [name] line opens a section; text before the first one is an error
+  const sections: Partial<Record<(typeof SECTIONS)[number], string>> = {};
+  let current: (typeof SECTIONS)[number] | undefined;
+  const body: string[] = [];
+  const closeSection = () => {
+    if (current) sections[current] = body.splice(0).join('\n').trim();
+  };
 
-async function loadTemplate(path = 'src/prompts/rag_grounded_v2.txt'): Promise<string> {
-  if (cachedTemplate) return cachedTemplate;
-  const raw = await readFile(path, 'utf-8');
-  cachedTemplate = raw;
-  return raw;
+  for (const line of frontMatter![2]!.split('\n')) {
+    const header = line.match(/^\[([a-z]+)\]\s*$/);
+    if (header) {
+      const section = header[1] as (typeof SECTIONS)[number];
+      if (!SECTIONS.includes(section)) fail(`Unknown section [${header[1]}]. Supported: ${SECTIONS.join(', ')}`);
+      if (section in sections || section === current) fail(`Duplicate section [${section}]`);
+      closeSection();
+      current = section;
+    } else if (current) {
+      body.push(line);
+    } else if (line.trim()) {
+      fail('Text before the first section');
+    }
+  }
+  closeSection();
+
+  if (!sections.system) fail('Missing or empty [system] section');
+  if (!sections.user) fail('Missing or empty [user] section');
+
+  const used = new Set(
+    Object.values(sections).flatMap((text) => Array.from(text.matchAll(placeholderPattern), (m) => m[1]!))
+  );
+  for (const placeholder of used) {
+    if (!variables.includes(placeholder)) fail(`Placeholder {{${placeholder}}} is not a declared variable`);
+  }
+  const unused = variables.filter((v) => !used.has(v));
+  if (unused.length > 0) fail(`Declared variables not used: ${unused.join(', ')}`);
+
+  const description = fields.get('description');
+  return {
+    name: name!,
+    version,
+    id: `${name}@${version}`,
+    ...(description && { description }),
+    variables,
+    sections: {
+      system: sections.system!,
+      ...(sections.developer && { developer: sections.developer }),
+      user: sections.user!,
+    },
+  };
+}
+
+/**
+ * Validated templates by name and version
+ */
+export class PromptRegistry {
+  private readonly templates = new Map<string, PromptTemplate[]>();
+
+  constructor(templates: PromptTemplate[]) {
+    for (const template of templates) {
+      const versions = this.templates.get(template.name) || [];
+      if (versions.some((t) => t.version === template.version)) {
+        throw new PromptTemplateError(`Duplicate prompt template ${template.id}`);
+      }
+      versions.push(template);
+      versions.sort((a, b) => a.version - b.version);
+      this.templates.set(template.name, versions);
+    }
+  }
+
+  /**
+   * Template for `name@version`, or the latest version for `name`
+   *
+   * @throws PromptTemplateError for unknown names and versions
+   */
+  get(ref: string): PromptTemplate {
+    const [name = '', versionText] = ref.split('@');
+    const versions = this.templates.get(name);
+    if (!versions) {
+      throw new PromptTemplateError(`Unknown prompt template "${name}". Available: ${this.list().map((t) => t.id).join(', ')}`);
+    }
+    if (versionText === undefined) return versions[versions.length - 1]!;
+
+    const template = versions.find((t) => String(t.version) === versionText);
+    if (!template) {
+      throw new PromptTemplateError(
+        `Unknown version "${versionText}" of prompt template "${name}". Available: ${versions.map((t) => t.version).join(', ')}`
+      );
+    }
+    return template;
+  }
+
+  has(ref: string): boolean {
+    try {
+      this.get(ref);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** All templates, by name then version */
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.keys())
+      .sort()
+      .flatMap((name) => this.templates.get(name)!);
+  }
 }
 
-function extractSections(template: string): { system: string; developer: string; user: string } {
-  // Split by top-level section headers: 'System', 'Developer', 'User'
-  const systemIndex = template.indexOf('\nDeveloper');
-  const developerIndex = template.indexOf('\nUser');
+/**
+ * Reads and validates every template file in a directory
+ *
+ * @throws PromptTemplateError for the first invalid file
+ */
+export function loadPromptRegistry(dir: string = promptsDir()): PromptRegistry {
+  const files = readdirSync(dir)
+    .filter((file) => file.endsWith('.txt'))
+    .sort();
+  return new PromptRegistry(files.map((file) => parsePromptTemplate(readFileSync(join(dir, file), 'utf-8'), file)));
+}
 
-  const system = template.slice(0, systemIndex).replace(/^System\s*/i, '').trim();
-  const developer = template.slice(systemIndex + '\nDeveloper'.length, developerIndex).trim();
-  const user = template.slice(developerIndex + '\nUser'.length).trim();
+let registry: PromptRegistry | null = null;
 
-  return { system, developer, user };
+/**
+ * Registry of PROMPTS_DIR, loaded on first use (the server loads it at startup)
+ */
+export function getPromptRegistry(): PromptRegistry {
+  return registry || reloadPromptRegistry();
 }
 
-export async function renderRagPrompts(contexts: string[], question: string): Promise<RenderedPrompts> {
-  const template = await loadTemplate();
-  const { system, developer, user } = extractSections(template);
+/**
+ * Reads PROMPTS_DIR again and replaces the registry. The current registry
+ * stays in use when a file is invalid.
+ *
+ * @throws PromptTemplateError for the first invalid file
+ */
+export function reloadPromptRegistry(): PromptRegistry {
+  const dir = promptsDir();
+  registry = loadPromptRegistry(dir);
+  logger.info('Prompt templates loaded', { dir, templates: registry.list().map((t) => t.id) });
+  return registry;
+}
+
+export interface RenderRagPromptsOptions {
+  /** Earlier turns of a session (see sessions/conversation.ts) */
+  history?: string | undefined;
+  /** Template reference, `name` or `name@version` (default: DEFAULT_PROMPT_TEMPLATE) */
+  template?: string | undefined;
+  /** Registry to resolve the template in (default: getPromptRegistry()) */
+  registry?: PromptRegistry;
+}
 
-  const systemPrompt = [system, developer].filter(Boolean).join('\n\n');
+/**
+ * Renders the RAG answer prompts from a registered template
+ *
+ * @throws PromptTemplateError when the template is unknown
+ */
+export async function renderRagPrompts(
+  contexts: string[],
+  question: string,
+  options: RenderRagPromptsOptions = {}
+): Promise<RenderedPrompts> {
+  const template = (options.registry || getPromptRegistry()).get(options.template || DEFAULT_PROMPT_TEMPLATE);
+  const { system, developer, user } = template.sections;
 
-  const retrievedContext = contexts.join('\n\n');
+  const values: Record<string, string> = {
+    retrieved_context: contexts.join('\n\n'),
+    user_question: question,
+    conversation_history: options.history || '(none)',
+  };
+  // One pass, so placeholders inside the substituted text are left alone
+  const fill = (text: string) => text.replace(placeholderPattern, (_match, name: string) => values[name] ?? '');
 
-  const userBlock = user.replace('{{retrieved_context}}', retrievedContext).replace('{{user_question}}', question);
+  const systemPrompt = [system, developer].filter(Boolean).map((text) => fill(text!)).join('\n\n');
+  const userBlock = fill(user);
+  const userPrompt =
+    options.history && !template.variables.includes('conversation_history')
+      ? `Conversation so far:\n${options.history}\n\n${userBlock}`
+      : userBlock;
 
-  return { systemPrompt, userPrompt: userBlock };
+  return { systemPrompt, userPrompt, template: { name: template.name, version: template.version } };
 }
 
 export default { renderRagPrompts };
@@ -0,0 +1,76 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Used by streaming responses (POST /query?stream=true). Each event is a
+ * named `event:` line with a JSON `data:` line. A comment line is sent every
+ * 15s so proxies do not close an idle stream while the LLM is thinking.
+ */
+
+import type { Response } from 'express';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export interface SseStream {
+  /** False once the stream ended or the client disconnected */
+  readonly open: boolean;
+  /** Sends an event; ignored after the stream closed */
+  send(event: string, data: unknown): void;
+  end(): void;
+}
+
+/**
+ * Writes one event to a response whose SSE headers were already sent
+ */
+export function writeSseEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/** True when the response is an event stream (headers already sent) */
+export function isSseResponse(res: Response): boolean {
+  return res.headersSent && String(res.getHeader('Content-Type') ?? '').startsWith('text/event-stream');
+}
+
+/**
+ * Sends the SSE headers and returns the stream. `onDisconnect` runs when the
+ * client goes away before end() is called.
+ */
+export function openSseStream(res: Response, onDisconnect?: () => void): SseStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable response buffering in nginx
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let open = true;
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  const close = () => {
+    open = false;
+    clearInterval(heartbeat);
+  };
+
+  res.on('close', () => {
+    if (!open) return;
+    close();
+    // Ended elsewhere (e.g. the error handler's error event) is not a disconnect
+    if (!res.writableEnded) onDisconnect?.();
+  });
+
+  return {
+    get open() {
+      return open;
+    },
+    send(event, data) {
+      if (open) writeSseEvent(res, event, data);
+    },
+    end() {
+      if (!open) return;
+      close();
+      res.end();
+    },
+  };
+}
@@ -2,22 +2,40 @@
  * Token counting utility
  * - Attempts to use @dqbd/tiktoken if available for accurate counts
  * - Falls back to a simple heuristic (chars / 4) if tiktoken is not installed
+ *
+ * The encoder is loaded once and shared with the token-window chunking
+ * strategy (see getTokenCounter).
  */
-export async function countTokens(text: string, model?: string): Promise<number> {
-  if (!text) return 0;
 
+/** Average characters per token assumed by the fallback heuristic */
+const CHARS_PER_TOKEN = 4;
+
+let counterPromise: Promise<(text: string) => number> | undefined;
+
+async function loadTokenCounter(): Promise<(text: string) => number> {
   // Try to dynamically import tiktoken if present
   try {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
     const tiktoken = await import('@dqbd/tiktoken');
     // Map model to encoding when possible; default to 'gpt2' safe encoding
-    const encodingName = 'gpt2';
-    const enc = tiktoken.getEncoding(encodingName);
-    const tokens = enc.encode(text).length;
-    try { enc.free(); } catch (e) { /* ignore */ }
-    return tokens;
+    const enc = tiktoken.get_encoding('gpt2');
+    return (text: string) => (text ? enc.encode(text).length : 0);
   } catch (err) {
     // Fallback heuristic: average 4 chars per token (conservative)
-    return Math.ceil(text.length / 4);
+    return (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
   }
 }
+
+/**
+ * Synchronous token counter (tiktoken or the heuristic), for callers that
+ * count many short strings, e.g. the text splitter's length function
+ */
+export function getTokenCounter(): Promise<(text: string) => number> {
+  counterPromise ??= loadTokenCounter();
+  return counterPromise;
+}
+
+export async function countTokens(text: string, model?: string): Promise<number> {
+  if (!text) return 0;
+  const count = await getTokenCounter();
+  return count(text);
+}
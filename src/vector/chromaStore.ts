@@ -0,0 +1,395 @@
+/**
+ * Chroma Vector Store
+ *
+ * VectorStore implementation over Chroma's HTTP API (v2, Chroma >= 0.6).
+ * Selected with VECTOR_BACKEND=chroma.
+ *
+ * Mapping:
+ * - Each namespace is a Chroma collection named `<prefix>-ns-<namespace>`
+ *   (`<prefix>-default` for the default namespace). The original namespace is
+ *   kept in collection metadata so stats report our names, not Chroma's.
+ * - Collections use cosine space; Chroma returns distances, which are
+ *   converted back to similarity scores (score = 1 - distance) so thresholds
+ *   like SEMANTIC_CACHE_THRESHOLD mean the same thing on every backend.
+ * - Chroma metadata cannot hold arrays, so string[] values are stored as JSON
+ *   strings and decoded on read. Filters on array fields only match exact JSON.
+ */
+
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger.js';
+import type {
+  MetadataFilter,
+  VectorListOptions,
+  VectorListResponse,
+  VectorMatch,
+  VectorMetadata,
+  VectorMetadataValue,
+  VectorNamespace,
+  VectorQueryOptions,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from './vectorStore.js';
+
+export interface ChromaStoreOptions {
+  url: string;
+  tenant: string;
+  database: string;
+  collectionPrefix: string;
+  authToken?: string | undefined;
+}
+
+interface ChromaCollection {
+  id: string;
+  name: string;
+  metadata?: Record<string, unknown> | null;
+  dimension?: number | null;
+}
+
+interface ChromaGetResponse {
+  ids: string[];
+  embeddings?: number[][] | null;
+  metadatas?: (Record<string, unknown> | null)[] | null;
+}
+
+interface ChromaQueryResponse {
+  ids: string[][];
+  distances?: (number | null)[][] | null;
+  embeddings?: number[][][] | null;
+  metadatas?: (Record<string, unknown> | null)[][] | null;
+}
+
+// Reserved metadata keys used by this adapter
+const NAMESPACE_KEY = 'rag_namespace';
+const ARRAY_KEYS_KEY = '_rag_array_keys';
+const DEFAULT_LIST_LIMIT = 100;
+/** IDs read per /get call while matching a list prefix */
+const LIST_SCAN_BATCH = 1000;
+const CHROMA_OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin']);
+
+/**
+ * Build a valid Chroma collection name (3-512 chars of [a-zA-Z0-9._-],
+ * alphanumeric at both ends). Names that needed rewriting get a hash suffix
+ * so two namespaces can never collapse onto the same collection.
+ */
+export function chromaCollectionName(prefix: string, namespace: string): string {
+  if (!namespace) return `${prefix}-default`;
+
+  const raw = `${prefix}-ns-${namespace}`;
+  const sanitized = raw.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/\.{2,}/g, '_');
+  const name = sanitized === raw
+    ? sanitized
+    : `${sanitized}-${createHash('sha1').update(namespace).digest('hex').slice(0, 8)}`;
+  return name.replace(/^[^a-zA-Z0-9]+/, '').replace(/[^a-zA-Z0-9]+$/, '').slice(0, 512);
+}
+
+/**
+ * Translate a Pinecone-style filter into a Chroma `where` clause.
+ * Chroma requires exactly one key per object, so multi-field filters are
+ * wrapped in $and and shorthand equality is expanded to $eq.
+ */
+export function toChromaWhere(filter: MetadataFilter): Record<string, unknown> {
+  const clauses: Record<string, unknown>[] = [];
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      const nested = (Array.isArray(condition) ? condition : []).map((c) => toChromaWhere(c as MetadataFilter));
+      clauses.push(nested.length === 1 ? nested[0]! : { [key]: nested });
+      continue;
+    }
+    if (key.startsWith('$')) {
+      throw new Error(`Unsupported filter combinator for Chroma: ${key}`);
+    }
+
+    if (typeof condition === 'object' && condition !== null && !Array.isArray(condition)) {
+      for (const [operator, operand] of Object.entries(condition)) {
+        if (!CHROMA_OPERATORS.has(operator)) {
+          throw new Error(`Unsupported filter operator for Chroma: ${operator}`);
+        }
+        clauses.push({ [key]: { [operator]: operand } });
+      }
+    } else {
+      clauses.push({ [key]: { $eq: condition } });
+    }
+  }
+
+  if (clauses.length === 1) return clauses[0]!;
+  return { $and: clauses };
+}
+
+// Older Chroma versions report missing collections as 500 "does not exist"
+function isNotFound(error: unknown): boolean {
+  const status = (error as Error & { status?: number }).status;
+  const message = error instanceof Error ? error.message : '';
+  return status === 404 || /does not exist|not found/i.test(message);
+}
+
+function encodeMetadata(metadata: VectorMetadata | undefined): Record<string, string | number | boolean> | null {
+  if (!metadata) return null;
+
+  const encoded: Record<string, string | number | boolean> = {};
+  const arrayKeys: string[] = [];
+  for (const [key, value] of Object.entries(metadata)) {
+    if (Array.isArray(value)) {
+      encoded[key] = JSON.stringify(value);
+      arrayKeys.push(key);
+    } else {
+      encoded[key] = value;
+    }
+  }
+  if (arrayKeys.length > 0) {
+    encoded[ARRAY_KEYS_KEY] = arrayKeys.join(',');
+  }
+  return encoded;
+}
+
+function decodeMetadata(metadata: Record<string, unknown> | null | undefined): VectorMetadata | undefined {
+  if (!metadata) return undefined;
+
+  const arrayKeys = new Set(
+    typeof metadata[ARRAY_KEYS_KEY] === 'string' ? (metadata[ARRAY_KEYS_KEY] as string).split(',') : []
+  );
+  const decoded: VectorMetadata = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (key === ARRAY_KEYS_KEY || value === null || value === undefined) continue;
+    if (arrayKeys.has(key) && typeof value === 'string') {
+      try {
+        decoded[key] = JSON.parse(value) as string[];
+        continue;
+      } catch {
+        // fall through and keep the raw string
+      }
+    }
+    decoded[key] = value as VectorMetadataValue;
+  }
+  return decoded;
+}
+
+export class ChromaVectorStore implements VectorStore {
+  readonly backend: string = 'chroma';
+  readonly unsupportedFilterOperators: readonly string[] = ['$exists'];
+
+  private readonly options: ChromaStoreOptions;
+  private readonly baseUrl: string;
+  private collectionIds: Map<string, string> = new Map();
+
+  constructor(options: ChromaStoreOptions) {
+    this.options = options;
+    this.baseUrl = options.url.replace(/\/$/, '');
+  }
+
+  namespace(name: string = ''): VectorNamespace {
+    return {
+      name,
+      upsert: (records) => this.upsert(name, records),
+      query: (options) => this.query(name, options),
+      fetch: (ids) => this.fetch(name, ids),
+      deleteMany: (ids) => this.deleteWhere(name, { ids }),
+      deleteByFilter: (filter) => this.deleteWhere(name, { where: toChromaWhere(filter) }),
+      deleteAll: () => this.deleteAll(name),
+      list: (options) => this.list(name, options),
+    };
+  }
+
+  async describeIndexStats(): Promise<VectorStoreStats> {
+    const collections = await this.request<ChromaCollection[]>('GET', `${this.databasePath()}/collections`);
+    const prefix = `${this.options.collectionPrefix}-`;
+    const namespaces: VectorStoreStats['namespaces'] = {};
+    let totalRecordCount = 0;
+    let dimension: number | undefined;
+
+    for (const collection of collections) {
+      const namespace = collection.metadata?.[NAMESPACE_KEY];
+      if (typeof namespace !== 'string' || !collection.name.startsWith(prefix)) continue;
+
+      const recordCount = await this.request<number>('GET', `${this.collectionPath(collection.id)}/count`);
+      if (recordCount === 0) continue;
+
+      namespaces[namespace] = { recordCount };
+      totalRecordCount += recordCount;
+      if (dimension === undefined && typeof collection.dimension === 'number') {
+        dimension = collection.dimension;
+      }
+    }
+
+    return {
+      ...(dimension !== undefined && { dimension }),
+      totalRecordCount,
+      namespaces,
+    };
+  }
+
+  private databasePath(): string {
+    const { tenant, database } = this.options;
+    return `/api/v2/tenants/${encodeURIComponent(tenant)}/databases/${encodeURIComponent(database)}`;
+  }
+
+  private collectionPath(collectionId: string): string {
+    return `${this.databasePath()}/collections/${encodeURIComponent(collectionId)}`;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.authToken) {
+      headers.Authorization = `Bearer ${this.options.authToken}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      const error = new Error(`Chroma request failed: ${method} ${path} -> ${response.status} ${text.slice(0, 500)}`);
+      (error as Error & { status?: number }).status = response.status;
+      throw error;
+    }
+    return (text ? JSON.parse(text) : null) as T;
+  }
+
+  /**
+   * Resolve the collection ID for a namespace.
+   * With create=false, returns null when the collection does not exist yet.
+   */
+  private async collectionId(namespace: string, create: boolean): Promise<string | null> {
+    const cached = this.collectionIds.get(namespace);
+    if (cached) return cached;
+
+    const name = chromaCollectionName(this.options.collectionPrefix, namespace);
+    let collection: ChromaCollection;
+
+    if (create) {
+      collection = await this.request<ChromaCollection>('POST', `${this.databasePath()}/collections`, {
+        name,
+        get_or_create: true,
+        metadata: { 'hnsw:space': 'cosine', [NAMESPACE_KEY]: namespace },
+      });
+    } else {
+      try {
+        collection = await this.request<ChromaCollection>(
+          'GET',
+          `${this.databasePath()}/collections/${encodeURIComponent(name)}`
+        );
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    }
+
+    this.collectionIds.set(namespace, collection.id);
+    return collection.id;
+  }
+
+  private async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const id = (await this.collectionId(namespace, true))!;
+
+    await this.request('POST', `${this.collectionPath(id)}/upsert`, {
+      ids: records.map((r) => r.id),
+      embeddings: records.map((r) => r.values),
+      metadatas: records.map((r) => encodeMetadata(r.metadata)),
+    });
+
+    logger.debug('ChromaVectorStore upsert', { namespace: namespace || '(default)', count: records.length });
+  }
+
+  private async query(namespace: string, options: VectorQueryOptions): Promise<VectorQueryResponse> {
+    const id = await this.collectionId(namespace, false);
+    if (!id) return { matches: [], namespace };
+
+    const include = ['distances'];
+    if (options.includeMetadata) include.push('metadatas');
+    if (options.includeValues) include.push('embeddings');
+
+    const where = options.filter && Object.keys(options.filter).length > 0 ? toChromaWhere(options.filter) : undefined;
+    const response = await this.request<ChromaQueryResponse>('POST', `${this.collectionPath(id)}/query`, {
+      query_embeddings: [options.vector],
+      n_results: options.topK,
+      include,
+      ...(where && { where }),
+    });
+
+    const ids = response.ids[0] || [];
+    const matches: VectorMatch[] = ids.map((matchId, i) => {
+      const distance = response.distances?.[0]?.[i] ?? 1;
+      const match: VectorMatch = { id: matchId, score: 1 - distance };
+      const values = response.embeddings?.[0]?.[i];
+      if (options.includeValues && values) match.values = values;
+      const metadata = decodeMetadata(response.metadatas?.[0]?.[i]);
+      if (options.includeMetadata && metadata) match.metadata = metadata;
+      return match;
+    });
+
+    return { matches, namespace };
+  }
+
+  private async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    if (ids.length === 0) return [];
+    const id = await this.collectionId(namespace, false);
+    if (!id) return [];
+
+    const response = await this.request<ChromaGetResponse>('POST', `${this.collectionPath(id)}/get`, {
+      ids,
+      include: ['embeddings', 'metadatas'],
+    });
+
+    return response.ids.map((recordId, i) => {
+      const metadata = decodeMetadata(response.metadatas?.[i]);
+      return {
+        id: recordId,
+        values: response.embeddings?.[i] || [],
+        ...(metadata && { metadata }),
+      };
+    });
+  }
+
+  private async deleteWhere(namespace: string, selector: { ids?: string[]; where?: Record<string, unknown> }): Promise<void> {
+    if (selector.ids && selector.ids.length === 0) return;
+    const id = await this.collectionId(namespace, false);
+    if (!id) return;
+
+    await this.request('POST', `${this.collectionPath(id)}/delete`, selector);
+  }
+
+  private async deleteAll(namespace: string): Promise<void> {
+    const name = chromaCollectionName(this.options.collectionPrefix, namespace);
+    try {
+      await this.request('DELETE', `${this.databasePath()}/collections/${encodeURIComponent(name)}`);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+    this.collectionIds.delete(namespace);
+  }
+
+  private async list(namespace: string, options: VectorListOptions = {}): Promise<VectorListResponse> {
+    const id = await this.collectionId(namespace, false);
+    if (!id) return { ids: [] };
+
+    // Pages by Chroma offset (records in insertion order); the token is the
+    // offset of the next matching ID. Chroma has no ID prefix filter, so with
+    // a prefix IDs are read in batches and matched client-side.
+    const { prefix, limit = DEFAULT_LIST_LIMIT, paginationToken } = options;
+    const batchSize = prefix ? LIST_SCAN_BATCH : limit + 1;
+    const ids: string[] = [];
+    let offset = paginationToken ? parseInt(paginationToken, 10) || 0 : 0;
+
+    for (;;) {
+      const response = await this.request<ChromaGetResponse>('POST', `${this.collectionPath(id)}/get`, {
+        include: [],
+        limit: batchSize,
+        offset,
+      });
+      for (const [i, recordId] of response.ids.entries()) {
+        if (prefix && !recordId.startsWith(prefix)) continue;
+        // One match past the page: there is a next page, starting here
+        if (ids.length === limit) return { ids, nextToken: String(offset + i) };
+        ids.push(recordId);
+      }
+      if (response.ids.length < batchSize) return { ids };
+      offset += response.ids.length;
+    }
+  }
+}
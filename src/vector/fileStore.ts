@@ -0,0 +1,134 @@
+/**
+ * File-Backed Vector Store
+ *
+ * Same exact cosine search as MemoryVectorStore, but every namespace is
+ * persisted as a JSON file under a directory and reloaded at startup, so a
+ * single-node deployment keeps its index across restarts without a hosted
+ * vector DB. Selected with VECTOR_BACKEND=file (directory: VECTOR_STORE_DIR).
+ *
+ * Layout:
+ *   <dir>/_default.json        default namespace
+ *   <dir>/ns_<encoded>.json    named namespaces (URI-encoded name)
+ *
+ * Writes go to a temp file and are renamed into place, so a crash mid-write
+ * never leaves a truncated namespace file. Writes to the same namespace are
+ * serialized. Not safe for multiple processes sharing one directory.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
+import { rename, unlink, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { logger } from '../utils/logger.js';
+import { MemoryVectorStore } from './memoryStore.js';
+import type { VectorRecord } from './vectorStore.js';
+
+const DEFAULT_NAMESPACE_FILE = '_default.json';
+const NAMESPACE_FILE_PREFIX = 'ns_';
+
+interface NamespaceFile {
+  namespace: string;
+  dimension?: number;
+  records: VectorRecord[];
+}
+
+function fileNameFor(namespace: string): string {
+  return namespace ? `${NAMESPACE_FILE_PREFIX}${encodeURIComponent(namespace)}.json` : DEFAULT_NAMESPACE_FILE;
+}
+
+export class FileVectorStore extends MemoryVectorStore {
+  override readonly backend: string = 'file';
+
+  private readonly dir: string;
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  constructor(dir: string) {
+    super();
+    this.dir = resolve(dir);
+    mkdirSync(this.dir, { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Wait for all queued writes to reach disk
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingWrites.values());
+  }
+
+  override async close(): Promise<void> {
+    await this.flush();
+    await super.close();
+  }
+
+  protected override async onChange(namespace: string): Promise<void> {
+    // Chain onto the previous write for this namespace so snapshots land in order
+    const previous = this.pendingWrites.get(namespace) || Promise.resolve();
+    const next = previous.then(() => this.persist(namespace));
+    this.pendingWrites.set(namespace, next.catch(() => {}));
+    await next;
+  }
+
+  private async persist(namespace: string): Promise<void> {
+    const filePath = join(this.dir, fileNameFor(namespace));
+    const records = this.namespaces.get(namespace);
+
+    if (!records || records.size === 0) {
+      if (existsSync(filePath)) {
+        await unlink(filePath);
+      }
+      return;
+    }
+
+    const payload: NamespaceFile = {
+      namespace,
+      ...(this.dimension !== undefined && { dimension: this.dimension }),
+      records: Array.from(records.values()),
+    };
+
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(payload), 'utf-8');
+    await rename(tmpPath, filePath);
+  }
+
+  /**
+   * Load all namespace files synchronously (runs once at construction)
+   */
+  private load(): void {
+    let namespaceCount = 0;
+    let recordCount = 0;
+
+    for (const file of readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+      if (file !== DEFAULT_NAMESPACE_FILE && !file.startsWith(NAMESPACE_FILE_PREFIX)) continue;
+
+      const filePath = join(this.dir, file);
+      let parsed: NamespaceFile;
+      try {
+        parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as NamespaceFile;
+      } catch (error) {
+        throw new Error(
+          `Failed to load vector store file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      if (parsed.dimension !== undefined) {
+        if (this.dimension !== undefined && this.dimension !== parsed.dimension) {
+          throw new Error(
+            `Vector store file ${filePath} has dimension ${parsed.dimension}, expected ${this.dimension}`
+          );
+        }
+        this.dimension = parsed.dimension;
+      }
+
+      const records = new Map<string, VectorRecord>();
+      for (const record of parsed.records || []) {
+        records.set(record.id, record);
+      }
+      this.namespaces.set(parsed.namespace ?? '', records);
+      namespaceCount++;
+      recordCount += records.size;
+    }
+
+    logger.info('FileVectorStore loaded', { dir: this.dir, namespaceCount, recordCount });
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Metadata filters
+ *
+ * Evaluates Pinecone-style filters against a record's metadata so local
+ * backends behave the same as the hosted index:
+ * - Field operators: $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists
+ * - Combinators: $and, $or
+ * - Shorthand: `{ field: value }` is treated as `{ field: { $eq: value } }`
+ *
+ * Array-valued metadata matches $eq/$in when any element matches
+ * (same semantics as Pinecone list metadata).
+ *
+ * Also validates client-supplied filters (`/query` `filter`) before they
+ * reach a backend, see normalizeQueryFilter. Date ranges are supported
+ * through a numeric companion field: ingestion stores `<field>_ts` (epoch
+ * milliseconds) next to every ISO-8601 date value, and a range on a date
+ * operand is rewritten to that field, since Pinecone only ranges on numbers.
+ */
+
+import type { MetadataFilter, VectorMetadata } from './vectorStore.js';
+
+type Primitive = string | number | boolean;
+
+/** Suffix of the epoch-milliseconds companion written for ISO-8601 date metadata */
+export const DATE_TIMESTAMP_SUFFIX = '_ts';
+
+/** Limits on client-supplied filters */
+const MAX_FILTER_DEPTH = 4;
+const MAX_FILTER_CONDITIONS = 50;
+const MAX_IN_VALUES = 100;
+
+/** Metadata keys that can be filtered on (also enforced for caller metadata at ingest) */
+export const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_.-]{0,63}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const RANGE_OPERATORS = new Set(['$gt', '$gte', '$lt', '$lte']);
+const FIELD_OPERATORS = new Set(['$eq', '$ne', '$in', '$nin', '$exists', ...RANGE_OPERATORS]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function valuesOf(fieldValue: unknown): unknown[] {
+  return Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+}
+
+function compare(fieldValue: unknown, operand: unknown, op: (a: number | string, b: number | string) => boolean): boolean {
+  if (typeof fieldValue === 'number' && typeof operand === 'number') {
+    return op(fieldValue, operand);
+  }
+  if (typeof fieldValue === 'string' && typeof operand === 'string') {
+    return op(fieldValue, operand);
+  }
+  return false;
+}
+
+function matchesOperator(fieldValue: unknown, operator: string, operand: unknown): boolean {
+  switch (operator) {
+    case '$eq':
+      return valuesOf(fieldValue).some((v) => v === operand);
+    case '$ne':
+      return fieldValue !== undefined && !valuesOf(fieldValue).some((v) => v === operand);
+    case '$gt':
+      return compare(fieldValue, operand, (a, b) => a > b);
+    case '$gte':
+      return compare(fieldValue, operand, (a, b) => a >= b);
+    case '$lt':
+      return compare(fieldValue, operand, (a, b) => a < b);
+    case '$lte':
+      return compare(fieldValue, operand, (a, b) => a <= b);
+    case '$in': {
+      const options = Array.isArray(operand) ? (operand as Primitive[]) : [];
+      return valuesOf(fieldValue).some((v) => options.includes(v as Primitive));
+    }
+    case '$nin': {
+      const options = Array.isArray(operand) ? (operand as Primitive[]) : [];
+      return fieldValue !== undefined && !valuesOf(fieldValue).some((v) => options.includes(v as Primitive));
+    }
+    case '$exists':
+      return (fieldValue !== undefined) === Boolean(operand);
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+/**
+ * Returns true if the metadata satisfies the filter.
+ * An empty or missing filter matches everything.
+ */
+export function matchesFilter(metadata: VectorMetadata | undefined, filter?: MetadataFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+  const meta: Record<string, unknown> = metadata || {};
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and') {
+      const clauses = Array.isArray(condition) ? (condition as MetadataFilter[]) : [];
+      if (!clauses.every((clause) => matchesFilter(metadata, clause))) return false;
+      continue;
+    }
+
+    if (key === '$or') {
+      const clauses = Array.isArray(condition) ? (condition as MetadataFilter[]) : [];
+      if (!clauses.some((clause) => matchesFilter(metadata, clause))) return false;
+      continue;
+    }
+
+    const fieldValue = meta[key];
+
+    if (isPlainObject(condition)) {
+      for (const [operator, operand] of Object.entries(condition)) {
+        if (!matchesOperator(fieldValue, operator, operand)) return false;
+      }
+    } else if (!matchesOperator(fieldValue, '$eq', condition)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Epoch milliseconds for an ISO-8601 date or date-time string, otherwise undefined
+ */
+export function parseIsoDate(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !ISO_DATE.test(value)) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Adds a `<field>_ts` companion for every ISO-8601 date string so date
+ * range filters work on every backend
+ */
+export function withDateTimestamps(metadata: VectorMetadata): VectorMetadata {
+  const result: VectorMetadata = { ...metadata };
+  for (const [key, value] of Object.entries(metadata)) {
+    const time = parseIsoDate(value);
+    if (time !== undefined && !key.endsWith(DATE_TIMESTAMP_SUFFIX)) {
+      result[`${key}${DATE_TIMESTAMP_SUFFIX}`] = time;
+    }
+  }
+  return result;
+}
+
+/** Thrown for client-supplied filters that are malformed or exceed limits */
+export class FilterValidationError extends Error {
+  constructor(
+    message: string,
+    /** Location of the offending clause, e.g. `filter.$or[1].year` */
+    readonly path: string
+  ) {
+    super(`${message} (at ${path})`);
+    this.name = 'FilterValidationError';
+  }
+}
+
+export interface FilterValidationOptions {
+  /** Operators the target backend cannot evaluate (VectorStore.unsupportedFilterOperators) */
+  unsupportedOperators?: readonly string[] | undefined;
+}
+
+function isPrimitive(value: unknown): value is Primitive {
+  return (
+    typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+/**
+ * Validates a client-supplied filter and returns the form sent to the vector
+ * store: date range operands become `<field>_ts` epoch-millisecond ranges,
+ * and everything else is passed through unchanged.
+ *
+ * @throws FilterValidationError describing the first invalid clause
+ */
+export function normalizeQueryFilter(input: unknown, options: FilterValidationOptions = {}): MetadataFilter {
+  let conditions = 0;
+  const unsupported = new Set(options.unsupportedOperators || []);
+
+  const normalize = (filter: unknown, path: string, depth: number): MetadataFilter => {
+    if (!isPlainObject(filter)) {
+      throw new FilterValidationError('Filter must be an object', path);
+    }
+    if (depth > MAX_FILTER_DEPTH) {
+      throw new FilterValidationError(`Filter nesting exceeds ${MAX_FILTER_DEPTH} levels`, path);
+    }
+    if (Object.keys(filter).length === 0) {
+      throw new FilterValidationError('Filter must not be empty', path);
+    }
+
+    const result: MetadataFilter = {};
+    const merge = (field: string, clause: Record<string, unknown>) => {
+      const existing = result[field];
+      const base = existing === undefined ? {} : isPlainObject(existing) ? existing : { $eq: existing };
+      result[field] = { ...base, ...clause };
+    };
+
+    for (const [key, condition] of Object.entries(filter)) {
+      const keyPath = `${path}.${key}`;
+
+      if (key === '$and' || key === '$or') {
+        if (!Array.isArray(condition) || condition.length === 0) {
+          throw new FilterValidationError(`${key} must be a non-empty array of filters`, keyPath);
+        }
+        result[key] = condition.map((clause, i) => normalize(clause, `${keyPath}[${i}]`, depth + 1));
+        continue;
+      }
+      if (key.startsWith('$')) {
+        throw new FilterValidationError(`Unsupported combinator ${key}; use $and or $or`, keyPath);
+      }
+      if (!FIELD_NAME.test(key)) {
+        throw new FilterValidationError('Field names must be 1-64 letters, digits, "_", "." or "-"', keyPath);
+      }
+
+      if (++conditions > MAX_FILTER_CONDITIONS) {
+        throw new FilterValidationError(`Filter has more than ${MAX_FILTER_CONDITIONS} conditions`, keyPath);
+      }
+
+      if (!isPlainObject(condition)) {
+        if (!isPrimitive(condition)) {
+          throw new FilterValidationError('Equality values must be a string, number or boolean (use $in for lists)', keyPath);
+        }
+        result[key] = condition;
+        continue;
+      }
+
+      if (Object.keys(condition).length === 0) {
+        throw new FilterValidationError('Field condition must not be empty', keyPath);
+      }
+
+      for (const [operator, operand] of Object.entries(condition)) {
+        const opPath = `${keyPath}.${operator}`;
+        if (!FIELD_OPERATORS.has(operator)) {
+          throw new FilterValidationError(`Unsupported operator ${operator}`, opPath);
+        }
+        if (unsupported.has(operator)) {
+          throw new FilterValidationError(`Operator ${operator} is not supported by the configured vector store`, opPath);
+        }
+
+        if (operator === '$exists') {
+          if (typeof operand !== 'boolean') {
+            throw new FilterValidationError('$exists expects true or false', opPath);
+          }
+          merge(key, { [operator]: operand });
+        } else if (operator === '$in' || operator === '$nin') {
+          if (!Array.isArray(operand) || operand.length === 0 || operand.length > MAX_IN_VALUES) {
+            throw new FilterValidationError(`${operator} expects an array of 1-${MAX_IN_VALUES} values`, opPath);
+          }
+          if (!operand.every(isPrimitive)) {
+            throw new FilterValidationError(`${operator} values must be strings, numbers or booleans`, opPath);
+          }
+          merge(key, { [operator]: operand });
+        } else if (RANGE_OPERATORS.has(operator)) {
+          const time = parseIsoDate(operand);
+          if (time !== undefined) {
+            merge(`${key}${DATE_TIMESTAMP_SUFFIX}`, { [operator]: time });
+          } else if (typeof operand === 'number' && Number.isFinite(operand)) {
+            merge(key, { [operator]: operand });
+          } else {
+            throw new FilterValidationError(`${operator} expects a number or an ISO-8601 date`, opPath);
+          }
+        } else {
+          if (!isPrimitive(operand)) {
+            throw new FilterValidationError(`${operator} expects a string, number or boolean`, opPath);
+          }
+          merge(key, { [operator]: operand });
+        }
+      }
+    }
+
+    return result;
+  };
+
+  return normalize(input, 'filter', 1);
+}
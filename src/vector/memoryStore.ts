@@ -0,0 +1,194 @@
+/**
+ * In-Memory Vector Store
+ *
+ * Exact (brute-force) cosine search over vectors held in process memory.
+ * Selected with VECTOR_BACKEND=memory.
+ *
+ * Intended for tests, offline demos and small corpora: every query scans all
+ * vectors in the namespace, and data is lost on process restart.
+ */
+
+import { logger } from '../utils/logger.js';
+import { matchesFilter } from './filter.js';
+import {
+  cosineSimilarity,
+  type MetadataFilter,
+  type VectorListOptions,
+  type VectorListResponse,
+  type VectorMatch,
+  type VectorNamespace,
+  type VectorQueryOptions,
+  type VectorQueryResponse,
+  type VectorRecord,
+  type VectorStore,
+  type VectorStoreStats,
+} from './vectorStore.js';
+
+const DEFAULT_LIST_LIMIT = 100;
+
+export class MemoryVectorStore implements VectorStore {
+  readonly backend: string = 'memory';
+
+  protected namespaces: Map<string, Map<string, VectorRecord>> = new Map();
+  protected dimension: number | undefined;
+
+  namespace(name: string = ''): VectorNamespace {
+    return {
+      name,
+      upsert: (records) => this.upsert(name, records),
+      query: (options) => this.query(name, options),
+      fetch: (ids) => this.fetch(name, ids),
+      deleteMany: (ids) => this.deleteMany(name, ids),
+      deleteByFilter: (filter) => this.deleteByFilter(name, filter),
+      deleteAll: () => this.deleteAll(name),
+      list: (options) => this.list(name, options),
+    };
+  }
+
+  async describeIndexStats(): Promise<VectorStoreStats> {
+    const namespaces: VectorStoreStats['namespaces'] = {};
+    let totalRecordCount = 0;
+
+    for (const [name, records] of this.namespaces.entries()) {
+      if (records.size === 0) continue;
+      namespaces[name] = { recordCount: records.size };
+      totalRecordCount += records.size;
+    }
+
+    return {
+      ...(this.dimension !== undefined && { dimension: this.dimension }),
+      totalRecordCount,
+      namespaces,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.namespaces.clear();
+    this.dimension = undefined;
+  }
+
+  /**
+   * Called after any write to a namespace. Subclasses override to persist.
+   */
+  protected async onChange(_namespace: string): Promise<void> {
+    // no-op for the purely in-memory store
+  }
+
+  private records(namespace: string): Map<string, VectorRecord> {
+    let records = this.namespaces.get(namespace);
+    if (!records) {
+      records = new Map();
+      this.namespaces.set(namespace, records);
+    }
+    return records;
+  }
+
+  private async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    for (const record of records) {
+      if (this.dimension === undefined) {
+        this.dimension = record.values.length;
+      } else if (record.values.length !== this.dimension) {
+        throw new Error(
+          `Vector dimension ${record.values.length} does not match index dimension ${this.dimension} (id: ${record.id})`
+        );
+      }
+    }
+
+    const target = this.records(namespace);
+    for (const record of records) {
+      target.set(record.id, {
+        id: record.id,
+        values: [...record.values],
+        ...(record.metadata && { metadata: { ...record.metadata } }),
+      });
+    }
+
+    logger.debug('MemoryVectorStore upsert', { namespace: namespace || '(default)', count: records.length });
+    await this.onChange(namespace);
+  }
+
+  private async query(namespace: string, options: VectorQueryOptions): Promise<VectorQueryResponse> {
+    const records = this.namespaces.get(namespace);
+    if (!records || records.size === 0) {
+      return { matches: [], namespace };
+    }
+
+    const scored: VectorMatch[] = [];
+    for (const record of records.values()) {
+      if (!matchesFilter(record.metadata, options.filter)) continue;
+
+      const match: VectorMatch = {
+        id: record.id,
+        score: cosineSimilarity(options.vector, record.values),
+      };
+      if (options.includeValues) match.values = [...record.values];
+      if (options.includeMetadata && record.metadata) match.metadata = { ...record.metadata };
+      scored.push(match);
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    return { matches: scored.slice(0, options.topK), namespace };
+  }
+
+  private async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    const records = this.namespaces.get(namespace);
+    if (!records) return [];
+
+    return ids
+      .map((id) => records.get(id))
+      .filter((record): record is VectorRecord => record !== undefined)
+      .map((record) => ({
+        id: record.id,
+        values: [...record.values],
+        ...(record.metadata && { metadata: { ...record.metadata } }),
+      }));
+  }
+
+  private async deleteMany(namespace: string, ids: string[]): Promise<void> {
+    const records = this.namespaces.get(namespace);
+    if (!records || ids.length === 0) return;
+
+    for (const id of ids) {
+      records.delete(id);
+    }
+    await this.onChange(namespace);
+  }
+
+  private async deleteByFilter(namespace: string, filter: MetadataFilter): Promise<void> {
+    const records = this.namespaces.get(namespace);
+    if (!records) return;
+
+    for (const [id, record] of records.entries()) {
+      if (matchesFilter(record.metadata, filter)) {
+        records.delete(id);
+      }
+    }
+    await this.onChange(namespace);
+  }
+
+  private async deleteAll(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+    await this.onChange(namespace);
+  }
+
+  private async list(namespace: string, options: VectorListOptions = {}): Promise<VectorListResponse> {
+    const records = this.namespaces.get(namespace);
+    if (!records) return { ids: [] };
+
+    const { prefix, limit = DEFAULT_LIST_LIMIT, paginationToken } = options;
+    const ids = Array.from(records.keys())
+      .filter((id) => !prefix || id.startsWith(prefix))
+      .sort();
+
+    const offset = paginationToken ? parseInt(paginationToken, 10) || 0 : 0;
+    const page = ids.slice(offset, offset + limit);
+    const nextOffset = offset + page.length;
+
+    return {
+      ids: page,
+      ...(nextOffset < ids.length && { nextToken: String(nextOffset) }),
+    };
+  }
+}
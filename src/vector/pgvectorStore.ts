@@ -0,0 +1,345 @@
+/**
+ * Postgres / pgvector Vector Store
+ *
+ * Stores chunks in a single table with the embedding in a pgvector column and
+ * metadata as JSONB. Selected with VECTOR_BACKEND=pgvector.
+ *
+ * Tenant isolation: `namespace` is part of the primary key and every statement
+ * issued by a namespace handle is built with `namespace = $1` as its first
+ * predicate, so no query can read or delete across tenants.
+ *
+ * Schema (see migrate() and `npm run setup-pgvector`):
+ *   <table>(namespace TEXT, id TEXT, embedding vector(<dim>), metadata JSONB,
+ *           created_at, updated_at, PRIMARY KEY (namespace, id))
+ *   + HNSW index on embedding (cosine) and GIN index on metadata
+ *
+ * Scores are cosine similarity (1 - cosine distance), matching Pinecone.
+ */
+
+import pg from 'pg';
+import { logger } from '../utils/logger.js';
+import type {
+  MetadataFilter,
+  VectorListOptions,
+  VectorListResponse,
+  VectorMatch,
+  VectorMetadata,
+  VectorNamespace,
+  VectorQueryOptions,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from './vectorStore.js';
+
+export interface PgVectorStoreOptions {
+  connectionString: string;
+  table: string;
+  dimension: number;
+  /** Run migrate() automatically before the first operation (default: true) */
+  autoMigrate?: boolean;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+const UPSERT_BATCH_SIZE = 100;
+
+/**
+ * Translate a Pinecone-style filter into a SQL predicate over the JSONB
+ * `metadata` column. Values and keys are always bound as parameters; `params`
+ * is appended to and placeholders continue from its current length.
+ */
+export function toPgWhere(filter: MetadataFilter, params: unknown[]): string {
+  const bind = (value: unknown): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  // Scalar equality that also matches inside array-valued metadata
+  const eq = (key: string, value: unknown): string => {
+    const scalar = bind(JSON.stringify({ [key]: value }));
+    const inArray = bind(JSON.stringify({ [key]: [value] }));
+    return `(metadata @> ${scalar}::jsonb OR metadata @> ${inArray}::jsonb)`;
+  };
+
+  const range = (key: string, sqlOp: string, operand: unknown): string => {
+    const k = bind(key);
+    if (typeof operand === 'number') {
+      return `(jsonb_typeof(metadata -> ${k}) = 'number' AND (metadata ->> ${k})::numeric ${sqlOp} ${bind(operand)})`;
+    }
+    if (typeof operand === 'string') {
+      return `(jsonb_typeof(metadata -> ${k}) = 'string' AND (metadata ->> ${k}) ${sqlOp} ${bind(operand)})`;
+    }
+    throw new Error(`Range operators require a number or string operand (field: ${key})`);
+  };
+
+  const fieldClause = (key: string, operator: string, operand: unknown): string => {
+    switch (operator) {
+      case '$eq':
+        return eq(key, operand);
+      case '$ne':
+        return `(metadata ? ${bind(key)} AND NOT ${eq(key, operand)})`;
+      case '$in':
+      case '$nin': {
+        const options = Array.isArray(operand) ? operand : [];
+        const any = options.length > 0 ? `(${options.map((o) => eq(key, o)).join(' OR ')})` : 'FALSE';
+        return operator === '$in' ? any : `(metadata ? ${bind(key)} AND NOT ${any})`;
+      }
+      case '$gt':
+        return range(key, '>', operand);
+      case '$gte':
+        return range(key, '>=', operand);
+      case '$lt':
+        return range(key, '<', operand);
+      case '$lte':
+        return range(key, '<=', operand);
+      case '$exists':
+        return operand ? `(metadata ? ${bind(key)})` : `(NOT metadata ? ${bind(key)})`;
+      default:
+        throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  };
+
+  const clauses: string[] = [];
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      const nested = (Array.isArray(condition) ? condition : []).map((c) => toPgWhere(c as MetadataFilter, params));
+      if (nested.length > 0) {
+        clauses.push(`(${nested.join(key === '$and' ? ' AND ' : ' OR ')})`);
+      }
+      continue;
+    }
+
+    if (typeof condition === 'object' && condition !== null && !Array.isArray(condition)) {
+      for (const [operator, operand] of Object.entries(condition)) {
+        clauses.push(fieldClause(key, operator, operand));
+      }
+    } else {
+      clauses.push(fieldClause(key, '$eq', condition));
+    }
+  }
+
+  return clauses.length > 0 ? clauses.join(' AND ') : 'TRUE';
+}
+
+function toVectorLiteral(values: number[]): string {
+  return `[${values.join(',')}]`;
+}
+
+function parseVectorLiteral(literal: string): number[] {
+  return literal.replace(/^\[|\]$/g, '').split(',').filter(Boolean).map(Number);
+}
+
+export class PgVectorStore implements VectorStore {
+  readonly backend: string = 'pgvector';
+
+  private readonly pool: pg.Pool;
+  private readonly table: string;
+  private readonly dimension: number;
+  private readonly autoMigrate: boolean;
+  private migration: Promise<void> | null = null;
+
+  constructor(options: PgVectorStoreOptions) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(options.table)) {
+      throw new Error(`Invalid pgvector table name: ${options.table}`);
+    }
+    this.pool = new pg.Pool({ connectionString: options.connectionString });
+    this.table = options.table;
+    this.dimension = options.dimension;
+    this.autoMigrate = options.autoMigrate !== false;
+
+    this.pool.on('error', (err: Error) => {
+      logger.error('pgvector pool error', { error: err.message });
+    });
+  }
+
+  /**
+   * Create the extension, table and indexes if they do not exist (idempotent)
+   */
+  async migrate(): Promise<void> {
+    const t = this.table;
+    await this.pool.query('CREATE EXTENSION IF NOT EXISTS vector');
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${t} (
+        namespace TEXT NOT NULL,
+        id TEXT NOT NULL,
+        embedding vector(${this.dimension}) NOT NULL,
+        metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (namespace, id)
+      )
+    `);
+    await this.pool.query(
+      `CREATE INDEX IF NOT EXISTS ${t}_embedding_idx ON ${t} USING hnsw (embedding vector_cosine_ops)`
+    );
+    await this.pool.query(
+      `CREATE INDEX IF NOT EXISTS ${t}_metadata_idx ON ${t} USING gin (metadata jsonb_path_ops)`
+    );
+    logger.info('pgvector schema ready', { table: t, dimension: this.dimension });
+  }
+
+  namespace(name: string = ''): VectorNamespace {
+    return {
+      name,
+      upsert: (records) => this.upsert(name, records),
+      query: (options) => this.query(name, options),
+      fetch: (ids) => this.fetch(name, ids),
+      deleteMany: (ids) => this.deleteMany(name, ids),
+      deleteByFilter: (filter) => this.deleteByFilter(name, filter),
+      deleteAll: () => this.deleteAll(name),
+      list: (options) => this.list(name, options),
+    };
+  }
+
+  async describeIndexStats(): Promise<VectorStoreStats> {
+    await this.ready();
+    const result = await this.pool.query<{ namespace: string; count: string }>(
+      `SELECT namespace, count(*) AS count FROM ${this.table} GROUP BY namespace`
+    );
+
+    const namespaces: VectorStoreStats['namespaces'] = {};
+    let totalRecordCount = 0;
+    for (const row of result.rows) {
+      const recordCount = Number(row.count);
+      namespaces[row.namespace] = { recordCount };
+      totalRecordCount += recordCount;
+    }
+
+    return { dimension: this.dimension, totalRecordCount, namespaces };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private async ready(): Promise<void> {
+    if (!this.autoMigrate) return;
+    if (!this.migration) {
+      this.migration = this.migrate().catch((error) => {
+        this.migration = null;
+        throw error;
+      });
+    }
+    await this.migration;
+  }
+
+  private async upsert(namespace: string, records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.ready();
+
+    for (const record of records) {
+      if (record.values.length !== this.dimension) {
+        throw new Error(
+          `Vector dimension ${record.values.length} does not match index dimension ${this.dimension} (id: ${record.id})`
+        );
+      }
+    }
+
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      const batch = records.slice(i, i + UPSERT_BATCH_SIZE);
+      const params: unknown[] = [namespace];
+      const rows = batch.map((record) => {
+        params.push(record.id, toVectorLiteral(record.values), JSON.stringify(record.metadata || {}));
+        const n = params.length;
+        return `($1, $${n - 2}, $${n - 1}::vector, $${n}::jsonb)`;
+      });
+
+      await this.pool.query(
+        `INSERT INTO ${this.table} (namespace, id, embedding, metadata)
+         VALUES ${rows.join(', ')}
+         ON CONFLICT (namespace, id) DO UPDATE
+           SET embedding = EXCLUDED.embedding, metadata = EXCLUDED.metadata, updated_at = now()`,
+        params
+      );
+    }
+
+    logger.debug('PgVectorStore upsert', { namespace: namespace || '(default)', count: records.length });
+  }
+
+  private async query(namespace: string, options: VectorQueryOptions): Promise<VectorQueryResponse> {
+    await this.ready();
+    const params: unknown[] = [namespace, toVectorLiteral(options.vector), options.topK];
+    const where = options.filter ? toPgWhere(options.filter, params) : 'TRUE';
+
+    const result = await this.pool.query<{ id: string; score: number; metadata: VectorMetadata; embedding: string }>(
+      `SELECT id, metadata, embedding::text AS embedding, 1 - (embedding <=> $2::vector) AS score
+         FROM ${this.table}
+        WHERE namespace = $1 AND ${where}
+        ORDER BY embedding <=> $2::vector
+        LIMIT $3`,
+      params
+    );
+
+    const matches: VectorMatch[] = result.rows.map((row) => {
+      const match: VectorMatch = { id: row.id, score: Number(row.score) };
+      if (options.includeValues) match.values = parseVectorLiteral(row.embedding);
+      if (options.includeMetadata) match.metadata = row.metadata;
+      return match;
+    });
+
+    return { matches, namespace };
+  }
+
+  private async fetch(namespace: string, ids: string[]): Promise<VectorRecord[]> {
+    if (ids.length === 0) return [];
+    await this.ready();
+
+    const result = await this.pool.query<{ id: string; metadata: VectorMetadata; embedding: string }>(
+      `SELECT id, metadata, embedding::text AS embedding FROM ${this.table} WHERE namespace = $1 AND id = ANY($2)`,
+      [namespace, ids]
+    );
+    return result.rows.map((row) => ({
+      id: row.id,
+      values: parseVectorLiteral(row.embedding),
+      metadata: row.metadata,
+    }));
+  }
+
+  private async deleteMany(namespace: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.ready();
+    await this.pool.query(`DELETE FROM ${this.table} WHERE namespace = $1 AND id = ANY($2)`, [namespace, ids]);
+  }
+
+  private async deleteByFilter(namespace: string, filter: MetadataFilter): Promise<void> {
+    await this.ready();
+    const params: unknown[] = [namespace];
+    const where = toPgWhere(filter, params);
+    await this.pool.query(`DELETE FROM ${this.table} WHERE namespace = $1 AND ${where}`, params);
+  }
+
+  private async deleteAll(namespace: string): Promise<void> {
+    await this.ready();
+    await this.pool.query(`DELETE FROM ${this.table} WHERE namespace = $1`, [namespace]);
+  }
+
+  private async list(namespace: string, options: VectorListOptions = {}): Promise<VectorListResponse> {
+    await this.ready();
+    const { prefix, limit = DEFAULT_LIST_LIMIT, paginationToken } = options;
+
+    // Keyset pagination: the token is the last ID of the previous page
+    const params: unknown[] = [namespace, limit + 1];
+    let where = 'namespace = $1';
+    if (prefix) {
+      params.push(prefix);
+      where += ` AND starts_with(id, $${params.length})`;
+    }
+    if (paginationToken) {
+      params.push(paginationToken);
+      where += ` AND id COLLATE "C" > $${params.length}`;
+    }
+
+    const result = await this.pool.query<{ id: string }>(
+      `SELECT id FROM ${this.table} WHERE ${where} ORDER BY id COLLATE "C" LIMIT $2`,
+      params
+    );
+    const ids = result.rows.map((row) => row.id);
+    const hasMore = ids.length > limit;
+    const page = hasMore ? ids.slice(0, limit) : ids;
+
+    return {
+      ids: page,
+      ...(hasMore && { nextToken: page[page.length - 1]! }),
+    };
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Pinecone Vector Store
+ *
+ * Thin adapter from the VectorStore interface onto a Pinecone index.
+ * Selected with VECTOR_BACKEND=pinecone (the default).
+ *
+ * Serverless and pod-based indexes support different operations: only
+ * serverless indexes list vector IDs, only pod indexes delete by metadata
+ * filter. The index type is looked up once (describeIndex); on serverless,
+ * deleteByFilter lists the namespace and deletes the matching IDs, and on pod
+ * indexes list() throws, so document listing and lexical index rebuilds
+ * need a serverless index.
+ */
+
+import { Pinecone, type Index, type RecordMetadata } from '@pinecone-database/pinecone';
+import { matchesFilter } from './filter.js';
+import type {
+  MetadataFilter,
+  VectorListOptions,
+  VectorListResponse,
+  VectorMetadata,
+  VectorNamespace,
+  VectorQueryOptions,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from './vectorStore.js';
+
+export interface PineconeStoreOptions {
+  apiKey: string;
+  indexName: string;
+  environment?: string | undefined;
+}
+
+type IndexKind = 'serverless' | 'pod';
+
+/** IDs per list page and per fetch/delete call when deleting by filter on serverless */
+const SCAN_PAGE_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+
+export class PineconeVectorStore implements VectorStore {
+  readonly backend: string = 'pinecone';
+
+  private readonly client: Pinecone;
+  private readonly indexName: string;
+  private readonly index: Index<RecordMetadata>;
+  private kind: Promise<IndexKind> | null = null;
+
+  constructor(options: PineconeStoreOptions) {
+    this.client = new Pinecone({
+      apiKey: options.apiKey,
+      ...(options.environment && { environment: options.environment }),
+    });
+    this.indexName = options.indexName;
+    this.index = this.client.index(options.indexName);
+  }
+
+  /**
+   * Serverless or pod-based, looked up on first use (retried after a failed lookup)
+   */
+  private indexKind(): Promise<IndexKind> {
+    if (!this.kind) {
+      this.kind = this.client
+        .describeIndex(this.indexName)
+        .then((model): IndexKind => (model.spec.serverless ? 'serverless' : 'pod'))
+        .catch((error) => {
+          this.kind = null;
+          throw error;
+        });
+    }
+    return this.kind;
+  }
+
+  namespace(name: string = ''): VectorNamespace {
+    // Pinecone's default namespace is addressed by not scoping the index
+    const target = name ? this.index.namespace(name) : this.index;
+
+    return {
+      name,
+
+      upsert: async (records: VectorRecord[]) => {
+        if (records.length === 0) return;
+        await target.upsert(records);
+      },
+
+      query: async (options: VectorQueryOptions): Promise<VectorQueryResponse> => {
+        const response = await target.query({
+          vector: options.vector,
+          topK: options.topK,
+          includeMetadata: options.includeMetadata ?? false,
+          includeValues: options.includeValues ?? false,
+          ...(options.filter && { filter: options.filter }),
+        });
+
+        return {
+          namespace: response.namespace ?? name,
+          matches: (response.matches || []).map((match) => ({
+            id: match.id,
+            score: match.score ?? 0,
+            ...(options.includeValues && match.values && { values: match.values }),
+            ...(match.metadata && { metadata: match.metadata as VectorMetadata }),
+          })),
+        };
+      },
+
+      fetch: async (ids: string[]): Promise<VectorRecord[]> => {
+        if (ids.length === 0) return [];
+        const response = await target.fetch(ids);
+        return Object.values(response.records || {}).map((record) => ({
+          id: record.id,
+          values: record.values || [],
+          ...(record.metadata && { metadata: record.metadata as VectorMetadata }),
+        }));
+      },
+
+      deleteMany: async (ids: string[]) => {
+        if (ids.length === 0) return;
+        await target.deleteMany(ids);
+      },
+
+      deleteByFilter: async (filter: MetadataFilter) => {
+        if ((await this.indexKind()) === 'pod') {
+          await target.deleteMany(filter);
+          return;
+        }
+
+        // Serverless indexes do not delete by filter: scan the namespace for matches
+        const matching: string[] = [];
+        let paginationToken: string | undefined;
+        do {
+          const page = await target.listPaginated({
+            limit: SCAN_PAGE_SIZE,
+            ...(paginationToken && { paginationToken }),
+          });
+          const ids = (page.vectors || []).map((v) => v.id).filter((id): id is string => Boolean(id));
+          if (ids.length > 0) {
+            const fetched = await target.fetch(ids);
+            for (const record of Object.values(fetched.records || {})) {
+              if (matchesFilter(record.metadata as VectorMetadata | undefined, filter)) matching.push(record.id);
+            }
+          }
+          paginationToken = page.pagination?.next;
+        } while (paginationToken);
+
+        for (let i = 0; i < matching.length; i += DELETE_BATCH_SIZE) {
+          await target.deleteMany(matching.slice(i, i + DELETE_BATCH_SIZE));
+        }
+      },
+
+      deleteAll: async () => {
+        await target.deleteAll();
+      },
+
+      list: async (options: VectorListOptions = {}): Promise<VectorListResponse> => {
+        if ((await this.indexKind()) === 'pod') {
+          throw new Error(
+            `Pinecone index "${this.indexName}" is pod-based and cannot list vector IDs; ` +
+              'document listing and lexical index rebuilds need a serverless index'
+          );
+        }
+        const response = await target.listPaginated({
+          ...(options.prefix && { prefix: options.prefix }),
+          ...(options.limit && { limit: options.limit }),
+          ...(options.paginationToken && { paginationToken: options.paginationToken }),
+        });
+        const nextToken = response.pagination?.next;
+        return {
+          ids: (response.vectors || []).map((v) => v.id).filter((id): id is string => Boolean(id)),
+          ...(nextToken && { nextToken }),
+        };
+      },
+    };
+  }
+
+  async describeIndexStats(): Promise<VectorStoreStats> {
+    const stats = await this.index.describeIndexStats();
+    const namespaces: VectorStoreStats['namespaces'] = {};
+    for (const [name, summary] of Object.entries(stats.namespaces || {})) {
+      namespaces[name] = { recordCount: summary.recordCount };
+    }
+    return {
+      ...(stats.dimension !== undefined && { dimension: stats.dimension }),
+      totalRecordCount: stats.totalRecordCount ?? 0,
+      namespaces,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Vector Store Abstraction
+ *
+ * Backend-agnostic contract for the vector database used by ingestion,
+ * retrieval and the semantic cache. The shape deliberately mirrors the
+ * Pinecone data-plane API (namespaces, upsert/query/deleteAll,
+ * describeIndexStats) so the Pinecone implementation is a thin wrapper and
+ * other backends only need to emulate a familiar surface.
+ *
+ * Implementations:
+ * - PineconeVectorStore: hosted Pinecone index (default)
+ * - MemoryVectorStore: exact cosine search in-process (tests, offline demos)
+ */
+
+/**
+ * Metadata values a backend must be able to store and filter on.
+ * Matches Pinecone's restrictions (no nested objects, no null).
+ */
+export type VectorMetadataValue = string | number | boolean | string[];
+
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+/**
+ * Pinecone-style metadata filter, e.g.
+ * `{ source: { $eq: 'a.md' }, chunkIndex: { $gte: 2 } }`
+ */
+export type MetadataFilter = Record<string, unknown>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQueryOptions {
+  vector: number[];
+  topK: number;
+  filter?: MetadataFilter;
+  includeMetadata?: boolean;
+  includeValues?: boolean;
+}
+
+export interface VectorMatch {
+  id: string;
+  /** Similarity score, higher is more similar (cosine for local backends) */
+  score: number;
+  values?: number[];
+  metadata?: VectorMetadata;
+}
+
+export interface VectorQueryResponse {
+  matches: VectorMatch[];
+  namespace: string;
+}
+
+export interface VectorListOptions {
+  prefix?: string;
+  limit?: number;
+  paginationToken?: string;
+}
+
+export interface VectorListResponse {
+  ids: string[];
+  /** Token to pass back for the next page; absent on the last page */
+  nextToken?: string;
+}
+
+export interface VectorStoreStats {
+  dimension?: number;
+  totalRecordCount: number;
+  namespaces: Record<string, { recordCount: number }>;
+}
+
+/**
+ * Operations scoped to a single namespace (tenant isolation boundary)
+ */
+export interface VectorNamespace {
+  readonly name: string;
+
+  upsert(records: VectorRecord[]): Promise<void>;
+
+  query(options: VectorQueryOptions): Promise<VectorQueryResponse>;
+
+  /** Fetch records by ID; missing IDs are omitted from the result */
+  fetch(ids: string[]): Promise<VectorRecord[]>;
+
+  deleteMany(ids: string[]): Promise<void>;
+
+  deleteByFilter(filter: MetadataFilter): Promise<void>;
+
+  deleteAll(): Promise<void>;
+
+  list(options?: VectorListOptions): Promise<VectorListResponse>;
+}
+
+/**
+ * Vector store handle returned by createVectorClient
+ */
+export interface VectorStore {
+  /** Backend identifier, used for logging and metric labels */
+  readonly backend: string;
+
+  /** Filter operators this backend cannot evaluate; client filters using them are rejected up front */
+  readonly unsupportedFilterOperators?: readonly string[];
+
+  /**
+   * Get a handle for a namespace. An empty/omitted name is the default namespace.
+   */
+  namespace(name?: string): VectorNamespace;
+
+  describeIndexStats(): Promise<VectorStoreStats>;
+
+  /**
+   * Release connections/resources (optional)
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Cosine similarity between two vectors of equal length.
+ * Returns 0 when either vector has zero magnitude.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i]!;
+    const y = b[i]!;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}